@@ -5,12 +5,13 @@ import type { api } from '@a/be'
 import type { Preloaded } from 'convex/react'
 
 import { usePreloadedQuery } from 'convex/react'
+import { useOptimisticDoc } from 'lazyconvex/react'
 import Link from 'next/link'
 
 import { Author } from '../common'
 
 const Client = ({ preloaded }: { preloaded: Preloaded<typeof api.blog.read> }) => {
-  const b = usePreloadedQuery(preloaded)
+  const { data: b } = useOptimisticDoc(usePreloadedQuery(preloaded), 'blog')
   if (!b)
     return (
       <p className='text-muted-foreground' data-testid='blog-not-found'>
@@ -33,7 +34,7 @@ const Client = ({ preloaded }: { preloaded: Preloaded<typeof api.blog.read> }) =
           className='mt-3 w-full rounded-lg object-cover'
           data-testid='blog-detail-cover'
           height={1000}
-          src={b.coverImageUrl}
+          src={b.coverImageUrls?.hero ?? b.coverImageUrl}
           width={1000}
         />
       ) : null}
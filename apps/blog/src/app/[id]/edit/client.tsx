@@ -48,7 +48,8 @@ const Publish = ({ className, id, published, ...props }: ComponentProps<'div'> &
       form = useForm({
         autoSave: { debounceMs: 2000, enabled: true },
         onSubmit: async d => {
-          await update({ id: blog._id, ...d, expectedUpdatedAt: blog.updatedAt })
+          const { content: _, ...fields } = d
+          await update({ id: blog._id, ...fields, expectedUpdatedAt: blog.updatedAt })
           return d
         },
         schema: editBlog,
@@ -65,12 +66,18 @@ const Publish = ({ className, id, published, ...props }: ComponentProps<'div'> &
         className='flex flex-col gap-3'
         data-testid='edit-blog-form'
         form={form}
-        render={({ Arr, Err, File, Files, Text }) => (
+        render={({ Arr, CollabText, Err, File, Files, Text }) => (
           <>
             <Err error={form.error} />
             <FieldGroup className='gap-5'>
               <Text data-testid='edit-title' name='title' />
-              <Text className='min-h-64' data-testid='edit-content' multiline name='content' />
+              <CollabText
+                className='min-h-64'
+                data-testid='edit-content'
+                docId={blog._id}
+                name='content'
+                table='blog'
+              />
               <File accept='image/*' data-testid='edit-cover-image' maxSize={5 * 1024 * 1024} name='coverImage' />
               <Files
                 accept='image/*,application/pdf'
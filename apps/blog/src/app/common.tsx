@@ -192,6 +192,7 @@ const Delete = ({ id, onOptimisticRemove }: { id: Blog['_id']; onOptimisticRemov
     _id,
     content,
     coverImageUrl,
+    coverImageUrls,
     onOptimisticRemove,
     title,
     ...rest
@@ -215,7 +216,7 @@ const Delete = ({ id, onOptimisticRemove }: { id: Blog['_id']; onOptimisticRemov
             className='my-1 w-full rounded-lg object-cover'
             data-testid='blog-cover-image'
             height={1000}
-            src={coverImageUrl}
+            src={coverImageUrls?.hero ?? coverImageUrl}
             width={1000}
           />
         ) : null}
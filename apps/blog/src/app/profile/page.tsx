@@ -60,7 +60,7 @@ const Page = () => {
               <Text className='min-h-24' data-testid='profile-bio' multiline name='bio' />
               <Choose data-testid='profile-theme' name='theme' />
               <Toggle data-testid='profile-notifications' falseLabel='Off' name='notifications' trueLabel='On' />
-              <File accept='image/*' data-testid='profile-avatar' maxSize={5 * 1024 * 1024} name='avatar' />
+              <File data-testid='profile-avatar' name='avatar' />
             </FieldGroup>
             <Submit className='ml-auto' data-testid='profile-submit'>
               Save
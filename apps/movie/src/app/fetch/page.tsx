@@ -101,6 +101,7 @@ const TMDB_IMG = 'https://image.tmdb.org/t/p/w300',
             go(async () => {
               try {
                 const res = await fetchById({ tmdb_id: n })
+                if (!res) setFetchError('Movie not found')
                 setMovie(res)
               } catch {
                 setFetchError('Movie not found')
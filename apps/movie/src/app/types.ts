@@ -1,6 +1,6 @@
 import type { api } from '@a/be'
 import type { FunctionReturnType } from 'convex/server'
 
-type Movie = FunctionReturnType<typeof api.movie.load>
+type Movie = NonNullable<FunctionReturnType<typeof api.movie.load>>
 
 export type { Movie }
@@ -18,6 +18,7 @@ const JoinPage = ({ params }: { params: Promise<{ slug: string }> }) => {
   const { slug } = use(params),
     router = useRouter(),
     org = useQuery(api.org.getPublic, { slug }),
+    policy = useQuery(api.org.joinPolicy, org ? { orgId: org._id } : 'skip'),
     myRequest = useQuery(api.org.myJoinRequest, org ? { orgId: org._id } : 'skip'),
     membership = useQuery(api.org.membership, org ? { orgId: org._id } : 'skip'),
     cancelRequest = useMutation(api.org.cancelJoinRequest),
@@ -25,8 +26,8 @@ const JoinPage = ({ params }: { params: Promise<{ slug: string }> }) => {
     form = useForm({
       onSubmit: async d => {
         if (!org) return d
-        await requestJoin({ message: d.message ?? undefined, orgId: org._id })
-        toast.success('Join request sent')
+        const result = await requestJoin({ message: d.message ?? undefined, orgId: org._id })
+        toast.success(result.joined ? `Joined ${org.name}` : 'Join request sent')
         return d
       },
       resetOnSuccess: true,
@@ -57,10 +58,22 @@ const JoinPage = ({ params }: { params: Promise<{ slug: string }> }) => {
         <CardHeader className='items-center text-center'>
           <OrgAvatar name={org.name} size='lg' src={org.avatarId ? `/api/image?id=${org.avatarId}` : undefined} />
           <CardTitle className='mt-4'>{org.name}</CardTitle>
-          <CardDescription>Request to join this organization</CardDescription>
+          <CardDescription>
+            {policy?.outcome === 'auto'
+              ? 'You can join this organization right away'
+              : policy?.outcome === 'closed'
+                ? 'This organization is not accepting new members'
+                : 'Request to join this organization'}
+          </CardDescription>
         </CardHeader>
         <CardContent className='space-y-4'>
-          {myRequest ? (
+          {policy?.policy === 'domain' ? (
+            <p className='text-center text-sm text-muted-foreground'>
+              People with a verified {policy.domains.map(d => `@${d}`).join(', ')} email join automatically
+              {policy.outcome === 'auto' ? '.' : '; everyone else needs approval.'}
+            </p>
+          ) : null}
+          {policy?.outcome === 'closed' ? null : myRequest ? (
             <div className='space-y-4 text-center'>
               <p className='text-muted-foreground'>Your request is pending approval.</p>
               <Button
@@ -78,8 +91,10 @@ const JoinPage = ({ params }: { params: Promise<{ slug: string }> }) => {
               form={form}
               render={({ Submit, Text }) => (
                 <>
-                  <Text multiline name='message' placeholder='Optional message to the admins...' rows={3} />
-                  <Submit className='w-full'>Request to Join</Submit>
+                  {policy?.outcome === 'auto' ? null : (
+                    <Text multiline name='message' placeholder='Optional message to the admins...' rows={3} />
+                  )}
+                  <Submit className='w-full'>{policy?.outcome === 'auto' ? 'Join' : 'Request to Join'}</Submit>
                 </>
               )}
             />
@@ -4,6 +4,7 @@ import type { OrgRole } from 'lazyconvex'
 import type { OrgDocLike } from 'lazyconvex/server'
 import type { ReactNode } from 'react'
 
+import { orgRoles } from '@a/be/t'
 import { OrgProvider } from 'lazyconvex/react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
@@ -50,7 +51,7 @@ const OrgNav = () => {
     org: OrgDocLike
     role: OrgRole
   }) => (
-    <OrgProvider membership={membership} org={org} role={role}>
+    <OrgProvider membership={membership} org={org} role={role} roles={orgRoles}>
       <OrgNav />
       <main className='p-4'>{children}</main>
     </OrgProvider>
@@ -3,63 +3,141 @@
 import type { Id } from '@a/be/model'
 
 import { api } from '@a/be'
+import { orgRoles } from '@a/be/t'
 import { Button } from '@a/ui/button'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@a/ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@a/ui/tabs'
 import { useMutation } from 'convex/react'
 import { Form, useForm } from 'lazyconvex/components'
 import { Plus } from 'lucide-react'
 import { useState } from 'react'
 import { toast } from 'sonner'
 
-import { invite } from '~/schema'
+import { useOrg } from '~/hook/use-org'
+import { bulkInvite, invite, inviteLink } from '~/schema'
 
 interface InviteDialogProps {
   orgId: Id<'org'>
 }
 
-const InviteDialog = ({ orgId }: InviteDialogProps) => {
-  const [open, setOpen] = useState(false),
-    sendInvite = useMutation(api.org.invite),
-    form = useForm({
-      onSubmit: async d => {
-        const result = await sendInvite({ ...d, orgId })
-        if (!('token' in result)) return d
-        await navigator.clipboard.writeText(`${globalThis.location.origin}/invite/${result.token}`)
-        toast.success('Invite link copied to clipboard')
+const DAY_MS = 24 * 60 * 60 * 1000,
+  inviteUrl = (token: string) => `${globalThis.location.origin}/invite/${token}`,
+  InviteDialog = ({ orgId }: InviteDialogProps) => {
+    const { role: myRole } = useOrg(),
+      [open, setOpen] = useState(false),
+      myLevel = myRole === 'owner' ? Infinity : (orgRoles[myRole]?.level ?? -1),
+      roles = Object.entries(orgRoles)
+        .filter(([name, def]) => name !== 'owner' && def.level <= myLevel)
+        .map(([name, def]) => ({ label: def.label ?? name, value: name })),
+      sendInvite = useMutation(api.org.invite),
+      sendBulk = useMutation(api.org.bulkInvite),
+      createLink = useMutation(api.org.createInviteLink),
+      copyLink = async (token: string, message: string) => {
+        await navigator.clipboard.writeText(inviteUrl(token))
+        toast.success(message)
         setOpen(false)
-        return d
       },
-      resetOnSuccess: true,
-      schema: invite
-    })
+      single = useForm({
+        onSubmit: async d => {
+          const result = await sendInvite({ ...d, orgId })
+          await copyLink(result.token, `Invite sent to ${d.email} — link copied to clipboard`)
+          return d
+        },
+        resetOnSuccess: true,
+        schema: invite,
+        values: { email: '', role: 'member' }
+      }),
+      bulk = useForm({
+        onSubmit: async d => {
+          const { invited, skipped } = await sendBulk({ ...d, orgId })
+          toast.success(`Sent ${invited.length} invite${invited.length === 1 ? '' : 's'}`)
+          for (const s of skipped) toast.warning(`Skipped ${s.email}: ${s.reason.replaceAll('_', ' ')}`)
+          setOpen(false)
+          return d
+        },
+        resetOnSuccess: true,
+        schema: bulkInvite,
+        values: { csv: '', role: 'member' }
+      }),
+      link = useForm({
+        onSubmit: async d => {
+          const result = await createLink({
+            expiresInMs: d.expiresInDays * DAY_MS,
+            maxUses: d.maxUses,
+            orgId,
+            role: d.role
+          })
+          await copyLink(result.token, 'Invite link copied to clipboard')
+          return d
+        },
+        resetOnSuccess: true,
+        schema: inviteLink,
+        values: { expiresInDays: 7, role: 'member' }
+      })
 
-  return (
-    <Dialog onOpenChange={setOpen} open={open}>
-      <DialogTrigger asChild>
-        <Button>
-          <Plus className='mr-2 size-4' />
-          Invite member
-        </Button>
-      </DialogTrigger>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Invite member</DialogTitle>
-          <DialogDescription>Send an invite link to add someone to your organization.</DialogDescription>
-        </DialogHeader>
-        <Form
-          className='space-y-4'
-          form={form}
-          render={({ Submit, Text, Toggle }) => (
-            <>
-              <Text name='email' placeholder='email@example.com' type='email' />
-              <Toggle name='isAdmin' trueLabel='Invite as admin' />
-              <Submit className='w-full'>Create invite link</Submit>
-            </>
-          )}
-        />
-      </DialogContent>
-    </Dialog>
-  )
-}
+    return (
+      <Dialog onOpenChange={setOpen} open={open}>
+        <DialogTrigger asChild>
+          <Button>
+            <Plus className='mr-2 size-4' />
+            Invite member
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite members</DialogTitle>
+            <DialogDescription>Email invites, import a CSV, or share a link anyone can join with.</DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue='email'>
+            <TabsList className='w-full'>
+              <TabsTrigger value='email'>Email</TabsTrigger>
+              <TabsTrigger value='csv'>CSV</TabsTrigger>
+              <TabsTrigger value='link'>Link</TabsTrigger>
+            </TabsList>
+            <TabsContent value='email'>
+              <Form
+                className='space-y-4'
+                form={single}
+                render={({ Choose, Submit, Text }) => (
+                  <>
+                    <Text name='email' placeholder='email@example.com' type='email' />
+                    <Choose name='role' options={roles} />
+                    <Submit className='w-full'>Send invite</Submit>
+                  </>
+                )}
+              />
+            </TabsContent>
+            <TabsContent value='csv'>
+              <Form
+                className='space-y-4'
+                form={bulk}
+                render={({ Choose, Submit, Text }) => (
+                  <>
+                    <Text label='CSV' multiline name='csv' placeholder={'email,role\nann@example.com,viewer'} />
+                    <Choose label='Default role' name='role' options={roles} />
+                    <Submit className='w-full'>Send invites</Submit>
+                  </>
+                )}
+              />
+            </TabsContent>
+            <TabsContent value='link'>
+              <Form
+                className='space-y-4'
+                form={link}
+                render={({ Choose, Num, Submit }) => (
+                  <>
+                    <Choose name='role' options={roles} />
+                    <Num label='Expires in (days)' name='expiresInDays' />
+                    <Num label='Max uses' name='maxUses' placeholder='Unlimited' />
+                    <Submit className='w-full'>Create invite link</Submit>
+                  </>
+                )}
+              />
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    )
+  }
 
 export default InviteDialog
@@ -0,0 +1,71 @@
+/* oxlint-disable promise/prefer-await-to-then */
+'use client'
+
+import { api } from '@a/be'
+import { orgRoles } from '@a/be/t'
+import { fail, formatExpiry } from '@a/fe/utils'
+import { Button } from '@a/ui/button'
+import { Skeleton } from '@a/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@a/ui/table'
+import { useMutation } from 'convex/react'
+import { RoleBadge } from 'lazyconvex/components'
+import { useOrgQuery } from 'lazyconvex/react'
+import { Copy, Trash } from 'lucide-react'
+import { toast } from 'sonner'
+
+const InviteLinks = () => {
+  const links = useOrgQuery(api.org.inviteLinks),
+    revokeInviteLink = useMutation(api.org.revokeInviteLink)
+
+  if (links === undefined) return <Skeleton className='h-20 w-full' />
+  if (links.length === 0) return null
+
+  const handleCopy = (token: string) => {
+      navigator.clipboard
+        .writeText(`${globalThis.location.origin}/invite/${token}`)
+        .then(() => toast.success('Invite link copied'))
+        .catch(() => toast.error('Failed to copy'))
+    },
+    handleRevoke = (linkId: (typeof links)[number]['_id']) => {
+      revokeInviteLink({ linkId })
+        .then(() => toast.success('Invite link revoked'))
+        .catch(fail)
+    }
+
+  return (
+    <div className='space-y-2'>
+      <h3 className='font-medium'>Invite Links</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Role</TableHead>
+            <TableHead>Uses</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead className='w-20' />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {links.map(l => (
+            <TableRow key={l._id}>
+              <TableCell>
+                <RoleBadge role={l.role ?? (l.isAdmin ? 'admin' : 'member')} roles={orgRoles} />
+              </TableCell>
+              <TableCell className='text-sm'>{l.maxUses === undefined ? l.uses : `${l.uses} / ${l.maxUses}`}</TableCell>
+              <TableCell className='text-sm text-muted-foreground'>{formatExpiry(l.expiresAt)}</TableCell>
+              <TableCell className='flex gap-1'>
+                <Button onClick={() => handleCopy(l.token)} size='icon' variant='ghost'>
+                  <Copy className='size-4' />
+                </Button>
+                <Button onClick={() => handleRevoke(l._id)} size='icon' variant='ghost'>
+                  <Trash className='size-4' />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+export default InviteLinks
@@ -2,6 +2,7 @@
 'use client'
 
 import { api } from '@a/be'
+import { orgRoles } from '@a/be/t'
 import { fail } from '@a/fe/utils'
 import { Avatar, AvatarFallback, AvatarImage } from '@a/ui/avatar'
 import { Button } from '@a/ui/button'
@@ -17,10 +18,13 @@ import { toast } from 'sonner'
 import { useOrg } from '~/hook/use-org'
 
 const MemberList = () => {
-  const { canManageAdmins, canManageMembers, role: myRole } = useOrg(),
+  const { can, canManageMembers, role: myRole } = useOrg(),
     members = useOrgQuery(api.org.members),
     removeMember = useMutation(api.org.removeMember),
-    setAdmin = useMutation(api.org.setAdmin)
+    setRole = useMutation(api.org.setRole),
+    myLevel = myRole === 'owner' ? Infinity : (orgRoles[myRole]?.level ?? -1),
+    assignable = Object.entries(orgRoles).filter(([name, def]) => name !== 'owner' && def.level < myLevel),
+    outranks = (role: string) => myRole === 'owner' || (orgRoles[role]?.level ?? -1) < myLevel
 
   if (!members) return <Skeleton className='h-40 w-full' />
 
@@ -31,9 +35,9 @@ const MemberList = () => {
         .then(() => toast.success('Member removed'))
         .catch(fail)
     },
-    handleToggleAdmin = (memberId: MemberId, isAdmin: boolean) => {
-      setAdmin({ isAdmin: !isAdmin, memberId })
-        .then(() => toast.success(isAdmin ? 'Demoted to member' : 'Promoted to admin'))
+    handleSetRole = (memberId: MemberId, role: string, label: string) => {
+      setRole({ memberId, role })
+        .then(() => toast.success(`Role changed to ${label}`))
         .catch(fail)
     }
 
@@ -60,7 +64,7 @@ const MemberList = () => {
                 <span>{m.user?.name ?? 'Unknown'}</span>
               </TableCell>
               <TableCell>
-                <RoleBadge role={m.role} />
+                <RoleBadge role={m.role} roles={orgRoles} />
               </TableCell>
               {canManageMembers ? (
                 <TableCell>
@@ -72,12 +76,18 @@ const MemberList = () => {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align='end'>
-                        {canManageAdmins ? (
-                          <DropdownMenuItem onSelect={() => handleToggleAdmin(memberId, m.role === 'admin')}>
-                            {m.role === 'admin' ? 'Demote to member' : 'Promote to admin'}
-                          </DropdownMenuItem>
-                        ) : null}
-                        {(myRole === 'owner' || m.role === 'member') && (
+                        {can('members.roles') && outranks(m.role)
+                          ? assignable
+                              .filter(([name]) => name !== m.role)
+                              .map(([name, def]) => (
+                                <DropdownMenuItem
+                                  key={name}
+                                  onSelect={() => handleSetRole(memberId, name, def.label ?? name)}>
+                                  Make {def.label ?? name}
+                                </DropdownMenuItem>
+                              ))
+                          : null}
+                        {can('members.remove') && outranks(m.role) && (
                           <DropdownMenuItem className='text-destructive' onSelect={() => handleRemove(memberId)}>
                             <UserMinus className='mr-2 size-4' />
                             Remove
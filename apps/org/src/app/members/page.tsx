@@ -3,12 +3,14 @@
 import { useOrg } from '~/hook/use-org'
 
 import InviteDialog from './invite-dialog'
+import InviteLinks from './invite-links'
 import JoinRequests from './join-requests'
 import MemberList from './member-list'
 import PendingInvites from './pending-invites'
+import Webhooks from './webhooks'
 
 const MembersPage = () => {
-  const { canManageMembers, org } = useOrg()
+  const { can, canManageMembers, org } = useOrg()
   return (
     <div className='space-y-6'>
       <div className='flex items-center justify-between'>
@@ -17,7 +19,9 @@ const MembersPage = () => {
       </div>
       <MemberList />
       {canManageMembers ? <PendingInvites /> : null}
+      {canManageMembers ? <InviteLinks /> : null}
       {canManageMembers ? <JoinRequests /> : null}
+      {can('webhooks.manage') ? <Webhooks /> : null}
     </div>
   )
 }
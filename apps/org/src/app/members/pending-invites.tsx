@@ -2,6 +2,7 @@
 'use client'
 
 import { api } from '@a/be'
+import { orgRoles } from '@a/be/t'
 import { fail, formatExpiry } from '@a/fe/utils'
 import { Button } from '@a/ui/button'
 import { Skeleton } from '@a/ui/skeleton'
@@ -9,11 +10,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useMutation } from 'convex/react'
 import { RoleBadge } from 'lazyconvex/components'
 import { useOrgQuery } from 'lazyconvex/react'
-import { Copy, Trash } from 'lucide-react'
+import { Copy, Send, Trash } from 'lucide-react'
 import { toast } from 'sonner'
 
 const PendingInvites = () => {
   const invites = useOrgQuery(api.org.pendingInvites),
+    resendInvite = useMutation(api.org.resendInvite),
     revokeInvite = useMutation(api.org.revokeInvite)
 
   if (invites === undefined) return <Skeleton className='h-20 w-full' />
@@ -26,6 +28,11 @@ const PendingInvites = () => {
         .then(() => toast.success('Invite link copied'))
         .catch(() => toast.error('Failed to copy'))
     },
+    handleResend = (inviteId: (typeof invites)[number]['_id']) => {
+      resendInvite({ inviteId })
+        .then(() => toast.success('Invite resent'))
+        .catch(fail)
+    },
     handleRevoke = (inviteId: (typeof invites)[number]['_id']) => {
       revokeInvite({ inviteId })
         .then(() => toast.success('Invite revoked'))
@@ -41,7 +48,7 @@ const PendingInvites = () => {
             <TableHead>Email</TableHead>
             <TableHead>Role</TableHead>
             <TableHead>Expires</TableHead>
-            <TableHead className='w-20' />
+            <TableHead className='w-28' />
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -49,13 +56,16 @@ const PendingInvites = () => {
             <TableRow key={i._id}>
               <TableCell>{i.email}</TableCell>
               <TableCell>
-                <RoleBadge role={i.isAdmin ? 'admin' : 'member'} />
+                <RoleBadge role={i.role ?? (i.isAdmin ? 'admin' : 'member')} roles={orgRoles} />
               </TableCell>
               <TableCell className='text-sm text-muted-foreground'>{formatExpiry(i.expiresAt)}</TableCell>
               <TableCell className='flex gap-1'>
                 <Button onClick={() => handleCopy(i.token)} size='icon' variant='ghost'>
                   <Copy className='size-4' />
                 </Button>
+                <Button onClick={() => handleResend(i._id)} size='icon' variant='ghost'>
+                  <Send className='size-4' />
+                </Button>
                 <Button onClick={() => handleRevoke(i._id)} size='icon' variant='ghost'>
                   <Trash className='size-4' />
                 </Button>
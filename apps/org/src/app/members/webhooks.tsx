@@ -0,0 +1,165 @@
+/* oxlint-disable promise/prefer-await-to-then */
+'use client'
+
+import { api } from '@a/be'
+import { fail, formatDate } from '@a/fe/utils'
+import { Badge } from '@a/ui/badge'
+import { Button } from '@a/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@a/ui/dialog'
+import { Skeleton } from '@a/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@a/ui/table'
+import { Form, useForm } from 'lazyconvex/components'
+import { useOrgMutation, useOrgQuery } from 'lazyconvex/react'
+import { Copy, Plus, Trash } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { webhook } from '~/schema'
+
+const EVENTS = ['project', 'task', 'wiki'].flatMap(table =>
+    ['create', 'update', 'delete'].map(op => ({ label: `${table}.${op}`, value: `${table}.${op}` }))
+  ),
+  STATUS_VARIANT = { done: 'secondary', failed: 'destructive', pending: 'outline', running: 'outline' } as const,
+  WebhookDialog = () => {
+    const [open, setOpen] = useState(false),
+      [secret, setSecret] = useState<null | string>(null),
+      create = useOrgMutation(api.orgWebhook.create),
+      form = useForm({
+        onSubmit: async d => {
+          const result = await create(d)
+          setSecret(result.secret)
+          return d
+        },
+        resetOnSuccess: true,
+        schema: webhook
+      }),
+      handleOpenChange = (next: boolean) => {
+        setOpen(next)
+        if (!next) setSecret(null)
+      },
+      handleCopy = (value: string) => {
+        navigator.clipboard
+          .writeText(value)
+          .then(() => toast.success('Signing secret copied'))
+          .catch(() => toast.error('Failed to copy'))
+      }
+
+    return (
+      <Dialog onOpenChange={handleOpenChange} open={open}>
+        <DialogTrigger asChild>
+          <Button size='sm' variant='outline'>
+            <Plus className='mr-2 size-4' />
+            Add webhook
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add webhook</DialogTitle>
+            <DialogDescription>
+              {secret
+                ? 'Copy the signing secret now. It will not be shown again.'
+                : 'Send signed POST requests to your endpoint when org content changes.'}
+            </DialogDescription>
+          </DialogHeader>
+          {secret ? (
+            <div className='flex items-center gap-2'>
+              <code className='flex-1 truncate rounded-sm bg-muted px-2 py-1 text-sm'>{secret}</code>
+              <Button onClick={() => handleCopy(secret)} size='icon' variant='ghost'>
+                <Copy className='size-4' />
+              </Button>
+            </div>
+          ) : (
+            <Form
+              className='space-y-4'
+              form={form}
+              render={({ MultiSelect, Submit, Text }) => (
+                <>
+                  <Text name='url' placeholder='https://example.com/hooks/org' type='url' />
+                  <MultiSelect name='events' options={EVENTS} placeholder='Select events' />
+                  <Submit className='w-full'>Create webhook</Submit>
+                </>
+              )}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    )
+  },
+  Webhooks = () => {
+    const hooks = useOrgQuery(api.orgWebhook.list),
+      deliveries = useOrgQuery(api.orgWebhook.deliveries),
+      rm = useOrgMutation(api.orgWebhook.rm)
+
+    if (hooks === undefined) return <Skeleton className='h-20 w-full' />
+
+    const handleRemove = (webhookId: (typeof hooks)[number]['_id']) => {
+      rm({ webhookId })
+        .then(() => toast.success('Webhook removed'))
+        .catch(fail)
+    }
+
+    return (
+      <div className='space-y-2'>
+        <div className='flex items-center justify-between'>
+          <h3 className='font-medium'>Webhooks</h3>
+          <WebhookDialog />
+        </div>
+        {hooks.length === 0 ? (
+          <p className='text-sm text-muted-foreground'>No webhooks yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Secret</TableHead>
+                <TableHead className='w-12' />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {hooks.map(h => (
+                <TableRow key={h._id}>
+                  <TableCell className='max-w-64 truncate'>{h.url}</TableCell>
+                  <TableCell className='text-sm text-muted-foreground'>{h.events.join(', ')}</TableCell>
+                  <TableCell className='font-mono text-sm'>{h.secretHint}</TableCell>
+                  <TableCell>
+                    <Button onClick={() => handleRemove(h._id)} size='icon' variant='ghost'>
+                      <Trash className='size-4' />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {deliveries?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Sent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map(d => (
+                <TableRow key={d._id}>
+                  <TableCell>{d.event}</TableCell>
+                  <TableCell>
+                    <Badge title={d.error} variant={STATUS_VARIANT[d.status]}>
+                      {d.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{d.attempts}</TableCell>
+                  <TableCell className='text-sm text-muted-foreground'>{formatDate(d._creationTime)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : null}
+      </div>
+    )
+  }
+
+export default Webhooks
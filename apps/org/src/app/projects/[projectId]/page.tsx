@@ -19,7 +19,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Skeleton } from '@a/ui/skeleton'
 import { useQuery } from 'convex/react'
 import { EditorsSection } from 'lazyconvex/components'
-import { canEditResource, useOrgMutation, useOrgQuery } from 'lazyconvex/react'
+import { canEditResource, useOrgMutation, useOrgQuery, useRead } from 'lazyconvex/react'
 import { enumToOptions } from 'lazyconvex/zod'
 import { Check, Pencil, Plus, Trash, X } from 'lucide-react'
 import Link from 'next/link'
@@ -140,9 +140,9 @@ const TaskRow = ({ canAssign, canEdit, members, onAssign, onDelete, onToggle, on
   },
   ProjectDetailPage = ({ params }: { params: Promise<{ projectId: Id<'project'> }> }) => {
     const { projectId } = use(params),
-      { isAdmin } = useOrg(),
+      { isAdmin, orgId } = useOrg(),
       me = useQuery(api.user.me, {}),
-      project = useOrgQuery(api.project.read, { id: projectId }),
+      { data: project } = useRead(api.project.read, { id: projectId, orgId }),
       tasks = useOrgQuery(api.task.byProject, { projectId }),
       members = useOrgQuery(api.org.members),
       editorsList = useOrgQuery(api.project.editors, { projectId }),
@@ -35,7 +35,7 @@ const wikiRestore = (api.wiki as typeof api.wiki & { restore: typeof api.wiki.rm
         autoSave: { debounceMs: 2000, enabled: true },
         mutation: api.wiki.update,
         schema: orgScoped.wiki,
-        transform: d => ({ ...d, expectedUpdatedAt: wiki?.updatedAt, id: wikiId, orgId: org._id }),
+        transform: ({ content: _, ...d }) => ({ ...d, expectedUpdatedAt: wiki?.updatedAt, id: wikiId, orgId: org._id }),
         values: wiki ? pickValues(orgScoped.wiki, wiki) : undefined
       }),
       handleDelete = () => {
@@ -48,12 +48,12 @@ const wikiRestore = (api.wiki as typeof api.wiki & { restore: typeof api.wiki.rm
       <Form
         className='space-y-4'
         form={form}
-        render={({ Choose, Text }) => (
+        render={({ Choose, CollabText, Text }) => (
           <>
             <FieldGroup>
               <Text name='title' placeholder='Page title' />
               <Text name='slug' placeholder='my-wiki-page' />
-              <Text multiline name='content' />
+              <CollabText docId={wikiId} name='content' table='wiki' />
               <Choose name='status' />
             </FieldGroup>
             <div className='flex items-center gap-2'>
@@ -1,9 +1,15 @@
 import { org, singleton } from '@a/be/t'
 import { cvFile } from 'lazyconvex/schema'
-import { boolean, email, object, string } from 'zod/v4'
+import { array, email, number, object, string, url } from 'zod/v4'
 
 const orgTeam = org.team.omit({ avatarId: true }),
-  invite = object({ email: email(), isAdmin: boolean() }),
+  invite = object({ email: email(), role: string().min(1) }),
+  bulkInvite = object({ csv: string().min(1), role: string().min(1) }),
+  inviteLink = object({
+    expiresInDays: number().int().min(1).max(30),
+    maxUses: number().int().min(1).optional(),
+    role: string().min(1)
+  }),
   joinRequest = object({ message: string().optional() }),
   profileStep = singleton.orgProfile.pick({ avatar: true, bio: true, displayName: true }),
   orgStep = object({
@@ -15,6 +21,18 @@ const orgTeam = org.team.omit({ avatarId: true }),
   appearanceStep = object({
     orgAvatar: cvFile().nullable().optional()
   }),
-  preferencesStep = singleton.orgProfile.pick({ notifications: true, theme: true })
+  preferencesStep = singleton.orgProfile.pick({ notifications: true, theme: true }),
+  webhook = object({ events: array(string()).min(1), url: url() })
 
-export { appearanceStep, invite, joinRequest, orgStep, orgTeam, preferencesStep, profileStep }
+export {
+  appearanceStep,
+  bulkInvite,
+  invite,
+  inviteLink,
+  joinRequest,
+  orgStep,
+  orgTeam,
+  preferencesStep,
+  profileStep,
+  webhook
+}
@@ -8,17 +8,25 @@
  * @module
  */
 
+import type * as audit from "../audit.js";
 import type * as auth from "../auth.js";
 import type * as blog from "../blog.js";
 import type * as blogProfile from "../blogProfile.js";
 import type * as chat from "../chat.js";
+import type * as collab from "../collab.js";
+import type * as crons from "../crons.js";
 import type * as file from "../file.js";
+import type * as fileGc from "../fileGc.js";
 import type * as http from "../http.js";
+import type * as imageVariants from "../imageVariants.js";
+import type * as jobs from "../jobs.js";
 import type * as message from "../message.js";
 import type * as mobileAi from "../mobileAi.js";
 import type * as movie from "../movie.js";
 import type * as org from "../org.js";
 import type * as orgProfile from "../orgProfile.js";
+import type * as orgWebhook from "../orgWebhook.js";
+import type * as presence from "../presence.js";
 import type * as project from "../project.js";
 import type * as task from "../task.js";
 import type * as testauth from "../testauth.js";
@@ -33,17 +41,25 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  audit: typeof audit;
   auth: typeof auth;
   blog: typeof blog;
   blogProfile: typeof blogProfile;
   chat: typeof chat;
+  collab: typeof collab;
+  crons: typeof crons;
   file: typeof file;
+  fileGc: typeof fileGc;
   http: typeof http;
+  imageVariants: typeof imageVariants;
+  jobs: typeof jobs;
   message: typeof message;
   mobileAi: typeof mobileAi;
   movie: typeof movie;
   org: typeof org;
   orgProfile: typeof orgProfile;
+  orgWebhook: typeof orgWebhook;
+  presence: typeof presence;
   project: typeof project;
   task: typeof task;
   testauth: typeof testauth;
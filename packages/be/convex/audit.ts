@@ -0,0 +1,10 @@
+import { makeAudit } from 'lazyconvex/server'
+
+import { q } from '../lazy'
+import { orgRoles } from '../t'
+import { audit as blog } from './blog'
+import { audit as project } from './project'
+import { audit as task } from './task'
+import { audit as wiki } from './wiki'
+
+export const { history, orgActivity } = makeAudit({ q, roles: orgRoles, tables: { blog, project, task, wiki } })
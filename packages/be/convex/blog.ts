@@ -6,13 +6,26 @@ import { crud, m, pq } from '../lazy'
 import { owned } from '../t'
 
 const {
+    audit,
     bulkRm,
     bulkUpdate,
+    collab,
     create,
     pub: { list, read, search },
     rm,
     update
-  } = crud('blog', owned.blog, { rateLimit: { max: 10, window: 60_000 }, search: 'content' }),
+  } = crud('blog', owned.blog, {
+    effects: [
+      {
+        job: 'blogPublished',
+        on: 'update',
+        payload: ({ doc, id }) => ({ id, title: doc.title }),
+        when: ({ doc, prev }) => doc.published === true && prev?.published !== true
+      }
+    ],
+    rateLimit: { max: 10, window: 60_000 },
+    search: 'content'
+  }),
   postStats = pq({
     args: {},
     handler: async ctx => {
@@ -55,4 +68,18 @@ const {
     }
   })
 
-export { authorPosts, bulkRm, bulkUpdate, create, list, postStats, read, rm, search, togglePublish, update }
+export {
+  audit,
+  authorPosts,
+  bulkRm,
+  bulkUpdate,
+  collab,
+  create,
+  list,
+  postStats,
+  read,
+  rm,
+  search,
+  togglePublish,
+  update
+}
@@ -0,0 +1,7 @@
+import { makeCollab } from 'lazyconvex/server'
+
+import { m, q } from '../lazy'
+import { collab as blog } from './blog'
+import { collab as wiki } from './wiki'
+
+export const { apply, read } = makeCollab({ m, q, tables: { blog, wiki } })
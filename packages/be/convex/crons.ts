@@ -0,0 +1,13 @@
+import { cronJobs } from 'convex/server'
+
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+crons.interval('expire chunked uploads', { hours: 1 }, internal.file.expireUploads, {})
+crons.interval('collect orphaned files', { hours: 24 }, internal.fileGc.collect, {})
+crons.interval('purge movie cache', { hours: 1 }, internal.movie.purgeInternal, {})
+crons.interval('revalidate stale movies', { minutes: 15 }, internal.movie.revalidateStale, {})
+crons.interval('reclaim stuck jobs', { minutes: 5 }, internal.jobs.reclaimJobs, {})
+
+export default crons
@@ -1,12 +1,15 @@
 /* eslint-disable no-await-in-loop, @typescript-eslint/no-magic-numbers */
 // oxlint-disable promise/prefer-await-to-then
 // biome-ignore-all lint/performance/noAwaitInLoops: test fixtures
+import type { ConvexErrorData } from 'lazyconvex/server'
+
 import { describe, expect, test } from 'bun:test'
 import { convexTest } from 'convex-test'
+import { extractErrorData, FILE_GC_GRACE_MS, UPLOAD_SESSION_TTL } from 'lazyconvex/server'
 import { createTestContext } from 'lazyconvex/test'
 import { discoverModules } from 'lazyconvex/test/discover'
 
-import { api } from './_generated/api'
+import { api, internal } from './_generated/api'
 import schema from './schema'
 
 const modules = discoverModules('convex', {
@@ -140,7 +143,7 @@ describe('cache CRUD (movie)', () => {
   describe('movie.create', () => {
     test('creates a movie entry', async () => {
       const ctx = t(),
-        id = await ctx.mutation(api.movie.create, movieData)
+        id = await ctx.mutation(internal.movie.createInternal, movieData)
       expect(id).toBeDefined()
 
       const doc = await ctx.run(async c => c.db.get(id as never))
@@ -153,7 +156,7 @@ describe('cache CRUD (movie)', () => {
   describe('movie.get', () => {
     test('returns cached movie by key', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, movieData)
+      await ctx.mutation(internal.movie.createInternal, movieData)
 
       const result = await ctx.query(api.movie.get, { tmdb_id: 12_345 })
       expect(result).not.toBeNull()
@@ -170,32 +173,188 @@ describe('cache CRUD (movie)', () => {
     test('returns null for expired entry', async () => {
       const ctx = t()
       await ctx.run(async c => {
-        const old = Date.now() - 8 * 24 * 60 * 60 * 1000
+        const old = Date.now() - 15 * 24 * 60 * 60 * 1000
         await c.db.insert('movie', { ...movieData, updatedAt: old })
       })
 
       const result = await ctx.query(api.movie.get, { tmdb_id: 12_345 })
       expect(result).toBeNull()
     })
+
+    test('serves a stale entry inside the stale window', async () => {
+      const ctx = t()
+      await ctx.run(async c => {
+        const old = Date.now() - 8 * 24 * 60 * 60 * 1000
+        await c.db.insert('movie', { ...movieData, updatedAt: old })
+      })
+
+      const result = await ctx.query(api.movie.get, { tmdb_id: 12_345 })
+      expect(result?.stale).toBe(true)
+    })
+  })
+
+  describe('movie background revalidation', () => {
+    test('schedules one refresh per stale key', async () => {
+      const ctx = t()
+      await ctx.run(async c => {
+        await c.db.insert('movie', { ...movieData, updatedAt: Date.now() - 8 * 24 * 60 * 60 * 1000 })
+        await c.db.insert('movie', { ...movieData, tmdb_id: 1, updatedAt: Date.now() })
+      })
+
+      const first = await ctx.mutation(internal.movie.scheduleRevalidate, { tmdb_id: 12_345 }),
+        second = await ctx.mutation(internal.movie.scheduleRevalidate, { tmdb_id: 12_345 }),
+        fresh = await ctx.mutation(internal.movie.scheduleRevalidate, { tmdb_id: 1 }),
+        scheduled = await ctx.run(async c => {
+          const jobs = await c.db.system.query('_scheduled_functions').collect()
+          for (const j of jobs) await c.scheduler.cancel(j._id)
+          return jobs
+        })
+      expect([first, second, fresh]).toEqual([true, false, false])
+      expect(scheduled).toHaveLength(1)
+      expect(scheduled[0]?.name).toContain('revalidate')
+    })
+
+    test('revalidateStale leases and schedules every stale entry once', async () => {
+      const ctx = t(),
+        day = 24 * 60 * 60 * 1000,
+        now = Date.now()
+      await ctx.run(async c => {
+        await c.db.insert('movie', { ...movieData, tmdb_id: 1, updatedAt: now - 15 * day })
+        await c.db.insert('movie', { ...movieData, tmdb_id: 2, updatedAt: now - 8 * day })
+        await c.db.insert('movie', { ...movieData, revalidatingAt: now, tmdb_id: 3, updatedAt: now - 8 * day })
+        await c.db.insert('movie', { ...movieData, tmdb_id: 4, updatedAt: now })
+      })
+
+      const first = await ctx.mutation(internal.movie.revalidateStale, {}),
+        second = await ctx.mutation(internal.movie.revalidateStale, {}),
+        scheduled = await ctx.run(async c => {
+          const jobs = await c.db.system.query('_scheduled_functions').collect()
+          for (const j of jobs) await c.scheduler.cancel(j._id)
+          return jobs
+        })
+      expect([first, second]).toEqual([1, 0])
+      expect(scheduled.map(j => j.args[0])).toEqual([{ tmdb_id: 2 }])
+    })
+
+    test('set clears the revalidation lease', async () => {
+      const ctx = t(),
+        id = await ctx.run(async c => c.db.insert('movie', { ...movieData, revalidatingAt: Date.now(), updatedAt: 0 }))
+      await ctx.mutation(internal.movie.set, { data: { ...movieData, title: 'Fresh' } })
+
+      const doc = await ctx.run(async c => c.db.get(id))
+      expect(doc?.revalidatingAt).toBeUndefined()
+      expect(doc?.title).toBe('Fresh')
+    })
+
+    test('purgeInternal removes only entries past the stale window', async () => {
+      const ctx = t(),
+        day = 24 * 60 * 60 * 1000
+      await ctx.run(async c => {
+        await c.db.insert('movie', { ...movieData, tmdb_id: 1, updatedAt: Date.now() - 15 * day })
+        await c.db.insert('movie', { ...movieData, tmdb_id: 2, updatedAt: Date.now() - 8 * day })
+        await c.db.insert('movie', { ...movieData, tmdb_id: 3, updatedAt: Date.now() })
+      })
+
+      const purged = await ctx.mutation(internal.movie.purgeInternal, {}),
+        left = await ctx.query(api.movie.all, { includeExpired: true })
+      expect(purged).toBe(1)
+      expect(left.map(m => m.tmdb_id).toSorted()).toEqual([2, 3])
+    })
+  })
+
+  describe('movie negative caching', () => {
+    test('setMany records misses and clears them once the key is found', async () => {
+      const ctx = t()
+      await ctx.mutation(internal.movie.setMany, { data: [], missing: [404] })
+
+      const [missed] = await ctx.query(internal.movie.lookup, { keys: [404] })
+      expect(missed).toEqual({ doc: null, missed: true })
+
+      await ctx.mutation(internal.movie.setMany, { data: [{ ...movieData, tmdb_id: 404 }], missing: [] })
+      const [found] = await ctx.query(internal.movie.lookup, { keys: [404] })
+      expect(found?.missed).toBe(false)
+      expect(found?.doc?.tmdb_id).toBe(404)
+    })
+
+    test('loadMany answers hits and known misses without fetching', async () => {
+      const ctx = t()
+      await ctx.run(async c => c.db.insert('movie', { ...movieData, tmdb_id: 1, updatedAt: Date.now() }))
+      await ctx.mutation(internal.movie.setMany, { data: [], missing: [2] })
+
+      const res = await ctx.action(api.movie.loadMany, { keys: [1, 2, 1] })
+      expect(res.map(m => m?.tmdb_id ?? null)).toEqual([1, null, 1])
+      expect(res[0]?.cacheHit).toBe(true)
+    })
+
+    test('loadMany fetches every miss in one batchFetcher call and caches the result', async () => {
+      const ctx = t(),
+        realFetch = globalThis.fetch,
+        requested: string[] = []
+      globalThis.fetch = (async (input: Request | string | URL) => {
+        const { pathname } = new URL(input instanceof Request ? input.url : input)
+        requested.push(pathname)
+        return pathname.endsWith('/7')
+          ? Response.json({ ...movieData, id: 7, tmdb_id: undefined })
+          : new Response(null, { status: 404 })
+      }) as typeof fetch
+      try {
+        await ctx.run(async c => c.db.insert('movie', { ...movieData, tmdb_id: 1, updatedAt: Date.now() }))
+        const first = await ctx.action(api.movie.loadMany, { keys: [1, 7, 8] })
+        expect(first.map(m => m?.tmdb_id ?? null)).toEqual([1, 7, null])
+        expect(first.map(m => m?.cacheHit ?? null)).toEqual([true, false, null])
+        expect(requested.toSorted()).toEqual(['/3/movie/7', '/3/movie/8'])
+
+        const again = await ctx.action(api.movie.loadMany, { keys: [7, 8] })
+        expect(again.map(m => m?.cacheHit ?? null)).toEqual([true, null])
+        expect(requested.length).toBe(2)
+      } finally {
+        globalThis.fetch = realFetch
+      }
+    })
+
+    test('purgeInternal drops expired misses', async () => {
+      const ctx = t()
+      await ctx.run(async c => {
+        await c.db.insert('cacheMiss', { key: '1', table: 'movie', updatedAt: 0 })
+        await c.db.insert('cacheMiss', { key: '2', table: 'movie', updatedAt: Date.now() })
+      })
+
+      expect(await ctx.mutation(internal.movie.purgeInternal, {})).toBe(1)
+      const left = await ctx.run(async c => c.db.query('cacheMiss').collect())
+      expect(left.map(m => m.key)).toEqual(['2'])
+    })
+
+    test('purgeInternal reschedules while expired misses fill a batch', async () => {
+      const ctx = t()
+      await ctx.run(async c => {
+        for (const key of ['1', '2', '3']) await c.db.insert('cacheMiss', { key, table: 'movie', updatedAt: 0 })
+      })
+
+      expect(await ctx.mutation(internal.movie.purgeInternal, { batchSize: 2 })).toBe(2)
+      const scheduled = await ctx.run(async c => c.db.system.query('_scheduled_functions').collect())
+      expect(scheduled.map(j => j.name)).toEqual(['movie:purgeInternal'])
+      await ctx.finishAllScheduledFunctions(() => undefined)
+      expect(await ctx.run(async c => c.db.query('cacheMiss').collect())).toEqual([])
+    })
   })
 
   describe('movie.update', () => {
     test('updates existing movie', async () => {
       const ctx = t(),
-        id = await ctx.mutation(api.movie.create, movieData),
-        updated = await ctx.mutation(api.movie.update, { id, title: 'Updated Movie' })
+        id = await ctx.mutation(internal.movie.createInternal, movieData),
+        updated = await ctx.mutation(internal.movie.updateInternal, { id, title: 'Updated Movie' })
       expect((updated as Record<string, unknown>).title).toBe('Updated Movie')
       expect((updated as Record<string, unknown>).tmdb_id).toBe(12_345)
     })
 
     test('rejects update for non-existent id', async () => {
       const ctx = t(),
-        id = await ctx.mutation(api.movie.create, movieData)
-      await ctx.mutation(api.movie.rm, { id })
+        id = await ctx.mutation(internal.movie.createInternal, movieData)
+      await ctx.mutation(internal.movie.rmInternal, { id })
 
       let threw = false
       try {
-        await ctx.mutation(api.movie.update, { id, title: 'Nope' })
+        await ctx.mutation(internal.movie.updateInternal, { id, title: 'Nope' })
       } catch (error) {
         threw = true
         expect(String(error)).toContain('NOT_FOUND')
@@ -207,8 +366,8 @@ describe('cache CRUD (movie)', () => {
   describe('movie.rm', () => {
     test('removes existing movie', async () => {
       const ctx = t(),
-        id = await ctx.mutation(api.movie.create, movieData)
-      await ctx.mutation(api.movie.rm, { id })
+        id = await ctx.mutation(internal.movie.createInternal, movieData)
+      await ctx.mutation(internal.movie.rmInternal, { id })
 
       const doc = await ctx.run(async c => c.db.get(id as never))
       expect(doc).toBeNull()
@@ -216,10 +375,10 @@ describe('cache CRUD (movie)', () => {
 
     test('rm on non-existent id returns null', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, movieData)
-      const id = await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 99 })
-      await ctx.mutation(api.movie.rm, { id })
-      const secondRm = await ctx.mutation(api.movie.rm, { id })
+      await ctx.mutation(internal.movie.createInternal, movieData)
+      const id = await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 99 })
+      await ctx.mutation(internal.movie.rmInternal, { id })
+      const secondRm = await ctx.mutation(internal.movie.rmInternal, { id })
       expect(secondRm).toBeNull()
     })
   })
@@ -227,8 +386,8 @@ describe('cache CRUD (movie)', () => {
   describe('movie.all', () => {
     test('returns all non-expired movies', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 1 })
-      await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 2 })
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 1 })
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 2 })
 
       const results = await ctx.query(api.movie.all, {})
       expect(results.length).toBe(2)
@@ -236,7 +395,7 @@ describe('cache CRUD (movie)', () => {
 
     test('excludes expired without includeExpired', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 1 })
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 1 })
 
       const old = Date.now() - 8 * 24 * 60 * 60 * 1000
       await ctx.run(async c => {
@@ -249,7 +408,7 @@ describe('cache CRUD (movie)', () => {
 
     test('includes expired with includeExpired: true', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 1 })
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 1 })
 
       const old = Date.now() - 8 * 24 * 60 * 60 * 1000
       await ctx.run(async c => {
@@ -264,7 +423,7 @@ describe('cache CRUD (movie)', () => {
   describe('movie.list', () => {
     test('returns paginated results', async () => {
       const ctx = t()
-      for (let i = 0; i < 5; i += 1) await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: i })
+      for (let i = 0; i < 5; i += 1) await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: i })
 
       const result = await ctx.query(api.movie.list, {
         paginationOpts: { cursor: null, numItems: 3 }
@@ -274,7 +433,7 @@ describe('cache CRUD (movie)', () => {
 
     test('pagination with includeExpired', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, { ...movieData, tmdb_id: 1 })
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, tmdb_id: 1 })
 
       const old = Date.now() - 8 * 24 * 60 * 60 * 1000
       await ctx.run(async c => {
@@ -295,12 +454,12 @@ describe('cache CRUD (movie)', () => {
   describe('movie.invalidate', () => {
     test('removes movie by key', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, movieData)
+      await ctx.mutation(internal.movie.createInternal, movieData)
 
       const before = await ctx.query(api.movie.get, { tmdb_id: 12_345 })
       expect(before).not.toBeNull()
 
-      await ctx.mutation(api.movie.invalidate, { tmdb_id: 12_345 })
+      await ctx.mutation(internal.movie.invalidateInternal, { tmdb_id: 12_345 })
 
       const after = await ctx.query(api.movie.get, { tmdb_id: 12_345 })
       expect(after).toBeNull()
@@ -308,7 +467,7 @@ describe('cache CRUD (movie)', () => {
 
     test('invalidate non-existent key does nothing', async () => {
       const ctx = t(),
-        result = await ctx.mutation(api.movie.invalidate, { tmdb_id: 99_999 })
+        result = await ctx.mutation(internal.movie.invalidateInternal, { tmdb_id: 99_999 })
       expect(result).toBeNull()
     })
   })
@@ -316,15 +475,15 @@ describe('cache CRUD (movie)', () => {
   describe('movie.purge', () => {
     test('purge with no expired entries returns 0', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, movieData)
+      await ctx.mutation(internal.movie.createInternal, movieData)
 
-      const purged = await ctx.mutation(api.movie.purge, {})
+      const purged = await ctx.mutation(internal.movie.purgeInternal, {})
       expect(purged).toBe(0)
     })
 
     test('purge is callable and returns a number', async () => {
       const ctx = t(),
-        purged = await ctx.mutation(api.movie.purge, {})
+        purged = await ctx.mutation(internal.movie.purgeInternal, {})
       expect(typeof purged).toBe('number')
     })
   })
@@ -332,14 +491,57 @@ describe('cache CRUD (movie)', () => {
   describe('movie upsert behavior', () => {
     test('creating with same key updates existing', async () => {
       const ctx = t()
-      await ctx.mutation(api.movie.create, movieData)
-      await ctx.mutation(api.movie.create, { ...movieData, title: 'Updated Title' })
+      await ctx.mutation(internal.movie.createInternal, movieData)
+      await ctx.mutation(internal.movie.createInternal, { ...movieData, title: 'Updated Title' })
 
       const all = await ctx.query(api.movie.all, {})
       expect(all.length).toBe(1)
       expect((all[0] as Record<string, unknown>).title).toBe('Updated Title')
     })
   })
+
+  describe('movie write access', () => {
+    test('rejects anonymous writes', async () => {
+      const ctx = t()
+      for (const write of [
+        async () => ctx.mutation(api.movie.create, movieData),
+        async () => ctx.mutation(api.movie.invalidate, { tmdb_id: 12_345 }),
+        async () => ctx.mutation(api.movie.purge, {})
+      ]) {
+        let threw = false
+        try {
+          await write()
+        } catch (error) {
+          threw = true
+          expect(String(error)).toContain('NOT_AUTHORIZED')
+        }
+        expect(threw).toBe(true)
+      }
+    })
+
+    test('rejects signed-in users on an admin-only cache', async () => {
+      const ctx = t(),
+        { asUser } = await createTestContext(ctx),
+        id = await ctx.mutation(internal.movie.createInternal, movieData)
+
+      let threw = false
+      try {
+        await asUser(0).mutation(api.movie.rm, { id })
+      } catch (error) {
+        threw = true
+        expect(String(error)).toContain('NOT_AUTHORIZED')
+      }
+      expect(threw).toBe(true)
+      expect(await ctx.run(async c => c.db.get(id as never))).not.toBeNull()
+    })
+
+    test('internal mirrors bypass the policy', async () => {
+      const ctx = t()
+      await ctx.mutation(internal.movie.createInternal, movieData)
+      await ctx.mutation(internal.movie.invalidateInternal, { tmdb_id: 12_345 })
+      expect(await ctx.query(api.movie.get, { tmdb_id: 12_345 })).toBeNull()
+    })
+  })
 })
 
 describe('child CRUD auth', () => {
@@ -482,6 +684,90 @@ describe('concurrent edit conflict detection', () => {
     expect(threw).toBe(true)
   })
 
+  test('conflict returns the stored doc', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [userId] = userIds,
+      postId = await ctx.run(async c =>
+        c.db.insert('blog', {
+          category: 'tech',
+          content: 'Base content',
+          published: false,
+          title: 'Base title',
+          updatedAt: 1000,
+          userId
+        })
+      )
+    await asUser(0).mutation(api.blog.update, { expectedUpdatedAt: 1000, id: postId, title: 'Their title' })
+
+    let data: ConvexErrorData | undefined
+    try {
+      await asUser(0).mutation(api.blog.update, {
+        content: 'My content',
+        expectedUpdatedAt: 1000,
+        id: postId,
+        title: 'Base title'
+      })
+    } catch (error) {
+      data = extractErrorData(error)
+    }
+    expect(data?.code).toBe('CONFLICT')
+    expect(data?.changed).toBeUndefined()
+    expect(data?.current).toMatchObject({ content: 'Base content', title: 'Their title' })
+  })
+
+  test('conflicts on unversioned tables list the fields changed since, from the audit trail', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'conflict-audit', updatedAt: Date.now(), userId: ownerId })
+      ),
+      postId = await asUser(0).mutation(api.blog.create, {
+        category: 'tech',
+        content: 'Base content',
+        published: false,
+        title: 'Base title'
+      }),
+      projectId = await asUser(0).mutation(api.project.create, { name: 'Base name', orgId }),
+      profile = await asUser(0).mutation(api.blogProfile.upsert, {
+        displayName: 'Base',
+        notifications: true,
+        theme: 'system'
+      }),
+      seen = await ctx.run(async c => ({
+        post: (await c.db.get(postId))?.updatedAt as number,
+        project: (await c.db.get(projectId))?.updatedAt as number
+      })),
+      changedBy = async (call: Promise<unknown>) => {
+        try {
+          await call
+        } catch (error) {
+          const data = extractErrorData(error)
+          expect(data?.code).toBe('CONFLICT')
+          return data?.changed
+        }
+      }
+    await Bun.sleep(2)
+    await asUser(0).mutation(api.blog.update, { content: 'Their content', id: postId })
+    await asUser(0).mutation(api.project.update, { description: 'Theirs', id: projectId, orgId })
+    await asUser(0).mutation(api.blogProfile.upsert, { theme: 'dark' })
+
+    expect(
+      await changedBy(
+        asUser(0).mutation(api.blog.update, { expectedUpdatedAt: seen.post, id: postId, title: 'My title' })
+      )
+    ).toEqual(['content'])
+    expect(
+      await changedBy(
+        asUser(0).mutation(api.project.update, { expectedUpdatedAt: seen.project, id: projectId, name: 'Mine', orgId })
+      )
+    ).toEqual(['description'])
+    expect(
+      await changedBy(asUser(0).mutation(api.blogProfile.upsert, { bio: 'Mine', expectedUpdatedAt: profile.updatedAt }))
+    ).toEqual(['theme'])
+  })
+
   test('fresh expectedUpdatedAt succeeds after prior edit', async () => {
     const ctx = t(),
       { asUser, userIds } = await createTestContext(ctx),
@@ -560,3 +846,453 @@ describe('getOrCreate org', () => {
     expect(threw).toBe(true)
   })
 })
+
+describe('chunked upload integrity', () => {
+  const bytes = new Blob(['hello chunk']),
+    start = {
+      contentType: 'text/plain',
+      fileName: 'hello.txt',
+      totalChunks: 1,
+      totalSize: bytes.size
+    },
+    stored = async (ctx: ReturnType<typeof t>) =>
+      ctx.run(async c => {
+        const storageId = await c.storage.store(bytes),
+          meta = await c.db.system.get(storageId)
+        return { checksum: meta?.sha256 ?? '', storageId }
+      })
+
+  test('assembles chunks whose checksums match by streaming them to an upload url', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      { uploadId } = await asUser(0).mutation(api.file.startChunkedUpload, start),
+      chunk = await stored(ctx),
+      confirmed = await asUser(0).mutation(api.file.confirmChunk, { ...chunk, chunkIndex: 0, uploadId }),
+      again = await asUser(0).mutation(api.file.confirmChunk, { ...chunk, chunkIndex: 0, uploadId }),
+      realFetch = globalThis.fetch,
+      bodies: unknown[] = []
+    expect(confirmed.allUploaded).toBe(true)
+    expect(again.completedChunks).toBe(1)
+
+    globalThis.fetch = (async (_: Request | string | URL, init?: RequestInit) => {
+      bodies.push(init?.body)
+      const blob = await new Response(init?.body).blob()
+      return Response.json({ storageId: await ctx.run(async c => c.storage.store(blob)) })
+    }) as typeof fetch
+    try {
+      const res = await asUser(0).action(api.file.assembleChunks, { uploadId }),
+        progress = await asUser(0).query(api.file.getUploadProgress, { uploadId }),
+        text = await ctx.run(async c => (await c.storage.get(res.storageId))?.text())
+      expect(bodies[0]).toBeInstanceOf(ReadableStream)
+      expect(res.size).toBe(bytes.size)
+      expect(text).toBe('hello chunk')
+      expect(progress?.status).toBe('completed')
+      expect(progress?.finalStorageId).toBe(res.storageId)
+    } finally {
+      globalThis.fetch = realFetch
+    }
+  })
+
+  test('rejects a chunk whose checksum does not match', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      { uploadId } = await asUser(0).mutation(api.file.startChunkedUpload, start),
+      { storageId } = await stored(ctx)
+
+    let code = ''
+    try {
+      await asUser(0).mutation(api.file.confirmChunk, { checksum: 'bogus', chunkIndex: 0, storageId, uploadId })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('CHECKSUM_MISMATCH')
+    expect((await asUser(0).query(api.file.getUploadProgress, { uploadId }))?.uploadedChunks).toEqual([])
+  })
+
+  test('rejects a chunk count that does not fit the file size', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx)
+    let code = ''
+    try {
+      await asUser(0).mutation(api.file.startChunkedUpload, { ...start, totalChunks: 3 })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('INVALID_CHUNK')
+  })
+
+  test('expireUploads removes abandoned sessions and their chunk blobs', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      { uploadId } = await asUser(0).mutation(api.file.startChunkedUpload, start),
+      chunk = await stored(ctx)
+    await asUser(0).mutation(api.file.confirmChunk, { ...chunk, chunkIndex: 0, uploadId })
+
+    expect(await ctx.mutation(internal.file.expireUploads, {})).toBe(0)
+    const later = Date.now() + UPLOAD_SESSION_TTL + 1000,
+      realNow = Date.now
+    Date.now = () => later
+    try {
+      expect(await ctx.mutation(internal.file.expireUploads, {})).toBe(1)
+    } finally {
+      Date.now = realNow
+    }
+    const left = await ctx.run(async c => ({
+      blob: await c.db.system.get(chunk.storageId),
+      chunks: await c.db.query('uploadChunk').collect(),
+      sessions: await c.db.query('uploadSession').collect()
+    }))
+    expect(left).toEqual({ blob: null, chunks: [], sessions: [] })
+  })
+
+  test('expireUploads removes completed sessions but keeps their file', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      { uploadId } = await asUser(0).mutation(api.file.startChunkedUpload, start),
+      finalStorageId = await ctx.run(async c => {
+        const id = await c.storage.store(bytes),
+          session = await c.db
+            .query('uploadSession')
+            .withIndex('by_upload_id', q => q.eq('uploadId', uploadId))
+            .unique()
+        if (session) await c.db.patch(session._id, { finalStorageId: id, status: 'completed' })
+        return id
+      }),
+      later = Date.now() + UPLOAD_SESSION_TTL + 1000,
+      realNow = Date.now
+    Date.now = () => later
+    try {
+      expect(await ctx.mutation(internal.file.expireUploads, {})).toBe(1)
+    } finally {
+      Date.now = realNow
+    }
+    const left = await ctx.run(async c => ({
+      blob: (await c.db.system.get(finalStorageId))?._id,
+      sessions: await c.db.query('uploadSession').collect()
+    }))
+    expect(left).toEqual({ blob: finalStorageId, sessions: [] })
+  })
+})
+
+describe('orphaned file collection', () => {
+  const seed = async (ctx: ReturnType<typeof t>) => {
+      const { userIds } = await createTestContext(ctx),
+        [userId] = userIds
+      return ctx.run(async c => {
+        const [cover, image, orphan] = await Promise.all(
+            ['cover', 'image', 'orphan'].map(async s => c.storage.store(new Blob([s])))
+          ),
+          chatId = await c.db.insert('chat', { isPublic: false, title: 'Files', updatedAt: Date.now(), userId })
+        await c.db.insert('blog', {
+          category: 'tech',
+          content: 'With a cover',
+          coverImage: cover,
+          published: true,
+          title: 'Cover',
+          updatedAt: Date.now(),
+          userId
+        })
+        await c.db.insert('message', {
+          chatId,
+          parts: [{ text: 'see', type: 'text' }, { image, type: 'image' }],
+          role: 'user',
+          updatedAt: Date.now()
+        })
+        return { cover, image, orphan }
+      })
+    },
+    later = async <T>(fn: () => Promise<T>) => {
+      const realNow = Date.now,
+        at = realNow() + FILE_GC_GRACE_MS + 1000
+      Date.now = () => at
+      try {
+        return await fn()
+      } finally {
+        Date.now = realNow
+      }
+    }
+
+  test('report lists unreferenced blobs past the grace period without deleting', async () => {
+    const ctx = t(),
+      { orphan } = await seed(ctx)
+
+    expect((await ctx.action(internal.fileGc.report, {})).total).toBe(0)
+    const res = await later(async () => ctx.action(internal.fileGc.report, {}))
+    expect(res).toMatchObject({ deleted: 0, orphans: [orphan], scanned: 3, total: 1 })
+    expect(await ctx.run(async c => c.db.system.get(orphan))).not.toBeNull()
+  })
+
+  test('collect deletes only blobs no file field references, nested ones included', async () => {
+    const ctx = t(),
+      { cover, image, orphan } = await seed(ctx)
+
+    await later(async () => {
+      expect((await ctx.action(internal.fileGc.collect, {})).deleted).toBe(1)
+      await ctx.finishAllScheduledFunctions(() => undefined)
+    })
+    const left = await ctx.run(async c =>
+      Promise.all([cover, image, orphan].map(async id => (await c.db.system.get(id)) !== null))
+    )
+    expect(left).toEqual([true, true, false])
+  })
+
+  test('version snapshots and audit entries keep the blobs they mention', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds,
+      orphan = await ctx.run(async c => {
+        const [a, b, o] = await Promise.all(
+            ['audit', 'version', 'orphan'].map(async s => c.storage.store(new Blob([s])))
+          ),
+          orgId = await c.db.insert('org', { name: 'Files', slug: 'files-gc', updatedAt: Date.now(), userId }),
+          docId = await c.db.insert('wiki', {
+            orgId,
+            slug: 'page',
+            status: 'draft',
+            title: 'Page',
+            updatedAt: Date.now(),
+            userId
+          })
+        await c.db.insert('wikiVersion', { docId, orgId, snapshot: { cover: b, title: 'Page' }, userId, version: 1 })
+        await c.db.insert('audit', { changes: [{ field: 'cover', from: a }], docId, op: 'update', table: 'wiki' })
+        return o
+      })
+
+    const res = await later(async () => ctx.action(internal.fileGc.report, {}))
+    expect(res).toMatchObject({ orphans: [orphan], scanned: 3, total: 1 })
+  })
+
+  test('org export archives stay until their org is gone', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds,
+      archive = await ctx.run(async c => {
+        const storageId = await c.storage.store(new Blob(['zip'])),
+          orgId = await c.db.insert('org', { name: 'Kept', slug: 'kept-gc', updatedAt: Date.now(), userId })
+        await c.db.insert('orgExport', { orgId, storageId, userId })
+        return storageId
+      })
+
+    const res = await later(async () => ctx.action(internal.fileGc.report, {}))
+    expect(res).toMatchObject({ scanned: 1, total: 0 })
+    expect(await ctx.run(async c => c.db.system.get(archive))).not.toBeNull()
+  })
+
+  test('collect walks every storage page against one scan of the references', async () => {
+    const ctx = t(),
+      { cover, image, orphan } = await seed(ctx)
+
+    await later(async () => {
+      const res = await ctx.action(internal.fileGc.collect, { batchSize: 2 })
+      expect(res).toMatchObject({ deleted: 1, scanned: 3 })
+      await ctx.finishAllScheduledFunctions(() => undefined)
+    })
+    const left = await ctx.run(async c =>
+      Promise.all([cover, image, orphan].map(async id => (await c.db.system.get(id)) !== null))
+    )
+    expect(left).toEqual([true, true, false])
+  })
+})
+
+describe('file constraints', () => {
+  const PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    profile = { displayName: 'Avatar', notifications: true, theme: 'system' as const },
+    store = async (ctx: ReturnType<typeof t>, parts: BlobPart[], type: string) =>
+      ctx.run(async c => c.storage.store(new Blob(parts, { type }))),
+    failure = async (fn: () => Promise<unknown>) => {
+      try {
+        await fn()
+      } catch (error) {
+        return String(error)
+      }
+      return ''
+    }
+
+  test('accepts an inspected image and rejects one that was never inspected', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      inspected = await store(ctx, [PNG_HEADER, 'pixels'], 'image/png'),
+      unchecked = await store(ctx, [PNG_HEADER, 'pixels'], 'image/png')
+
+    expect(await asUser(0).action(api.file.inspect, { id: inspected })).toMatchObject({ contentType: 'image/png' })
+    await asUser(0).mutation(api.blogProfile.upsert, { ...profile, avatar: inspected })
+    expect(await failure(async () => asUser(0).mutation(api.blogProfile.upsert, { avatar: unchecked }))).toContain(
+      'INVALID_FILE_TYPE'
+    )
+    expect((await asUser(0).query(api.blogProfile.get, {}))?.avatar).toBe(inspected)
+  })
+
+  test('detects the type from the bytes, not the declared header', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      id = await store(ctx, ['not really a png'], 'image/png')
+
+    expect(await asUser(0).action(api.file.inspect, { id })).toMatchObject({ contentType: 'text/plain' })
+    expect(await failure(async () => asUser(0).mutation(api.blogProfile.upsert, { ...profile, avatar: id }))).toContain(
+      'INVALID_FILE_TYPE'
+    )
+  })
+
+  test('rejects an image over the field maxSize', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      big = new Uint8Array(5 * 1024 * 1024 + 1)
+    big.set(PNG_HEADER)
+    const id = await store(ctx, [big], 'image/png')
+
+    await asUser(0).action(api.file.inspect, { id })
+    expect(await failure(async () => asUser(0).mutation(api.blogProfile.upsert, { ...profile, avatar: id }))).toContain(
+      'FILE_TOO_LARGE'
+    )
+  })
+
+  test('inspect reports blobs whose detected type is not allowed without deleting them, and checks expire', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      gzip = await store(ctx, [new Uint8Array([0x1f, 0x8b, 0x08, 0x00])], 'text/plain'),
+      png = await store(ctx, [PNG_HEADER], 'image/png')
+
+    expect(await failure(async () => asUser(0).action(api.file.inspect, { id: gzip }))).toContain('INVALID_FILE_TYPE')
+    expect(await ctx.run(async c => c.db.system.get(gzip))).not.toBeNull()
+    expect(await ctx.run(async c => c.db.query('uploadCheck').collect())).toEqual([])
+
+    await asUser(0).action(api.file.inspect, { id: png })
+    const realNow = Date.now,
+      later = realNow() + UPLOAD_SESSION_TTL + 1000
+    Date.now = () => later
+    try {
+      await ctx.mutation(internal.file.expireUploads, {})
+    } finally {
+      Date.now = realNow
+    }
+    expect(await ctx.run(async c => c.db.query('uploadCheck').collect())).toEqual([])
+  })
+
+  test('only the uploader can inspect a blob', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      claimed = await store(ctx, [PNG_HEADER], 'image/png'),
+      old = await store(ctx, [PNG_HEADER], 'image/png')
+
+    await asUser(0).action(api.file.inspect, { id: claimed })
+    expect(await failure(async () => asUser(1).action(api.file.inspect, { id: claimed }))).toContain('UNAUTHORIZED')
+    expect(await asUser(0).action(api.file.inspect, { id: claimed })).toMatchObject({ contentType: 'image/png' })
+
+    const realNow = Date.now,
+      later = realNow() + UPLOAD_SESSION_TTL + 1000
+    Date.now = () => later
+    try {
+      expect(await failure(async () => asUser(1).action(api.file.inspect, { id: old }))).toContain('UNAUTHORIZED')
+    } finally {
+      Date.now = realNow
+    }
+  })
+
+  test('an assembled file can only be inspected by its upload session user', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      { uploadId } = await asUser(0).mutation(api.file.startChunkedUpload, {
+        contentType: 'image/png',
+        fileName: 'a.png',
+        totalChunks: 1,
+        totalSize: PNG_HEADER.length
+      }),
+      id = await store(ctx, [PNG_HEADER], 'image/png')
+    await ctx.run(async c => {
+      const session = await c.db
+        .query('uploadSession')
+        .withIndex('by_upload_id', q => q.eq('uploadId', uploadId))
+        .unique()
+      if (session) await c.db.patch(session._id, { finalStorageId: id, status: 'completed' })
+    })
+
+    expect(await failure(async () => asUser(1).action(api.file.inspect, { id }))).toContain('UNAUTHORIZED')
+    expect(await asUser(0).action(api.file.inspect, { id })).toMatchObject({ contentType: 'image/png' })
+  })
+})
+
+describe('image variants', () => {
+  const COVER_PNG = Uint8Array.from(
+      atob(
+        'iVBORw0KGgoAAAANSUhEUgAAASwAAADwCAMAAACNKKmnAAAAA1BMVEX/AAAZ4gk3AAAACXBIWXMAAAPoAAAD6AG1e1JrAAAAXElEQVR42u3BAQEAAACCIP+vbkhAAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAO8GGj8AASxETJMAAAAASUVORK5CYII='
+      ),
+      ch => ch.codePointAt(0) ?? 0
+    ),
+    post = { category: 'tech' as const, content: 'With a cover', published: true, title: 'Cover' },
+    store = async (ctx: ReturnType<typeof t>, parts: BlobPart[], type: string) =>
+      ctx.run(async c => c.storage.store(new Blob(parts, { type }))),
+    variantsOf = async (ctx: ReturnType<typeof t>, source: string) =>
+      ctx.run(async c =>
+        c.db
+          .query('fileVariant')
+          .withIndex('by_source', q => q.eq('source', source as never))
+          .collect()
+      ),
+    alive = async (ctx: ReturnType<typeof t>, ids: string[]) =>
+      ctx.run(async c => Promise.all(ids.map(async id => (await c.db.system.get(id as never)) !== null))),
+    pngWidth = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(16)
+
+  test('generates the declared variants after upload and surfaces their URLs', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      cover = await store(ctx, [COVER_PNG], 'image/png'),
+      id = await asUser(0).mutation(api.blog.create, { ...post, coverImage: cover })
+
+    expect((await asUser(0).query(api.blog.read, { id }))?.coverImageUrls).toEqual({})
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const doc = await asUser(0).query(api.blog.read, { id }),
+      rows = await variantsOf(ctx, cover),
+      thumb = rows.find(r => r.name === 'thumb'),
+      hero = rows.find(r => r.name === 'hero'),
+      [thumbBlob, heroBlob] = await ctx.run(async c =>
+        Promise.all(
+          [thumb, hero].map(async r => {
+            const blob = r ? await c.storage.get(r.storageId) : null
+            return { bytes: await blob?.arrayBuffer(), type: blob?.type }
+          })
+        )
+      )
+    expect(rows.map(r => r.name).toSorted()).toEqual(['hero', 'thumb'])
+    expect(doc?.coverImageUrl).toBeString()
+    expect(doc?.coverImageUrls?.thumb).toBeString()
+    expect(doc?.coverImageUrls?.hero).toBeString()
+    expect(thumbBlob?.type).toBe('image/png')
+    expect(pngWidth(new Uint8Array(thumbBlob?.bytes ?? new ArrayBuffer(0)))).toBe(200)
+    expect(heroBlob?.type).toBe('image/webp')
+    expect(await asUser(0).query(api.file.variant, { id: cover, name: 'thumb' })).toBe(doc?.coverImageUrls?.thumb)
+    expect(await asUser(0).query(api.file.variant, { id: cover, name: 'poster' })).toBeNull()
+  })
+
+  test('replacing or deleting the image cleans up its variants', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      first = await store(ctx, [COVER_PNG], 'image/png'),
+      second = await store(ctx, [COVER_PNG], 'image/png'),
+      id = await asUser(0).mutation(api.blog.create, { ...post, coverImage: first })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    const firstVariants = (await variantsOf(ctx, first)).map(r => r.storageId)
+
+    await asUser(0).mutation(api.blog.update, { coverImage: second, id })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    expect(await variantsOf(ctx, first)).toHaveLength(0)
+    expect(await variantsOf(ctx, second)).toHaveLength(2)
+    expect(await alive(ctx, firstVariants)).toEqual([false, false])
+
+    const secondVariants = (await variantsOf(ctx, second)).map(r => r.storageId)
+    await asUser(0).mutation(api.blog.rm, { id })
+    expect(await variantsOf(ctx, second)).toHaveLength(0)
+    expect(await alive(ctx, [second, ...secondVariants])).toEqual([false, false, false])
+  })
+
+  test('skips files that are not images', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      cover = await store(ctx, ['plain text'], 'text/plain'),
+      id = await asUser(0).mutation(api.blog.create, { ...post, coverImage: cover })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    expect(await variantsOf(ctx, cover)).toHaveLength(0)
+    expect((await asUser(0).query(api.blog.read, { id }))?.coverImageUrls).toEqual({})
+  })
+})
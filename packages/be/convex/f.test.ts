@@ -1,19 +1,25 @@
 /* eslint-disable max-statements, no-await-in-loop */
 // oxlint-disable promise/prefer-await-to-then
 // biome-ignore-all lint/performance/noAwaitInLoops: test fixtures
-import { describe, expect, test } from 'bun:test'
+import type { ConvexErrorData } from 'lazyconvex/server'
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
 import { convexTest } from 'convex-test'
+import { COLLAB_FLUSH_EVERY, extractErrorData } from 'lazyconvex/server'
 import { createTestContext } from 'lazyconvex/test'
 import { discoverModules } from 'lazyconvex/test/discover'
 
-import { api } from './_generated/api'
+import { api, internal } from './_generated/api'
 import schema from './schema'
 
 const modules = discoverModules('convex', {
     './_generated/api.js': async () => import('./_generated/api'),
     './_generated/server.js': async () => import('./_generated/server')
   }),
-  t = () => convexTest(schema, modules)
+  t = () => convexTest(schema, modules),
+  PNG_HEADER = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  storePng = async (ctx: ReturnType<typeof t>, tag: string) =>
+    ctx.run(async c => c.storage.store(new Blob([PNG_HEADER, tag], { type: 'image/png' })))
 
 describe('crud factory', () => {
   describe('basic CRUD operations', () => {
@@ -1893,6 +1899,33 @@ describe('orgCascade', () => {
     )
     expect(tasksAfter.length).toBe(0)
   })
+
+  test('projects with more tasks than one batch finish in a scheduled step', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-cascade-2', updatedAt: Date.now(), userId: ownerId })
+      ),
+      projectId = await asUser(0).mutation(api.project.create, { name: 'Big Project', orgId }),
+      countTasks = async () =>
+        ctx.run(async c =>
+          c.db
+            .query('task')
+            .withIndex('by_parent', q => q.eq('projectId', projectId))
+            .collect()
+        )
+    await ctx.run(async c => {
+      for (let i = 0; i < 510; i += 1)
+        await c.db.insert('task', { orgId, projectId, title: `Task ${i}`, updatedAt: Date.now(), userId: ownerId })
+    })
+
+    await asUser(0).mutation(api.project.rm, { id: projectId, orgId })
+    expect((await countTasks()).length).toBeGreaterThan(0)
+
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    expect((await countTasks()).length).toBe(0)
+  })
 })
 
 describe('orgCrud enrichment', () => {
@@ -2336,8 +2369,9 @@ describe('singletonCrud profile', () => {
     test('upsert with avatar stores file reference', async () => {
       const ctx = t(),
         { asUser } = await createTestContext(ctx),
-        fileId = await ctx.run(async c => c.storage.store(new Blob(['avatar-data'])))
+        fileId = await storePng(ctx, 'avatar-data')
 
+      await asUser(0).action(api.file.inspect, { id: fileId })
       await asUser(0).mutation(api.blogProfile.upsert, {
         avatar: fileId,
         displayName: 'Avatar Test',
@@ -2368,8 +2402,11 @@ describe('singletonCrud profile', () => {
     test('replacing avatar cleans up old file', async () => {
       const ctx = t(),
         { asUser } = await createTestContext(ctx),
-        oldFileId = await ctx.run(async c => c.storage.store(new Blob(['old-avatar']))),
-        newFileId = await ctx.run(async c => c.storage.store(new Blob(['new-avatar'])))
+        oldFileId = await storePng(ctx, 'old-avatar'),
+        newFileId = await storePng(ctx, 'new-avatar')
+
+      await asUser(0).action(api.file.inspect, { id: oldFileId })
+      await asUser(0).action(api.file.inspect, { id: newFileId })
 
       await asUser(0).mutation(api.blogProfile.upsert, {
         avatar: oldFileId,
@@ -2390,8 +2427,9 @@ describe('singletonCrud profile', () => {
     test('setting avatar to null cleans up old file', async () => {
       const ctx = t(),
         { asUser } = await createTestContext(ctx),
-        fileId = await ctx.run(async c => c.storage.store(new Blob(['remove-avatar'])))
+        fileId = await storePng(ctx, 'remove-avatar')
 
+      await asUser(0).action(api.file.inspect, { id: fileId })
       await asUser(0).mutation(api.blogProfile.upsert, {
         avatar: fileId,
         displayName: 'Remove Avatar',
@@ -2797,6 +2835,7 @@ describe('custom blog endpoints (pq/q/m)', () => {
 
     const second = await asUser(0).mutation(api.blog.togglePublish, { id: postId })
     expect(second.published).toBe(false)
+    await ctx.finishAllScheduledFunctions(() => undefined)
   })
 
   test('togglePublish rejects non-owner', async () => {
@@ -2825,3 +2864,971 @@ describe('custom blog endpoints (pq/q/m)', () => {
     expect(threw).toBe(true)
   })
 })
+
+describe('audit trail', () => {
+  test('records create, update diff, and delete for wiki', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-1', updatedAt: Date.now(), userId: ownerId })
+      ),
+      wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'Audited content',
+        orgId,
+        slug: 'audit-wiki-1',
+        status: 'draft',
+        title: 'Audited Wiki'
+      })
+
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Renamed Wiki' })
+    await asUser(0).mutation(api.wiki.rm, { id: wikiId, orgId })
+
+    const { page } = await asUser(0).query(api.audit.history, {
+      id: wikiId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page.map(e => e.op)).toEqual(['delete', 'update', 'create'])
+    expect(page[1]?.changes).toEqual([{ field: 'title', from: 'Audited Wiki', to: 'Renamed Wiki' }])
+    expect(page[1]?.actorId).toBe(ownerId)
+    expect(page[1]?.orgId).toBe(orgId)
+  })
+
+  test('bulk updates and deletes are audited like single ones', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-bulk', updatedAt: Date.now(), userId: ownerId })
+      ),
+      wikiIds = [
+        await asUser(0).mutation(api.wiki.create, { content: 'A', orgId, slug: 'bulk-a', status: 'draft', title: 'A' }),
+        await asUser(0).mutation(api.wiki.create, { content: 'B', orgId, slug: 'bulk-b', status: 'draft', title: 'B' })
+      ],
+      postId = await asUser(0).mutation(api.blog.create, {
+        category: 'tech',
+        content: 'Bulk',
+        published: false,
+        title: 'Bulk Post'
+      }),
+      ops = async (id: string) =>
+        (await asUser(0).query(api.audit.history, { id, paginationOpts: { cursor: null, numItems: 10 } })).page.map(
+          e => e.op
+        )
+
+    await asUser(0).mutation(api.wiki.bulkUpdate, { data: { status: 'published' }, ids: wikiIds, orgId })
+    await asUser(0).mutation(api.wiki.bulkRm, { ids: wikiIds, orgId })
+    await asUser(0).mutation(api.blog.bulkUpdate, { data: { title: 'Bulk Renamed' }, ids: [postId] })
+
+    for (const id of wikiIds) expect(await ops(id)).toEqual(['delete', 'update', 'create'])
+    const { page } = await asUser(0).query(api.audit.history, {
+      id: postId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page[0]?.changes).toEqual([{ field: 'title', from: 'Bulk Post', to: 'Bulk Renamed' }])
+  })
+
+  test('skips update entries when nothing changed', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-2', updatedAt: Date.now(), userId: ownerId })
+      ),
+      wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'Same',
+        orgId,
+        slug: 'audit-wiki-2',
+        status: 'draft',
+        title: 'Same Title'
+      })
+
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Same Title' })
+
+    const { page } = await asUser(0).query(api.audit.history, {
+      id: wikiId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page).toHaveLength(1)
+    expect(page[0]?.op).toBe('create')
+  })
+
+  test('history rejects non-members of the org', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-3', updatedAt: Date.now(), userId: ownerId })
+      ),
+      wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'Private',
+        orgId,
+        slug: 'audit-wiki-3',
+        status: 'draft',
+        title: 'Private Wiki'
+      })
+    let threw = false
+
+    try {
+      await asUser(1).query(api.audit.history, { id: wikiId, paginationOpts: { cursor: null, numItems: 10 } })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('NOT_ORG_MEMBER')
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('history follows the doc ACL and hides fields the reader may not see', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId, memberId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-acl', updatedAt: Date.now(), userId: ownerId })
+      )
+    await ctx.run(async c => {
+      await c.db.insert('orgMember', { isAdmin: false, orgId, updatedAt: Date.now(), userId: memberId })
+    })
+    const wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'Body',
+        internalNotes: 'secret',
+        orgId,
+        slug: 'audit-wiki-acl',
+        status: 'draft',
+        title: 'ACL Wiki'
+      }),
+      history = async (i: number) =>
+        asUser(i).query(api.audit.history, { id: wikiId, paginationOpts: { cursor: null, numItems: 10 } })
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, internalNotes: 'more secret', orgId, title: 'Renamed' })
+    let threw = false
+
+    try {
+      await history(1)
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+    }
+
+    expect(threw).toBe(true)
+    await asUser(0).mutation(api.wiki.addEditor, { editorId: memberId, orgId, wikiId })
+    const fieldsOf = async (i: number, op: string) =>
+      (await history(i)).page.find(e => e.op === op)?.changes?.map(ch => ch.field)
+    expect(await fieldsOf(1, 'update')).toEqual(['title'])
+    expect(await fieldsOf(1, 'create')).not.toContain('internalNotes')
+    expect(await fieldsOf(1, 'create')).toContain('content')
+    expect(await fieldsOf(0, 'update')).toEqual(['internalNotes', 'title'])
+  })
+
+  test('history of owned docs is limited to the owner', async () => {
+    const ctx = t(),
+      { asUser } = await createTestContext(ctx),
+      postId = await asUser(0).mutation(api.blog.create, {
+        category: 'tech',
+        content: 'Audited post',
+        published: false,
+        title: 'Audited Post'
+      })
+    let threw = false
+
+    try {
+      await asUser(1).query(api.audit.history, { id: postId, paginationOpts: { cursor: null, numItems: 10 } })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+    }
+
+    expect(threw).toBe(true)
+    const { page } = await asUser(0).query(api.audit.history, {
+      id: postId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page).toHaveLength(1)
+  })
+
+  test('orgActivity lists entries for admins only', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId, memberId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-audit-4', updatedAt: Date.now(), userId: ownerId })
+      )
+
+    await ctx.run(async c => {
+      await c.db.insert('orgMember', { isAdmin: false, orgId, updatedAt: Date.now(), userId: memberId })
+    })
+    await asUser(1).mutation(api.wiki.create, {
+      content: 'By member',
+      orgId,
+      slug: 'audit-wiki-4',
+      status: 'draft',
+      title: 'Member Wiki'
+    })
+
+    const { page } = await asUser(0).query(api.audit.orgActivity, {
+      orgId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page).toHaveLength(1)
+    expect(page[0]?.actorId).toBe(memberId)
+    expect(page[0]?.table).toBe('wiki')
+    let threw = false
+
+    try {
+      await asUser(1).query(api.audit.orgActivity, { orgId, paginationOpts: { cursor: null, numItems: 10 } })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('INSUFFICIENT_ORG_ROLE')
+    }
+
+    expect(threw).toBe(true)
+  })
+})
+
+describe('wiki versions', () => {
+  const setupWiki = async (slug: string) => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId, memberId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: `test-org-${slug}`, updatedAt: Date.now(), userId: ownerId })
+      )
+    await ctx.run(async c => {
+      await c.db.insert('orgMember', { isAdmin: false, orgId, updatedAt: Date.now(), userId: memberId })
+    })
+    const wikiId = await asUser(0).mutation(api.wiki.create, {
+      content: 'v1 content',
+      orgId,
+      slug,
+      status: 'draft',
+      title: 'Version 1'
+    })
+    return { asUser, ctx, orgId, wikiId }
+  }
+
+  test('update snapshots the previous document', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('ver-wiki-1')
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Version 2' })
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Version 3' })
+
+    const { page } = await asUser(1).query(api.wiki.versions, {
+      id: wikiId,
+      orgId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page.map(v => v.version)).toEqual([2, 1])
+    expect(page.map(v => v.snapshot.title)).toEqual(['Version 2', 'Version 1'])
+    expect(page[1]?.snapshot.content).toBe('v1 content')
+  })
+
+  test('a stale update reports the fields changed since expectedUpdatedAt', async () => {
+    const { asUser, ctx, orgId, wikiId } = await setupWiki('ver-wiki-stale')
+    await ctx.run(async c => c.db.patch(wikiId, { updatedAt: 1000 }))
+    await asUser(0).mutation(api.wiki.update, { expectedUpdatedAt: 1000, id: wikiId, orgId, title: 'Theirs' })
+    let data: ConvexErrorData | undefined
+
+    try {
+      await asUser(0).mutation(api.wiki.update, {
+        expectedUpdatedAt: 1000,
+        id: wikiId,
+        orgId,
+        status: 'published',
+        title: 'Version 1'
+      })
+    } catch (error) {
+      data = extractErrorData(error)
+    }
+
+    expect(data?.code).toBe('CONFLICT')
+    expect(data?.changed).toEqual(['title'])
+    expect(data?.current).toMatchObject({ status: 'draft', title: 'Theirs' })
+  })
+
+  test('readVersion returns a single snapshot', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('ver-wiki-2')
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Version 2' })
+    const { page } = await asUser(0).query(api.wiki.versions, {
+        id: wikiId,
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      }),
+      versionId = page[0]?._id
+    if (!versionId) throw new Error('missing version')
+    const version = await asUser(0).query(api.wiki.readVersion, { orgId, versionId })
+    expect(version.snapshot.title).toBe('Version 1')
+    expect(version.docId).toBe(wikiId)
+  })
+
+  test('revert restores snapshot and records a new version', async () => {
+    const { asUser, ctx, orgId, wikiId } = await setupWiki('ver-wiki-3')
+    await asUser(0).mutation(api.wiki.update, { content: 'v2 content', id: wikiId, orgId, title: 'Version 2' })
+    const { page } = await asUser(0).query(api.wiki.versions, {
+        id: wikiId,
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      }),
+      versionId = page[0]?._id
+    if (!versionId) throw new Error('missing version')
+    const reverted = await asUser(0).mutation(api.wiki.revert, { orgId, versionId })
+    expect(reverted.title).toBe('Version 1')
+    expect(reverted.content).toBe('v1 content')
+
+    const doc = await ctx.run(async c => c.db.get(wikiId)),
+      after = await asUser(0).query(api.wiki.versions, {
+        id: wikiId,
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      })
+    expect(doc?.title).toBe('Version 1')
+    expect(after.page[0]?.version).toBe(2)
+    expect(after.page[0]?.snapshot.title).toBe('Version 2')
+  })
+
+  test('revert respects canEdit ACL', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('ver-wiki-4')
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Version 2' })
+    const { page } = await asUser(0).query(api.wiki.versions, {
+        id: wikiId,
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      }),
+      versionId = page[0]?._id
+    if (!versionId) throw new Error('missing version')
+    let threw = false
+
+    try {
+      await asUser(1).mutation(api.wiki.revert, { orgId, versionId })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('revert rejects stale expectedUpdatedAt', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('ver-wiki-5')
+    await asUser(0).mutation(api.wiki.update, { id: wikiId, orgId, title: 'Version 2' })
+    const { page } = await asUser(0).query(api.wiki.versions, {
+        id: wikiId,
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      }),
+      versionId = page[0]?._id
+    if (!versionId) throw new Error('missing version')
+    let threw = false
+
+    try {
+      await asUser(0).mutation(api.wiki.revert, { expectedUpdatedAt: 1, orgId, versionId })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('CONFLICT')
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('versions are not readable outside the org', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('ver-wiki-6')
+    let threw = false
+
+    try {
+      await asUser(2).query(api.wiki.versions, { id: wikiId, orgId, paginationOpts: { cursor: null, numItems: 10 } })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('NOT_ORG_MEMBER')
+    }
+
+    expect(threw).toBe(true)
+  })
+})
+
+describe('wiki field policies', () => {
+  const setupWiki = async (slug: string) => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId, memberId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: `test-org-${slug}`, updatedAt: Date.now(), userId: ownerId })
+      )
+    await ctx.run(async c => {
+      await c.db.insert('orgMember', { isAdmin: false, orgId, updatedAt: Date.now(), userId: memberId })
+    })
+    const wikiId = await asUser(0).mutation(api.wiki.create, {
+      content: 'Policy content',
+      internalNotes: 'admins only',
+      orgId,
+      slug,
+      status: 'draft',
+      title: 'Policy Wiki'
+    })
+    return { asUser, ctx, memberId, orgId, wikiId }
+  }
+
+  test('admin-only field is hidden from members and visible to admins', async () => {
+    const { asUser, orgId, wikiId } = await setupWiki('fld-wiki-1'),
+      asAdmin = await asUser(0).query(api.wiki.read, { id: wikiId, orgId }),
+      asMember = await asUser(1).query(api.wiki.read, { id: wikiId, orgId }),
+      { page } = await asUser(1).query(api.wiki.list, { orgId, paginationOpts: { cursor: null, numItems: 10 } })
+
+    expect(asAdmin.internalNotes).toBe('admins only')
+    expect(asMember.title).toBe('Policy Wiki')
+    expect('internalNotes' in asMember).toBe(false)
+    expect(page.some(w => 'internalNotes' in w)).toBe(false)
+  })
+
+  test('member cannot write an admin-only field', async () => {
+    const { asUser, orgId } = await setupWiki('fld-wiki-2')
+    let threw = false
+
+    try {
+      await asUser(1).mutation(api.wiki.create, {
+        content: 'x',
+        internalNotes: 'sneaky',
+        orgId,
+        slug: 'fld-wiki-2b',
+        status: 'draft',
+        title: 'Member Wiki'
+      })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+      expect(String(error)).toContain('internalNotes')
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('editor can save unchanged owner-only fields but not change them', async () => {
+    const { asUser, memberId, orgId, wikiId } = await setupWiki('fld-wiki-3')
+    await asUser(0).mutation(api.wiki.addEditor, { editorId: memberId, orgId, wikiId })
+
+    const saved = await asUser(1).mutation(api.wiki.update, { id: wikiId, orgId, status: 'draft', title: 'Edited' })
+    expect(saved.title).toBe('Edited')
+    expect('internalNotes' in saved).toBe(false)
+
+    let threw = false
+    try {
+      await asUser(1).mutation(api.wiki.update, { id: wikiId, orgId, status: 'published' })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+      expect(String(error)).toContain('status')
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('admin can change owner-only fields on any wiki', async () => {
+    const { asUser, orgId } = await setupWiki('fld-wiki-4'),
+      memberWiki = await asUser(1).mutation(api.wiki.create, {
+        content: 'member content',
+        orgId,
+        slug: 'fld-wiki-4b',
+        status: 'draft',
+        title: 'Member Wiki'
+      }),
+      updated = await asUser(0).mutation(api.wiki.update, { id: memberWiki, orgId, status: 'published' })
+
+    expect(updated.status).toBe('published')
+  })
+})
+
+describe('list orderBy', () => {
+  test('crud list sorts by an indexed field', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds
+
+    await ctx.run(async c => {
+      for (const title of ['Banana', 'Apple', 'Cherry'])
+        await c.db.insert('blog', {
+          category: 'tech',
+          content: title,
+          published: true,
+          title,
+          updatedAt: Date.now(),
+          userId
+        })
+    })
+
+    const asc = await ctx.query(api.blog.list, {
+        orderBy: { dir: 'asc', field: 'title' },
+        paginationOpts: { cursor: null, numItems: 10 }
+      }),
+      desc = await ctx.query(api.blog.list, {
+        orderBy: { field: 'title' },
+        paginationOpts: { cursor: null, numItems: 10 }
+      })
+    expect(asc.page.map(p => p.title)).toEqual(['Apple', 'Banana', 'Cherry'])
+    expect(desc.page.map(p => p.title)).toEqual(['Cherry', 'Banana', 'Apple'])
+  })
+
+  test('crud orderBy composes with where', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds
+
+    await ctx.run(async c => {
+      for (const [title, category] of [
+        ['Beta', 'tech'],
+        ['Alpha', 'life'],
+        ['Gamma', 'tech']
+      ] as const)
+        await c.db.insert('blog', { category, content: title, published: true, title, updatedAt: Date.now(), userId })
+    })
+
+    const { page } = await ctx.query(api.blog.list, {
+      orderBy: { dir: 'asc', field: 'title' },
+      paginationOpts: { cursor: null, numItems: 10 },
+      where: { category: 'tech' }
+    })
+    expect(page.map(p => p.title)).toEqual(['Beta', 'Gamma'])
+  })
+
+  test('orgCrud list sorts within the org by an indexed field', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-order-1', updatedAt: Date.now(), userId: ownerId })
+      ),
+      otherOrgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Other Org', slug: 'test-org-order-2', updatedAt: Date.now(), userId: ownerId })
+      ),
+      projectId = await asUser(0).mutation(api.project.create, { name: 'Sorted', orgId }),
+      otherProjectId = await asUser(0).mutation(api.project.create, { name: 'Other', orgId: otherOrgId })
+
+    for (const priority of ['medium', 'high', 'low'] as const)
+      await asUser(0).mutation(api.task.create, { orgId, priority, projectId, title: `Task ${priority}` })
+    await asUser(0).mutation(api.task.create, {
+      orgId: otherOrgId,
+      priority: 'high',
+      projectId: otherProjectId,
+      title: 'Elsewhere'
+    })
+
+    const { page } = await asUser(0).query(api.task.list, {
+      orderBy: { dir: 'asc', field: 'priority' },
+      orgId,
+      paginationOpts: { cursor: null, numItems: 10 }
+    })
+    expect(page.map(p => p.priority)).toEqual(['high', 'low', 'medium'])
+  })
+
+  test('rejects orderBy on a field outside the schema', async () => {
+    const ctx = t()
+    let threw = false
+
+    try {
+      await ctx.query(api.blog.list, {
+        orderBy: { field: 'nope' as never },
+        paginationOpts: { cursor: null, numItems: 10 }
+      })
+    } catch {
+      threw = true
+    }
+
+    expect(threw).toBe(true)
+  })
+
+  test('rejects orderBy on a field without an index', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-order-3', updatedAt: Date.now(), userId: userIds[0] })
+      )
+    let crudError = '',
+      orgError = ''
+
+    try {
+      await ctx.query(api.blog.list, {
+        orderBy: { field: 'content' },
+        paginationOpts: { cursor: null, numItems: 10 }
+      })
+    } catch (error) {
+      crudError = String(error)
+    }
+    try {
+      await asUser(0).query(api.task.list, {
+        orderBy: { field: 'title' },
+        orgId,
+        paginationOpts: { cursor: null, numItems: 10 }
+      })
+    } catch (error) {
+      orgError = String(error)
+    }
+
+    expect(crudError).toContain('INVALID_ORDER_BY')
+    expect(orgError).toContain('INVALID_ORDER_BY')
+  })
+})
+
+describe('list index planning', () => {
+  test('equality where uses declared index and keeps remainder filter', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds
+
+    await ctx.run(async c => {
+      for (const [title, category, published] of [
+        ['A', 'tech', true],
+        ['B', 'life', true],
+        ['C', 'tech', false],
+        ['D', 'tech', true]
+      ] as const)
+        await c.db.insert('blog', { category, content: title, published, title, updatedAt: Date.now(), userId })
+    })
+
+    const published = await ctx.query(api.blog.list, {
+        paginationOpts: { cursor: null, numItems: 10 },
+        where: { published: true }
+      }),
+      both = await ctx.query(api.blog.list, {
+        paginationOpts: { cursor: null, numItems: 10 },
+        where: { category: 'tech', published: true }
+      })
+    expect(published.page.map(p => p.title)).toEqual(['D', 'B', 'A'])
+    expect(both.page.map(p => p.title)).toEqual(['D', 'A'])
+  })
+
+  test('or groups still match across indexes', async () => {
+    const ctx = t(),
+      { userIds } = await createTestContext(ctx),
+      [userId] = userIds
+
+    await ctx.run(async c => {
+      for (const [title, category, published] of [
+        ['A', 'tech', false],
+        ['B', 'life', true],
+        ['C', 'life', false]
+      ] as const)
+        await c.db.insert('blog', { category, content: title, published, title, updatedAt: Date.now(), userId })
+    })
+
+    const r = await ctx.query(api.blog.list, {
+      paginationOpts: { cursor: null, numItems: 10 },
+      where: { category: 'tech', or: [{ published: true }] }
+    })
+    expect(r.page.map(p => p.title).toSorted()).toEqual(['A', 'B'])
+  })
+})
+
+describe('blog publish effects', () => {
+  const realFetch = globalThis.fetch,
+    webhook = (status: number) => {
+      const calls: unknown[] = []
+      globalThis.fetch = (async (_url: unknown, init?: RequestInit) => {
+        calls.push(JSON.parse(String(init?.body)))
+        return new Response(null, { status })
+      }) as typeof fetch
+      return calls
+    },
+    draft = async () => {
+      const ctx = t(),
+        { asUser } = await createTestContext(ctx),
+        id = await asUser(0).mutation(api.blog.create, {
+          category: 'tech',
+          content: 'Launch notes',
+          published: false,
+          title: 'Launch'
+        })
+      return { asUser, ctx, id }
+    }
+
+  beforeEach(() => {
+    process.env.BLOG_WEBHOOK_URL = 'https://hooks.test/blog'
+  })
+
+  afterEach(() => {
+    globalThis.fetch = realFetch
+    delete process.env.BLOG_WEBHOOK_URL
+  })
+
+  test('publishing a post runs the webhook job after commit', async () => {
+    const calls = webhook(200),
+      { asUser, ctx, id } = await draft()
+
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    const [pending] = await ctx.run(async c => c.db.query('jobs').collect())
+    expect(pending?.name).toBe('blogPublished')
+    expect(pending?.docId).toBe(id)
+
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    expect(calls).toEqual([{ id, title: 'Launch' }])
+    const job = await ctx.query(internal.jobs.getJob, { jobId: pending?._id as never })
+    expect(job?.status).toBe('done')
+    expect(job?.attempts).toBe(1)
+  })
+
+  test('edits that do not publish enqueue nothing', async () => {
+    webhook(200)
+    const { asUser, ctx, id } = await draft()
+
+    await asUser(0).mutation(api.blog.update, { id, title: 'Still a draft' })
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    await asUser(0).mutation(api.blog.update, { id, title: 'Already live' })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const jobs = await ctx.run(async c => c.db.query('jobs').collect())
+    expect(jobs.length).toBe(1)
+  })
+
+  test('failed webhooks are listed and can be retried', async () => {
+    webhook(500)
+    const { asUser, ctx, id } = await draft()
+
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const { page } = await ctx.query(internal.jobs.failedJobs, { paginationOpts: { cursor: null, numItems: 10 } }),
+      [failed] = page
+    expect(page.length).toBe(1)
+    expect(failed?.attempts).toBe(3)
+    expect(failed?.error).toBe('Webhook responded 500')
+
+    const calls = webhook(200)
+    await ctx.mutation(internal.jobs.retryJob, { jobId: failed?._id as never })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const job = await ctx.query(internal.jobs.getJob, { jobId: failed?._id as never })
+    expect(calls.length).toBe(1)
+    expect(job?.status).toBe('done')
+    expect(job?.attempts).toBe(4)
+    expect(job?.error).toBeUndefined()
+  })
+
+  test('jobs whose lease ran out are requeued, then failed once attempts are spent', async () => {
+    const calls = webhook(200),
+      { asUser, ctx, id } = await draft()
+
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    const [job] = await ctx.run(async c => c.db.query('jobs').collect()),
+      jobId = job?._id as never,
+      strand = async (attempts: number) =>
+        ctx.run(async c => c.db.patch(jobId, { attempts, leaseUntil: Date.now() - 1, status: 'running' }))
+    await strand(0)
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    expect(calls.length).toBe(0)
+
+    expect(await ctx.mutation(internal.jobs.reclaimJobs, {})).toBe(1)
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    const done = await ctx.query(internal.jobs.getJob, { jobId })
+    expect(calls.length).toBe(1)
+    expect(done?.status).toBe('done')
+    expect(done?.attempts).toBe(2)
+    expect(done?.leaseUntil).toBeUndefined()
+
+    await strand(2)
+    await ctx.mutation(internal.jobs.reclaimJobs, {})
+    const failed = await ctx.query(internal.jobs.getJob, { jobId })
+    expect(failed?.status).toBe('failed')
+    expect(failed?.attempts).toBe(3)
+    expect(failed?.error).toBe('Job lease expired')
+  })
+
+  test('docJobs shows a post’s failed jobs to its owner only', async () => {
+    webhook(500)
+    const { asUser, ctx, id } = await draft(),
+      paginationOpts = { cursor: null, numItems: 10 }
+
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const { page } = await asUser(0).query(api.jobs.docJobs, { id, paginationOpts, status: 'failed' })
+    expect(page.length).toBe(1)
+    expect(page[0]?.error).toBe('Webhook responded 500')
+    expect(page[0]?.payload).toBeUndefined()
+    const done = await asUser(0).query(api.jobs.docJobs, { id, paginationOpts, status: 'done' })
+    expect(done.page.length).toBe(0)
+
+    let threw = false
+    try {
+      await asUser(1).query(api.jobs.docJobs, { id, paginationOpts })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('NOT_FOUND')
+    }
+    expect(threw).toBe(true)
+  })
+
+  test('docJobs stays readable to the owner after the post is deleted', async () => {
+    webhook(500)
+    const { asUser, ctx, id } = await draft(),
+      paginationOpts = { cursor: null, numItems: 10 }
+
+    await asUser(0).mutation(api.blog.update, { id, published: true })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    await asUser(0).mutation(api.blog.rm, { id })
+
+    const { page } = await asUser(0).query(api.jobs.docJobs, { id, paginationOpts, status: 'failed' })
+    expect(page.length).toBe(1)
+    expect(page[0]?.userId).toBeString()
+
+    let threw = false
+    try {
+      await asUser(1).query(api.jobs.docJobs, { id, paginationOpts })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('NOT_FOUND')
+    }
+    expect(threw).toBe(true)
+  })
+})
+
+describe('collaborative text', () => {
+  const failsWith = async (call: Promise<unknown>, code: string) => {
+      let threw = false
+      try {
+        await call
+      } catch (error) {
+        threw = true
+        expect(String(error)).toContain(code)
+      }
+      expect(threw).toBe(true)
+    },
+    post = async () => {
+      const ctx = t(),
+        { asUser, userIds } = await createTestContext(ctx),
+        id = await asUser(0).mutation(api.blog.create, {
+          category: 'tech',
+          content: 'The cat sat',
+          published: false,
+          title: 'Collab'
+        })
+      return { asUser, ctx, id, target: { field: 'content', id, table: 'blog' }, userIds }
+    }
+
+  test('rebases concurrent ops and folds the text into the doc', async () => {
+    const { asUser, ctx, id, target } = await post(),
+      first = await asUser(0).query(api.collab.read, target)
+    expect(first).toEqual({ content: 'The cat sat', ops: [], rev: 0 })
+
+    await asUser(0).mutation(api.collab.apply, { ...target, base: 0, clientId: 'a', op: [4, 'black '] })
+    const { rev } = await asUser(0).mutation(api.collab.apply, {
+      ...target,
+      base: 0,
+      clientId: 'b',
+      op: [11, ' down']
+    })
+    expect(rev).toBe(2)
+
+    const doc = await ctx.run(async c => c.db.get(id))
+    expect(doc?.content).toBe('The black cat sat down')
+    const since = await asUser(0).query(api.collab.read, { ...target, since: 1 })
+    expect(since).toEqual({ ops: [{ clientId: 'b', op: [17, ' down'], rev: 2 }], rev: 2 })
+
+    const { page } = await asUser(0).query(api.blog.list, {
+      paginationOpts: { cursor: null, numItems: 10 },
+      where: { own: true }
+    })
+    expect(page[0]?.content).toBe('The black cat sat down')
+  })
+
+  test('deleting the doc drops its op log and snapshot', async () => {
+    const { asUser, ctx, id, target } = await post()
+    await asUser(0).mutation(api.collab.apply, { ...target, base: 0, clientId: 'a', op: [3, '!'] })
+    await asUser(0).mutation(api.blog.rm, { id })
+    const left = await ctx.run(async c => [
+      ...(await c.db.query('collabOp').collect()),
+      ...(await c.db.query('collabSnapshot').collect())
+    ])
+    expect(left).toEqual([])
+  })
+
+  test('a plain update becomes an op for open editors', async () => {
+    const { asUser, id, target } = await post()
+    await asUser(0).mutation(api.collab.apply, { ...target, base: 0, clientId: 'a', op: [3, '!'] })
+    await asUser(0).mutation(api.blog.update, { content: 'The dog sat', id })
+
+    const read = await asUser(0).query(api.collab.read, { ...target, since: 1 })
+    expect(read).toEqual({ ops: [{ clientId: '', op: [3, { d: 5 }, ' dog'], rev: 2 }], rev: 2 })
+
+    await asUser(0).mutation(api.collab.apply, { ...target, base: 1, clientId: 'a', op: [3, '?'] })
+    expect(await asUser(0).query(api.collab.read, target)).toEqual({ content: 'The? dog sat', ops: [], rev: 3 })
+  })
+
+  test('apply bumps updatedAt and checks the field schema', async () => {
+    const { asUser, ctx, id, target } = await post()
+    await ctx.run(async c => c.db.patch(id, { updatedAt: 1 }))
+    await asUser(0).mutation(api.collab.apply, { ...target, base: 0, clientId: 'a', op: [11, '!'] })
+    const after = await ctx.run(async c => c.db.get(id))
+    expect(after?.content).toBe('The cat sat!')
+    expect(after?.updatedAt).toBeGreaterThan(1)
+
+    await failsWith(
+      asUser(0).mutation(api.collab.apply, { ...target, base: 1, clientId: 'a', op: [{ d: 11 }] }),
+      'VALIDATION_FAILED'
+    )
+    await failsWith(
+      asUser(0).mutation(api.collab.apply, { ...target, base: 1, clientId: 'a', op: ['x'.repeat(100_000)] }),
+      'VALIDATION_FAILED'
+    )
+    expect((await ctx.run(async c => c.db.get(id)))?.content).toBe('The cat sat!')
+  })
+
+  test('only editors can read or apply', async () => {
+    const { asUser, target } = await post()
+    await failsWith(asUser(1).query(api.collab.read, target), 'FORBIDDEN')
+    await failsWith(
+      asUser(1).mutation(api.collab.apply, { ...target, base: 0, clientId: 'x', op: ['hi'] }),
+      'FORBIDDEN'
+    )
+    await failsWith(asUser(0).query(api.collab.read, { ...target, field: 'title' }), 'VALIDATION_FAILED')
+    await failsWith(
+      asUser(0).mutation(api.collab.apply, { ...target, base: 0, clientId: 'x', op: [99, 'x'] }),
+      'VALIDATION_FAILED'
+    )
+  })
+
+  test('wiki editors collaborate on content', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx),
+      [ownerId, memberId] = userIds,
+      orgId = await ctx.run(async c =>
+        c.db.insert('org', { name: 'Test Org', slug: 'test-org-collab', updatedAt: Date.now(), userId: ownerId })
+      )
+    await ctx.run(async c => {
+      await c.db.insert('orgMember', { isAdmin: false, orgId, updatedAt: Date.now(), userId: memberId })
+    })
+    const wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'Draft',
+        orgId,
+        slug: 'collab-wiki',
+        status: 'draft',
+        title: 'Collab Wiki'
+      }),
+      target = { field: 'content', id: wikiId, table: 'wiki' }
+
+    expect(await asUser(1).query(api.collab.read, target)).toEqual({ content: 'Draft', ops: [], rev: 0 })
+    await failsWith(
+      asUser(1).mutation(api.collab.apply, { ...target, base: 0, clientId: 'm', op: [5, ' one'] }),
+      'FORBIDDEN'
+    )
+    await asUser(0).mutation(api.wiki.addEditor, { editorId: memberId, orgId, wikiId })
+    await asUser(1).mutation(api.collab.apply, { ...target, base: 0, clientId: 'm', op: [5, ' one'] })
+    const wiki = await asUser(0).query(api.wiki.read, { id: wikiId, orgId }),
+      versions = async () =>
+        (
+          await asUser(0).query(api.wiki.versions, {
+            id: wikiId,
+            orgId,
+            paginationOpts: { cursor: null, numItems: 10 }
+          })
+        ).page.map(v => v.snapshot.content)
+    expect(wiki.content).toBe('Draft one')
+    expect(await versions()).toEqual([])
+
+    for (let rev = 1; rev < COLLAB_FLUSH_EVERY; rev += 1)
+      /** biome-ignore lint/performance/noAwaitInLoops: ops apply in order */
+      // oxlint-disable-next-line no-await-in-loop
+      await asUser(1).mutation(api.collab.apply, { ...target, base: rev, clientId: 'm', op: [8 + rev, '.'] })
+    expect(await versions()).toEqual(['Draft'])
+
+    await asUser(0).mutation(api.wiki.rm, { id: wikiId, orgId })
+    await failsWith(asUser(0).query(api.collab.read, target), 'NOT_FOUND')
+    await failsWith(
+      asUser(0).mutation(api.collab.apply, { ...target, base: 1, clientId: 'o', op: [9, '!'] }),
+      'NOT_FOUND'
+    )
+  })
+})
@@ -2,15 +2,22 @@ import { file } from '../lazy'
 
 export const {
   assembleChunks,
+  beginAssembly,
   cancelChunkedUpload,
   CHUNK_SIZE,
   confirmChunk,
+  expireUploads,
   finalizeAssembly,
   getSessionForAssembly,
   getUploadProgress,
   info,
+  inspect,
+  recordCheck,
+  releaseAssembly,
+  saveVariants,
   startChunkedUpload,
   upload,
   uploadChunk,
-  validate
+  validate,
+  variant
 } = file
@@ -0,0 +1,11 @@
+import { makeFileGc } from 'lazyconvex/server'
+
+import { internalAction, internalMutation, internalQuery } from './_generated/server'
+import schema from './schema'
+
+export const { collect, deleteBlobs, referencedPage, report, storagePage } = makeFileGc({
+  internalAction,
+  internalMutation,
+  internalQuery,
+  schema
+})
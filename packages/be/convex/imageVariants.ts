@@ -0,0 +1,7 @@
+'use node'
+
+import { makeImageVariants } from 'lazyconvex/server'
+
+import { internalAction } from './_generated/server'
+
+export const { generateVariants } = makeImageVariants({ internalAction })
@@ -0,0 +1,36 @@
+import { makeJobs } from 'lazyconvex/server'
+
+import env from '../env'
+import { q } from '../lazy'
+import { orgRoles } from '../t'
+import { internalAction, internalMutation, internalQuery } from './_generated/server'
+
+export const {
+  cascadeStep,
+  claimJob,
+  docJobs,
+  failedJobs,
+  finishJob,
+  getJob,
+  reclaimJobs,
+  retryJob,
+  runJob,
+  webhookTarget
+} = makeJobs({
+  handlers: {
+    blogPublished: async (_, payload) => {
+      if (!env.BLOG_WEBHOOK_URL) return
+      const res = await fetch(env.BLOG_WEBHOOK_URL, {
+        body: JSON.stringify(payload),
+        headers: { 'content-type': 'application/json' },
+        method: 'POST'
+      })
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`)
+    }
+  },
+  internalAction,
+  internalMutation,
+  internalQuery,
+  q,
+  roles: orgRoles
+})
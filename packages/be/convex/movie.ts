@@ -1,7 +1,7 @@
 import type { output } from 'zod/v4'
 
 import { v } from 'convex/values'
-import ky from 'ky'
+import ky, { HTTPError } from 'ky'
 import { withRetry } from 'lazyconvex/retry'
 
 import env from '../env'
@@ -15,14 +15,23 @@ const apiKey = env.TMDB_KEY,
   // eslint-disable-next-line @typescript-eslint/promise-function-async
   tmdb = (path: string, params: Record<string, unknown>) =>
     ky.get(`https://api.themoviedb.org/3${path}`, { searchParams: { api_key: apiKey, ...params } }),
-  c = cacheCrud({
-    fetcher: async (_, tmdbId) => {
+  fetchMovie = async (tmdbId: unknown) => {
+    try {
       const { id, ...rest } = await tmdb(`/movie/${String(tmdbId)}`, {}).json<TmdbMovie>()
       return { ...rest, tmdb_id: id }
-    },
+    } catch (error) {
+      if (error instanceof HTTPError && error.response.status === 404) return null
+      throw error
+    }
+  },
+  c = cacheCrud({
+    access: { write: 'admin' },
+    batchFetcher: async (_, tmdbIds) => Promise.all(tmdbIds.map(fetchMovie)),
     key: 'tmdb_id',
+    negativeTtl: 24 * 60 * 60 * 1000,
     rateLimit: { max: 30, window: 60_000 },
     schema: base.movie,
+    staleWhileRevalidate: true,
     table: 'movie'
   })
 export const search = action({
@@ -32,4 +41,30 @@ export const search = action({
       return res.results.map(({ id, ...rest }) => Object.assign(rest, { tmdb_id: id }))
     }
   }),
-  { all, checkRL, create, get, getInternal, invalidate, list, load, purge, read, refresh, rm, set, update } = c
+  {
+    all,
+    checkRL,
+    create,
+    createInternal,
+    get,
+    getInternal,
+    invalidate,
+    invalidateInternal,
+    list,
+    load,
+    loadMany,
+    lookup,
+    purge,
+    purgeInternal,
+    read,
+    refresh,
+    revalidate,
+    revalidateStale,
+    rm,
+    rmInternal,
+    scheduleRevalidate,
+    set,
+    setMany,
+    update,
+    updateInternal
+  } = c
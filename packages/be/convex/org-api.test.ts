@@ -1,11 +1,13 @@
 /* eslint-disable max-statements */
 // oxlint-disable promise/prefer-await-to-then
 // biome-ignore-all lint/performance/noAwaitInLoops: test fixtures
-import { describe, expect, test } from 'bun:test'
+import { afterAll, afterEach, describe, expect, test } from 'bun:test'
 import { convexTest } from 'convex-test'
+import { backfillOrgRoles, verifyWebhook } from 'lazyconvex/server'
 import { createTestContext } from 'lazyconvex/test'
 import { discoverModules } from 'lazyconvex/test/discover'
 
+import { inviteMailer } from '../lazy'
 import { api } from './_generated/api'
 import schema from './schema'
 
@@ -15,6 +17,7 @@ const modules = discoverModules('convex', {
     './_generated/server.js': async () => import('./_generated/server')
   }),
   t = () => convexTest(schema, modules),
+  realFetch = globalThis.fetch,
   // eslint-disable-next-line @typescript-eslint/max-params
   createOrg = async (ctx: TestCtx, userId: string, slug: string, name?: string) =>
     ctx.run(async c =>
@@ -616,6 +619,71 @@ describe('org members', () => {
     })
   })
 
+  describe('org.setRole', () => {
+    test('owner can assign a custom role', async () => {
+      const ctx = t(),
+        { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+        [ownerId, memberId] = userIds,
+        orgId = await createOrg(ctx, ownerId, 'set-role'),
+        memberDocId = await addMember(ctx, orgId, memberId)
+      await asUser(0).mutation(api.org.setRole, { memberId: memberDocId, role: 'billing' })
+
+      const doc = await ctx.run(async c => c.db.get(memberDocId)),
+        members = await asUser(0).query(api.org.members, { orgId })
+      expect(doc?.role).toBe('billing')
+      expect(doc?.isAdmin).toBe(false)
+      expect(members.find(m => m.userId === memberId)?.role).toBe('billing')
+    })
+
+    test('rejects unknown and owner roles', async () => {
+      const ctx = t(),
+        { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+        [ownerId, memberId] = userIds,
+        orgId = await createOrg(ctx, ownerId, 'set-role-invalid'),
+        memberDocId = await addMember(ctx, orgId, memberId)
+      for (const role of ['janitor', 'owner']) {
+        let threw = false
+        try {
+          await asUser(0).mutation(api.org.setRole, { memberId: memberDocId, role })
+        } catch (error) {
+          threw = true
+          expect(String(error)).toContain('INVALID_ROLE')
+        }
+        expect(threw).toBe(true)
+      }
+    })
+
+    test('admin cannot grant a role at their own level', async () => {
+      const ctx = t(),
+        { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+        [ownerId, adminId, thirdId] = userIds,
+        orgId = await createOrg(ctx, ownerId, 'set-role-ceiling')
+      await addMember(ctx, orgId, adminId, true)
+      const thirdMemberId = await addMember(ctx, orgId, thirdId)
+      await asUser(1).mutation(api.org.setRole, { memberId: thirdMemberId, role: 'viewer' })
+      let threw = false
+      try {
+        await asUser(1).mutation(api.org.setRole, { memberId: thirdMemberId, role: 'admin' })
+      } catch (error) {
+        threw = true
+        expect(String(error)).toContain('CANNOT_MODIFY_ADMIN')
+      }
+      expect(threw).toBe(true)
+    })
+  })
+
   describe('org.removeMember', () => {
     test('admin can remove regular member', async () => {
       const ctx = t(),
@@ -1051,6 +1119,180 @@ describe('org invites', () => {
       expect(invites.length).toBe(2)
     })
   })
+
+  describe('invite lifecycle', () => {
+    const setupOrg = async (slug: string) => {
+        const ctx = t(),
+          { asUser, userIds } = await createTestContext(ctx, [
+            { email: 'owner@example.com', name: 'Owner User' },
+            { email: 'member@example.com', name: 'Member User' },
+            { email: 'third@example.com', name: 'Third User' }
+          ]),
+          [ownerId, memberId, thirdId] = userIds,
+          name = `Lifecycle ${slug}`,
+          orgId = await createOrg(ctx, ownerId, slug, name)
+        return {
+          asUser,
+          ctx,
+          memberId,
+          orgId,
+          sent: () => inviteMailer.sent.filter(x => x.orgName === name),
+          thirdId
+        }
+      },
+      codeOf = async (run: () => Promise<unknown>) => {
+        try {
+          await run()
+        } catch (error) {
+          return String(error)
+        }
+        return ''
+      }
+
+    test('invite is emailed through the mailer after commit', async () => {
+      const { asUser, ctx, orgId, sent: sentFor } = await setupOrg('mail-invite'),
+        { inviteId, token } = await asUser(0).mutation(api.org.invite, { email: 'new@test.com', orgId, role: 'viewer' })
+      expect(sentFor()).toHaveLength(0)
+      await ctx.finishAllScheduledFunctions(() => undefined)
+
+      const [sent] = sentFor()
+      expect(sentFor()).toHaveLength(1)
+      expect(sent?.email).toBe('new@test.com')
+      expect(sent?.inviteId).toBe(inviteId)
+      expect(sent?.orgName).toBe('Lifecycle mail-invite')
+      expect(sent?.role).toBe('viewer')
+      expect(sent?.invitedBy).toBe('Owner User')
+      expect(sent?.url).toBe(`http://localhost:3004/invite/${token}`)
+    })
+
+    test('resendInvite re-expires and re-sends the same link', async () => {
+      const { asUser, ctx, orgId, sent } = await setupOrg('resend-invite'),
+        { inviteId, token } = await asUser(0).mutation(api.org.invite, { email: 'late@test.com', orgId })
+      await ctx.run(async c => c.db.patch(inviteId, { expiresAt: Date.now() - 1000 }))
+
+      const { expiresAt } = await asUser(0).mutation(api.org.resendInvite, { inviteId })
+      await ctx.finishAllScheduledFunctions(() => undefined)
+      expect(expiresAt).toBeGreaterThan(Date.now())
+      expect(sent().map(x => x.token)).toEqual([token, token])
+      expect((await asUser(1).mutation(api.org.acceptInvite, { token })).orgId).toBe(orgId)
+    })
+
+    test('resendInvite is limited to the inviter and admins', async () => {
+      const { asUser, ctx, memberId, orgId, thirdId } = await setupOrg('resend-inviter'),
+        recruit = async (userId: string) =>
+          ctx.run(async c =>
+            c.db.insert('orgMember', {
+              isAdmin: false,
+              orgId,
+              role: 'recruiter',
+              updatedAt: Date.now(),
+              userId: userId as never
+            })
+          )
+      await recruit(memberId)
+      await recruit(thirdId)
+      const { inviteId } = await asUser(1).mutation(api.org.invite, { email: 'r@test.com', orgId, role: 'viewer' })
+
+      expect(await codeOf(async () => asUser(2).mutation(api.org.resendInvite, { inviteId }))).toContain(
+        'INSUFFICIENT_ORG_ROLE'
+      )
+      expect((await asUser(1).mutation(api.org.resendInvite, { inviteId })).expiresAt).toBeGreaterThan(Date.now())
+      expect((await asUser(0).mutation(api.org.resendInvite, { inviteId })).expiresAt).toBeGreaterThan(Date.now())
+    })
+
+    test('resendInvite cannot send a role above the caller', async () => {
+      const { asUser, ctx, memberId, orgId } = await setupOrg('resend-demoted'),
+        memberDocId = await addMember(ctx, orgId, memberId, true),
+        { inviteId } = await asUser(1).mutation(api.org.invite, { email: 'a@test.com', orgId, role: 'admin' })
+      await ctx.run(async c => c.db.patch(memberDocId, { isAdmin: false, role: 'recruiter' }))
+
+      expect(await codeOf(async () => asUser(1).mutation(api.org.resendInvite, { inviteId }))).toContain(
+        'INSUFFICIENT_ORG_ROLE'
+      )
+    })
+
+    test('bulkInvite creates invites from CSV and reports skipped rows', async () => {
+      const { asUser, ctx, orgId, sent } = await setupOrg('bulk-invite')
+      await asUser(0).mutation(api.org.invite, { email: 'pending@test.com', orgId })
+      const res = await asUser(0).mutation(api.org.bulkInvite, {
+        csv: 'email,role\na@test.com,viewer\nnot-an-email,member\nA@test.com,member\npending@test.com,\nb@test.com,owner\n\nc@test.com,',
+        orgId
+      })
+      await ctx.finishAllScheduledFunctions(() => undefined)
+
+      expect(res.invited.map(i => i.email)).toEqual(['a@test.com', 'c@test.com'])
+      expect(res.skipped).toEqual([
+        { email: 'not-an-email', reason: 'invalid_email' },
+        { email: 'A@test.com', reason: 'duplicate' },
+        { email: 'pending@test.com', reason: 'pending_invite' },
+        { email: 'b@test.com', reason: 'invalid_role' }
+      ])
+      const invites = await asUser(0).query(api.org.pendingInvites, { orgId })
+      expect(invites.find(i => i.email === 'a@test.com')?.role).toBe('viewer')
+      expect(invites.find(i => i.email === 'c@test.com')?.role).toBe('member')
+      expect(sent()).toHaveLength(3)
+    })
+
+    test('bulkInvite needs invite permission and caps the row count', async () => {
+      const { asUser, ctx, memberId, orgId } = await setupOrg('bulk-denied')
+      await addMember(ctx, orgId, memberId)
+      expect(await codeOf(async () => asUser(1).mutation(api.org.bulkInvite, { csv: 'x@test.com', orgId }))).toContain(
+        'INSUFFICIENT_ORG_ROLE'
+      )
+      const csv = Array.from({ length: 101 }, (_, i) => `u${String(i)}@test.com`).join('\n')
+      expect(await codeOf(async () => asUser(0).mutation(api.org.bulkInvite, { csv, orgId }))).toContain(
+        'LIMIT_EXCEEDED'
+      )
+    })
+
+    test('invite links admit several users up to maxUses with the link role', async () => {
+      const { asUser, ctx, memberId, orgId } = await setupOrg('link-invite'),
+        { linkId, token } = await asUser(0).mutation(api.org.createInviteLink, { maxUses: 1, orgId, role: 'viewer' })
+      expect(await asUser(1).mutation(api.org.acceptInvite, { token })).toEqual({ orgId })
+      const member = await ctx.run(async c =>
+        c.db
+          .query('orgMember')
+          .withIndex('by_org_user', o => o.eq('orgId', orgId).eq('userId', memberId as never))
+          .unique()
+      )
+      expect(member?.role).toBe('viewer')
+
+      let code = ''
+      try {
+        await asUser(2).mutation(api.org.acceptInvite, { token })
+      } catch (error) {
+        code = String(error)
+      }
+      expect(code).toContain('INVITE_USED_UP')
+
+      const [link] = await asUser(0).query(api.org.inviteLinks, { orgId })
+      expect(link?.uses).toBe(1)
+      await asUser(0).mutation(api.org.revokeInviteLink, { linkId })
+      expect(await asUser(0).query(api.org.inviteLinks, { orgId })).toEqual([])
+    })
+
+    test('expired invite links are refused', async () => {
+      const { asUser, ctx, orgId } = await setupOrg('link-expired'),
+        { linkId, token } = await asUser(0).mutation(api.org.createInviteLink, { orgId })
+      await ctx.run(async c => c.db.patch(linkId, { expiresAt: Date.now() - 1000 }))
+      let code = ''
+      try {
+        await asUser(1).mutation(api.org.acceptInvite, { token })
+      } catch (error) {
+        code = String(error)
+      }
+      expect(code).toContain('INVITE_EXPIRED')
+    })
+
+    test('invite link lifetimes are clamped to 30 days', async () => {
+      const { asUser, ctx, orgId } = await setupOrg('link-clamped'),
+        before = Date.now(),
+        { linkId } = await asUser(0).mutation(api.org.createInviteLink, { expiresInMs: 365 * 86_400_000, orgId }),
+        link = await ctx.run(async c => c.db.get(linkId))
+      expect(link?.expiresAt).toBeLessThanOrEqual(Date.now() + 30 * 86_400_000)
+      expect(link?.expiresAt).toBeGreaterThanOrEqual(before + 30 * 86_400_000)
+    })
+  })
 })
 
 describe('org join requests', () => {
@@ -1325,4 +1567,561 @@ describe('org join requests', () => {
       expect(result).toBeNull()
     })
   })
+
+  describe('join policies', () => {
+    const setupOrg = async (slug: string) => {
+        const ctx = t(),
+          { asUser, userIds } = await createTestContext(ctx, [
+            { email: 'owner@example.com', name: 'Owner User' },
+            { email: 'member@example.com', name: 'Member User' },
+            { email: 'third@other.com', name: 'Third User' }
+          ]),
+          [ownerId, memberId, thirdId] = userIds,
+          orgId = await createOrg(ctx, ownerId, slug),
+          memberOf = async (userId: string) =>
+            ctx.run(async c =>
+              c.db
+                .query('orgMember')
+                .withIndex('by_org_user', o => o.eq('orgId', orgId).eq('userId', userId as never))
+                .unique()
+            )
+        return { asUser, ctx, memberId, memberOf, orgId, thirdId }
+      },
+      codeOf = async (run: () => Promise<unknown>) => {
+        try {
+          await run()
+        } catch (error) {
+          return String(error)
+        }
+        return ''
+      }
+
+    test('orgs take requests by default and refuse them when closed', async () => {
+      const { asUser, orgId } = await setupOrg('policy-closed')
+      expect(await asUser(1).query(api.org.joinPolicy, { orgId })).toEqual({
+        domains: [],
+        outcome: 'request',
+        policy: 'request'
+      })
+      await asUser(0).mutation(api.org.setJoinPolicy, { orgId, policy: 'closed' })
+      expect((await asUser(1).query(api.org.getPublic, { slug: 'policy-closed' }))?.joinPolicy).toBe('closed')
+      expect(await codeOf(async () => asUser(1).mutation(api.org.requestJoin, { orgId }))).toContain('JOIN_CLOSED')
+    })
+
+    test('open orgs admit with the configured role and approve any pending request', async () => {
+      const { asUser, ctx, memberId, memberOf, orgId } = await setupOrg('policy-open'),
+        pending = await asUser(1).mutation(api.org.requestJoin, { orgId })
+      expect(pending.joined).toBe(false)
+      await asUser(0).mutation(api.org.setJoinPolicy, { orgId, policy: 'open', role: 'viewer' })
+      expect(await asUser(1).mutation(api.org.requestJoin, { orgId })).toEqual({ joined: true, orgId })
+      expect((await memberOf(memberId))?.role).toBe('viewer')
+      if (!pending.joined) expect((await ctx.run(async c => c.db.get(pending.requestId)))?.status).toBe('approved')
+    })
+
+    test('domain orgs auto-join verified emails on allowed domains and take requests from others', async () => {
+      const { asUser, memberId, memberOf, orgId, thirdId } = await setupOrg('policy-domain')
+      await asUser(0).mutation(api.org.setJoinPolicy, { domains: ['@Example.com'], orgId, policy: 'domain' })
+      expect((await asUser(1).query(api.org.joinPolicy, { orgId })).outcome).toBe('auto')
+      expect(await asUser(1).mutation(api.org.requestJoin, { orgId })).toEqual({ joined: true, orgId })
+      expect((await memberOf(memberId))?.role).toBe('member')
+      expect(await asUser(2).query(api.org.joinPolicy, { orgId })).toEqual({
+        domains: ['example.com'],
+        outcome: 'request',
+        policy: 'domain'
+      })
+      expect(await asUser(2).mutation(api.org.requestJoin, { orgId })).toHaveProperty('requestId')
+      expect(await memberOf(thirdId)).toBeNull()
+    })
+
+    test('setJoinPolicy needs org.update and validates domains and role', async () => {
+      const { asUser, ctx, memberId, orgId } = await setupOrg('policy-admin')
+      await addMember(ctx, orgId, memberId)
+      expect(await codeOf(async () => asUser(1).mutation(api.org.setJoinPolicy, { orgId, policy: 'open' }))).toContain(
+        'INSUFFICIENT_ORG_ROLE'
+      )
+      expect(
+        await codeOf(async () => asUser(0).mutation(api.org.setJoinPolicy, { orgId, policy: 'domain' }))
+      ).toContain('INVALID_DOMAIN')
+      expect(
+        await codeOf(async () =>
+          asUser(0).mutation(api.org.setJoinPolicy, { domains: ['not a domain'], orgId, policy: 'domain' })
+        )
+      ).toContain('INVALID_DOMAIN')
+      expect(
+        await codeOf(async () => asUser(0).mutation(api.org.setJoinPolicy, { orgId, policy: 'open', role: 'owner' }))
+      ).toContain('INVALID_ROLE')
+    })
+  })
+})
+
+describe('org custom roles', () => {
+  const addRole = async (ctx: TestCtx, orgId: string, userId: string, role: string) =>
+    ctx.run(async c =>
+      c.db.insert('orgMember', {
+        isAdmin: false,
+        orgId: orgId as never,
+        role,
+        updatedAt: Date.now(),
+        userId: userId as never
+      })
+    )
+
+  test('membership and myOrgs report stored roles', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+      [ownerId, memberId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-membership')
+    await addRole(ctx, orgId, memberId, 'viewer')
+    const membership = await asUser(1).query(api.org.membership, { orgId }),
+      orgs = await asUser(1).query(api.org.myOrgs, {})
+    expect(membership?.role).toBe('viewer')
+    expect(orgs[0]?.role).toBe('viewer')
+  })
+
+  test('legacy isAdmin rows resolve to admin and backfill writes role', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+      [ownerId, adminId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-legacy'),
+      memberDocId = await addMember(ctx, orgId, adminId, true),
+      membership = await asUser(1).query(api.org.membership, { orgId })
+    expect(membership?.role).toBe('admin')
+
+    const patched = await ctx.run(async c => backfillOrgRoles(c.db as never)),
+      doc = await ctx.run(async c => c.db.get(memberDocId))
+    expect(patched).toBe(1)
+    expect(doc?.role).toBe('admin')
+  })
+
+  test('permission gates org endpoints', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+      [ownerId, billingId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-invite')
+    await addRole(ctx, orgId, billingId, 'billing')
+    let threw = false
+    try {
+      await asUser(1).mutation(api.org.invite, { email: 'x@example.com', orgId })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('INSUFFICIENT_ORG_ROLE')
+      expect(String(error)).toContain('members.invite')
+    }
+    expect(threw).toBe(true)
+  })
+
+  test('invite carries a custom role through acceptance', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+      [ownerId, inviteeId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-accept'),
+      { token } = await asUser(0).mutation(api.org.invite, {
+        email: 'member@example.com',
+        orgId,
+        role: 'project-manager'
+      })
+    await asUser(1).mutation(api.org.acceptInvite, { token })
+    const member = await ctx.run(async c =>
+      c.db
+        .query('orgMember')
+        .withIndex('by_org_user', o => o.eq('orgId', orgId).eq('userId', inviteeId))
+        .unique()
+    )
+    expect(member?.role).toBe('project-manager')
+  })
+
+  test('table edit permission lets a role edit rows it does not own', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' },
+          { email: 'third@example.com', name: 'Third User' }
+        ]),
+      [ownerId, pmId, viewerId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-edit')
+    await addRole(ctx, orgId, pmId, 'project-manager')
+    await addRole(ctx, orgId, viewerId, 'viewer')
+    const wikiId = await asUser(0).mutation(api.wiki.create, {
+        content: 'c',
+        orgId,
+        slug: 'roles-edit-wiki',
+        status: 'draft',
+        title: 'Original'
+      }),
+      updated = await asUser(1).mutation(api.wiki.update, { id: wikiId, orgId, title: 'By PM' })
+    expect(updated.title).toBe('By PM')
+
+    let threw = false
+    try {
+      await asUser(2).mutation(api.wiki.update, { id: wikiId, orgId, title: 'By viewer' })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('FORBIDDEN')
+    }
+    expect(threw).toBe(true)
+  })
+
+  test('roles without table write permission cannot create rows', async () => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' }
+        ]),
+      [ownerId, viewerId] = userIds,
+      orgId = await createOrg(ctx, ownerId, 'roles-write')
+    await addRole(ctx, orgId, viewerId, 'viewer')
+
+    let threw = false
+    try {
+      await asUser(1).mutation(api.wiki.create, {
+        content: 'c',
+        orgId,
+        slug: 'roles-write-wiki',
+        status: 'draft',
+        title: 'By viewer'
+      })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('INSUFFICIENT_ORG_ROLE')
+    }
+    expect(threw).toBe(true)
+  })
+})
+
+describe('org webhooks', () => {
+  interface Received {
+    body: string
+    headers: Headers
+  }
+  let status = 200
+  const received: Received[] = [],
+    stub = Bun.serve({
+      fetch: async req => {
+        received.push({ body: await req.text(), headers: req.headers })
+        return new Response(null, { status })
+      },
+      port: 0
+    }),
+    url = `http://localhost:${stub.port}/hook`,
+    setupOrg = async (slug: string) => {
+      const ctx = t(),
+        { asUser, userIds } = await createTestContext(ctx, [
+          { email: 'owner@example.com', name: 'Owner User' },
+          { email: 'member@example.com', name: 'Member User' }
+        ]),
+        [ownerId, memberId] = userIds,
+        orgId = await createOrg(ctx, ownerId, slug)
+      await addMember(ctx, orgId, memberId)
+      return { asUser, ctx, orgId }
+    }
+
+  afterEach(() => {
+    received.length = 0
+    status = 200
+  })
+
+  afterAll(async () => stub.stop(true))
+
+  test('only admins manage webhooks and the secret is shown once', async () => {
+    const { asUser, orgId } = await setupOrg('hooks-admin'),
+      { secret, webhookId } = await asUser(0).mutation(api.orgWebhook.create, { events: ['task.*'], orgId, url })
+    expect(secret).toStartWith('whsec_')
+
+    const [listed] = await asUser(0).query(api.orgWebhook.list, { orgId })
+    expect(listed?._id).toBe(webhookId)
+    expect(listed?.secretHint).toBe(`…${secret.slice(-4)}`)
+    expect(listed).not.toHaveProperty('secret')
+
+    let threw = false
+    try {
+      await asUser(1).mutation(api.orgWebhook.create, { events: ['*'], orgId, url })
+    } catch (error) {
+      threw = true
+      expect(String(error)).toContain('webhooks.manage')
+    }
+    expect(threw).toBe(true)
+  })
+
+  test('orgCrud writes deliver signed events to subscribed webhooks', async () => {
+    const { asUser, ctx, orgId } = await setupOrg('hooks-deliver'),
+      { secret } = await asUser(0).mutation(api.orgWebhook.create, { events: ['project.update'], orgId, url }),
+      projectId = await asUser(1).mutation(api.project.create, { name: 'Apollo', orgId })
+    await asUser(1).mutation(api.project.update, { id: projectId, name: 'Artemis', orgId })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    expect(received.length).toBe(1)
+    const [{ body, headers }] = received as [Received],
+      payload = JSON.parse(body) as { data: { doc: { name: string }; id: string; prev: { name: string } }; event: string }
+    expect(headers.get('x-webhook-event')).toBe('project.update')
+    expect(payload.event).toBe('project.update')
+    expect(payload.data.id).toBe(projectId)
+    expect(payload.data.prev.name).toBe('Apollo')
+    expect(payload.data.doc.name).toBe('Artemis')
+    expect(
+      await verifyWebhook({
+        body,
+        secret,
+        signature: headers.get('x-webhook-signature'),
+        timestamp: headers.get('x-webhook-timestamp')
+      })
+    ).toBe(true)
+
+    const [log] = await asUser(0).query(api.orgWebhook.deliveries, { orgId })
+    expect(headers.get('x-webhook-id')).toBe(log?._id ?? '')
+    expect(log?.status).toBe('done')
+    expect(log?.attempts).toBe(1)
+  })
+
+  test('failing endpoints are retried and logged as failed', async () => {
+    status = 500
+    const { asUser, ctx, orgId } = await setupOrg('hooks-fail')
+    await asUser(0).mutation(api.orgWebhook.create, { events: ['project.create'], orgId, url })
+    await asUser(0).mutation(api.project.create, { name: 'Down', orgId })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const [log] = await asUser(0).query(api.orgWebhook.deliveries, { orgId })
+    expect(received.length).toBe(3)
+    expect(new Set(received.map(r => r.headers.get('x-webhook-timestamp'))).size).toBe(3)
+    expect(log?.status).toBe('failed')
+    expect(log?.attempts).toBe(3)
+    expect(log?.error).toBe('HTTP 500')
+  })
+
+  test('only tables created with webhooks: true send events', async () => {
+    const { asUser, ctx, orgId } = await setupOrg('hooks-opt-in')
+    await asUser(0).mutation(api.orgWebhook.create, { events: ['*'], orgId, url })
+    const projectId = await asUser(0).mutation(api.project.create, { name: 'Apollo', orgId })
+    await asUser(0).mutation(api.task.create, { orgId, projectId, title: 'Quiet' })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    expect(received.map(r => r.headers.get('x-webhook-event'))).toEqual(['project.create'])
+  })
+
+  test('each webhook keeps only its latest deliveries', async () => {
+    const { asUser, ctx, orgId } = await setupOrg('hooks-trim')
+    await asUser(0).mutation(api.orgWebhook.create, { events: ['project.create'], orgId, url })
+    for (let i = 0; i < 102; i += 1) await asUser(0).mutation(api.project.create, { name: `P${i}`, orgId })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+
+    const logs = await ctx.run(async c => c.db.query('orgWebhookDelivery').collect())
+    expect(logs.length).toBe(100)
+    expect(received.length).toBe(102)
+  })
+
+  test('rm deletes the webhook and its delivery log', async () => {
+    const { asUser, ctx, orgId } = await setupOrg('hooks-rm'),
+      { webhookId } = await asUser(0).mutation(api.orgWebhook.create, { events: ['*'], orgId, url })
+    await asUser(0).mutation(api.project.create, { name: 'Gone', orgId })
+    await ctx.finishAllScheduledFunctions(() => undefined)
+    await asUser(0).mutation(api.orgWebhook.rm, { orgId, webhookId })
+
+    expect(await asUser(0).query(api.orgWebhook.list, { orgId })).toEqual([])
+    expect(await asUser(0).query(api.orgWebhook.deliveries, { orgId })).toEqual([])
+  })
+})
+
+describe('org export and import', () => {
+  const seed = async (slug: string) => {
+    const ctx = t(),
+      { asUser, userIds } = await createTestContext(ctx, [
+        { email: 'owner@example.com', name: 'Owner User' },
+        { email: 'admin@example.com', name: 'Admin User' },
+        { email: 'other@example.com', name: 'Other User' }
+      ]),
+      [ownerId, adminId, otherId] = userIds,
+      orgId = await createOrg(ctx, ownerId, slug, 'Acme'),
+      ids = await ctx.run(async c => {
+        const avatarId = await c.storage.store(new Blob(['avatar-bytes'], { type: 'image/png' })),
+          now = Date.now(),
+          projectId = await c.db.insert('project', { name: 'Apollo', orgId, updatedAt: now, userId: ownerId as never }),
+          taskId = await c.db.insert('task', {
+            assigneeId: otherId as never,
+            orgId,
+            projectId,
+            title: 'Launch',
+            updatedAt: now,
+            userId: ownerId as never
+          }),
+          wikiId = await c.db.insert('wiki', {
+            orgId,
+            slug: 'home',
+            status: 'draft',
+            title: 'Home',
+            updatedAt: now,
+            userId: ownerId as never
+          })
+        await c.db.insert('wikiVersion', {
+          docId: wikiId,
+          orgId,
+          snapshot: { _id: wikiId, title: 'Home' },
+          userId: ownerId as never,
+          version: 1
+        })
+        await c.db.insert('orgInvite', {
+          email: 'new@example.com',
+          expiresAt: now + 60_000,
+          isAdmin: false,
+          orgId,
+          token: 'old-token'
+        })
+        await c.db.patch(orgId, { avatarId })
+        return { avatarId, projectId, taskId, wikiId }
+      })
+    await addMember(ctx, orgId, adminId, true)
+    globalThis.fetch = (async (_: Request | string | URL, init?: RequestInit) => {
+      const blob = await new Response(init?.body).blob()
+      return Response.json({ storageId: await ctx.run(async c => c.storage.store(blob)) })
+    }) as typeof fetch
+    return { adminId, asUser, ctx, ids, orgId, ownerId }
+  }
+
+  afterEach(() => {
+    globalThis.fetch = realFetch
+  })
+
+  test('owner exports an archive that imports under a new slug with fresh ids and copied files', async () => {
+    const { adminId, asUser, ctx, ids, orgId } = await seed('acme'),
+      exported = await asUser(0).action(api.org.export, { orgId })
+    expect(exported.rows).toBe(4)
+    expect(exported.files).toBe(1)
+    expect(exported.url).toBeString()
+
+    const res = await asUser(1).action(api.org.import, { archive: exported.storageId, slug: 'acme-restored' }),
+      copy = await ctx.run(async c => {
+        const o = await c.db.get(res.orgId),
+          q = (table: 'orgInvite' | 'orgMember' | 'project' | 'task' | 'wiki' | 'wikiVersion') =>
+            c.db
+              .query(table)
+              .withIndex('by_org', x => x.eq('orgId', res.orgId))
+              .collect(),
+          avatar = o?.avatarId ? await c.storage.get(o.avatarId) : null
+        return {
+          avatar: avatar ? await avatar.text() : null,
+          invites: await q('orgInvite'),
+          members: await q('orgMember'),
+          org: o,
+          projects: await q('project'),
+          tasks: await q('task'),
+          versions: await q('wikiVersion'),
+          wikis: await q('wiki')
+        }
+      })
+    expect(res.rows).toBe(4)
+    expect(copy.org?.name).toBe('Acme')
+    expect(copy.org?.slug).toBe('acme-restored')
+    expect(copy.org?.userId).toBe(adminId as never)
+    expect(copy.org?.avatarId).not.toBe(ids.avatarId)
+    expect(copy.avatar).toBe('avatar-bytes')
+    expect(copy.members).toEqual([])
+    expect(copy.invites).toHaveLength(1)
+    expect(copy.invites[0]?.email).toBe('new@example.com')
+    expect(copy.invites[0]?.token).not.toBe('old-token')
+    expect(copy.projects[0]?._id).not.toBe(ids.projectId)
+    expect(copy.tasks[0]?.projectId).toBe(copy.projects[0]?._id as never)
+    expect(copy.tasks[0]?.orgId).toBe(res.orgId)
+    expect(copy.tasks[0]?.assigneeId).toBe(adminId as never)
+    expect(copy.versions[0]?.docId).toBe(copy.wikis[0]?._id as never)
+    expect((copy.versions[0]?.snapshot as { _id: string })._id).toBe(copy.wikis[0]?._id as string)
+
+    const original = await ctx.run(async c => c.db.get(ids.taskId))
+    expect(original?.projectId).toBe(ids.projectId)
+  })
+
+  test('import rejects rows that point at documents outside the archive', async () => {
+    const { asUser, ctx, orgId, ownerId } = await seed('acme-leaky')
+    await ctx.run(async c => {
+      const now = Date.now(),
+        otherOrg = await c.db.insert('org', { name: 'Other', slug: 'other', updatedAt: now, userId: ownerId }),
+        projectId = await c.db.insert('project', { name: 'Secret', orgId: otherOrg, updatedAt: now, userId: ownerId })
+      await c.db.insert('task', { orgId, projectId, title: 'Leak', updatedAt: now, userId: ownerId })
+    })
+    const { storageId } = await asUser(0).action(api.org.export, { orgId })
+    let code = ''
+    try {
+      await asUser(0).action(api.org.import, { archive: storageId, slug: 'acme-leaky-copy' })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('INVALID_ARCHIVE')
+    const left = await ctx.run(async c => ({
+      files: (await c.db.system.query('_storage').collect()).length,
+      invites: (await c.db.query('orgInvite').collect()).length,
+      orgs: (await c.db.query('org').collect()).length,
+      projects: (await c.db.query('project').collect()).length
+    }))
+    expect(left).toEqual({ files: 2, invites: 1, orgs: 2, projects: 2 })
+  })
+
+  test('editors remapped to the importer are kept once', async () => {
+    const { adminId, asUser, ctx, ids, orgId, ownerId } = await seed('acme-editors')
+    await ctx.run(async c => c.db.patch(ids.wikiId, { editors: [ownerId, adminId] as never }))
+    const { storageId } = await asUser(0).action(api.org.export, { orgId }),
+      res = await asUser(1).action(api.org.import, { archive: storageId, slug: 'acme-editors-copy' }),
+      wikis = await ctx.run(async c =>
+        c.db
+          .query('wiki')
+          .withIndex('by_org', x => x.eq('orgId', res.orgId))
+          .collect()
+      )
+    expect(wikis[0]?.editors).toEqual([adminId as never])
+  })
+
+  test('exports are recorded for their org and deleted with it', async () => {
+    const { asUser, ctx, orgId } = await seed('acme-gone'),
+      { storageId } = await asUser(0).action(api.org.export, { orgId })
+    expect(await ctx.run(async c => c.db.query('orgExport').collect())).toMatchObject([{ orgId, storageId }])
+
+    await asUser(0).mutation(api.org.remove, { orgId })
+    expect(await ctx.run(async c => c.db.query('orgExport').collect())).toEqual([])
+    expect(await ctx.run(async c => c.db.system.get(storageId))).toBeNull()
+  })
+
+  test('only the owner can export', async () => {
+    const { asUser, orgId } = await seed('acme-private')
+    let code = ''
+    try {
+      await asUser(1).action(api.org.export, { orgId })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('FORBIDDEN')
+  })
+
+  test('import rejects a taken slug and files that are not export archives', async () => {
+    const { asUser, ctx, orgId } = await seed('acme-taken'),
+      { storageId } = await asUser(0).action(api.org.export, { orgId }),
+      junk = await ctx.run(async c => c.storage.store(new Blob(['not a zip'])))
+    let code = ''
+    try {
+      await asUser(0).action(api.org.import, { archive: storageId, slug: 'acme-taken' })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('ORG_SLUG_TAKEN')
+
+    code = ''
+    try {
+      await asUser(0).action(api.org.import, { archive: junk, slug: 'acme-junk' })
+    } catch (error) {
+      code = String(error)
+    }
+    expect(code).toContain('INVALID_ARCHIVE')
+    expect(await ctx.run(async c => c.db.query('org').collect())).toHaveLength(1)
+  })
 })
@@ -9,13 +9,27 @@ import { getAuthUserIdOrTest } from './testauth'
 const {
     acceptInvite,
     approveJoinRequest,
+    bulkInvite,
     cancelJoinRequest,
     create,
+    createInviteLink,
+    deliverInvite,
+    export: exportOrg,
+    exportHead,
+    exportPage,
+    exportSaved,
     get,
     getBySlug,
     getPublic,
+    import: importOrg,
+    importAbort,
+    importPatch,
+    importRows,
+    importStart,
     invite,
+    inviteLinks,
     isSlugAvailable,
+    joinPolicy,
     leave,
     members,
     membership,
@@ -27,8 +41,12 @@ const {
     remove,
     removeMember,
     requestJoin,
+    resendInvite,
     revokeInvite,
+    revokeInviteLink,
     setAdmin,
+    setJoinPolicy,
+    setRole,
     transferOwnership,
     update
   } = orgFns,
@@ -85,14 +103,28 @@ const {
 export {
   acceptInvite,
   approveJoinRequest,
+  bulkInvite,
   cancelJoinRequest,
   create,
+  createInviteLink,
+  deliverInvite,
+  exportHead,
+  exportOrg as export,
+  exportPage,
+  exportSaved,
   get,
   getBySlug,
   getOrCreate,
   getPublic,
+  importOrg as import,
+  importAbort,
+  importPatch,
+  importRows,
+  importStart,
   invite,
+  inviteLinks,
   isSlugAvailable,
+  joinPolicy,
   leave,
   members,
   membership,
@@ -104,8 +136,12 @@ export {
   remove,
   removeMember,
   requestJoin,
+  resendInvite,
   revokeInvite,
+  revokeInviteLink,
   setAdmin,
+  setJoinPolicy,
+  setRole,
   transferOwnership,
   update
 }
@@ -0,0 +1,3 @@
+import { orgFns } from '../lazy'
+
+export const { create, deliveries, list, rm } = orgFns.webhooks
@@ -0,0 +1,5 @@
+import { makePresence } from 'lazyconvex/server'
+
+import { m, q } from '../lazy'
+
+export const { heartbeat, leave, list } = makePresence({ m, q })
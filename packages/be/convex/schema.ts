@@ -3,27 +3,41 @@ import { zodOutputToConvexFields as z2c } from 'convex-helpers/server/zod4'
 import { defineSchema, defineTable } from 'convex/server'
 import { v } from 'convex/values'
 import {
+  auditTables,
   baseTable,
+  cacheMissTable,
+  collabTables,
+  fileVariantTable,
+  jobsTable,
   orgChildTable,
   orgTable,
   orgTables,
   ownedTable,
+  presenceTable,
   rateLimitTable,
   singletonTable,
-  uploadTables
+  uploadTables,
+  versionTable
 } from 'lazyconvex/server'
 
 import { base, children, orgScoped, owned, singleton } from '../t'
 
 export default defineSchema({
   ...authTables,
+  ...auditTables(),
+  ...cacheMissTable(),
+  ...collabTables(),
+  ...fileVariantTable(),
+  ...jobsTable(),
   ...orgTables(),
+  ...presenceTable(),
   ...rateLimitTable(),
   ...uploadTables(),
   ...({
     blog: ownedTable(owned.blog)
       .index('by_published', ['published'])
       .index('by_category', ['category'])
+      .index('by_title', ['title'])
       .searchIndex('search_field', { searchField: 'content' as never }),
     chat: ownedTable(owned.chat)
   } satisfies Record<keyof typeof owned, ReturnType<typeof ownedTable>>),
@@ -41,6 +55,10 @@ export default defineSchema({
     orgProfile: singletonTable(singleton.orgProfile)
   } satisfies Record<keyof typeof singleton, ReturnType<typeof singletonTable>>),
   project: orgTable(orgScoped.project),
-  task: orgChildTable(orgScoped.task, { foreignKey: 'projectId', table: 'project' }),
-  wiki: orgTable(orgScoped.wiki).index('by_slug', ['orgId' as never, 'slug' as never])
+  task: orgChildTable(orgScoped.task, { foreignKey: 'projectId', table: 'project' }).index('by_org_priority', [
+    'orgId' as never,
+    'priority' as never
+  ]),
+  wiki: orgTable(orgScoped.wiki).index('by_slug', ['orgId' as never, 'slug' as never]),
+  wikiVersion: versionTable('wiki')
 })
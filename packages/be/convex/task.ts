@@ -1,5 +1,5 @@
 import { zid } from 'convex-helpers/server/zod4'
-import { canEdit, err, requireOrgMember, requireOrgRole, time } from 'lazyconvex/server'
+import { canEdit, err, requireOrgMember, requireOrgRole, time, withMeta } from 'lazyconvex/server'
 
 import type { Doc, Id, TableNames } from './_generated/dataModel'
 
@@ -9,7 +9,7 @@ import { orgScoped } from '../t'
 type OrgDoc<T extends TableNames> = Doc<T> & { orgId: Id<'org'>; userId: Id<'users'> }
 
 // eslint-disable-next-line lazyconvex/require-rate-limit -- demo backend keeps default write throughput
-const { bulkRm, bulkUpdate, create, list, read, rm, update } = orgCrud('task', orgScoped.task, {
+const { audit, bulkRm, bulkUpdate, create, list, read, rm, update } = orgCrud('task', orgScoped.task, {
     aclFrom: { field: 'projectId', table: 'project' }
   }),
   byProject = pq({
@@ -24,48 +24,54 @@ const { bulkRm, bulkUpdate, create, list, read, rm, update } = orgCrud('task', o
       return tasks.filter(t => (t as OrgDoc<'task'>).orgId === orgId)
     }
   }),
-  // eslint-disable-next-line lazyconvex/no-unprotected-mutation -- demo endpoint checks org membership and ACL in handler
-  toggle = m({
-    args: { id: zid('task'), orgId: zid('org') },
-    handler: async (ctx, { id, orgId }) => {
-      const { role } = await requireOrgMember({ db: ctx.db, orgId, userId: ctx.user._id }),
-        task = (await ctx.db.get(id)) as null | OrgDoc<'task'>
-      if (!task || task.orgId !== orgId) return err('NOT_FOUND')
-      const projectId = task.projectId as Id<'project'>,
-        project = projectId ? ((await ctx.db.get(projectId)) as null | OrgDoc<'project'>) : null,
-        pEditors = project ? (project.editors ?? []) : []
-      if (!canEdit({ acl: true, doc: { editors: pEditors, userId: task.userId }, role, userId: ctx.user._id }))
-        return err('FORBIDDEN')
-      await ctx.db.patch(id, { completed: !task.completed, ...time() } as never)
-      return ctx.db.get(id)
-    }
-  }),
-  // eslint-disable-next-line lazyconvex/no-unprotected-mutation -- demo endpoint checks org role and ownership in handler
-  assign = m({
-    args: {
-      assigneeId: zid('users').optional(),
-      id: zid('task'),
-      orgId: zid('org')
-    },
-    handler: async (
-      ctx,
-      {
-        assigneeId,
-        id,
-        orgId
-      }: {
-        assigneeId?: Id<'users'>
-        id: Id<'task'>
-        orgId: Id<'org'>
+  toggle = withMeta(
+    // eslint-disable-next-line lazyconvex/no-unprotected-mutation -- demo endpoint checks org membership and ACL in handler
+    m({
+      args: { id: zid('task'), orgId: zid('org') },
+      handler: async (ctx, { id, orgId }) => {
+        const { role } = await requireOrgMember({ db: ctx.db, orgId, userId: ctx.user._id }),
+          task = (await ctx.db.get(id)) as null | OrgDoc<'task'>
+        if (!task || task.orgId !== orgId) return err('NOT_FOUND')
+        const projectId = task.projectId as Id<'project'>,
+          project = projectId ? ((await ctx.db.get(projectId)) as null | OrgDoc<'project'>) : null,
+          pEditors = project ? (project.editors ?? []) : []
+        if (!canEdit({ acl: true, doc: { editors: pEditors, userId: task.userId }, role, userId: ctx.user._id }))
+          return err('FORBIDDEN')
+        await ctx.db.patch(id, { completed: !task.completed, ...time() } as never)
+        return ctx.db.get(id)
       }
-    ) => {
-      await requireOrgRole({ db: ctx.db, minRole: 'admin', orgId, userId: ctx.user._id })
-      const task = (await ctx.db.get(id)) as null | OrgDoc<'task'>
-      if (!task || task.orgId !== orgId) return err('NOT_FOUND')
-      if (assigneeId) await requireOrgMember({ db: ctx.db, orgId, userId: assigneeId })
-      await ctx.db.patch(id, { assigneeId: assigneeId ?? null, ...time() } as never)
-      return ctx.db.get(id)
-    }
-  })
+    }),
+    { kind: 'update', table: 'task' }
+  ),
+  assign = withMeta(
+    // eslint-disable-next-line lazyconvex/no-unprotected-mutation -- demo endpoint checks org role and ownership in handler
+    m({
+      args: {
+        assigneeId: zid('users').optional(),
+        id: zid('task'),
+        orgId: zid('org')
+      },
+      handler: async (
+        ctx,
+        {
+          assigneeId,
+          id,
+          orgId
+        }: {
+          assigneeId?: Id<'users'>
+          id: Id<'task'>
+          orgId: Id<'org'>
+        }
+      ) => {
+        await requireOrgRole({ db: ctx.db, minRole: 'admin', orgId, userId: ctx.user._id })
+        const task = (await ctx.db.get(id)) as null | OrgDoc<'task'>
+        if (!task || task.orgId !== orgId) return err('NOT_FOUND')
+        if (assigneeId) await requireOrgMember({ db: ctx.db, orgId, userId: assigneeId })
+        await ctx.db.patch(id, { assigneeId: assigneeId ?? null, ...time() } as never)
+        return ctx.db.get(id)
+      }
+    }),
+    { kind: 'update', table: 'task' }
+  )
 
-export { assign, bulkRm, bulkUpdate, byProject, create, list, read, rm, toggle, update }
+export { assign, audit, bulkRm, bulkUpdate, byProject, create, list, read, rm, toggle, update }
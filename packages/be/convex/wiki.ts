@@ -6,19 +6,29 @@ import { orgScoped } from '../t'
 
 export const {
     addEditor,
+    audit,
     bulkRm,
     bulkUpdate,
+    collab,
     create,
     editors,
     list,
     read,
+    readVersion,
     removeEditor,
     restore,
+    revert,
     rm,
     setEditors,
-    update
+    update,
+    versions
     // eslint-disable-next-line lazyconvex/require-rate-limit -- demo backend keeps default write throughput
-  } = orgCrud('wiki', orgScoped.wiki, { acl: true, softDelete: true }),
+  } = orgCrud('wiki', orgScoped.wiki, {
+    acl: true,
+    fields: { internalNotes: { read: 'admin', write: 'admin' }, status: { write: 'owner' } },
+    softDelete: true,
+    versioned: true
+  }),
   listDeleted = q({
     args: { orgId: zid('org') },
     handler: async (c, { orgId }: { orgId: string }) => {
@@ -6,6 +6,8 @@ import { string } from 'zod/v4'
 export default createEnv({
   runtimeEnv: process.env,
   server: {
+    BLOG_WEBHOOK_URL: string().optional(),
+    LOCAL_MAILER: string().optional(),
     TMDB_KEY: string()
   },
   skipValidation:
@@ -1,18 +1,30 @@
-import { makeFileUpload, setup } from 'lazyconvex/server'
+import { auditTrail, localMailer, makeFileUpload, orgCascade, setup } from 'lazyconvex/server'
+import { isTestMode } from 'lazyconvex/test'
 
-import { action, internalMutation, internalQuery, mutation, query } from './convex/_generated/server'
+import { action, internalAction, internalMutation, internalQuery, mutation, query } from './convex/_generated/server'
+import schema from './convex/schema'
 import { getAuthUserIdOrTest } from './convex/testauth'
-import { org } from './t'
+import env from './env'
+import { children, org, orgRoles, orgScoped } from './t'
 
-const s = setup({
+const inviteMailer = localMailer({ baseUrl: 'http://localhost:3004/invite' }),
+  localInvites = isTestMode() || env.LOCAL_MAILER === 'true',
+  s = setup({
     action,
+    cascades: { project: orgCascade(orgScoped.task, { foreignKey: 'projectId', table: 'task' }) },
+    children,
     getAuthUserId: getAuthUserIdOrTest,
+    internalAction,
     internalMutation,
     internalQuery,
+    inviteMailer: localInvites ? inviteMailer : undefined,
+    middleware: [auditTrail({ tables: ['blog', 'blogProfile', 'project', 'task', 'wiki'] })],
     mutation,
     orgCascadeTables: ['task', 'project'],
+    orgRoles,
     orgSchema: org.team,
-    query
+    query,
+    schema
   }),
   { cacheCrud, childCrud, crud, m, orgCrud, pq, q, singletonCrud, uniqueCheck } = s,
   file = makeFileUpload({
@@ -28,4 +40,4 @@ const s = setup({
 if (!s.org) throw new Error('org not configured')
 const orgFns = s.org
 
-export { cacheCrud, childCrud, crud, file, m, orgCrud, orgFns, pq, q, singletonCrud, uniqueCheck }
+export { cacheCrud, childCrud, crud, file, inviteMailer, m, orgCrud, orgFns, pq, q, singletonCrud, uniqueCheck }
@@ -0,0 +1,48 @@
+/* Generated by `lazyconvex codegen-meta`. Do not edit. */
+import type { MutationManifest } from 'lazyconvex'
+
+const mutationMeta: MutationManifest = {
+  'blog:bulkRm': { kind: 'other', table: 'blog' },
+  'blog:bulkUpdate': { kind: 'other', table: 'blog' },
+  'blog:create': { kind: 'create', table: 'blog' },
+  'blog:rm': { idArg: 'id', kind: 'delete', table: 'blog' },
+  'blog:update': { idArg: 'id', kind: 'update', table: 'blog' },
+  'blogProfile:upsert': { kind: 'other', table: 'blogProfile' },
+  'chat:create': { kind: 'create', table: 'chat' },
+  'chat:rm': { idArg: 'id', kind: 'delete', table: 'chat' },
+  'chat:update': { idArg: 'id', kind: 'update', table: 'chat' },
+  'message:create': { kind: 'create', table: 'message' },
+  'message:update': { idArg: 'id', kind: 'update', table: 'message' },
+  'movie:create': { kind: 'create', table: 'movie' },
+  'movie:invalidate': { kind: 'other', table: 'movie' },
+  'movie:purge': { kind: 'other', table: 'movie' },
+  'movie:rm': { idArg: 'id', kind: 'delete', table: 'movie' },
+  'movie:update': { idArg: 'id', kind: 'update', table: 'movie' },
+  'orgProfile:upsert': { kind: 'other', table: 'orgProfile' },
+  'project:addEditor': { kind: 'other', table: 'project' },
+  'project:bulkRm': { kind: 'other', table: 'project' },
+  'project:create': { kind: 'create', table: 'project' },
+  'project:removeEditor': { kind: 'other', table: 'project' },
+  'project:rm': { idArg: 'id', kind: 'delete', table: 'project' },
+  'project:setEditors': { kind: 'other', table: 'project' },
+  'project:update': { idArg: 'id', kind: 'update', table: 'project' },
+  'task:assign': { idArg: 'id', kind: 'update', table: 'task' },
+  'task:bulkRm': { kind: 'other', table: 'task' },
+  'task:bulkUpdate': { kind: 'other', table: 'task' },
+  'task:create': { kind: 'create', table: 'task' },
+  'task:rm': { idArg: 'id', kind: 'delete', table: 'task' },
+  'task:toggle': { idArg: 'id', kind: 'update', table: 'task' },
+  'task:update': { idArg: 'id', kind: 'update', table: 'task' },
+  'wiki:addEditor': { kind: 'other', table: 'wiki' },
+  'wiki:bulkRm': { kind: 'other', table: 'wiki' },
+  'wiki:bulkUpdate': { kind: 'other', table: 'wiki' },
+  'wiki:create': { kind: 'create', table: 'wiki' },
+  'wiki:removeEditor': { kind: 'other', table: 'wiki' },
+  'wiki:restore': { kind: 'other', table: 'wiki' },
+  'wiki:revert': { kind: 'other', table: 'wiki' },
+  'wiki:rm': { idArg: 'id', kind: 'delete', table: 'wiki' },
+  'wiki:setEditors': { kind: 'other', table: 'wiki' },
+  'wiki:update': { idArg: 'id', kind: 'update', table: 'wiki' }
+}
+
+export default mutationMeta
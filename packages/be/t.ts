@@ -1,9 +1,22 @@
 import { zid } from 'convex-helpers/server/zod4'
-import { child, cvFile, cvFiles, makeBase, makeOrgScoped, makeOwned, makeSingleton, orgSchema } from 'lazyconvex/schema'
+import {
+  child,
+  collabText,
+  cvFile,
+  cvFiles,
+  defineOrgRoles,
+  makeBase,
+  makeOrgScoped,
+  makeOwned,
+  makeSingleton,
+  orgSchema
+} from 'lazyconvex/schema'
 import { array, boolean, number, object, string, union, enum as zenum } from 'zod/v4'
 
 const file = cvFile(),
   files = cvFiles(),
+  image = cvFile({ accept: ['image/*'], maxSize: 5 * 1024 * 1024 }),
+  cover = cvFile({ variants: { hero: { format: 'webp', w: 1200 }, thumb: { w: 200 } } }),
   messagePart = union([
     object({ text: string(), type: zenum(['text']) }),
     object({ image: file, type: zenum(['image']) }),
@@ -13,8 +26,8 @@ const file = cvFile(),
     blog: object({
       attachments: files.max(5).optional(),
       category: zenum(['tech', 'life', 'tutorial'], { error: 'Select a category' }),
-      content: string().min(3, 'At least 3 characters'),
-      coverImage: file.nullable().optional(),
+      content: collabText().min(3, 'At least 3 characters'),
+      coverImage: cover.nullable().optional(),
       published: boolean(),
       tags: array(string()).max(5, 'Max 5 tags').optional(),
       title: string().min(1, 'Required')
@@ -57,6 +70,16 @@ const file = cvFile(),
   org = {
     team: orgSchema
   },
+  orgRoles = defineOrgRoles({
+    billing: { label: 'Billing', level: 1, permissions: ['billing.*'] },
+    'project-manager': {
+      label: 'Project Manager',
+      level: 1,
+      permissions: ['*.write', 'project.edit', 'task.edit', 'wiki.edit']
+    },
+    recruiter: { label: 'Recruiter', level: 0, permissions: ['members.invite'] },
+    viewer: { label: 'Viewer', level: 0 }
+  }),
   orgScoped = makeOrgScoped({
     project: object({
       description: string().optional(),
@@ -72,9 +95,10 @@ const file = cvFile(),
       title: string().min(1)
     }),
     wiki: object({
-      content: string().optional(),
+      content: collabText().optional(),
       deletedAt: number().optional(),
       editors: array(zid('users')).max(100).optional(),
+      internalNotes: string().optional(),
       slug: string()
         .min(1)
         .regex(/^[a-z0-9-]+$/u),
@@ -83,7 +107,7 @@ const file = cvFile(),
     })
   }),
   profileShape = {
-    avatar: file.nullable().optional(),
+    avatar: image.nullable().optional(),
     bio: string().max(500).optional(),
     displayName: string().trim().min(1),
     notifications: boolean(),
@@ -94,4 +118,4 @@ const file = cvFile(),
     orgProfile: object(profileShape)
   })
 
-export { base, children, org, orgScoped, owned, singleton }
+export { base, children, org, orgRoles, orgScoped, owned, singleton }
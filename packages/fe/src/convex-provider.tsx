@@ -3,9 +3,11 @@
 import type { ReactNode } from 'react'
 
 import { api } from '@a/be'
+import mutationMeta from '@a/be/meta'
 import { ConvexAuthNextjsProvider as AuthProvider } from '@convex-dev/auth/nextjs'
 import { ConvexProvider as BaseProvider, ConvexReactClient as Client } from 'convex/react'
-import { FileApiProvider } from 'lazyconvex/components'
+import { CollabApiProvider, FileApiProvider } from 'lazyconvex/components'
+import { OptimisticProvider } from 'lazyconvex/react'
 import { NavigationGuardProvider } from 'next-navigation-guard'
 
 import env from './env'
@@ -17,7 +19,12 @@ interface ConvexProviderProps {
   noAuth?: boolean
 }
 
-const FILE_API = { info: api.file.info, upload: api.file.upload },
+const COLLAB_API = {
+    apply: api.collab.apply,
+    presence: { heartbeat: api.presence.heartbeat, leave: api.presence.leave, list: api.presence.list },
+    read: api.collab.read
+  },
+  FILE_API = { info: api.file.info, inspect: api.file.inspect, upload: api.file.upload },
   clients = new Map<string, Client>(),
   getClient = (url: string) => {
     let c = clients.get(url)
@@ -29,7 +36,13 @@ const FILE_API = { info: api.file.info, upload: api.file.upload },
   },
   ConvexProvider = ({ children, convexUrl, fileApi, noAuth }: ConvexProviderProps) => {
     const client = getClient(convexUrl ?? env.NEXT_PUBLIC_CONVEX_URL),
-      guarded = <NavigationGuardProvider>{children}</NavigationGuardProvider>,
+      guarded = (
+        <NavigationGuardProvider>
+          <OptimisticProvider meta={mutationMeta}>
+            <CollabApiProvider value={COLLAB_API}>{children}</CollabApiProvider>
+          </OptimisticProvider>
+        </NavigationGuardProvider>
+      ),
       inner = fileApi ? <FileApiProvider value={FILE_API}>{guarded}</FileApiProvider> : guarded
     return noAuth ? (
       <BaseProvider client={client}>{inner}</BaseProvider>
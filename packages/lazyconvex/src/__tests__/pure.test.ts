@@ -4,9 +4,10 @@
 /* eslint-disable no-console */
 import type { GenericTableInfo, RegisteredQuery } from 'convex/server'
 
-import { describe, expect, test } from 'bun:test'
-import { ConvexError } from 'convex/values'
-import { array, boolean, date, number, object, optional, string, enum as zenum } from 'zod/v4'
+import { afterEach, describe, expect, test } from 'bun:test'
+import { defineSchema, defineTable } from 'convex/server'
+import { ConvexError, v } from 'convex/values'
+import { array, boolean, date, number, object, optional, string, union, enum as zenum } from 'zod/v4'
 
 import type { AccessEntry, FactoryCall } from '../check'
 import type { CheckResult } from '../doctor'
@@ -18,7 +19,10 @@ import type { UseListOptions } from '../react/use-list'
 import type { MutateOptions } from '../react/use-mutate'
 import type { PresenceUser, UsePresenceOptions, UsePresenceResult } from '../react/use-presence'
 import type { UseSearchOptions, UseSearchResult } from '../react/use-search'
+import type { CascadeStep } from '../server/cascade'
 import type { ConvexErrorData, MutationFail, MutationOk, MutationResult } from '../server/helpers'
+import { activeMailer, localMailer } from '../server/invite-mailer'
+import { enqueueJob, withEffects } from '../server/jobs'
 import type { OrgCrudOptions } from '../server/org-crud'
 import type {
   AssertSchema,
@@ -33,6 +37,7 @@ import type {
   CrudHooks,
   CrudOptions,
   CrudResult,
+  DbLike,
   DetectBrand,
   ErrorCode,
   GlobalHookCtx,
@@ -64,18 +69,25 @@ import {
 } from '../add'
 import {
   accessForFactory,
+  checkCacheWrites,
   checkIndexCoverage,
+  checkOrderByCoverage,
   checkSchemaConsistency,
   endpointsForFactory,
+  fieldAccessForFactory,
   extractCustomIndexes,
+  extractFieldPolicies,
+  extractOrderByFromArgs,
   extractSchemaFields,
   extractWhereFromOptions,
   FACTORY_DEFAULT_INDEXES,
   HEALTH_ERROR_PENALTY,
   HEALTH_MAX,
   HEALTH_WARN_PENALTY,
+  orderIndexFor,
   parseObjectFields,
-  printSchemaPreview
+  printSchemaPreview,
+  scanOrderByUsage
 } from '../check'
 import { isValidSwiftIdent, SWIFT_KEYWORDS, swiftEnumCase } from '../codegen-swift-utils'
 import { defineSteps } from '../components/step-form'
@@ -91,6 +103,7 @@ import {
 import { extractJSDoc, generateMarkdown, resolveReExports } from '../docs-gen'
 import { calcHealthScore, checkDeps, checkEslintContent, checkRateLimit } from '../doctor'
 import { recommended as eslintRecommended, rules as eslintRules } from '../eslint'
+import { matchesAccept, sniffContentType } from '../file-type'
 import { guardApi } from '../guard'
 import { diffSnapshots, isOptionalField as isOptionalRaw, parseFieldsFromBlock, parseSchemaContent } from '../migrate'
 import {
@@ -106,19 +119,29 @@ import {
   updateSubscriptionData
 } from '../react/devtools'
 import { makeErrorHandler } from '../react/error-toast'
-import { buildMeta, getMeta } from '../react/form'
-import { createOptimisticStore, makeTempId } from '../react/optimistic-store'
+import { buildMeta, getMeta, mergeFields } from '../react/form'
+import { createOfflineQueue, memoryStorage } from '../react/offline-queue'
+import { createOptimisticStore, forTable, makeTempId, resolveMutationMeta, tableOf } from '../react/optimistic-store'
 import { canEditResource } from '../react/org'
 import { collectSettled, resolveBulkError } from '../react/use-bulk-mutate'
-import { applyOptimistic, DEFAULT_PAGE_SIZE } from '../react/use-list'
+import { chunkChecksum } from '../react/use-chunked-upload'
+import { initCollab, localEdit, receiveOps, takeOutgoing } from '../react/use-collab-text'
+import { applyOptimistic, DEFAULT_PAGE_SIZE, overlayOptimistic } from '../react/use-list'
+import { applyOptimisticDoc } from '../react/use-read'
 import { DEFAULT_DEBOUNCE_MS, DEFAULT_MIN_LENGTH } from '../react/use-search'
 import { fetchWithRetry, withRetry } from '../retry'
-import { child, cvFile, cvFiles, makeBase, makeOrgScoped, makeOwned, makeSingleton } from '../schema'
+import { child, collabText, cvFile, cvFiles, makeBase, makeOrgScoped, makeOwned, makeSingleton } from '../schema'
 import { generateFieldValue, generateOne, generateSeed } from '../seed'
 import { flt, idx, indexFields, sch, typed } from '../server/bridge'
+import { readArchive, unzipStream, zipArchive, zipStream } from '../server/archive'
+import { AUDIT_IGNORED_FIELDS, auditTrail, diffFields } from '../server/audit'
+import { cascade, CASCADE_BATCH, cascadeGraph, installCascades } from '../server/cascade'
 import { ownedCascade } from '../server/crud'
+import { assertWritable, canAccess, stripFields } from '../server/field-access'
+import { storageFieldsOf } from '../server/file-gc'
 import {
   cleanFiles,
+  conflictErr,
   detectFiles,
   err,
   errValidation,
@@ -150,17 +173,37 @@ import {
   sanitizeString,
   slowQueryWarn
 } from '../server/middleware'
-import { orgCascade } from '../server/org-crud'
+import { collectMutationMeta, describeMutations, getMutationMeta, withMeta } from '../server/mutation-meta'
+import { canEdit, orgCascade } from '../server/org-crud'
+import { mapIds, orgDataTables } from '../server/org-export'
+import { parseInviteCsv } from '../server/org-invites'
+import { joinOutcome, normalizeDomains } from '../server/org-join'
+import {
+  defineOrgRoles,
+  grantableRole,
+  hasOrgPermission,
+  isAdminRole,
+  memberRoleFields,
+  roleLevel,
+  storedRole
+} from '../server/org-roles'
+import { matchesEvent } from '../server/org-webhooks'
 import { HEARTBEAT_INTERVAL_MS, PRESENCE_TTL_MS } from '../server/presence'
+import { applyPlan, eqOnly, orderIndex, planIndex, tableIndexes } from '../server/query-plan'
 import { baseTable, orgTable, ownedTable, singletonTable } from '../server/schema-helpers'
 import { isTestMode } from '../server/test'
 import { ERROR_MESSAGES } from '../server/types'
+import { signWebhook, verifyWebhook } from '../server/webhook'
+import { applyTextOp, composeTextOps, diffText, normalizeTextOp, transformPosition, transformTextOp } from '../text-op'
 import { extractChildren, extractFieldsFromBlock, extractFieldType, extractWrapperTables, generateMermaid } from '../viz'
 import {
   coerceOptionals,
+  collabFieldsOf,
   cvFileKindOf,
   defaultValues,
   enumToOptions,
+  fileRulesOf,
+  fileVariantsOf,
   isArrayType,
   isBooleanType,
   isDateType,
@@ -272,6 +315,40 @@ describe('cvFileKindOf', () => {
   })
 })
 
+describe('fileRulesOf', () => {
+  test('reads accept and maxSize through wrappers', () => {
+    const s = cvFile({ accept: ['image/*'], maxSize: 100 })
+      .nullable()
+      .optional()
+    expect(fileRulesOf(s)).toEqual({ accept: ['image/*'], maxSize: 100 })
+  })
+
+  test('cvFiles keeps the rules on its element after max()', () => {
+    expect(fileRulesOf(cvFiles({ maxSize: 10 }).max(3))).toEqual({ maxSize: 10 })
+  })
+
+  test('plain files and non-file fields have none', () => {
+    expect(fileRulesOf(cvFile())).toBeUndefined()
+    expect(fileRulesOf(string().meta({ maxSize: 5 }))).toBeUndefined()
+  })
+})
+
+describe('fileVariantsOf', () => {
+  test('reads variants through wrappers alongside file rules', () => {
+    const s = cvFile({ accept: ['image/*'], variants: { thumb: { w: 200 } } })
+      .nullable()
+      .optional()
+    expect(fileVariantsOf(s)).toEqual({ thumb: { w: 200 } })
+    expect(fileRulesOf(s)).toEqual({ accept: ['image/*'] })
+  })
+
+  test('fields without variants and non-file fields have none', () => {
+    expect(fileVariantsOf(cvFile())).toBeUndefined()
+    expect(fileVariantsOf(cvFile({ variants: {} }))).toBeUndefined()
+    expect(fileVariantsOf(string().meta({ variants: { thumb: { w: 1 } } }))).toBeUndefined()
+  })
+})
+
 describe('defaultValues', () => {
   const schema = object({
     active: boolean(),
@@ -421,7 +498,7 @@ describe('type checks', () => {
 })
 
 describe('matchW', () => {
-  const doc = { category: 'tech', price: 50, published: true, title: 'Test', userId: 'u1' }
+  const doc = { category: 'tech', price: 50, published: true, tags: ['a', 'b'], title: 'Test', userId: 'u1' }
 
   test('no where matches everything', () => {
     expect(matchW(doc, VOID)).toBe(true)
@@ -480,6 +557,40 @@ describe('matchW', () => {
     expect(matchW(doc, { price: { $between: [51, 60] } })).toBe(false)
     expect(matchW(doc, { price: { $between: [50, 50] } })).toBe(true)
   })
+
+  test('$in operator', () => {
+    expect(matchW(doc, { category: { $in: ['life', 'tech'] } })).toBe(true)
+    expect(matchW(doc, { category: { $in: ['life'] } })).toBe(false)
+    expect(matchW(doc, { category: { $in: [] } })).toBe(false)
+  })
+
+  test('$ne operator', () => {
+    expect(matchW(doc, { category: { $ne: 'life' } })).toBe(true)
+    expect(matchW(doc, { category: { $ne: 'tech' } })).toBe(false)
+  })
+
+  test('$contains operator', () => {
+    expect(matchW(doc, { tags: { $contains: 'a' } })).toBe(true)
+    expect(matchW(doc, { tags: { $contains: 'z' } })).toBe(false)
+    expect(matchW(doc, { title: { $contains: 'T' } })).toBe(false)
+  })
+
+  test('$startsWith operator', () => {
+    expect(matchW(doc, { title: { $startsWith: 'Te' } })).toBe(true)
+    expect(matchW(doc, { title: { $startsWith: 'es' } })).toBe(false)
+    expect(matchW(doc, { price: { $startsWith: '5' } })).toBe(false)
+  })
+
+  test('$exists operator', () => {
+    expect(matchW(doc, { deletedAt: { $exists: false } })).toBe(true)
+    expect(matchW(doc, { deletedAt: { $exists: true } })).toBe(false)
+    expect(matchW(doc, { title: { $exists: true } })).toBe(true)
+  })
+
+  test('operators combine within a field', () => {
+    expect(matchW(doc, { price: { $gte: 10, $ne: 50 } })).toBe(false)
+    expect(matchW(doc, { price: { $in: [10, 50], $lt: 100 } })).toBe(true)
+  })
 })
 
 describe('groupList', () => {
@@ -548,6 +659,60 @@ describe('detectFiles', () => {
   })
 })
 
+describe('storageFieldsOf', () => {
+  test('lists storage ids and any fields, nested ones included, for tables that have them', () => {
+    const schema = defineSchema({
+      note: defineTable({ body: v.string(), ownerId: v.id('users') }),
+      post: defineTable({
+        meta: v.record(v.string(), v.array(v.id('_storage'))),
+        parts: v.array(v.union(v.object({ text: v.string() }), v.object({ image: v.id('_storage') }))),
+        photo: v.optional(v.id('_storage')),
+        snapshot: v.any(),
+        tags: v.array(v.string())
+      })
+    })
+    expect(storageFieldsOf(schema)).toEqual({ post: ['meta', 'parts', 'photo', 'snapshot'] })
+  })
+})
+
+describe('sniffContentType', () => {
+  const bytes = (...b: number[]) => new Uint8Array(b),
+    text = (s: string) => new TextEncoder().encode(s)
+
+  test('detects images and documents by magic bytes, ignoring the declared type', () => {
+    expect(sniffContentType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a), 'text/plain')).toBe('image/png')
+    expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('image/jpeg')
+    expect(sniffContentType(text('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp')
+    expect(sniffContentType(text('%PDF-1.7'), 'image/png')).toBe('application/pdf')
+    expect(sniffContentType(text('\0\0\0\x18ftypavif'))).toBe('image/avif')
+  })
+
+  test('uses the declared type only to name containers and text the bytes agree with', () => {
+    const docx = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    expect(sniffContentType(bytes(0x50, 0x4b, 0x03, 0x04), docx)).toBe(docx)
+    expect(sniffContentType(bytes(0x50, 0x4b, 0x03, 0x04), 'image/png')).toBe('application/zip')
+    expect(sniffContentType(text('a,b\n1,2'), 'text/csv')).toBe('text/csv')
+    expect(sniffContentType(text('hello'), 'image/png')).toBe('text/plain')
+    expect(sniffContentType(text('<svg xmlns="http://www.w3.org/2000/svg"/>'), 'image/svg+xml')).toBe('image/svg+xml')
+    expect(sniffContentType(text('alert(1)'), 'image/svg+xml')).toBe('text/plain')
+  })
+
+  test('binary without a known signature is octet-stream', () => {
+    expect(sniffContentType(bytes(0x00, 0x01, 0x02, 0x03))).toBe('application/octet-stream')
+    expect(sniffContentType(bytes())).toBe('application/octet-stream')
+  })
+})
+
+describe('matchesAccept', () => {
+  test('matches exact types and wildcards', () => {
+    expect(matchesAccept('image/png', ['image/*'])).toBe(true)
+    expect(matchesAccept('application/pdf', ['image/*', 'application/pdf'])).toBe(true)
+    expect(matchesAccept('text/plain', ['image/*'])).toBe(false)
+    expect(matchesAccept('imagex/png', ['image/*'])).toBe(false)
+    expect(matchesAccept('video/mp4', ['*/*'])).toBe(true)
+  })
+})
+
 describe('RateLimitConfig', () => {
   test('config shape', () => {
     const config: RateLimitConfig = { max: 10, window: 60_000 }
@@ -750,6 +915,30 @@ describe('WhereOf type safety', () => {
     expect(validBetween.price).toBeDefined()
   })
 
+  test('WhereOf types set, string, and array operators per field', () => {
+    const listSchema = object({ note: string().optional(), status: zenum(['active', 'done']), tags: array(string()) })
+    type LS = typeof listSchema.shape
+    expect(listSchema.shape.tags).toBeDefined()
+
+    const valid: WhereOf<LS> = {
+      note: { $exists: false },
+      status: { $in: ['active', 'done'], $ne: 'done' },
+      tags: { $contains: 'x' }
+    }
+    expect(valid.tags).toBeDefined()
+
+    // @ts-expect-error - $in values must match the enum
+    const _badIn: WhereOf<LS> = { status: { $in: ['archived'] } }
+    expect(_badIn).toBeDefined()
+
+    // @ts-expect-error - $contains only applies to arrays
+    const _badContains: WhereOf<LS> = { note: { $contains: 'x' } }
+    expect(_badContains).toBeDefined()
+
+    const prefix: WhereOf<LS> = { note: { $startsWith: 'a' } }
+    expect(prefix.note).toBeDefined()
+  })
+
   test('WhereOf or[] rejects misspelled field names', () => {
     // @ts-expect-error - 'titl' is not a key of WS
     const _invalid: WhereOf<WS> = { or: [{ titl: 'hello' }] }
@@ -1849,6 +2038,43 @@ describe('err helper', () => {
   })
 })
 
+describe('conflict merge', () => {
+  test('conflictErr carries the stored doc and the fields changed since the base', () => {
+    let data: ConvexErrorData | undefined
+    try {
+      conflictErr({
+        base: { body: 'b1', tags: ['a'], title: 'T1', updatedAt: 3 },
+        current: { body: 'b1', note: 'n', tags: ['a'], title: 'T2', updatedAt: 5 },
+        op: 'wiki:update'
+      })
+    } catch (error) {
+      data = extractErrorData(error)
+    }
+    expect(data?.code).toBe('CONFLICT')
+    expect(data?.changed).toEqual(['title', 'note'])
+    expect(data?.current).toEqual({ body: 'b1', note: 'n', tags: ['a'], title: 'T2', updatedAt: 5 })
+    expect(data?.table).toBe('wiki')
+
+    try {
+      conflictErr({ current: { title: 'T2' } })
+    } catch (error) {
+      data = extractErrorData(error)
+    }
+    expect(data?.changed).toBeUndefined()
+  })
+
+  test('mergeFields keeps each side’s edits and reports only fields both changed differently', () => {
+    const base = { body: 'b0', status: 'draft', tags: ['x'], title: 't0' },
+      current = { body: 'b0', status: 'live', tags: ['x', 'y'], title: 't1' },
+      mine = { body: 'b2', status: 'live', tags: ['x'], title: 't2' }
+    expect(mergeFields({ base, current, mine })).toEqual({
+      conflicts: ['title'],
+      merged: { body: 'b2', status: 'live', tags: ['x', 'y'], title: 't2' }
+    })
+    expect(mergeFields({ base, current: base, mine }).conflicts).toEqual([])
+  })
+})
+
 describe('Promise.allSettled resilience pattern', () => {
   test('allSettled continues after rejection', async () => {
     let successCalled = false
@@ -1939,6 +2165,15 @@ describe('getMeta', () => {
     expect(getMeta(cvFiles().max(5))).toEqual({ kind: 'files', max: 5 })
   })
 
+  test('cvFile rules are exposed for the dropzone', () => {
+    expect(getMeta(cvFile({ accept: ['application/pdf'], maxSize: 1000 }))).toEqual({
+      accept: ['application/pdf'],
+      kind: 'file',
+      maxSize: 1000
+    })
+    expect(getMeta(cvFiles({ accept: ['image/*'] }).max(2))).toEqual({ accept: ['image/*'], kind: 'files', max: 2 })
+  })
+
   test('array(string) returns kind stringArray', () => {
     expect(getMeta(array(string()))).toEqual({ kind: 'stringArray' })
   })
@@ -2054,6 +2289,568 @@ describe('canEditResource', () => {
   })
 })
 
+describe('org roles', () => {
+  const roles = defineOrgRoles({
+    billing: { label: 'Billing', level: 1, permissions: ['billing.*'] },
+    lead: { level: 1, permissions: ['wiki.edit'] },
+    ops: { level: 2 },
+    viewer: { level: 0 }
+  })
+
+  test('defineOrgRoles keeps built-ins and rejects redefining owner', () => {
+    expect(Object.keys(roles).toSorted()).toEqual(['admin', 'billing', 'lead', 'member', 'ops', 'owner', 'viewer'])
+    expect(() => defineOrgRoles({ owner: { level: 9 } })).toThrow()
+  })
+
+  test('roleLevel ranks unknown roles below every defined role', () => {
+    expect(roleLevel('owner', roles)).toBe(3)
+    expect(roleLevel('viewer', roles)).toBe(0)
+    expect(roleLevel('ghost', roles)).toBe(-1)
+  })
+
+  test('isAdminRole uses level, not name', () => {
+    expect(isAdminRole('ops', roles)).toBe(true)
+    expect(isAdminRole('lead', roles)).toBe(false)
+    expect(isAdminRole('owner', roles)).toBe(true)
+  })
+
+  test('hasOrgPermission supports exact, prefix and global wildcards', () => {
+    expect(hasOrgPermission('billing', 'billing.invoices', roles)).toBe(true)
+    expect(hasOrgPermission('billing', 'billingx', roles)).toBe(false)
+    expect(hasOrgPermission('lead', 'wiki.edit', roles)).toBe(true)
+    expect(hasOrgPermission('lead', 'members.invite', roles)).toBe(false)
+    expect(hasOrgPermission('admin', 'members.invite', roles)).toBe(true)
+    expect(hasOrgPermission('viewer', 'wiki.edit', roles)).toBe(false)
+    expect(hasOrgPermission('owner', 'anything', {})).toBe(true)
+  })
+
+  test('storedRole falls back to isAdmin for legacy rows', () => {
+    expect(storedRole({ isAdmin: true })).toBe('admin')
+    expect(storedRole({ isAdmin: false })).toBe('member')
+    expect(storedRole({ isAdmin: true, role: 'viewer' })).toBe('viewer')
+  })
+
+  test('passed registry drives grants, member fields and canEdit', () => {
+    expect(grantableRole('admin', { role: 'lead' }, roles)).toBe('lead')
+    expect(grantableRole('admin', { isAdmin: true }, roles)).toBe('admin')
+    expect(() => grantableRole('admin', { role: 'lead' })).toThrow()
+    expect(() => grantableRole('billing', { role: 'ops' }, roles)).toThrow()
+    expect(() => grantableRole('owner', { role: 'owner' }, roles)).toThrow()
+    expect(memberRoleFields('ops', roles)).toEqual({ isAdmin: true, role: 'ops' })
+    const doc = { userId: 'u1' }
+    expect(canEdit({ acl: false, doc, role: 'billing', roles, table: 'wiki', userId: 'u2' })).toBe(false)
+    expect(canEdit({ acl: false, doc, role: 'lead', roles, table: 'wiki', userId: 'u2' })).toBe(true)
+    expect(canEdit({ acl: false, doc, role: 'lead', roles, table: 'task', userId: 'u2' })).toBe(false)
+  })
+
+  test('member writes through *.write, viewer does not', () => {
+    expect(hasOrgPermission('member', 'task.write')).toBe(true)
+    expect(hasOrgPermission('member', 'task.edit')).toBe(false)
+    expect(hasOrgPermission('viewer', 'task.write')).toBe(false)
+    expect(hasOrgPermission('lead', 'task.write', roles)).toBe(false)
+    const doc = { userId: 'u1' }
+    expect(canEdit({ acl: false, doc, role: 'member', table: 'task', userId: 'u1' })).toBe(true)
+    expect(canEdit({ acl: false, doc, role: 'viewer', table: 'task', userId: 'u1' })).toBe(false)
+    expect(canEdit({ acl: false, doc, role: 'viewer', userId: 'u1' })).toBe(true)
+  })
+})
+
+describe('effects', () => {
+  const fakeCtx = (docs: Record<string, Rec> = {}) => {
+    const inserted: Rec[] = [],
+      scheduled: { args: Rec; delayMs: number }[] = []
+    return {
+      ctx: {
+        db: {
+          get: async (id: string) => docs[id] ?? null,
+          insert: async (_table: string, row: Rec) => {
+            inserted.push(row)
+            return `job${inserted.length}`
+          }
+        } as unknown as DbLike,
+        scheduler: {
+          runAfter: async (delayMs: number, _fn: unknown, args: Rec) => {
+            scheduled.push({ args, delayMs })
+          }
+        }
+      },
+      inserted,
+      scheduled
+    }
+  }
+
+  test('withEffects returns hooks unchanged when there are no effects', () => {
+    const hooks = { afterCreate: () => undefined }
+    expect(withEffects(hooks, undefined, 'blog')).toBe(hooks)
+    expect(withEffects(undefined, [], 'blog')).toBeUndefined()
+  })
+
+  test('update effects see prev and next and respect when', async () => {
+    const { ctx, inserted, scheduled } = fakeCtx(),
+      seen: string[] = [],
+      hooks = withEffects(
+        { afterUpdate: () => void seen.push('hook') },
+        [
+          {
+            delayMs: 50,
+            job: 'published',
+            on: 'update',
+            payload: ({ doc, id }) => ({ id, title: doc.title }),
+            when: ({ doc, prev }) => doc.published === true && prev?.published !== true
+          }
+        ],
+        'blog'
+      ) as CrudHooks
+
+    await hooks.afterUpdate?.(ctx as never, { id: 'b1', patch: { published: true }, prev: { published: false, title: 'T' } })
+    await hooks.afterUpdate?.(ctx as never, { id: 'b1', patch: { title: 'U' }, prev: { published: true, title: 'T' } })
+
+    expect(seen).toEqual(['hook', 'hook'])
+    expect(inserted).toEqual([
+      { attempts: 0, docId: 'b1', name: 'published', payload: { id: 'b1', title: 'T' }, status: 'pending', table: 'blog' }
+    ])
+    expect(scheduled).toEqual([{ args: { jobId: 'job1' }, delayMs: 50 }])
+  })
+
+  test('create and delete effects default the payload to the event', async () => {
+    const { ctx, inserted } = fakeCtx({ b2: { _id: 'b2', title: 'Stored' } }),
+      hooks = withEffects({}, [{ job: 'sync', on: ['create', 'delete'] }], 'blog') as CrudHooks
+
+    await hooks.afterCreate?.(ctx as never, { data: { title: 'Stored' }, id: 'b2' })
+    await hooks.afterDelete?.(ctx as never, { doc: { title: 'Gone' }, id: 'b3' })
+
+    expect(inserted.map(r => r.payload)).toEqual([
+      { doc: { _id: 'b2', title: 'Stored' }, id: 'b2', op: 'create', table: 'blog' },
+      { doc: { title: 'Gone' }, id: 'b3', op: 'delete', table: 'blog' }
+    ])
+  })
+
+  test('enqueueJob requires a scheduler', async () => {
+    const { ctx } = fakeCtx()
+    await expect(enqueueJob({ db: ctx.db }, { name: 'x' })).rejects.toThrow('must be enqueued from a mutation')
+  })
+})
+
+describe('cascade', () => {
+  const fakeDb = (tables: Record<string, Rec[]>) => {
+      const indexes: string[] = [],
+        ref = (x: unknown, d: Rec) => (x && typeof x === 'object' && 'field' in x ? d[(x as { field: string }).field] : x),
+        query = (table: string) => {
+          let rows = tables[table] ?? []
+          const q = {
+            collect: async () => rows,
+            filter: (fn: (fb: unknown) => (d: Rec) => boolean) => {
+              const pred = fn({
+                eq: (a: unknown, b: unknown) => (d: Rec) => ref(a, d) === ref(b, d),
+                field: (field: string) => ({ field })
+              })
+              rows = rows.filter(pred)
+              return q
+            },
+            take: async (n: number) => rows.slice(0, n),
+            withIndex: (name: string, fn: (ib: unknown) => unknown) => {
+              const conds: [string, unknown][] = [],
+                ib = {
+                  eq: (f: string, v: unknown) => {
+                    conds.push([f, v])
+                    return ib
+                  }
+                }
+              indexes.push(name)
+              fn(ib)
+              rows = rows.filter(r => conds.every(([f, v]) => r[f] === v))
+              return q
+            }
+          }
+          return q
+        },
+        find = (id: string) => Object.values(tables).find(rows => rows.some(r => r._id === id)) ?? [],
+        db = {
+          delete: async (id: string) => {
+            const rows = find(id)
+            rows.splice(
+              rows.findIndex(r => r._id === id),
+              1
+            )
+          },
+          patch: async (id: string, data: Rec) => {
+            Object.assign(find(id).find(r => r._id === id) ?? {}, data)
+          },
+          query
+        }
+      return { db, indexes }
+    },
+    comment = object({ body: string(), taskId: string() }),
+    task = object({ deletedAt: number().optional(), file: cvFile().optional(), projectId: string() })
+
+  afterEach(() => installCascades({}))
+
+  test('delete walks every level through indexes and cleans child files', async () => {
+    installCascades({
+      children: {
+        comment: child({ foreignKey: 'taskId', index: 'by_task', parent: 'task', schema: comment }),
+        task: child({ foreignKey: 'projectId', index: 'by_project', parent: 'project', schema: task })
+      }
+    })
+    const tables = {
+        comment: [
+          { _id: 'c1', taskId: 't1' },
+          { _id: 'c2', taskId: 't2' }
+        ],
+        task: [
+          { _id: 't1', file: 'f1', projectId: 'p1' },
+          { _id: 't2', projectId: 'p2' }
+        ]
+      },
+      { db, indexes } = fakeDb(tables),
+      deleted: string[] = []
+    expect(
+      await cascade(
+        { db, storage: { delete: async (id: string) => void deleted.push(id) } },
+        { id: 'p1', mode: 'delete', table: 'project' }
+      )
+    ).toBe(true)
+    expect(tables.task.map(t => t._id)).toEqual(['t2'])
+    expect(tables.comment.map(c => c._id)).toEqual(['c2'])
+    expect(deleted).toEqual(['f1'])
+    expect(new Set(indexes)).toEqual(new Set(['by_project', 'by_task']))
+  })
+
+  test('soft delete stamps children and restore only revives the same stamp', async () => {
+    installCascades({
+      cascades: { project: { foreignKey: 'projectId', index: 'by_project', softDelete: true, table: 'task' } }
+    })
+    const tables: Record<string, Rec[]> = {
+        task: [
+          { _id: 't1', projectId: 'p1' },
+          { _id: 't2', deletedAt: 1, projectId: 'p1' }
+        ]
+      },
+      { db } = fakeDb(tables)
+    await cascade({ db }, { id: 'p1', mode: 'soft', stamp: 5, table: 'project' })
+    expect(tables.task?.map(t => t.deletedAt)).toEqual([5, 1])
+    await cascade({ db }, { id: 'p1', mode: 'restore', stamp: 5, table: 'project' })
+    expect(tables.task?.map(t => t.deletedAt)).toEqual([undefined, 1])
+  })
+
+  test('soft delete walks through tables without deletedAt to reach soft-deletable ones below', async () => {
+    installCascades({
+      cascades: {
+        milestone: { foreignKey: 'milestoneId', index: 'by_milestone', softDelete: true, table: 'task' },
+        project: { foreignKey: 'projectId', index: 'by_project', table: 'milestone' }
+      }
+    })
+    const tables: Record<string, Rec[]> = {
+        milestone: [{ _id: 'm1', projectId: 'p1' }],
+        task: [
+          { _id: 't1', milestoneId: 'm1' },
+          { _id: 't2', milestoneId: 'm2' }
+        ]
+      },
+      { db } = fakeDb(tables)
+    await cascade({ db }, { id: 'p1', mode: 'soft', stamp: 5, table: 'project' })
+    expect(tables.milestone).toEqual([{ _id: 'm1', projectId: 'p1' }])
+    expect(tables.task?.map(t => t.deletedAt)).toEqual([5, undefined])
+    await cascade({ db }, { id: 'p1', mode: 'restore', stamp: 5, table: 'project' })
+    expect(tables.task?.map(t => t.deletedAt)).toEqual([undefined, undefined])
+  })
+
+  test('cascade false opts a table out of the graph', async () => {
+    installCascades({ cascades: { project: false, task: { foreignKey: 'taskId', table: 'comment' } } })
+    const tables = { task: [{ _id: 't1', projectId: 'p1' }] },
+      { db } = fakeDb(tables),
+      graph = cascadeGraph('project', { foreignKey: 'projectId', table: 'task' })
+    await cascade({ db }, { id: 'p1', mode: 'delete', table: 'project' })
+    expect(tables.task.length).toBe(1)
+    expect(Object.keys(graph)).toEqual(['project'])
+    expect(cascadeGraph('task', false)).toEqual({ task: [] })
+  })
+
+  test('factory edges join the setup graph, which reaches grandchildren from other modules', () => {
+    installCascades({ cascades: { task: { foreignKey: 'taskId', index: 'by_task', table: 'comment' } } })
+    expect(cascadeGraph('project', { foreignKey: 'projectId', index: 'by_project', table: 'task' })).toEqual({
+      comment: [],
+      project: [{ foreignKey: 'projectId', index: 'by_project', table: 'task' }],
+      task: [{ foreignKey: 'taskId', index: 'by_task', table: 'comment' }]
+    })
+  })
+
+  test('large subtrees continue in a scheduled step that carries the graph', async () => {
+    installCascades({
+      cascades: { project: { foreignKey: 'projectId', index: 'by_project', table: 'task' } },
+      namespace: 'jobs'
+    })
+    const tables = {
+        task: Array.from({ length: CASCADE_BATCH + 5 }, (_, i) => ({ _id: `t${i}`, projectId: 'p1' }))
+      },
+      { db } = fakeDb(tables),
+      scheduled: CascadeStep[] = [],
+      scheduler = { runAfter: async (_ms: number, _fn: unknown, args: CascadeStep) => void scheduled.push(args) },
+      step = { id: 'p1', mode: 'delete', table: 'project' } as const
+    expect(await cascade({ db, scheduler }, step)).toBe(false)
+    expect(tables.task.length).toBe(5)
+    expect(scheduled).toEqual([
+      { ...step, graph: { project: [{ foreignKey: 'projectId', index: 'by_project', table: 'task' }], task: [] } }
+    ])
+    installCascades({ namespace: 'jobs' })
+    expect(await cascade({ db, scheduler }, scheduled[0] as CascadeStep)).toBe(true)
+    expect(tables.task.length).toBe(0)
+  })
+
+  test('a continuation drops the stored variants of the files it removes', async () => {
+    installCascades({
+      cascades: { project: { fileFields: ['file'], foreignKey: 'projectId', index: 'by_project', table: 'task' } },
+      namespace: 'jobs'
+    })
+    const tables = {
+        fileVariant: [{ _id: 'v1', name: 'thumb', source: 'f1', storageId: 'f1-thumb' }],
+        task: Array.from({ length: CASCADE_BATCH + 1 }, (_, i) =>
+          i === CASCADE_BATCH ? { _id: `t${i}`, file: 'f1', projectId: 'p1' } : { _id: `t${i}`, projectId: 'p1' }
+        )
+      },
+      { db } = fakeDb(tables),
+      deleted: string[] = [],
+      storage = { delete: async (id: string) => void deleted.push(id) },
+      scheduled: CascadeStep[] = [],
+      scheduler = { runAfter: async (_ms: number, _fn: unknown, args: CascadeStep) => void scheduled.push(args) },
+      variants = { enabled: true, namespace: 'imageVariants' }
+    expect(await cascade({ db, scheduler, storage }, { id: 'p1', mode: 'delete', table: 'project', variants })).toBe(
+      false
+    )
+    expect(scheduled[0]?.variants).toEqual(variants)
+    installCascades({ namespace: 'jobs' })
+    expect(await cascade({ db, scheduler, storage }, scheduled[0] as CascadeStep)).toBe(true)
+    expect(deleted).toEqual(['f1', 'f1-thumb'])
+    expect(tables.fileVariant).toEqual([])
+  })
+
+  test('cascadeGraph resolves child indexes from the schema', () => {
+    installCascades({
+      children: { task: child({ foreignKey: 'projectId', parent: 'project', schema: task }) },
+      schema: defineSchema({
+        project: defineTable({}),
+        task: defineTable({ projectId: v.string() }).index('by_project', ['projectId'])
+      })
+    })
+    expect(cascadeGraph('project').project?.[0]?.index).toBe('by_project')
+    expect(cascadeGraph('task')).toEqual({ task: [] })
+  })
+})
+
+describe('webhooks', () => {
+  test('matchesEvent supports exact, table wildcard and catch-all patterns', () => {
+    expect(matchesEvent(['task.update'], 'task.update')).toBe(true)
+    expect(matchesEvent(['task.update'], 'task.create')).toBe(false)
+    expect(matchesEvent(['project.*'], 'project.delete')).toBe(true)
+    expect(matchesEvent(['project.*'], 'task.delete')).toBe(false)
+    expect(matchesEvent(['*'], 'wiki.create')).toBe(true)
+    expect(matchesEvent([], 'wiki.create')).toBe(false)
+  })
+
+  test('verifyWebhook accepts its own signature and rejects tampering', async () => {
+    const body = JSON.stringify({ event: 'task.update' }),
+      timestamp = Date.now(),
+      signature = `sha256=${await signWebhook('whsec_a', timestamp, body)}`,
+      base = { body, secret: 'whsec_a', signature, timestamp: String(timestamp) }
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/u)
+    expect(await verifyWebhook(base)).toBe(true)
+    expect(await verifyWebhook({ ...base, body: `${body} ` })).toBe(false)
+    expect(await verifyWebhook({ ...base, secret: 'whsec_b' })).toBe(false)
+    expect(await verifyWebhook({ ...base, signature: null })).toBe(false)
+  })
+
+  test('verifyWebhook rejects stale timestamps', async () => {
+    const timestamp = Date.now() - 10 * 60 * 1000,
+      signature = `sha256=${await signWebhook('s', timestamp, '{}')}`
+    expect(await verifyWebhook({ body: '{}', secret: 's', signature, timestamp: String(timestamp) })).toBe(false)
+    expect(
+      await verifyWebhook({ body: '{}', secret: 's', signature, timestamp: String(timestamp), toleranceMs: 60 * 60 * 1000 })
+    ).toBe(true)
+  })
+})
+
+
+describe('org invites', () => {
+  test('parseInviteCsv reads email and role columns with or without a header', () => {
+    expect(parseInviteCsv('a@x.com\r\n\n b@x.com , admin \n')).toEqual([
+      { email: 'a@x.com' },
+      { email: 'b@x.com', role: 'admin' }
+    ])
+    expect(parseInviteCsv('name,Role,Email\nAnn,viewer,"ann@x.com"\nBo,,bo@x.com')).toEqual([
+      { email: 'ann@x.com', role: 'viewer' },
+      { email: 'bo@x.com' }
+    ])
+    expect(parseInviteCsv('')).toEqual([])
+  })
+
+  test('parseInviteCsv keeps commas, quotes, and line breaks inside quoted cells', () => {
+    expect(parseInviteCsv('email,note,role\n"ann@x.com","Ann, ""the"" lead\r\non call",viewer\nbo@x.com')).toEqual([
+      { email: 'ann@x.com', role: 'viewer' },
+      { email: 'bo@x.com' }
+    ])
+  })
+
+  test('localMailer records each email with its accept link and appends it to a file', async () => {
+    const { mkdtemp, readFile } = await import('node:fs/promises'),
+      { tmpdir } = await import('node:os'),
+      file = `${await mkdtemp(`${tmpdir()}/invites-`)}/outbox.jsonl`,
+      mailer = localMailer({ baseUrl: 'https://app.test/invite/', file }),
+      email = {
+        email: 'a@x.com',
+        expiresAt: 1,
+        inviteId: 'i1',
+        orgId: 'o1',
+        orgName: 'Acme',
+        role: 'member',
+        token: 'tok'
+      }
+    await mailer.send(email)
+    expect(mailer.sent).toEqual([{ ...email, url: 'https://app.test/invite/tok' }])
+    expect(JSON.parse(await readFile(file, 'utf8'))).toEqual(mailer.sent[0])
+  })
+
+  test('activeMailer drops localMailer in production and keeps other mailers', () => {
+    const origNode = process.env.NODE_ENV,
+      local = localMailer(),
+      remote = { send: async () => undefined }
+    process.env.NODE_ENV = 'production'
+    expect(activeMailer(local)).toBeUndefined()
+    expect(activeMailer(remote)).toBe(remote)
+    process.env.NODE_ENV = 'development'
+    expect(activeMailer(local)).toBe(local)
+    expect(activeMailer()).toBeUndefined()
+    process.env.NODE_ENV = origNode
+  })
+})
+
+describe('org join policies', () => {
+  const verified = (email: string) => ({ email, emailVerificationTime: 1 })
+
+  test('joinOutcome follows the policy and only auto-joins verified emails on allowed domains', () => {
+    expect(joinOutcome({}, verified('a@x.com'))).toBe('request')
+    expect(joinOutcome({ joinPolicy: 'closed' }, verified('a@x.com'))).toBe('closed')
+    expect(joinOutcome({ joinPolicy: 'open' }, {})).toBe('auto')
+    const org = { joinDomains: ['acme.com'], joinPolicy: 'domain' }
+    expect(joinOutcome(org, verified('Ann@ACME.com'))).toBe('auto')
+    expect(joinOutcome(org, { email: 'ann@acme.com' })).toBe('request')
+    expect(joinOutcome(org, verified('ann@sub.acme.com'))).toBe('request')
+    expect(joinOutcome(org, verified('acme.com'))).toBe('request')
+  })
+
+  test('normalizeDomains lowercases, strips @ and rejects malformed domains', () => {
+    expect(normalizeDomains([' @Acme.com', 'acme.com', 'mail.example.org'])).toEqual(['acme.com', 'mail.example.org'])
+    expect(() => normalizeDomains(['not a domain'])).toThrow()
+    expect(() => normalizeDomains(['a@b.com'])).toThrow()
+  })
+})
+
+describe('org export', () => {
+  const enc = new TextEncoder(),
+    schema = defineSchema({
+      audit: defineTable({ orgId: v.optional(v.id('org')) }).index('by_org', ['orgId']),
+      note: defineTable({ body: v.any(), orgId: v.id('org'), taskId: v.optional(v.id('task')) }).index('by_org', [
+        'orgId'
+      ]),
+      org: defineTable({ name: v.string() }),
+      orgMember: defineTable({ orgId: v.id('org') }).index('by_org', ['orgId']),
+      project: defineTable({ orgId: v.id('org') }).index('by_org', ['orgId']),
+      tag: defineTable({ name: v.string() }),
+      task: defineTable({
+        files: v.array(v.id('_storage')),
+        meta: v.record(v.string(), v.union(v.id('project'), v.null())),
+        orgId: v.id('org'),
+        projectId: v.id('project')
+      }).index('by_org', ['orgId'])
+    })
+
+  test('zipArchive output round-trips through readArchive', () => {
+    const bytes = zipArchive([
+        { data: enc.encode('{"a":1}'), name: 'org.json' },
+        { data: new Uint8Array([0, 255, 7]), name: 'files/kg2abc' }
+      ]),
+      entries = readArchive(bytes)
+    expect([...(entries?.keys() ?? [])]).toEqual(['org.json', 'files/kg2abc'])
+    expect(new TextDecoder().decode(entries?.get('org.json'))).toBe('{"a":1}')
+    expect([...(entries?.get('files/kg2abc') ?? [])]).toEqual([0, 255, 7])
+  })
+
+  test('zipStream writes the same bytes as zipArchive, one entry per pull', async () => {
+    const entries = [
+        { data: enc.encode('[]'), name: 'tables/task/0.json' },
+        { data: new Uint8Array([1, 2]), name: 'files/kg2abc' }
+      ],
+      queue = [...entries],
+      streamed = new Uint8Array(await new Response(zipStream(async () => queue.shift() ?? null)).arrayBuffer())
+    expect([...streamed]).toEqual([...zipArchive(entries)])
+  })
+
+  test('readArchive rejects corrupt and foreign bytes', () => {
+    const bytes = zipArchive([{ data: enc.encode('hello'), name: 'a.txt' }])
+    bytes[30 + 'a.txt'.length] = 0x48
+    expect(readArchive(bytes)).toBeNull()
+    expect(readArchive(enc.encode('not a zip'))).toBeNull()
+    expect(readArchive(new Uint8Array())).toBeNull()
+  })
+
+  test('unzipStream reads entries in order from a stream split at any byte', async () => {
+    const bytes = zipArchive([
+        { data: enc.encode('[]'), name: 'tables/task/0.json' },
+        { data: new Uint8Array([1, 2, 3]), name: 'files/kg2abc' }
+      ]),
+      stream = new ReadableStream<Uint8Array>({
+        start: ctl => {
+          for (let i = 0; i < bytes.length; i += 7) ctl.enqueue(bytes.subarray(i, i + 7))
+          ctl.close()
+        }
+      }),
+      next = unzipStream(stream),
+      first = await next(),
+      second = await next()
+    expect(first?.name).toBe('tables/task/0.json')
+    expect([...(second?.data ?? [])]).toEqual([1, 2, 3])
+    expect(await next()).toBeNull()
+  })
+
+  test('unzipStream rejects corrupt and truncated bytes', async () => {
+    const bytes = zipArchive([{ data: enc.encode('hello'), name: 'a.txt' }]),
+      read = async (b: Uint8Array<ArrayBuffer>) => {
+        try {
+          return await unzipStream(new Response(b).body as ReadableStream<Uint8Array>)()
+        } catch (error) {
+          return String(error)
+        }
+      }
+    expect(await read(bytes.subarray(0, 20))).toContain('INVALID_ARCHIVE')
+    bytes[30 + 'a.txt'.length] = 0x48
+    expect(await read(bytes)).toContain('INVALID_ARCHIVE')
+    expect(await read(enc.encode('not a zip'))).toContain('INVALID_ARCHIVE')
+  })
+
+  test('orgDataTables lists org-scoped tables after the tables they reference', () => {
+    expect(orgDataTables(schema)).toEqual(['project', 'task', 'note'])
+  })
+
+  test('mapIds rewrites ids the validator declares, drops unknown ones, and rewrites known ids inside v.any()', () => {
+    const ids: Record<string, string> = { f1: 'f9', o1: 'o9', p1: 'p9', t1: 't9' },
+      shape = (schema.tables.task as unknown as { validator: Parameters<typeof mapIds>[0] }).validator,
+      row = { files: ['f1', 'f2'], meta: { a: 'p1', b: null }, orgId: 'o1', projectId: 'p1' },
+      snapshot = { list: ['t1', 3], nested: { id: 't1' }, other: 'x' },
+      seen: [string, string | undefined][] = [],
+      out = mapIds(shape, row, (id, t) => {
+        seen.push([id, t])
+        return ids[id]
+      })
+    expect(out).toEqual({ files: ['f9'], meta: { a: 'p9', b: null }, orgId: 'o9', projectId: 'p9' })
+    expect(seen).toContainEqual(['f1', '_storage'])
+    expect(seen).toContainEqual(['o1', 'org'])
+    expect(() => mapIds(shape, { ...row, projectId: 'p2' }, id => ids[id])).toThrow('INVALID_ARCHIVE')
+    expect(mapIds({ kind: 'any' }, snapshot, id => ids[id])).toEqual({
+      list: ['t9', 3],
+      nested: { id: 't9' },
+      other: 'x'
+    })
+  })
+})
 describe('isRecord', () => {
   test('plain object returns true', () => {
     expect(isRecord({ a: 1 })).toBe(true)
@@ -3663,6 +4460,14 @@ describe('lazyconvex-check --endpoints', () => {
     expect(eps).toContain('bulkUpdate')
   })
 
+  test('orgCrud with versioned adds version endpoints', () => {
+    const eps = endpointsForFactory(makeCall('orgCrud', '{ versioned: true }'))
+    expect(eps).toContain('versions')
+    expect(eps).toContain('readVersion')
+    expect(eps).toContain('revert')
+    expect(endpointsForFactory(makeCall('orgCrud'))).not.toContain('revert')
+  })
+
   test('orgCrud with acl adds editor endpoints', () => {
     const eps = endpointsForFactory(makeCall('orgCrud', '{ acl: true }'))
     expect(eps).toContain('addEditor')
@@ -4492,6 +5297,24 @@ describe('stale-while-revalidate for cacheCrud', () => {
     const opts: Opts = { key: 'title', schema: object({ title: string() }), table: 'test' }
     expect(opts.staleWhileRevalidate).toBeUndefined()
   })
+
+  test('CacheOptions accepts staleTtl', () => {
+    type Opts = CacheOptions<{ title: ReturnType<typeof string> }, 'title'>
+    const opts: Opts = { key: 'title', schema: object({ title: string() }), staleTtl: 60_000, table: 'test' }
+    expect(opts.staleTtl).toBe(60_000)
+  })
+
+  test('CacheOptions accepts batchFetcher and negativeTtl', () => {
+    type Opts = CacheOptions<{ title: ReturnType<typeof string> }, 'title'>
+    const opts: Opts = {
+      batchFetcher: async (_, keys) => keys.map(title => ({ title })),
+      key: 'title',
+      negativeTtl: 60_000,
+      schema: object({ title: string() }),
+      table: 'test'
+    }
+    expect(opts.negativeTtl).toBe(60_000)
+  })
 })
 
 describe('useInfiniteList', () => {
@@ -4518,6 +5341,16 @@ describe('useInfiniteList', () => {
   })
 })
 
+describe('useChunkedUpload', () => {
+  test('chunkChecksum is the base64 SHA-256 that Convex stores', async () => {
+    expect(await chunkChecksum(new Blob(['abc']))).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=')
+  })
+
+  test('chunkChecksum of an empty chunk', async () => {
+    expect(await chunkChecksum(new Blob([]))).toBe('47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=')
+  })
+})
+
 describe('useSearch', () => {
   test('UseSearchOptions accepts debounceMs', () => {
     const opts: UseSearchOptions = { debounceMs: 500 }
@@ -4846,6 +5679,312 @@ describe('applyOptimistic', () => {
     expect(result[0]?.title).toBe('second')
     expect(result[1]?.title).toBe('first')
   })
+
+  test('updates and deletes reach pending creates', () => {
+    const pending: PendingMutation[] = [
+        { args: { title: 'draft' }, id: 't1', tempId: 't1', timestamp: 1000, type: 'create' },
+        { args: { id: 't1', title: 'final' }, id: 't1', tempId: 't2', timestamp: 1001, type: 'update' },
+        { args: { title: 'gone' }, id: 't3', tempId: 't3', timestamp: 1002, type: 'create' },
+        { args: { id: 't3' }, id: 't3', tempId: 't4', timestamp: 1003, type: 'delete' }
+      ],
+      result = applyOptimistic([] as Rec[], pending)
+    expect(result).toHaveLength(1)
+    expect(result[0]?._id).toBe('t1')
+    expect(result[0]?.title).toBe('final')
+  })
+})
+
+describe('optimistic reads', () => {
+  const pending: PendingMutation[] = [
+    { args: { title: 'new' }, id: 't1', table: 'blog', tempId: 't1', timestamp: 1000, type: 'create' },
+    { args: { id: 'a', title: 'edited' }, id: 'a', table: 'blog', tempId: 't2', timestamp: 1001, type: 'update' },
+    { args: { id: 'a', name: 'other' }, id: 'a', table: 'project', tempId: 't3', timestamp: 1002, type: 'update' },
+    { args: { id: 'b' }, id: 'b', table: 'blog', tempId: 't4', timestamp: 1003, type: 'delete' }
+  ]
+
+  test('tableOf reads the module from a function name', () => {
+    expect(tableOf('blog:update')).toBe('blog')
+    expect(tableOf('admin/project:read')).toBe('project')
+    expect(forTable(pending, 'project').map(p => p.tempId)).toEqual(['t3'])
+  })
+
+  test('applyOptimisticDoc merges updates for its table and nulls pending deletes', () => {
+    const blog = forTable(pending, 'blog')
+    expect(applyOptimisticDoc({ _id: 'a', title: 'old' }, blog)).toEqual({
+      data: { _id: 'a', id: 'a', title: 'edited' },
+      isPending: true
+    })
+    expect(applyOptimisticDoc({ _id: 'b', title: 'x' }, blog)).toEqual({ data: null, isPending: true })
+    expect(applyOptimisticDoc({ _id: 'c' }, blog)).toEqual({ data: { _id: 'c' }, isPending: false })
+    expect(applyOptimisticDoc(undefined, blog)).toEqual({ data: undefined, isPending: false })
+  })
+
+  test('overlayOptimistic leaves out pending creates', () => {
+    const result = overlayOptimistic(
+      [
+        { _id: 'a', title: 'old' },
+        { _id: 'b', title: 'x' }
+      ],
+      forTable(pending, 'blog')
+    )
+    expect(result).toEqual([{ _id: 'a', id: 'a', title: 'edited' }])
+  })
+})
+
+describe('mutation metadata', () => {
+  const fakeMutation = (isPublic = true) => Object.assign(() => null, { isMutation: true, isPublic })
+
+  test('describeMutations tags factory mutations and keeps explicit metadata', () => {
+    const custom = withMeta(fakeMutation(), { idArg: 'blogId', kind: 'delete', table: 'blog' }),
+      fns = describeMutations('blog', {
+        archive: custom,
+        bulkRm: fakeMutation(),
+        create: fakeMutation(),
+        list: () => null,
+        rm: fakeMutation(),
+        update: fakeMutation()
+      })
+    expect(getMutationMeta(fns.create)).toEqual({ kind: 'create', table: 'blog' })
+    expect(getMutationMeta(fns.update)).toEqual({ idArg: 'id', kind: 'update', table: 'blog' })
+    expect(getMutationMeta(fns.rm)).toEqual({ idArg: 'id', kind: 'delete', table: 'blog' })
+    expect(getMutationMeta(fns.bulkRm)).toEqual({ kind: 'other', table: 'blog' })
+    expect(getMutationMeta(fns.archive)).toEqual({ idArg: 'blogId', kind: 'delete', table: 'blog' })
+    expect(getMutationMeta(fns.list)).toBeUndefined()
+  })
+
+  test('collectMutationMeta keys public mutations by function name', () => {
+    const tagged = (isPublic: boolean) => withMeta(fakeMutation(isPublic), { kind: 'update', table: 'task' })
+    expect(
+      collectMutationMeta({
+        'admin/task': { default: tagged(true) },
+        task: { internalSync: tagged(false), plain: fakeMutation(), toggle: tagged(true) }
+      })
+    ).toEqual({
+      'admin/task': { idArg: 'id', kind: 'update', table: 'task' },
+      'task:toggle': { idArg: 'id', kind: 'update', table: 'task' }
+    })
+  })
+
+  test('resolveMutationMeta prefers declared options, then the manifest, then other', () => {
+    const manifest = { 'task:toggle': { idArg: 'id', kind: 'update', table: 'task' } } as const
+    expect(resolveMutationMeta('task:toggle', manifest)).toEqual({ idArg: 'id', kind: 'update', table: 'task' })
+    expect(resolveMutationMeta('task:toggle', manifest, { idArg: 'taskId' })).toEqual({
+      idArg: 'taskId',
+      kind: 'update',
+      table: 'task'
+    })
+    expect(resolveMutationMeta('blog:publish', manifest)).toEqual({ idArg: 'id', kind: 'other', table: 'blog' })
+  })
+
+  test('applyOptimistic ignores pending other mutations', () => {
+    const pending: PendingMutation[] = [{ args: { ids: ['a'] }, id: 't1', tempId: 't1', timestamp: 1, type: 'other' }]
+    expect(applyOptimistic([{ _id: 'a' }] as Rec[], pending)).toEqual([{ _id: 'a' }])
+  })
+})
+
+describe('collaborative text', () => {
+  test('collabText marks a string field through wrappers and checks', () => {
+    expect(collabFieldsOf({ body: collabText().min(3), notes: collabText().optional(), title: string() })).toEqual([
+      'body',
+      'notes'
+    ])
+    expect(cvFileKindOf(collabText())).toBeUndefined()
+  })
+
+  test('diffText and applyTextOp round-trip', () => {
+    expect(diffText('hello world', 'hello brave world')).toEqual([6, 'brave '])
+    expect(diffText('abcdef', 'abef')).toEqual([2, { d: 2 }])
+    expect(diffText('same', 'same')).toEqual([])
+    expect(applyTextOp('hello world', [6, 'brave '])).toBe('hello brave world')
+    expect(normalizeTextOp([1, 2, 'a', 'b', { d: 1 }, { d: 2 }, 0, 3])).toEqual([3, 'ab', { d: 3 }])
+    expect(() => applyTextOp('ab', [3])).toThrow()
+  })
+
+  test('transformTextOp converges concurrent edits', () => {
+    const base = 'The cat sat',
+      a = diffText(base, 'The black cat sat'),
+      b = diffText(base, 'The cat sat down'),
+      c = diffText(base, 'The sat')
+    for (const [x, y] of [
+      [a, b],
+      [a, c],
+      [b, c]
+    ] as const)
+      expect(applyTextOp(applyTextOp(base, x), transformTextOp(y, x, 'right'))).toBe(
+        applyTextOp(applyTextOp(base, y), transformTextOp(x, y, 'left'))
+      )
+    expect(applyTextOp(applyTextOp('ab', [1, 'X']), transformTextOp([1, 'Y'], [1, 'X'], 'right'))).toBe('aXYb')
+  })
+
+  test('composeTextOps equals applying both ops', () => {
+    const a = diffText('hello', 'help me'),
+      b = diffText('help me', 'yelp me!')
+    expect(applyTextOp('hello', composeTextOps(a, b))).toBe('yelp me!')
+    expect(composeTextOps(['abc'], [1, { d: 1 }])).toEqual(['ac'])
+  })
+
+  test('transformPosition keeps cursors on the same text', () => {
+    expect(transformPosition(5, [2, 'xyz'])).toBe(8)
+    expect(transformPosition(5, [5, 'xyz'])).toBe(5)
+    expect(transformPosition(5, [1, { d: 2 }])).toBe(3)
+    expect(transformPosition(2, [1, { d: 4 }])).toBe(1)
+    expect(transformPosition(1, [3, { d: 1 }])).toBe(1)
+  })
+
+  test('client rebases pending edits over remote ops and acks its own', () => {
+    let state = localEdit(initCollab('hello', 3), 'hello!')
+    const sent = takeOutgoing(state)
+    expect(sent?.op).toEqual([5, '!'])
+    state = localEdit(sent?.state ?? state, 'hello!?')
+    expect(takeOutgoing(state)).toBeUndefined()
+    const remote = receiveOps(state, [{ clientId: 'other', op: ['Oh, '], rev: 4 }], 'me')
+    expect(remote?.state.text).toBe('Oh, hello!?')
+    expect(remote?.applied).toEqual([['Oh, ']])
+    expect(remote?.state.outstanding).toEqual([9, '!'])
+    const acked = receiveOps(remote?.state ?? state, [{ clientId: 'me', op: [9, '!'], rev: 5 }], 'me')
+    expect(acked?.state).toMatchObject({ outstanding: null, rev: 5, text: 'Oh, hello!?' })
+    expect(takeOutgoing(acked?.state ?? state)?.op).toEqual([10, '?'])
+    expect(receiveOps(state, [{ clientId: 'other', op: ['x'], rev: 6 }], 'me')).toBeUndefined()
+  })
+})
+
+describe('offline queue', () => {
+  test('replays in order, maps temp ids to real ids, and survives a reload', async () => {
+    const storage = memoryStorage(),
+      calls: [string, Record<string, unknown>][] = [],
+      offline = createOfflineQueue({
+        run: async () => {
+          throw new Error('offline')
+        },
+        storage
+      })
+    offline.enqueue({
+      args: { title: 'a' },
+      id: 'tmp_a',
+      name: 'blog:create',
+      tempId: 'tmp_a',
+      timestamp: 1,
+      type: 'create'
+    })
+    offline.enqueue({
+      args: { id: 'tmp_a', title: 'b' },
+      id: 'tmp_a',
+      name: 'blog:update',
+      tempId: 'tmp_u',
+      timestamp: 2,
+      type: 'update'
+    })
+    expect(applyOptimistic([] as Rec[], offline.getSnapshot())[0]?.title).toBe('b')
+    await Promise.resolve()
+
+    const reloaded = createOfflineQueue({
+      run: async (name, args) => {
+        calls.push([name, args])
+        return name === 'blog:create' ? 'real_a' : null
+      },
+      storage
+    })
+    await reloaded.hydrate()
+    expect(reloaded.getSnapshot()).toHaveLength(2)
+    expect(await reloaded.replay()).toEqual({ failed: 0, replayed: 2 })
+    expect(calls).toEqual([
+      ['blog:create', { title: 'a' }],
+      ['blog:update', { id: 'real_a', title: 'b' }]
+    ])
+    expect(reloaded.getQueue()).toEqual([])
+    expect(await storage.load()).toEqual([])
+    expect(reloaded.resolveIds({ id: 'tmp_a' })).toEqual({ id: 'real_a' })
+  })
+
+  test('keeps failures per item, blocks dependents, and retries or discards them', async () => {
+    let conflict = true
+    const queue = createOfflineQueue({
+      run: async name => {
+        if (name === 'blog:create' && conflict) throw new ConvexError({ code: 'CONFLICT' })
+        return name === 'blog:create' ? 'real_c' : null
+      },
+      storage: memoryStorage()
+    })
+    queue.enqueue({
+      args: { title: 'c' },
+      id: 'tmp_c',
+      name: 'blog:create',
+      tempId: 'tmp_c',
+      timestamp: 1,
+      type: 'create'
+    })
+    queue.enqueue({
+      args: { id: 'tmp_c' },
+      id: 'tmp_c',
+      name: 'blog:update',
+      tempId: 'tmp_u',
+      timestamp: 2,
+      type: 'update'
+    })
+    queue.enqueue({ args: { id: 'x' }, id: 'x', name: 'blog:update', tempId: 'tmp_x', timestamp: 3, type: 'update' })
+    expect(await queue.replay()).toEqual({ failed: 2, replayed: 1 })
+    expect(queue.getQueue().map(q => [q.tempId, q.status, q.error?.code])).toEqual([
+      ['tmp_c', 'failed', 'CONFLICT'],
+      ['tmp_u', 'failed', undefined]
+    ])
+    expect(queue.getSnapshot()).toEqual([])
+
+    conflict = false
+    queue.retry('tmp_c')
+    expect(await queue.replay()).toEqual({ failed: 0, replayed: 2 })
+
+    queue.enqueue({
+      args: { title: 'd' },
+      id: 'tmp_d',
+      name: 'blog:create',
+      tempId: 'tmp_d',
+      timestamp: 4,
+      type: 'create'
+    })
+    queue.enqueue({
+      args: { id: 'tmp_d' },
+      id: 'tmp_d',
+      name: 'blog:rm',
+      tempId: 'tmp_r',
+      timestamp: 5,
+      type: 'delete'
+    })
+    expect(queue.getQueue()).toEqual([])
+  })
+
+  test('reports a failed replay, and the dependents it blocks, to the onFail given at enqueue', async () => {
+    const seen: [string, string][] = [],
+      onFail = (tempId: string) => (error: unknown) => {
+        seen.push([tempId, String(error)])
+      },
+      queue = createOfflineQueue({
+        run: async name => {
+          if (name === 'blog:create') throw new ConvexError({ code: 'CONFLICT' })
+          return null
+        },
+        storage: memoryStorage()
+      })
+    queue.enqueue(
+      { args: { title: 'e' }, id: 'tmp_e', name: 'blog:create', tempId: 'tmp_e', timestamp: 1, type: 'create' },
+      onFail('tmp_e')
+    )
+    queue.enqueue(
+      { args: { id: 'tmp_e' }, id: 'tmp_e', name: 'blog:update', tempId: 'tmp_v', timestamp: 2, type: 'update' },
+      onFail('tmp_v')
+    )
+    queue.enqueue(
+      { args: { id: 'y' }, id: 'y', name: 'blog:update', tempId: 'tmp_y', timestamp: 3, type: 'update' },
+      onFail('tmp_y')
+    )
+    expect(await queue.replay()).toEqual({ failed: 2, replayed: 1 })
+    expect(seen.map(([tempId]) => tempId)).toEqual(['tmp_e', 'tmp_v'])
+    expect(seen[0]?.[1]).toContain('CONFLICT')
+    expect(seen[1]?.[1]).toContain('Depends on a queued change that failed')
+
+    queue.retry('tmp_e')
+    expect(await queue.replay()).toEqual({ failed: 2, replayed: 0 })
+    expect(seen).toHaveLength(2)
+  })
 })
 
 describe('optimistic types', () => {
@@ -5100,6 +6239,11 @@ describe('extractWhereFromOptions', () => {
     expect(result).toEqual(['createdAt'])
   })
 
+  test('ignores set and string operators', () => {
+    const result = extractWhereFromOptions(", schema, { where: { status: { $in: ['a'] }, title: { $startsWith: 'x' } } }")
+    expect(result).toEqual(['status', 'title'])
+  })
+
   test('returns empty for no where clause', () => {
     expect(extractWhereFromOptions(', owned.blog, { search: "content" }')).toEqual([])
   })
@@ -5114,6 +6258,220 @@ describe('extractWhereFromOptions', () => {
   })
 })
 
+describe('query planner', () => {
+  const indexes = [
+    { fields: ['userId'], name: 'by_user' },
+    { fields: ['published'], name: 'by_published' },
+    { fields: ['category', 'published'], name: 'by_category_published' },
+    { fields: ['priority'], name: 'by_priority' }
+  ]
+
+  test('planIndex picks single-field equality index', () => {
+    const plan = planIndex(indexes, { published: true }, null)
+    expect(plan?.index).toBe('by_published')
+    expect(plan?.eq).toEqual([['published', true]])
+    expect(plan?.rest.published).toBeUndefined()
+  })
+
+  test('planIndex prefers the longest equality prefix', () => {
+    const plan = planIndex(indexes, { category: 'tech', published: true }, null)
+    expect(plan?.index).toBe('by_category_published')
+    expect(plan?.eq).toEqual([
+      ['category', 'tech'],
+      ['published', true]
+    ])
+  })
+
+  test('planIndex leaves unindexed fields in rest', () => {
+    const plan = planIndex(indexes, { published: true, title: 'x' }, null)
+    expect(plan?.index).toBe('by_published')
+    expect(plan?.rest.title).toBe('x')
+  })
+
+  test('planIndex maps own to by_user with viewer id', () => {
+    const plan = planIndex(indexes, { own: true }, 'u1')
+    expect(plan?.index).toBe('by_user')
+    expect(plan?.eq).toEqual([['userId', 'u1']])
+    expect(plan?.rest.own).toBeUndefined()
+  })
+
+  test('planIndex keeps own in rest without viewer', () => {
+    expect(planIndex(indexes, { own: true }, null)).toBeUndefined()
+  })
+
+  test('planIndex uses range bounds on trailing field', () => {
+    const plan = planIndex(indexes, { priority: { $gte: 2, $lt: 5 } }, null)
+    expect(plan?.index).toBe('by_priority')
+    expect(plan?.range).toEqual({ field: 'priority', lower: ['gte', 2], upper: ['lt', 5] })
+    expect(plan?.rest.priority).toBeUndefined()
+  })
+
+  test('planIndex maps $between to gte and lte', () => {
+    expect(planIndex(indexes, { priority: { $between: [1, 3] } }, null)?.range).toEqual({
+      field: 'priority',
+      lower: ['gte', 1],
+      upper: ['lte', 3]
+    })
+  })
+
+  test('planIndex maps $startsWith to a prefix range', () => {
+    const plan = planIndex([{ fields: ['title'], name: 'by_title' }], { title: { $startsWith: 'Ab' } }, null)
+    expect(plan?.range?.lower).toEqual(['gte', 'Ab'])
+    expect(plan?.range?.upper?.[0]).toBe('lt')
+  })
+
+  test('planIndex leaves set operators for the filter', () => {
+    expect(planIndex(indexes, { published: { $in: [true] } }, null)).toBeUndefined()
+    const plan = planIndex(indexes, { category: 'tech', published: { $ne: false } }, null)
+    expect(plan?.index).toBe('by_category_published')
+    expect(plan?.eq).toEqual([['category', 'tech']])
+    expect(plan?.rest.published).toEqual({ $ne: false })
+  })
+
+  test('planIndex ignores ambiguous ranges', () => {
+    expect(planIndex(indexes, { priority: { $gt: 1, $gte: 2 } }, null)).toBeUndefined()
+  })
+
+  test('planIndex returns undefined when no index matches', () => {
+    expect(planIndex(indexes, { title: 'x' }, null)).toBeUndefined()
+    expect(planIndex([], { published: true }, null)).toBeUndefined()
+  })
+
+  test('applyPlan chains eq and range calls', () => {
+    const calls: string[] = [],
+      ib = {
+        eq: (f: string, v: unknown) => {
+          calls.push(`eq:${f}:${String(v)}`)
+          return ib
+        },
+        gt: (f: string, v: unknown) => {
+          calls.push(`gt:${f}:${String(v)}`)
+          return ib
+        },
+        gte: (f: string, v: unknown) => {
+          calls.push(`gte:${f}:${String(v)}`)
+          return ib
+        },
+        lt: (f: string, v: unknown) => {
+          calls.push(`lt:${f}:${String(v)}`)
+          return ib
+        },
+        lte: (f: string, v: unknown) => {
+          calls.push(`lte:${f}:${String(v)}`)
+          return ib
+        }
+      }
+    applyPlan(ib, {
+      eq: [['category', 'tech']],
+      index: 'x',
+      range: { field: 'n', lower: ['gt', 1], upper: ['lte', 9] },
+      rest: {}
+    })
+    expect(calls).toEqual(['eq:category:tech', 'gt:n:1', 'lte:n:9'])
+  })
+
+  test('eqOnly keeps creation order by moving the range back to the filter', () => {
+    const group = { category: 'tech', priority: { $gte: 2 } },
+      ranged = planIndex([{ fields: ['category', 'priority'], name: 'by_category_priority' }], group, null),
+      plan = eqOnly(ranged, group)
+    expect(ranged?.range?.field).toBe('priority')
+    expect(plan?.range).toBeUndefined()
+    expect(plan?.eq).toEqual([['category', 'tech']])
+    expect(plan?.rest.priority).toEqual({ $gte: 2 })
+    expect(eqOnly(planIndex(indexes, { priority: { $gte: 2 } }, null), { priority: { $gte: 2 } })).toBeUndefined()
+    expect(eqOnly(planIndex(indexes, { published: true }, null), { published: true })?.index).toBe('by_published')
+  })
+
+  test('orderIndex resolves declared sort indexes and rejects the rest', () => {
+    expect(orderIndex(indexes, 'priority')).toBe('by_priority')
+    expect(orderIndex([{ fields: ['orgId', 'priority'], name: 'by_org_priority' }], 'priority', true)).toBe(
+      'by_org_priority'
+    )
+    expect(() => orderIndex(indexes, 'title')).toThrow()
+    expect(() => orderIndex([{ fields: ['priority'], name: 'by_org_priority' }], 'priority', true)).toThrow()
+    expect(orderIndex([], 'title')).toBe('by_title')
+  })
+
+  test('tableIndexes reads declared indexes from a schema table', () => {
+    const table = ownedTable(makeOwned({ blog: object({ published: boolean(), title: string() }) }).blog).index(
+      'by_published',
+      ['published' as never]
+    )
+    expect(tableIndexes(defineSchema({ blog: table }), 'blog')).toEqual([
+      { fields: ['userId'], name: 'by_user' },
+      { fields: ['published'], name: 'by_published' }
+    ])
+    expect(tableIndexes(defineSchema({ blog: table }), 'missing')).toEqual([])
+    expect(tableIndexes({ tables: { blog: table } }, 'blog')).toEqual([])
+    expect(tableIndexes(undefined, 'blog')).toEqual([])
+  })
+})
+
+describe('orderBy check', () => {
+  test('extractOrderByFromArgs reads field and direction', () => {
+    expect(extractOrderByFromArgs("{ orderBy: { dir: 'asc', field: 'title' } }")).toEqual({ dir: 'asc', field: 'title' })
+  })
+
+  test('extractOrderByFromArgs defaults direction to desc', () => {
+    expect(extractOrderByFromArgs("{ orderBy: { field: 'priority' }, orgId }")).toEqual({
+      dir: 'desc',
+      field: 'priority'
+    })
+  })
+
+  test('extractOrderByFromArgs returns undefined without orderBy', () => {
+    expect(extractOrderByFromArgs("{ where: { published: true } }")).toBeUndefined()
+  })
+
+  test('orderIndexFor follows factory naming conventions', () => {
+    expect(orderIndexFor('crud', 'title')).toEqual({ fields: ['title'], name: 'by_title', type: 'custom' })
+    expect(orderIndexFor('orgCrud', 'priority')).toEqual({
+      fields: ['orgId', 'priority'],
+      name: 'by_org_priority',
+      type: 'custom'
+    })
+    expect(orderIndexFor('cacheCrud', 'title')).toBeUndefined()
+  })
+
+  test('checkOrderByCoverage flags missing and mismatched indexes', async () => {
+    const { mkdirSync, writeFileSync } = await import('node:fs'),
+      calls: FactoryCall[] = [
+        { factory: 'crud', file: 'blog.ts', options: '', table: 'blog' },
+        { factory: 'orgCrud', file: 'task.ts', options: '', table: 'task' }
+      ],
+      tmpDir = `/tmp/lazyconvex-test-order-${Date.now()}`
+    mkdirSync(`${tmpDir}/convex/_generated`, { recursive: true })
+    writeFileSync(
+      `${tmpDir}/convex/schema.ts`,
+      "export default defineSchema({ blog: ownedTable(owned.blog).index('by_title', ['title']), task: orgTable(orgScoped.task).index('by_org_priority', ['priority']) })"
+    )
+    const issues = checkOrderByCoverage(`${tmpDir}/convex`, calls, [
+      { dir: 'asc', field: 'title', source: 'page.tsx', table: 'blog' },
+      { dir: 'desc', field: 'category', source: 'page.tsx', table: 'blog' },
+      { dir: 'asc', field: 'priority', source: 'tasks.tsx', table: 'task' }
+    ])
+    expect(issues.map(i => i.message)).toEqual([
+      `"blog": orderBy 'category' needs .index('by_category', ['category'])`,
+      `"task": orderBy 'priority' needs .index('by_org_priority', ['orgId', 'priority'])`
+    ])
+    expect(issues.every(i => i.level === 'error')).toBe(true)
+  })
+
+  test('scanOrderByUsage finds orderBy passed to list endpoints', async () => {
+    const { mkdirSync, writeFileSync } = await import('node:fs'),
+      tmpDir = `/tmp/lazyconvex-test-order-scan-${Date.now()}`
+    mkdirSync(`${tmpDir}/convex/_generated`, { recursive: true })
+    mkdirSync(`${tmpDir}/app`, { recursive: true })
+    writeFileSync(
+      `${tmpDir}/app/page.tsx`,
+      "useList(api.blog.list, { orderBy: { dir: 'asc', field: 'title' } })\nuseList(api.chat.list, {})"
+    )
+    expect(scanOrderByUsage(tmpDir, `${tmpDir}/convex`)).toEqual([
+      { dir: 'asc', field: 'title', source: 'page.tsx', table: 'blog' }
+    ])
+  })
+})
+
 describe('FACTORY_DEFAULT_INDEXES', () => {
   test('crud has by_user index', () => {
     expect(FACTORY_DEFAULT_INDEXES.crud).toEqual([{ fields: ['userId'], name: 'by_user', type: 'default' }])
@@ -5130,8 +6488,8 @@ describe('FACTORY_DEFAULT_INDEXES', () => {
     expect(FACTORY_DEFAULT_INDEXES.singletonCrud).toEqual([{ fields: ['userId'], name: 'by_user', type: 'default' }])
   })
 
-  test('cacheCrud has no default indexes', () => {
-    expect(FACTORY_DEFAULT_INDEXES.cacheCrud).toEqual([])
+  test('cacheCrud has the by_updatedAt purge index', () => {
+    expect(FACTORY_DEFAULT_INDEXES.cacheCrud).toEqual([{ fields: ['updatedAt'], name: 'by_updatedAt', type: 'default' }])
   })
 
   test('childCrud has no default indexes', () => {
@@ -5633,6 +6991,16 @@ describe('accessForFactory', () => {
     expect(allAdminEps).toContain('restore')
   })
 
+  test('orgCrud with versioned adds version endpoints to Org Member', () => {
+    const call: FactoryCall = { factory: 'orgCrud', file: 'wiki.ts', options: 'versioned: true', table: 'wiki' },
+      result = accessForFactory(call),
+      memberEps: string[] = []
+    for (const entry of result) if (entry.level === 'Org Member') memberEps.push(...entry.endpoints)
+    expect(memberEps).toContain('versions')
+    expect(memberEps).toContain('readVersion')
+    expect(memberEps).toContain('revert')
+  })
+
   test('childCrud returns Parent Owner level', () => {
     const call: FactoryCall = { factory: 'childCrud', file: 'message.ts', options: '', table: 'message' },
       result = accessForFactory(call),
@@ -5687,6 +7055,36 @@ describe('accessForFactory', () => {
     expect(result[0]?.endpoints).toContain('refresh')
   })
 
+  test('cacheCrud with a write policy splits writes into their own level', () => {
+    const admin = accessForFactory({
+        factory: 'cacheCrud',
+        file: 'movie.ts',
+        options: "{ access: { write: 'admin' }, key: 'tmdb_id', table: 'movie' }",
+        table: 'movie'
+      }),
+      custom = accessForFactory({
+        factory: 'cacheCrud',
+        file: 'movie.ts',
+        options: '{ access: { write: ctx => ctx.userId !== null }, table: "movie" }',
+        table: 'movie'
+      })
+    expect(admin.map((e: AccessEntry) => e.level)).toEqual(['No Auth', 'Admin'])
+    expect(admin[0]?.endpoints).not.toContain('create')
+    expect(admin[1]?.endpoints).toEqual(['create', 'update', 'rm', 'invalidate', 'purge'])
+    expect(custom[1]?.level).toBe('Custom')
+  })
+
+  test('checkCacheWrites warns only for caches without a write policy', () => {
+    const issues = checkCacheWrites([
+      { factory: 'cacheCrud', file: 'movie.ts', options: "{ table: 'movie' }", table: 'movie' },
+      { factory: 'cacheCrud', file: 'show.ts', options: "{ access: { write: 'authenticated' } }", table: 'show' },
+      { factory: 'crud', file: 'blog.ts', options: '', table: 'blog' }
+    ])
+    expect(issues).toHaveLength(1)
+    expect(issues[0]?.file).toBe('movie.ts')
+    expect(issues[0]?.level).toBe('warn')
+  })
+
   test('singletonCrud returns Owner level with get and upsert', () => {
     const call: FactoryCall = { factory: 'singletonCrud', file: 'profile.ts', options: '', table: 'profile' },
       result = accessForFactory(call)
@@ -5770,6 +7168,65 @@ describe('accessForFactory', () => {
   })
 })
 
+describe('field policies', () => {
+  const policies = { notes: { read: 'admin' as const, write: 'admin' as const }, status: { write: 'owner' as const } }
+
+  test('canAccess resolves rules per viewer', () => {
+    expect(canAccess(undefined, {})).toBe(true)
+    expect(canAccess('owner', { owner: true })).toBe(true)
+    expect(canAccess('owner', { admin: true })).toBe(true)
+    expect(canAccess('owner', {})).toBe(false)
+    expect(canAccess('admin', { owner: true })).toBe(false)
+    expect(canAccess('admin', { admin: true })).toBe(true)
+    expect(canAccess('none', { admin: true, owner: true })).toBe(false)
+  })
+
+  test('stripFields removes unreadable fields and their url companions', () => {
+    const doc = { notes: 'secret', notesUrl: 'https://x', status: 'draft', title: 'T' }
+    expect(stripFields(doc, policies, { owner: true })).toEqual({ status: 'draft', title: 'T' })
+    expect(stripFields(doc, policies, { admin: true })).toBe(doc)
+    expect(stripFields(doc, undefined, {})).toBe(doc)
+  })
+
+  test('assertWritable throws FORBIDDEN listing denied fields', () => {
+    let data: unknown
+    try {
+      assertWritable(policies, { notes: 'x', status: 'published', title: 'T' }, {}, 'wiki:update')
+    } catch (error) {
+      data = error instanceof ConvexError ? (error.data as unknown) : undefined
+    }
+    expect(data).toMatchObject({ code: 'FORBIDDEN', fields: ['notes', 'status'], op: 'update', table: 'wiki' })
+  })
+
+  test('assertWritable ignores undefined values and unchanged fields when prev is given', () => {
+    expect(() => assertWritable(policies, { notes: undefined, title: 'T' }, {}, 'wiki:create')).not.toThrow()
+    expect(() =>
+      assertWritable(policies, { notes: 'same', status: 'draft' }, {}, 'wiki:update', { notes: 'same', status: 'draft' })
+    ).not.toThrow()
+    expect(() => assertWritable(policies, { status: 'published' }, {}, 'wiki:update', { status: 'draft' })).toThrow()
+  })
+
+  test('extractFieldPolicies parses the fields option block', () => {
+    const opts = "acl: true, fields: { internalNotes: { read: 'admin', write: 'admin' }, status: { write: 'owner' } }"
+    expect(extractFieldPolicies(opts)).toEqual([
+      { field: 'internalNotes', read: 'admin', write: 'admin' },
+      { field: 'status', read: undefined, write: 'owner' }
+    ])
+    expect(extractFieldPolicies('softDelete: true')).toEqual([])
+  })
+
+  test('fieldAccessForFactory labels rules per factory', () => {
+    const options = "fields: { notes: { read: 'admin', write: 'owner' }, secret: { read: 'none' } }",
+      org = fieldAccessForFactory({ factory: 'orgCrud', file: 'wiki.ts', options, table: 'wiki' }),
+      owned = fieldAccessForFactory({ factory: 'crud', file: 'blog.ts', options, table: 'blog' })
+    expect(org).toEqual([
+      { field: 'notes', read: 'Org Admin', write: 'Owner or Org Admin' },
+      { field: 'secret', read: 'Nobody', write: '\u2014' }
+    ])
+    expect(owned[0]).toEqual({ field: 'notes', read: 'Nobody', write: 'Owner' })
+  })
+})
+
 describe('middleware', () => {
   const mockCtx: GlobalHookCtx = { db: {} as GlobalHookCtx['db'], table: 'blog', userId: 'user1' }
 
@@ -6015,6 +7472,86 @@ describe('middleware', () => {
     })
   })
 
+  describe('auditTrail', () => {
+    const recordingCtx = (doc: null | Rec = null) => {
+      const rows: Rec[] = [],
+        db = {
+          get: async () => doc,
+          insert: async (table: string, row: Rec) => {
+            rows.push({ ...row, _table: table })
+            return 'audit1'
+          }
+        } as unknown as GlobalHookCtx['db']
+      return { rows, withOp: (operation: MiddlewareCtx['operation']): MiddlewareCtx => ({ ...mockCtx, db, operation }) }
+    }
+
+    test('diffFields returns only changed fields sorted by name', () => {
+      expect(diffFields({ a: 1, b: 'x', c: true }, { b: 'y', a: 1, c: false })).toEqual([
+        { field: 'b', from: 'x', to: 'y' },
+        { field: 'c', from: true, to: false }
+      ])
+    })
+
+    test('diffFields ignores updatedAt and deep-equal values', () => {
+      expect(diffFields({ tags: ['a'], updatedAt: 1 }, { tags: ['a'], updatedAt: 2 })).toEqual([])
+      expect(AUDIT_IGNORED_FIELDS.has('updatedAt')).toBe(true)
+    })
+
+    test('diffFields records fields set for the first time', () => {
+      expect(diffFields({}, { title: 'new' })).toEqual([{ field: 'title', from: undefined, to: 'new' }])
+    })
+
+    test('afterUpdate inserts diff with actor, table, and orgId', async () => {
+      const { rows, withOp } = recordingCtx()
+      await auditTrail().afterUpdate?.(withOp('update'), {
+        id: 'doc1',
+        patch: { title: 'y' },
+        prev: { orgId: 'org1', title: 'x' }
+      })
+      expect(rows).toEqual([
+        {
+          _table: 'audit',
+          actorId: 'user1',
+          changes: [{ field: 'title', from: 'x', to: 'y' }],
+          docId: 'doc1',
+          op: 'update',
+          orgId: 'org1',
+          table: 'blog'
+        }
+      ])
+    })
+
+    test('afterUpdate skips no-op patches', async () => {
+      const { rows, withOp } = recordingCtx()
+      await auditTrail().afterUpdate?.(withOp('update'), { id: 'doc1', patch: { title: 'x' }, prev: { title: 'x' } })
+      expect(rows).toHaveLength(0)
+    })
+
+    test('afterCreate reads stored doc for orgId', async () => {
+      const { rows, withOp } = recordingCtx({ _id: 'doc1', orgId: 'org1', title: 'x', updatedAt: 1 })
+      await auditTrail().afterCreate?.(withOp('create'), { data: { title: 'x' }, id: 'doc1' })
+      expect(rows[0]?.orgId).toBe('org1')
+      expect(rows[0]?.at).toBe(1)
+      expect(rows[0]?.changes).toEqual([
+        { field: 'orgId', to: 'org1' },
+        { field: 'title', to: 'x' }
+      ])
+    })
+
+    test('snapshot: false omits values on create and delete', async () => {
+      const { rows, withOp } = recordingCtx()
+      await auditTrail({ snapshot: false }).afterDelete?.(withOp('delete'), { doc: { title: 'x' }, id: 'doc1' })
+      expect(rows[0]?.op).toBe('delete')
+      expect(rows[0]?.changes).toBeUndefined()
+    })
+
+    test('tables option limits recorded tables', async () => {
+      const { rows, withOp } = recordingCtx()
+      await auditTrail({ tables: ['wiki'] }).afterDelete?.(withOp('delete'), { doc: {}, id: 'doc1' })
+      expect(rows).toHaveLength(0)
+    })
+  })
+
   describe('slowQueryWarn', () => {
     test('returns middleware with name slowQueryWarn', () => {
       const mw = slowQueryWarn()
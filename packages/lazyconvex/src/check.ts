@@ -11,12 +11,14 @@ import type { FactoryCall, SchemaField, SchemaTable } from './schema-utils'
 
 import {
   CACHE_BASE,
+  CACHE_WRITES,
   CHILD_BASE,
   CRUD_PUB,
   endpointsForFactory,
   extractSchemaFields,
   hasOption,
   ORG_ACL,
+  ORG_VERSIONED,
   parseObjectFields,
   SINGLETON_BASE,
   wrapperFactories
@@ -33,6 +35,12 @@ interface AccessEntry {
   level: string
 }
 
+interface FieldAccessEntry {
+  field: string
+  read: string
+  write: string
+}
+
 interface Issue {
   file?: string
   level: 'error' | 'warn'
@@ -51,8 +59,14 @@ interface WhereField {
   table: string
 }
 
+interface OrderByField extends WhereField {
+  dir: 'asc' | 'desc'
+}
+
 const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBase(', 'child('],
   factoryPat = /(?<factory>crud|orgCrud|childCrud|cacheCrud|singletonCrud)\(\s*['"](?<table>\w+)['"]/gu,
+  cacheObjPat = /\bcacheCrud\(\s*\{/gu,
+  cacheTablePat = /\btable\s*:\s*['"](?<table>\w+)['"]/u,
   isSchemaFile = (content: string): boolean => {
     for (const marker of schemaMarkers) if (content.includes(marker)) return true
     return false
@@ -137,6 +151,14 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
           m = factoryPat.exec(content)
         }
         factoryPat.lastIndex = 0
+        let cm = cacheObjPat.exec(content)
+        while (cm) {
+          const rest = extractRemainingOptions(content, cm.index + cm[0].length - 1),
+            table = cacheTablePat.exec(rest)?.groups?.table
+          if (table) calls.push({ factory: 'cacheCrud', file: entry, options: rest, table })
+          cm = cacheObjPat.exec(content)
+        }
+        cacheObjPat.lastIndex = 0
       }
     return { calls, files }
   },
@@ -154,7 +176,10 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
         if (hasOption(call.options, 'search')) options.push('search')
         if (hasOption(call.options, 'softDelete')) options.push('softDelete')
         if (hasOption(call.options, 'acl')) options.push('acl')
+        if (hasOption(call.options, 'fields')) options.push('fields')
+        if (hasOption(call.options, 'versioned')) options.push('versioned')
         if (hasOption(call.options, 'rateLimit')) options.push('rateLimit')
+        if (hasOption(call.options, 'effects')) options.push('effects')
         if (hasOption(call.options, 'pub')) options.push('pub')
       }
       const optStr = options.length > 0 ? ` ${dim(`[${options.join(', ')}]`)}` : ''
@@ -237,6 +262,9 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
           message: `${call.factory}('${call.table}') in ${call.file} — table name doesn't match filename`
         })
 
+    issues.push(...checkCacheWrites(calls))
+    issues.push(...checkOrderByCoverage(convexDir, calls))
+
     if (issues.length === 0) {
       console.log(green('\u2713 All checks passed\n'))
       return
@@ -256,7 +284,7 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
     if (errors.length > 0) process.exit(1)
   },
   FACTORY_DEFAULT_INDEXES: Record<string, TableIndex[]> = {
-    cacheCrud: [],
+    cacheCrud: [{ fields: ['updatedAt'], name: 'by_updatedAt', type: 'default' }],
     childCrud: [],
     crud: [{ fields: ['userId'], name: 'by_user', type: 'default' }],
     orgCrud: [
@@ -265,7 +293,20 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
     ],
     singletonCrud: [{ fields: ['userId'], name: 'by_user', type: 'default' }]
   },
-  RESERVED_WHERE_KEYS = new Set(['$between', '$gt', '$gte', '$lt', '$lte', 'or', 'own']),
+  RESERVED_WHERE_KEYS = new Set([
+    '$between',
+    '$contains',
+    '$exists',
+    '$gt',
+    '$gte',
+    '$in',
+    '$lt',
+    '$lte',
+    '$ne',
+    '$startsWith',
+    'or',
+    'own'
+  ]),
   TABLE_HELPER_SRC = [
     'ownedTable',
     'orgTable',
@@ -390,11 +431,83 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
     scan(root)
     return results
   },
+  extractOrderByFromArgs = (args: string): undefined | { dir: 'asc' | 'desc'; field: string } => {
+    const oIdx = args.indexOf('orderBy:')
+    if (oIdx === -1) return
+    const block = args.slice(oIdx, args.indexOf('}', oIdx) + 1),
+      field = /field:\s*['"](?<ofield>\w+)['"]/u.exec(block)?.groups?.ofield
+    if (!field) return
+    return { dir: /dir:\s*['"]asc['"]/u.test(block) ? 'asc' : 'desc', field }
+  },
+  scanOrderByUsage = (root: string, cvxDir: string): OrderByField[] => {
+    const results: OrderByField[] = [],
+      skip = new Set(['.cache', '.git', '.next', '.turbo', '_generated', 'build', 'dist', 'node_modules']),
+      processFile = (filePath: string, fileName: string) => {
+        const fileContent = readFileSync(filePath, 'utf8'),
+          apiPat = /api\.(?<tbl>\w+)\.list\b/gu
+        let am = apiPat.exec(fileContent)
+        while (am) {
+          const after = fileContent.slice(am.index, Math.min(am.index + 300, fileContent.length)),
+            next = after.indexOf('api.', 4),
+            order = extractOrderByFromArgs(next === -1 ? after : after.slice(0, next))
+          if (order) results.push({ ...order, source: fileName, table: am.groups?.tbl ?? '' })
+          am = apiPat.exec(fileContent)
+        }
+      },
+      scan = (dir: string) => {
+        if (!existsSync(dir)) return
+        for (const entry of readdirSync(dir, { withFileTypes: true }))
+          if (entry.isDirectory()) {
+            if (!(skip.has(entry.name) || entry.name.startsWith('.'))) scan(join(dir, entry.name))
+          } else if (
+            (entry.name.endsWith('.ts') || entry.name.endsWith('.tsx')) &&
+            !entry.name.includes('.test.') &&
+            !entry.name.includes('.config.') &&
+            join(dir, entry.name) !== join(cvxDir, 'schema.ts')
+          )
+            processFile(join(dir, entry.name), entry.name)
+      }
+    scan(root)
+    return results
+  },
+  orderIndexFor = (factory: string, field: string): TableIndex | undefined => {
+    if (factory === 'crud') return { fields: [field], name: `by_${field}`, type: 'custom' }
+    if (factory === 'orgCrud') return { fields: ['orgId', field], name: `by_org_${field}`, type: 'custom' }
+  },
+  checkOrderByCoverage = (convexDir: string, calls: FactoryCall[], usages?: OrderByField[]): Issue[] => {
+    const schemaDef = findSchemaDefFile(convexDir),
+      customIndexes = schemaDef ? extractCustomIndexes(schemaDef.content) : new Map<string, TableIndex[]>(),
+      issues: Issue[] = [],
+      seen = new Set<string>()
+    for (const u of usages ?? scanOrderByUsage(dirname(convexDir), convexDir)) {
+      const call = calls.find(c => c.table === u.table),
+        key = `${u.table}.${u.field}`
+      if (call && !seen.has(key)) {
+        seen.add(key)
+        const expected = orderIndexFor(call.factory, u.field),
+          declared = (customIndexes.get(u.table) ?? []).find(ix => ix.name === expected?.name)
+        if (!expected)
+          issues.push({
+            file: u.source,
+            level: 'error',
+            message: `"${u.table}": ${call.factory} list does not support orderBy`
+          })
+        else if (declared?.fields.join(',') !== expected.fields.join(','))
+          issues.push({
+            file: u.source,
+            level: 'error',
+            message: `"${u.table}": orderBy '${u.field}' needs .index('${expected.name}', [${expected.fields.map(f => `'${f}'`).join(', ')}])`
+          })
+      }
+    }
+    return issues
+  },
   printIndexReport = (convexDir: string, calls: FactoryCall[]) => {
     const schemaDef = findSchemaDefFile(convexDir),
       customIndexes = schemaDef ? extractCustomIndexes(schemaDef.content) : new Map<string, TableIndex[]>(),
       root = dirname(convexDir),
       projectWhere = scanWhereUsage(root, convexDir),
+      orderIssues = checkOrderByCoverage(convexDir, calls),
       whereByTable = new Map<string, Set<string>>(),
       issues: Issue[] = []
     for (const w of projectWhere) {
@@ -447,12 +560,31 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
         console.log(`  ${yellow('\u26A0')} ${issue.file ? `${dim(issue.file)} ` : ''}${issue.message}`)
       console.log(`\n${yellow(`${issues.length} unindexed where clause(s)`)}\n`)
     } else console.log(green('\u2713 All detected where clauses have matching indexes\n'))
+    if (orderIssues.length > 0) {
+      console.log(bold('Missing Sort Indexes\n'))
+      for (const issue of orderIssues)
+        console.log(`  ${red('\u2717')} ${issue.file ? `${dim(issue.file)} ` : ''}${issue.message}`)
+      console.log(`\n${red(`${orderIssues.length} orderBy usage(s) without a backing index`)}\n`)
+    } else console.log(green('\u2713 All detected orderBy usages have matching indexes\n'))
+  },
+  cacheWriteLevel = (opts: string): string | undefined => {
+    if (!/\baccess\s*:/u.test(opts)) return
+    const m = /\bwrite\s*:\s*(?:['"](?<rule>\w+)['"]|\S)/u.exec(opts)
+    if (!m) return
+    const rule = m.groups?.rule
+    return rule === 'admin' ? 'Admin' : rule === 'authenticated' ? 'Authenticated' : 'Custom'
   },
   accessForFactory = (call: FactoryCall): AccessEntry[] => {
     const { factory, options: opts } = call,
       result: AccessEntry[] = []
     if (factory === 'cacheCrud') {
-      result.push({ endpoints: [...CACHE_BASE], level: 'No Auth' })
+      const writeLevel = cacheWriteLevel(opts)
+      if (!writeLevel) {
+        result.push({ endpoints: [...CACHE_BASE], level: 'No Auth' })
+        return result
+      }
+      result.push({ endpoints: CACHE_BASE.filter(e => !CACHE_WRITES.includes(e)), level: 'No Auth' })
+      result.push({ endpoints: [...CACHE_WRITES], level: writeLevel })
       return result
     }
     if (factory === 'singletonCrud') {
@@ -470,6 +602,7 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
       if (hasOption(opts, 'search')) memberEps.push('search')
       result.push({ endpoints: memberEps, level: 'Org Member' })
       result.push({ endpoints: ['create', 'update'], level: 'Org Member' })
+      if (hasOption(opts, 'versioned')) result.push({ endpoints: [...ORG_VERSIONED], level: 'Org Member' })
       const adminEps = ['rm', 'bulkCreate', 'bulkRm', 'bulkUpdate']
       if (hasOption(opts, 'softDelete')) adminEps.push('restore')
       result.push({ endpoints: adminEps, level: 'Org Admin' })
@@ -485,8 +618,49 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
     result.push({ endpoints: ownerEps, level: 'Owner' })
     return result
   },
+  extractFieldPolicies = (opts: string): { field: string; read?: string; write?: string }[] => {
+    const start = /\bfields\s*:\s*\{/u.exec(opts)
+    if (!start) return []
+    let depth = 1,
+      pos = start.index + start[0].length
+    while (pos < opts.length && depth > 0) {
+      if (opts[pos] === '{') depth += 1
+      else if (opts[pos] === '}') depth -= 1
+      pos += 1
+    }
+    const block = opts.slice(start.index + start[0].length, pos - 1),
+      entryPat = /(?<field>\w+)\s*:\s*\{(?<body>[^}]*)\}/gu,
+      rulePat = (mode: string) => new RegExp(`\\b${mode}\\s*:\\s*['"](?<rule>\\w+)['"]`, 'u'),
+      result: { field: string; read?: string; write?: string }[] = []
+    let em = entryPat.exec(block)
+    while (em) {
+      const body = em.groups?.body ?? ''
+      result.push({
+        field: em.groups?.field ?? '',
+        read: rulePat('read').exec(body)?.groups?.rule,
+        write: rulePat('write').exec(body)?.groups?.rule
+      })
+      em = entryPat.exec(block)
+    }
+    return result
+  },
+  fieldRuleLevel = (factory: string, rule: string | undefined): string => {
+    if (!rule) return '\u2014'
+    if (rule === 'owner')
+      return factory === 'orgCrud' ? 'Owner or Org Admin' : factory === 'childCrud' ? 'Parent Owner' : 'Owner'
+    if (rule === 'admin' && factory === 'orgCrud') return 'Org Admin'
+    return 'Nobody'
+  },
+  fieldAccessForFactory = (call: FactoryCall): FieldAccessEntry[] =>
+    extractFieldPolicies(call.options).map(p => ({
+      field: p.field,
+      read: fieldRuleLevel(call.factory, p.read),
+      write: fieldRuleLevel(call.factory, p.write)
+    })),
   ACCESS_ICONS: Record<string, string> = {
+    Admin: '\u{1F6E1}\uFE0F',
     Authenticated: '\u{1F511}',
+    Custom: '\u2699\uFE0F',
     'No Auth': '\u{1F310}',
     'Org Admin': '\u{1F6E1}\uFE0F',
     'Org Member': '\u{1F465}',
@@ -505,6 +679,13 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
         console.log(`    ${icon} ${yellow(entry.level)}: ${entry.endpoints.join(', ')}`)
         totalEndpoints += entry.endpoints.length
       }
+      const fieldEntries = fieldAccessForFactory(call)
+      if (fieldEntries.length > 0) {
+        const width = Math.max(...fieldEntries.map(f => f.field.length))
+        console.log(`    \u{1F512} ${yellow('Fields')}:`)
+        for (const f of fieldEntries)
+          console.log(`      ${f.field.padEnd(width)}  ${dim('read:')} ${f.read}  ${dim('write:')} ${f.write}`)
+      }
       console.log('')
     }
     console.log(`${bold(String(totalEndpoints))} endpoints across ${bold(String(calls.length))} tables\n`)
@@ -547,6 +728,14 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
         })
     return issues
   },
+  checkCacheWrites = (calls: FactoryCall[]): Issue[] =>
+    calls
+      .filter(c => c.factory === 'cacheCrud' && !cacheWriteLevel(c.options))
+      .map(c => ({
+        file: c.file,
+        level: 'warn' as const,
+        message: `cacheCrud('${c.table}') exposes ${CACHE_WRITES.join(', ')} to anonymous callers — set access: { write }`
+      })),
   checkIndexCoverage = (convexDir: string, calls: FactoryCall[]): Issue[] => {
     const schemaDef = findSchemaDefFile(convexDir),
       customIndexes = schemaDef ? extractCustomIndexes(schemaDef.content) : new Map<string, TableIndex[]>(),
@@ -590,8 +779,8 @@ const schemaMarkers = ['makeOwned(', 'makeOrgScoped(', 'makeSingleton(', 'makeBa
   HEALTH_WARN_PENALTY = 5,
   printHealthReport = (convexDir: string, schemaFile: { content: string; path: string }) => {
     const { calls } = extractFactoryCalls(convexDir),
-      schemaIssues = checkSchemaConsistency(convexDir, schemaFile),
-      indexIssues = checkIndexCoverage(convexDir, calls)
+      schemaIssues = [...checkSchemaConsistency(convexDir, schemaFile), ...checkCacheWrites(calls)],
+      indexIssues = [...checkIndexCoverage(convexDir, calls), ...checkOrderByCoverage(convexDir, calls)]
     let totalEndpoints = 0
     for (const call of calls) totalEndpoints += endpointsForFactory(call).length
     let totalIndexes = 0
@@ -694,21 +883,28 @@ if (import.meta.main) run()
 
 export {
   accessForFactory,
+  checkCacheWrites,
   checkIndexCoverage,
+  checkOrderByCoverage,
   checkSchemaConsistency,
   endpointsForFactory,
   extractCustomIndexes,
+  extractFieldPolicies,
+  extractOrderByFromArgs,
   extractSchemaFields,
   extractWhereFromOptions,
   FACTORY_DEFAULT_INDEXES,
+  fieldAccessForFactory,
   HEALTH_ERROR_PENALTY,
   HEALTH_MAX,
   HEALTH_WARN_PENALTY,
+  orderIndexFor,
   parseObjectFields,
   printAccessReport,
   printHealthReport,
   printIndexReport,
   printSchemaPreview,
+  scanOrderByUsage,
   scanWhereUsage
 }
-export type { AccessEntry, FactoryCall, SchemaField, SchemaTable, TableIndex, WhereField }
+export type { AccessEntry, FactoryCall, FieldAccessEntry, OrderByField, SchemaField, SchemaTable, TableIndex, WhereField }
@@ -0,0 +1,63 @@
+#!/usr/bin/env bun
+/** biome-ignore-all lint/performance/noAwaitInLoops: sequential */
+import { readdirSync, writeFileSync } from 'node:fs'
+import { join, relative, resolve } from 'node:path'
+
+import type { MutationMeta } from './server/types'
+
+import { collectMutationMeta } from './server/mutation-meta'
+
+const parseArgs = (): { convex: string; output: string } => {
+    const args = process.argv.slice(2),
+      r = { convex: '', output: '' }
+    for (let i = 0; i < args.length; i += 1) {
+      const arg = args[i] ?? ''
+      if (arg === '--convex' && args[i + 1]) {
+        i += 1
+        r.convex = args[i] ?? ''
+      } else if (arg === '--output' && args[i + 1]) {
+        i += 1
+        r.output = args[i] ?? ''
+      }
+    }
+    if (!(r.convex && r.output)) {
+      process.stderr.write('Usage: lazyconvex codegen-meta --convex <path> --output <path>\n')
+      process.exit(1)
+    }
+    return { convex: resolve(r.convex), output: resolve(r.output) }
+  },
+  { convex: CONVEX_DIR, output: OUTPUT_PATH } = parseArgs(),
+  listModules = (dir: string): string[] => {
+    const files: string[] = []
+    for (const entry of readdirSync(dir, { withFileTypes: true }))
+      if (entry.isDirectory() && !entry.name.startsWith('_') && entry.name !== 'node_modules')
+        files.push(...listModules(join(dir, entry.name)))
+      else if (entry.name.endsWith('.ts') && !entry.name.includes('.test.') && !entry.name.endsWith('.config.ts'))
+        files.push(join(dir, entry.name))
+    return files
+  },
+  renderMeta = ({ idArg, kind, table }: MutationMeta) =>
+    [idArg ? `idArg: '${idArg}'` : '', `kind: '${kind}'`, table ? `table: '${table}'` : ''].filter(Boolean).join(', '),
+  modules: Record<string, Record<string, unknown>> = {}
+
+for (const file of listModules(CONVEX_DIR))
+  modules[relative(CONVEX_DIR, file).replace(/\.ts$/u, '')] = (await import(file)) as Record<string, unknown>
+
+const manifest = collectMutationMeta(modules),
+  lines = [
+    '/* Generated by `lazyconvex codegen-meta`. Do not edit. */',
+    "import type { MutationManifest } from 'lazyconvex'",
+    '',
+    'const mutationMeta: MutationManifest = {',
+    Object.keys(manifest)
+      .toSorted()
+      .map(name => `  '${name}': { ${renderMeta(manifest[name] as MutationMeta)} }`)
+      .join(',\n'),
+    '}',
+    '',
+    'export default mutationMeta',
+    ''
+  ]
+
+writeFileSync(OUTPUT_PATH, lines.join('\n'))
+process.stdout.write(`Generated ${OUTPUT_PATH} (${Object.keys(manifest).length} mutations)\n`)
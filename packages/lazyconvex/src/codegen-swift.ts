@@ -446,11 +446,12 @@ const parseArgs = (): { convex: string; mobileOutput: string; output: string; sc
         fns = new Set<string>()
       parseExportConsts(content, fns)
       parseTrailingExports(content, fns)
-      return [...fns]
+      return [...fns].filter(f => !FACTORY_VALUES.has(f))
     } catch {
       return []
     }
   },
+  FACTORY_VALUES = new Set(['audit', 'collab']),
   SKIP_MODULES = new Set(['_generated', 'auth', 'auth.config', 'http', 'schema', 'testauth']),
   collectModules = (): Record<string, string[]> => {
     const modules: Record<string, string[]> = {},
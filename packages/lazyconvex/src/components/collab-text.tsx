@@ -0,0 +1,188 @@
+'use client'
+import type { AnyFieldApi } from '@tanstack/react-form'
+import type { ComponentProps, ReactNode } from 'react'
+
+import { Field, FieldError, FieldLabel } from '@a/ui/field'
+import { Textarea } from '@a/ui/textarea'
+import { createContext, use, useEffect, useLayoutEffect, useRef, useState } from 'react'
+
+import type { CollabRefs } from '../react/use-collab-text'
+import type { PresenceRefs, PresenceUser } from '../react/use-presence'
+import type { TextOp } from '../text-op'
+
+import { useCollabText } from '../react/use-collab-text'
+import { usePresence } from '../react/use-presence'
+import { transformPosition } from '../text-op'
+
+/** Collab endpoints from makeCollab, plus presence endpoints from makePresence to show remote cursors. */
+interface CollabApi extends CollabRefs {
+  presence?: PresenceRefs
+}
+/** A text selection as character offsets. */
+type Selection = [number, number]
+/** What each editor broadcasts through presence. */
+interface CursorData {
+  cursor?: Selection
+  name?: string
+}
+
+const CollabApiContext = createContext<CollabApi | null>(null),
+  CollabApiProvider = ({ children, value }: { children: ReactNode; value: CollabApi }) => (
+    <CollabApiContext value={value}>{children}</CollabApiContext>
+  ),
+  useCollabApi = () => {
+    const ctx = use(CollabApiContext)
+    if (!ctx) throw new Error('CollabApiProvider is required')
+    return ctx
+  },
+  colorOf = (userId: string) => {
+    let h = 0
+    for (const ch of userId) h = (h * 31 + (ch.codePointAt(0) ?? 0)) % 360
+    return `hsl(${h} 70% 45%)`
+  },
+  cursorOf = (user: PresenceUser): Selection | undefined => (user.data as CursorData | null)?.cursor,
+  RemoteCursors = ({ text, users }: { text: string; users: PresenceUser[] }) => {
+    const marks = users
+      .filter(u => cursorOf(u))
+      .map(u => {
+        const [from, to] = cursorOf(u) as Selection
+        return { color: colorOf(u.userId), from: Math.min(from, text.length), to: Math.min(to, text.length), user: u }
+      })
+      .toSorted((a, b) => a.from - b.from)
+    if (marks.length === 0) return null
+    const parts: ReactNode[] = []
+    let pos = 0
+    for (const { color, from, to, user } of marks) {
+      if (from >= pos) {
+        parts.push(text.slice(pos, from))
+        parts.push(
+          <span className='relative' key={user.userId}>
+            <span className='absolute -top-4 left-0 rounded px-1 text-[10px] text-white' style={{ background: color }}>
+              {(user.data as CursorData).name ?? 'Someone'}
+            </span>
+            <span className='border-l-2' style={{ borderColor: color }} />
+            <span style={{ background: `color-mix(in srgb, ${color} 20%, transparent)` }}>{text.slice(from, to)}</span>
+          </span>
+        )
+        pos = Math.max(from, to)
+      }
+    }
+    return (
+      <div
+        aria-hidden
+        className='pointer-events-none absolute inset-0 overflow-hidden border border-transparent px-3 py-2 text-base wrap-break-word whitespace-pre-wrap text-transparent md:text-sm'
+        data-testid='collab-cursors'>
+        {parts}
+      </div>
+    )
+  },
+  PresenceLayer = ({
+    name,
+    refs,
+    roomId,
+    selection,
+    text
+  }: {
+    name?: string
+    refs: PresenceRefs
+    roomId: string
+    selection: Selection
+    text: string
+  }) => {
+    const { updatePresence, users } = usePresence(refs, roomId, { data: { cursor: selection, name } }),
+      [from, to] = selection
+    useEffect(() => {
+      updatePresence({ cursor: [from, to], name })
+    }, [from, name, to, updatePresence])
+    return <RemoteCursors text={text} users={users} />
+  },
+  /**
+   * Textarea bound to a `collabText()` field through makeCollab: edits merge live with everyone else on the doc, and
+   * with presence endpoints configured, their cursors show inline. The form value follows the live text.
+   */
+  CollabTextField = ({
+    className,
+    'data-testid': testId,
+    docId,
+    field: f,
+    label,
+    table,
+    userName,
+    ...props
+  }: Omit<ComponentProps<'textarea'>, 'id' | 'name' | 'onBlur' | 'onChange' | 'onSelect' | 'value'> & {
+    'data-testid'?: string
+    docId: string
+    field: AnyFieldApi
+    label?: string
+    table: string
+    userName?: string
+  }) => {
+    const api = useCollabApi(),
+      ref = useRef<HTMLTextAreaElement>(null),
+      [selection, setSelection] = useState<Selection>([0, 0]),
+      pendingSelection = useRef<null | Selection>(null),
+      moveSelection = (op: TextOp) => {
+        const el = ref.current
+        if (!el) return
+        const cur = pendingSelection.current ?? [el.selectionStart, el.selectionEnd]
+        pendingSelection.current = [transformPosition(cur[0], op), transformPosition(cur[1], op)]
+      },
+      { isReady, setText, text } = useCollabText(
+        api,
+        { field: f.name, id: docId, table },
+        { onRemoteOp: moveSelection }
+      ),
+      inv = f.state.meta.isTouched && !f.state.meta.isValid,
+      tid = testId ?? f.name,
+      errorId = `${f.name}-error`
+
+    useLayoutEffect(() => {
+      const el = ref.current,
+        next = pendingSelection.current
+      if (!(el && next) || document.activeElement !== el) return
+      pendingSelection.current = null
+      el.setSelectionRange(next[0], next[1])
+      setSelection(next)
+    }, [text])
+
+    useEffect(() => {
+      if (isReady && f.state.value !== text) f.setValue(text, { dontUpdateMeta: true })
+    }, [f, isReady, text])
+
+    return (
+      <Field data-invalid={inv} data-testid={tid}>
+        {label === undefined ? null : <FieldLabel htmlFor={f.name}>{label}</FieldLabel>}
+        <div className='relative'>
+          <Textarea
+            aria-busy={!isReady}
+            aria-describedby={inv ? errorId : undefined}
+            aria-invalid={inv}
+            className={className}
+            disabled={!isReady}
+            id={f.name}
+            name={f.name}
+            onBlur={f.handleBlur}
+            onChange={e => setText(e.target.value)}
+            onSelect={e => setSelection([e.currentTarget.selectionStart, e.currentTarget.selectionEnd])}
+            ref={ref}
+            value={isReady ? text : (f.state.value ?? '')}
+            {...props}
+          />
+          {api.presence && isReady ? (
+            <PresenceLayer
+              name={userName}
+              refs={api.presence}
+              roomId={`collab:${table}:${docId}:${f.name}`}
+              selection={selection}
+              text={text}
+            />
+          ) : null}
+        </div>
+        {inv ? <FieldError errors={f.state.meta.errors} id={errorId} /> : null}
+      </Field>
+    )
+  }
+
+export type { CollabApi }
+export { CollabApiContext, CollabApiProvider }
+export default CollabTextField
@@ -37,6 +37,10 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
     ssr: false
   }),
   HEX_COLOR_REGEX = /^#[\dA-Fa-f]{6}$/u,
+  DynamicCollabText = dynamic(async () => import('./collab-text'), {
+    loading: () => <div className='h-32 w-full animate-pulse rounded-md bg-muted' />,
+    ssr: false
+  }),
   DynamicFileField = dynamic(async () => import('./file-field'), {
     loading: () => <div className='h-32 w-full animate-pulse rounded-lg bg-muted' />,
     ssr: false
@@ -233,6 +237,46 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
         </form.Field>
       )
     },
+    /**
+     * Live collaborative editor for a `collabText()` field of an existing doc; needs `<CollabApiProvider>`. Use
+     * `Text` on create forms, before the doc exists.
+     */
+    CollabText: ({
+      docId,
+      label,
+      name,
+      table,
+      ...props
+    }: Omit<
+      ComponentProps<'textarea'>,
+      'form' | 'id' | 'key' | 'name' | 'onBlur' | 'onChange' | 'onSelect' | 'value'
+    > & {
+      'data-testid'?: string
+      docId: string
+      label?: false | string
+      name: string
+      table: string
+      userName?: string
+    }) => {
+      const { form } = useField(name, 'string')
+      return (
+        <form.Field name={name}>
+          {(f: AnyFieldApi) => (
+            <>
+              <DynamicCollabText
+                docId={docId}
+                field={f}
+                key={`${table}:${docId}`}
+                label={label === false ? undefined : (label ?? deriveLabel(name))}
+                table={table}
+                {...props}
+              />
+              <ServerFieldError name={name} />
+            </>
+          )}
+        </form.Field>
+      )
+    },
     Colorpick: ({
       'data-testid': testId,
       label,
@@ -460,7 +504,7 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
       name,
       ...props
     }: Omit<ComponentProps<typeof Field>, 'children'> & {
-      accept?: string
+      accept?: string | string[]
       compressImg?: boolean
       'data-testid'?: string
       disabled?: boolean
@@ -469,19 +513,19 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
       maxSize?: number
       name: string
     }) => {
-      const { form } = useField(name, 'file')
+      const { form, info } = useField(name, 'file')
       return (
         <form.Field name={name}>
           {(f: AnyFieldApi) => (
             <DynamicFileField
-              accept={accept}
+              accept={accept ?? info.accept}
               compressImg={compressImg}
               data-testid={testId}
               disabled={disabled}
               dropClassName={dropClassName}
               field={f}
               label={label === false ? undefined : (label ?? deriveLabel(name))}
-              maxSize={maxSize}
+              maxSize={maxSize ?? info.maxSize}
               {...props}
             />
           )}
@@ -500,7 +544,7 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
       name,
       ...props
     }: Omit<ComponentProps<typeof Field>, 'children'> & {
-      accept?: string
+      accept?: string | string[]
       compressImg?: boolean
       'data-testid'?: string
       disabled?: boolean
@@ -515,7 +559,7 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
         <form.Field mode='array' name={name}>
           {(f: AnyFieldApi) => (
             <DynamicFileField
-              accept={accept}
+              accept={accept ?? info.accept}
               compressImg={compressImg}
               data-testid={testId}
               disabled={disabled}
@@ -523,7 +567,7 @@ const CAMEL_RE = /(?<lower>[a-z\d])(?<upper>[A-Z])/gu,
               field={f}
               label={label === false ? undefined : (label ?? deriveLabel(name))}
               max={max ?? info.max}
-              maxSize={maxSize}
+              maxSize={maxSize ?? info.maxSize}
               multiple
               {...props}
             />
@@ -12,17 +12,20 @@ import type { ComponentProps, ReactNode } from 'react'
 import { cn } from '@a/ui'
 import { Field, FieldError, FieldLabel } from '@a/ui/field'
 import imageCompression from 'browser-image-compression'
-import { useQuery } from 'convex/react'
+import { useConvex, useQuery } from 'convex/react'
 import { FileIcon, ImageIcon, Upload, X } from 'lucide-react'
 import { createContext, use, useCallback, useMemo } from 'react'
 import { useDropzone } from 'react-dropzone'
 import { toast } from 'sonner'
 
 import { BYTES_PER_KB, BYTES_PER_MB } from '../constants'
+import { matchesAccept, SNIFF_BYTES, sniffContentType } from '../file-type'
 import useUpload from '../react/use-upload'
+import { getErrorMessage } from '../server/helpers'
 
 interface FileApi {
   info: FunctionReference<'query'>
+  inspect?: FunctionReference<'action'>
   upload: FunctionReference<'mutation'>
 }
 
@@ -42,8 +45,17 @@ const FileApiContext = createContext<FileApi | null>(null),
         ? `${(n / BYTES_PER_KB).toFixed(1)} KB`
         : `${(n / BYTES_PER_MB).toFixed(1)} MB`,
   isImg = (t: string) => t.startsWith('image/'),
-  parseAccept = (a?: string): Record<string, string[]> | undefined =>
-    a ? Object.fromEntries(a.split(',').map(t => [t.trim(), []])) : undefined,
+  acceptList = (a?: string | string[]) => (typeof a === 'string' ? a.split(',').map(t => t.trim()) : (a ?? [])),
+  parseAccept = (types: string[]): Record<string, string[]> | undefined =>
+    types.length ? Object.fromEntries(types.map(t => [t, []])) : undefined,
+  /**
+   * Checks a file's leading bytes against the accept list, the same detection `inspect` runs on the server.
+   * @param file - Dropped file
+   * @param types - Accepted MIME types and wildcards
+   * @returns True when the file's content matches
+   */
+  sniffAccepted = async (file: File, types: string[]) =>
+    matchesAccept(sniffContentType(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()), file.type), types),
   compress = async (f: File, on: boolean) =>
     on && f.type.startsWith('image/')
       ? imageCompression(f, { maxSizeMB: 1, maxWidthOrHeight: 1920, useWebWorker: true }).catch(() => f)
@@ -94,7 +106,7 @@ const FileApiContext = createContext<FileApi | null>(null),
     multiple,
     ...props
   }: Omit<ComponentProps<typeof Field>, 'children'> & {
-    accept?: string
+    accept?: string | string[]
     compressImg?: boolean
     'data-testid'?: string
     disabled?: boolean
@@ -105,7 +117,9 @@ const FileApiContext = createContext<FileApi | null>(null),
     maxSize?: number
     multiple?: boolean
   }) => {
-    const { upload: uploadRef } = useFileApi(),
+    const { inspect, upload: uploadRef } = useFileApi(),
+      convex = useConvex(),
+      types = useMemo(() => acceptList(accept), [accept]),
       raw = f.state.value,
       vals = useMemo(() => (multiple ? ((raw ?? []) as string[]) : raw ? [raw as string] : []), [multiple, raw]),
       inv = f.state.meta.isTouched && !f.state.meta.isValid,
@@ -117,9 +131,19 @@ const FileApiContext = createContext<FileApi | null>(null),
           if (multiple && max && vals.length + accepted.length > max) return toast.error(`Max ${max}`)
           const ids: string[] = []
           for (const file of accepted) {
+            if (types.length && !(await sniffAccepted(file, types))) {
+              toast.error(`${file.name}: Invalid type`)
+              continue
+            }
             const res = await upload(await compress(file, compressImg))
-            if (res.ok) ids.push(res.storageId)
-            else if (res.code === 'HTTP') toast.error(`${file.name}: Upload failed (${res.status})`)
+            if (res.ok) {
+              try {
+                if (inspect) await convex.action(inspect, { id: res.storageId })
+                ids.push(res.storageId)
+              } catch (error) {
+                toast.error(`${file.name}: ${getErrorMessage(error)}`)
+              }
+            } else if (res.code === 'HTTP') toast.error(`${file.name}: Upload failed (${res.status})`)
             else if (res.code === 'ABORTED') toast.error(`${file.name}: Upload canceled`)
             else if (res.code === 'NETWORK') toast.error(`${file.name}: Network error`)
             else if (res.code === 'INVALID_RESPONSE') toast.error(`${file.name}: Invalid response`)
@@ -128,10 +152,10 @@ const FileApiContext = createContext<FileApi | null>(null),
           if (multiple) f.handleChange([...vals, ...ids])
           else if (ids[0]) f.handleChange(ids[0])
         },
-        [compressImg, f, max, multiple, upload, vals]
+        [compressImg, convex, f, inspect, max, multiple, types, upload, vals]
       ),
       { getInputProps, getRootProps, inputRef, isDragActive } = useDropzone({
-        accept: parseAccept(accept),
+        accept: parseAccept(types),
         disabled: disabled ?? (isUploading || !canAdd),
         maxSize,
         multiple: Boolean(multiple),
@@ -223,7 +247,7 @@ const FileApiContext = createContext<FileApi | null>(null),
               <Progress v={progress} />
             ) : (
               <>
-                {accept?.includes('image') ? (
+                {types.some(isImg) ? (
                   <ImageIcon className='mb-2 size-8 text-muted-foreground' />
                 ) : (
                   <Upload className='mb-2 size-8 text-muted-foreground' />
@@ -11,63 +11,143 @@ import { Dialog, DialogContent } from '@a/ui/dialog'
 import { useNavigationGuard } from 'next-navigation-guard'
 import { use, useEffect, useState } from 'react'
 
-import type { FormReturn as BaseFormReturn, ConflictData } from '../react/form'
+import type { FormReturn as BaseFormReturn, ConflictAction, ConflictData, ConflictPicks } from '../react/form'
 import type { Api } from './fields'
 
 import { DevtoolsAutoMount } from '../react/devtools-panel'
 import { useForm as useBaseForm, useFormMutation as useBaseFormMutation } from '../react/form'
+import { isRecord } from '../server/helpers'
 import { fields, FormContext } from './fields'
 import { FileApiContext } from './file-field'
 
-const ConflictDialog = ({
-  className,
-  conflict,
-  onResolve,
-  ...props
-}: Omit<ComponentProps<typeof DialogContent>, 'children'> & {
-  conflict: ConflictData | null
-  onResolve: (action: 'cancel' | 'overwrite' | 'reload') => void
-}) => (
-  <Dialog open={Boolean(conflict)}>
-    <DialogContent
-      className={cn('[&>button]:hidden', className)}
-      {...props}
-      onEscapeKeyDown={() => onResolve('cancel')}
-      onInteractOutside={() => onResolve('cancel')}>
-      <h2 className='text-lg font-semibold'>Conflict Detected</h2>
-      <p className='text-sm text-muted-foreground'>
-        This record was modified by someone else. Choose how to resolve the conflict.
-      </p>
-      {conflict?.current || conflict?.incoming ? (
-        <div className='space-y-3'>
-          {conflict.current ? (
-            <div className='rounded-lg bg-muted p-3'>
-              <p className='mb-1 text-xs font-medium text-muted-foreground'>Server version:</p>
-              <pre className='text-xs'>{JSON.stringify(conflict.current, null, 2)}</pre>
-            </div>
-          ) : null}
-          {conflict.incoming ? (
-            <div className='rounded-lg bg-muted p-3'>
-              <p className='mb-1 text-xs font-medium text-muted-foreground'>Your version:</p>
-              <pre className='text-xs'>{JSON.stringify(conflict.incoming, null, 2)}</pre>
-            </div>
-          ) : null}
-        </div>
-      ) : null}
-      <div className='flex justify-end gap-2'>
-        <Button onClick={() => onResolve('cancel')} variant='outline'>
-          Cancel
-        </Button>
-        <Button onClick={() => onResolve('reload')} variant='outline'>
-          Reload
-        </Button>
-        <Button onClick={() => onResolve('overwrite')} variant='destructive'>
-          Overwrite
-        </Button>
+const preview = (value: unknown) => {
+    const text = typeof value === 'string' ? value : (JSON.stringify(value) ?? '')
+    return text.length > 120 ? `${text.slice(0, 120)}…` : text
+  },
+  FieldPicker = ({
+    current,
+    field,
+    incoming,
+    onPick,
+    pick
+  }: {
+    current: unknown
+    field: string
+    incoming: unknown
+    onPick: (side: 'current' | 'incoming') => void
+    pick: 'current' | 'incoming'
+  }) => (
+    <div className='space-y-1'>
+      <p className='text-xs font-medium'>{field}</p>
+      <div className='grid grid-cols-2 gap-2'>
+        {(['current', 'incoming'] as const).map(side => (
+          <button
+            aria-pressed={pick === side}
+            className={cn(
+              'rounded-lg border p-2 text-left text-xs',
+              pick === side ? 'border-primary bg-primary/5' : 'bg-muted'
+            )}
+            key={side}
+            onClick={() => onPick(side)}
+            type='button'>
+            <span className='block font-medium text-muted-foreground'>{side === 'current' ? 'Theirs' : 'Yours'}</span>
+            <span className='line-clamp-3 break-words'>{preview(side === 'current' ? current : incoming)}</span>
+          </button>
+        ))}
       </div>
-    </DialogContent>
-  </Dialog>
-)
+    </div>
+  ),
+  ConflictDialog = ({
+    className,
+    conflict,
+    onResolve,
+    ...props
+  }: Omit<ComponentProps<typeof DialogContent>, 'children'> & {
+    conflict: ConflictData | null
+    onResolve: (action: ConflictAction, picks?: ConflictPicks) => void
+  }) => {
+    const [picks, setPicks] = useState<ConflictPicks>({}),
+      fields = conflict?.fields ?? [],
+      current = isRecord(conflict?.current) ? conflict.current : {},
+      incoming = isRecord(conflict?.incoming) ? conflict.incoming : {},
+      resolve = (action: ConflictAction) => {
+        setPicks({})
+        onResolve(action, action === 'merge' ? picks : undefined)
+      }
+    return (
+      <Dialog open={Boolean(conflict)}>
+        <DialogContent
+          className={cn('[&>button]:hidden', className)}
+          {...props}
+          onEscapeKeyDown={() => resolve('cancel')}
+          onInteractOutside={() => resolve('cancel')}>
+          <h2 className='text-lg font-semibold'>Conflict Detected</h2>
+          {fields.length > 0 ? (
+            <>
+              <p className='text-sm text-muted-foreground'>
+                Someone else changed the same fields. Their other changes were merged with yours — choose which value to
+                keep.
+              </p>
+              <div className='space-y-3'>
+                {fields.map(f => (
+                  <FieldPicker
+                    current={current[f]}
+                    field={f}
+                    incoming={incoming[f]}
+                    key={f}
+                    onPick={side => setPicks(p => ({ ...p, [f]: side }))}
+                    pick={picks[f] ?? 'incoming'}
+                  />
+                ))}
+              </div>
+              <div className='flex justify-end gap-2'>
+                <Button onClick={() => resolve('cancel')} variant='outline'>
+                  Cancel
+                </Button>
+                <Button onClick={() => resolve('reload')} variant='outline'>
+                  Use theirs
+                </Button>
+                <Button onClick={() => resolve('merge')}>Save</Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className='text-sm text-muted-foreground'>
+                This record was modified by someone else. Choose how to resolve the conflict.
+              </p>
+              {conflict?.current || conflict?.incoming ? (
+                <div className='space-y-3'>
+                  {conflict.current ? (
+                    <div className='rounded-lg bg-muted p-3'>
+                      <p className='mb-1 text-xs font-medium text-muted-foreground'>Server version:</p>
+                      <pre className='text-xs'>{JSON.stringify(conflict.current, null, 2)}</pre>
+                    </div>
+                  ) : null}
+                  {conflict.incoming ? (
+                    <div className='rounded-lg bg-muted p-3'>
+                      <p className='mb-1 text-xs font-medium text-muted-foreground'>Your version:</p>
+                      <pre className='text-xs'>{JSON.stringify(conflict.incoming, null, 2)}</pre>
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+              <div className='flex justify-end gap-2'>
+                <Button onClick={() => resolve('cancel')} variant='outline'>
+                  Cancel
+                </Button>
+                <Button onClick={() => resolve('reload')} variant='outline'>
+                  Reload
+                </Button>
+                <Button onClick={() => resolve('overwrite')} variant='destructive'>
+                  Overwrite
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    )
+  }
 
 interface FormReturn<T extends Record<string, unknown>, S extends ZodObject<ZodRawShape>> extends BaseFormReturn<T, S> {
   guard: ReturnType<typeof useNavigationGuard>
@@ -78,6 +158,7 @@ type Props<K extends keyof typeof fields> = Parameters<(typeof fields)[K]>[0]
 interface TypedFields<T> {
   Arr: (p: WithName<Props<'Arr'>, Key<T, readonly string[] | string[] | undefined>>) => ReactNode
   Choose: (p: WithName<Props<'Choose'>, Key<T, string | undefined>>) => ReactNode
+  CollabText: (p: WithName<Props<'CollabText'>, Key<T, string | undefined>>) => ReactNode
   Colorpick: (p: WithName<Props<'Colorpick'>, Key<T, string | undefined>>) => ReactNode
   Combobox: (p: WithName<Props<'Combobox'>, Key<T, string | undefined>>) => ReactNode
   Datepick: (p: WithName<Props<'Datepick'>, Key<T, null | number | undefined>>) => ReactNode
@@ -122,7 +203,11 @@ const useWithGuard = <T extends Record<string, unknown>, S extends ZodObject<Zod
     autoSave?: { debounceMs: number; enabled: boolean }
     onConflict?: (data: ConflictData) => void
     onError?: ((e: unknown) => void) | false
-    onSubmit: (d: zinfer<S>, force?: boolean) => Promise<undefined | zinfer<S>> | undefined | zinfer<S>
+    onSubmit: (
+      d: zinfer<S>,
+      force?: boolean,
+      expectedUpdatedAt?: number
+    ) => Promise<undefined | zinfer<S>> | undefined | zinfer<S>
     onSuccess?: () => void
     resetOnSuccess?: boolean
     schema: S
@@ -1,3 +1,5 @@
+export type { CollabApi } from './collab-text'
+export { CollabApiContext, CollabApiProvider } from './collab-text'
 export { default as EditorsSection } from './editors-section'
 export { default as ConvexErrorBoundary } from './error-boundary'
 export { deriveLabel, fields, FormContext, ServerFieldError } from './fields'
@@ -6,8 +6,9 @@ import { cn } from '@a/ui'
 import { Avatar, AvatarFallback, AvatarImage } from '@a/ui/avatar'
 import { Badge } from '@a/ui/badge'
 
-import type { OrgRole } from '../server/types'
+import type { OrgRole, OrgRoles } from '../server/types'
 
+import { useOfflineQueue } from '../react/offline-queue'
 import useOnlineStatus from '../react/use-online-status'
 
 const OrgAvatar = ({ name, src, ...props }: ComponentProps<typeof Avatar> & { name: string; src?: string }) => (
@@ -16,18 +17,19 @@ const OrgAvatar = ({ name, src, ...props }: ComponentProps<typeof Avatar> & { na
       <AvatarFallback>{name.slice(0, 2).toUpperCase()}</AvatarFallback>
     </Avatar>
   ),
-  variants: Record<OrgRole, 'default' | 'outline' | 'secondary'> = {
+  variants: Partial<Record<OrgRole, 'default' | 'outline' | 'secondary'>> = {
     admin: 'secondary',
     member: 'outline',
     owner: 'default'
   },
-  RoleBadge = ({ role, ...props }: ComponentProps<typeof Badge> & { role: OrgRole }) => (
-    <Badge variant={variants[role]} {...props}>
-      {role}
+  RoleBadge = ({ role, roles, ...props }: ComponentProps<typeof Badge> & { role: OrgRole; roles?: OrgRoles }) => (
+    <Badge variant={variants[role] ?? 'outline'} {...props}>
+      {roles?.[role]?.label ?? role}
     </Badge>
   ),
   OfflineIndicator = ({ className, ...props }: ComponentProps<'p'>) => {
-    const online = useOnlineStatus()
+    const online = useOnlineStatus(),
+      { queued } = useOfflineQueue()
     if (online) return null
     return (
       <p
@@ -37,6 +39,9 @@ const OrgAvatar = ({ name, src, ...props }: ComponentProps<typeof Avatar> & { na
         )}
         {...props}>
         You are offline
+        {queued.length > 0
+          ? ` — ${queued.length} change${queued.length === 1 ? '' : 's'} will sync when you reconnect`
+          : ''}
       </p>
     )
   }
@@ -3,6 +3,7 @@ const ACTIVE_ORG_COOKIE = 'activeOrgId',
   BULK_MAX = 100,
   BYTES_PER_KB = 1024,
   BYTES_PER_MB = BYTES_PER_KB * BYTES_PER_KB,
+  CHUNK_SIZE = 5 * BYTES_PER_MB,
   ONE_YEAR_SECONDS = 60 * 60 * 24 * 365,
   UNDO_MS = 5000,
   sleep = async (ms: number) =>
@@ -17,6 +18,7 @@ export {
   BULK_MAX,
   BYTES_PER_KB,
   BYTES_PER_MB,
+  CHUNK_SIZE,
   ONE_YEAR_SECONDS,
   sleep,
   UNDO_MS
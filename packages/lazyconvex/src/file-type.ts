@@ -0,0 +1,92 @@
+/** Options of `cvFile`: file constraints plus image variants generated after upload. */
+interface FileOptions extends FileRules {
+  variants?: Record<string, ImageVariant>
+}
+
+/** Per-field file constraints declared with `cvFile({ accept, maxSize })`. */
+interface FileRules {
+  accept?: string[]
+  maxSize?: number
+}
+
+/** A stored derivative of an image field: fit inside `w`×`h` without enlarging, optionally re-encoded. */
+interface ImageVariant {
+  format?: 'avif' | 'jpeg' | 'png' | 'webp'
+  h?: number
+  quality?: number
+  w?: number
+}
+
+interface Signature {
+  bytes: (null | number)[]
+  type: string
+}
+
+/** Leading bytes read to detect a file's type; enough for every signature and the text check. */
+const SNIFF_BYTES = 512,
+  OCTET = 'application/octet-stream',
+  SIGNATURES: Signature[] = [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: 'image/png' },
+    { bytes: [0xff, 0xd8, 0xff], type: 'image/jpeg' },
+    { bytes: [0x47, 0x49, 0x46, 0x38], type: 'image/gif' },
+    { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], type: 'image/webp' },
+    { bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45], type: 'audio/wav' },
+    { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], type: 'application/pdf' },
+    { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'application/zip' },
+    { bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], type: 'application/x-cfb' },
+    { bytes: [0x1f, 0x8b], type: 'application/gzip' },
+    { bytes: [0x1a, 0x45, 0xdf, 0xa3], type: 'video/webm' },
+    { bytes: [0x49, 0x44, 0x33], type: 'audio/mpeg' },
+    { bytes: [0x4f, 0x67, 0x67, 0x53], type: 'audio/ogg' },
+    { bytes: [0x00, 0x00, 0x01, 0x00], type: 'image/x-icon' }
+  ],
+  FTYP_BRANDS: Record<string, string> = {
+    avif: 'image/avif',
+    heic: 'image/heic',
+    heix: 'image/heic',
+    mif1: 'image/heif',
+    'qt  ': 'video/quicktime'
+  },
+  /** Legacy Office formats share the compound file container, so the declared type picks between them. */
+  CFB_TYPES = new Set(['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint']),
+  TEXT_TYPES = new Set(['application/json', 'application/xml', 'image/svg+xml']),
+  ascii = (bytes: Uint8Array, from: number, to: number) => String.fromCodePoint(...bytes.subarray(from, to)),
+  matches = (bytes: Uint8Array, sig: (null | number)[]) =>
+    bytes.length >= sig.length && sig.every((b, i) => b === null || bytes[i] === b),
+  isZipType = (t: string) =>
+    t.startsWith('application/vnd.openxmlformats-officedocument.') ||
+    t.startsWith('application/vnd.oasis.opendocument.') ||
+    t.endsWith('+zip'),
+  looksLikeText = (bytes: Uint8Array) => {
+    for (const b of bytes) if (b < 0x09 || (b > 0x0d && b < 0x20 && b !== 0x1b) || b === 0x7f) return false
+    return true
+  },
+  /**
+   * Detects a file's MIME type from its leading bytes. Containers are narrowed with the declared type only when
+   * the bytes agree: a zip may be a `.docx`, and text may be JSON or an SVG that has an `<svg` tag.
+   * @param bytes - The first `SNIFF_BYTES` of the file
+   * @param declared - Content type the client sent, used only to name a container or text format
+   * @returns The detected MIME type, or `application/octet-stream` when nothing matches
+   */
+  sniffContentType = (bytes: Uint8Array, declared = ''): string => {
+    if (bytes.length === 0) return OCTET
+    if (bytes.length >= 12 && ascii(bytes, 4, 8) === 'ftyp') return FTYP_BRANDS[ascii(bytes, 8, 12)] ?? 'video/mp4'
+    const sig = SIGNATURES.find(s => matches(bytes, s.bytes))
+    if (sig?.type === 'application/zip') return isZipType(declared) ? declared : sig.type
+    if (sig?.type === 'application/x-cfb') return CFB_TYPES.has(declared) ? declared : sig.type
+    if (sig) return sig.type
+    if (!looksLikeText(bytes)) return OCTET
+    if (declared === 'image/svg+xml') return new TextDecoder().decode(bytes).includes('<svg') ? declared : 'text/plain'
+    return declared.startsWith('text/') || TEXT_TYPES.has(declared) ? declared : 'text/plain'
+  },
+  /**
+   * Checks a MIME type against an accept list of exact types and `type/*` wildcards.
+   * @param type - Detected MIME type
+   * @param accept - Allowed types, e.g. `['image/*', 'application/pdf']`
+   * @returns True when any entry matches
+   */
+  matchesAccept = (type: string, accept: readonly string[]) =>
+    accept.some(a => a === '*/*' || a === type || (a.endsWith('/*') && type.startsWith(a.slice(0, -1))))
+
+export type { FileOptions, FileRules, ImageVariant }
+export { matchesAccept, SNIFF_BYTES, sniffContentType }
@@ -10,22 +10,40 @@ type StrictApi<T> = RemoveIndexSignature<{
 /** Casts an api object to StrictApi, removing index signature vulnerabilities. */
 const strictApi = <T>(a: T): StrictApi<T> => a as unknown as StrictApi<T>
 
+export type { FileOptions, FileRules, ImageVariant } from './file-type'
 export { guardApi } from './guard'
 export type { DevError, DevSubscription } from './react/devtools'
-export type { Api, ConflictData, FieldKind, FieldMeta, FieldMetaMap, FormReturn } from './react/form'
+export type {
+  Api,
+  ConflictAction,
+  ConflictData,
+  ConflictPicks,
+  FieldKind,
+  FieldMeta,
+  FieldMetaMap,
+  FormReturn
+} from './react/form'
+export type { QueuedMutation, QueueError, QueueStorage } from './react/offline-queue'
 export type { OrgContextValue, OrgDoc, OrgProviderProps } from './react/org'
+export type { ReadResult } from './react/use-read'
 export type { SoftDeleteOpts, ToastFn } from './react/use-soft-delete'
 export type { ConvexErrorData, ErrorHandler } from './server/helpers'
 export type {
   Ab,
   ActionCtxLike,
+  AuditChange,
+  AuditOp,
   AuthorInfo,
+  CacheAccess,
+  CacheAccessCtx,
   CacheCrudResult,
   CacheOptions,
+  CacheWriteRule,
   CanEditOpts,
   CascadeOption,
   ChildConfig,
   ChildCrudResult,
+  CollabTable,
   ComparisonOp,
   CrudHooks,
   CrudOptions,
@@ -34,27 +52,44 @@ export type {
   DbLike,
   DbReadLike,
   DocBase,
+  Effect,
+  EffectEvent,
+  EffectOp,
   EnrichedDoc,
   ErrorCode,
   FID,
+  FieldPolicies,
+  FieldPolicy,
+  FieldRule,
   HookCtx,
+  JobStatus,
   Mb,
   MutationCtxLike,
+  MutationKind,
+  MutationManifest,
+  MutationMeta,
+  OrderBy,
+  OrderByOf,
   OrgCrudResult,
   OrgEnrichedDoc,
   OrgRole,
+  OrgRoleDef,
+  OrgRoles,
   PaginatedResult,
   PaginationOptsShape,
   Qb,
   QueryCtxLike,
   QueryLike,
   ReadCtx,
+  SchedulerLike,
   SetupConfig,
   StorageLike,
+  VersionDoc,
   WhereGroupOf,
   WhereOf,
   WithUrls
 } from './server/types'
+export type { CollabOp, CollabRead, TextOp } from './text-op'
 
 export type { StrictApi }
 export type { CvMeta, DefType, ZodSchema } from './zod'
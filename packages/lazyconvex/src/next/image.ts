@@ -17,6 +17,12 @@ interface FormatOpts {
 interface ImageRouteConfig {
   convexUrl: string
   fileInfoQuery?: string
+  fileVariantQuery?: string
+}
+interface RouteRefs {
+  getClient: () => ConvexHttpClient
+  queryRef: string
+  variantRef: string
 }
 interface ProcessOptions {
   compress?: { quality?: number }
@@ -84,13 +90,31 @@ const IMAGE_TYPES = new Set(['image/gif', 'image/jpeg', 'image/png', 'image/svg+
     if (!isImageType(contentType)) return { error: 'Not an image file', status: 400 }
     return { buffer: Buffer.from(await response.arrayBuffer()), contentType }
   },
+  storedVariant = async ({
+    client,
+    name,
+    storageId,
+    variantRef
+  }: {
+    client: ConvexHttpClient
+    name: null | string | undefined
+    storageId: string
+    variantRef: string
+  }): Promise<null | string> =>
+    name
+      ? ((await client.query(variantRef as unknown as FunctionReference<'query'>, { id: storageId, name })) as
+          null | string)
+      : null,
   makeGet =
-    ({ getClient, queryRef }: { getClient: () => ConvexHttpClient; queryRef: string }) =>
+    ({ getClient, queryRef, variantRef }: RouteRefs) =>
     async (req: NextRequest): Promise<NextResponse> => {
       try {
         const storageId = req.nextUrl.searchParams.get('id')
         if (!storageId) return NextResponse.json({ error: 'id is required' }, { status: 400 })
-        const result = await fetchImage({ client: getClient(), queryRef, storageId })
+        const client = getClient(),
+          stored = await storedVariant({ client, name: req.nextUrl.searchParams.get('variant'), storageId, variantRef })
+        if (stored) return NextResponse.redirect(stored, 307)
+        const result = await fetchImage({ client, queryRef, storageId })
         if ('error' in result) return NextResponse.json({ error: result.error }, { status: result.status })
         return new NextResponse(new Uint8Array(result.buffer), {
           headers: { 'Cache-Control': 'public, max-age=31536000, immutable', 'Content-Type': result.contentType }
@@ -103,13 +127,21 @@ const IMAGE_TYPES = new Set(['image/gif', 'image/jpeg', 'image/png', 'image/svg+
       }
     },
   makePost =
-    ({ getClient, queryRef }: { getClient: () => ConvexHttpClient; queryRef: string }) =>
+    ({ getClient, queryRef, variantRef }: RouteRefs) =>
     async (req: NextRequest): Promise<NextResponse> => {
       try {
-        const body = (await req.json()) as { options?: ProcessOptions; storageId: string; thumbnail?: boolean },
-          { options, storageId, thumbnail } = body
+        const body = (await req.json()) as {
+            options?: ProcessOptions
+            storageId: string
+            thumbnail?: boolean
+            variant?: string
+          },
+          { options, storageId, thumbnail, variant } = body
         if (!storageId) return NextResponse.json({ error: 'storageId is required' }, { status: 400 })
-        const result = await fetchImage({ client: getClient(), queryRef, storageId })
+        const client = getClient(),
+          stored = await storedVariant({ client, name: variant, storageId, variantRef })
+        if (stored) return NextResponse.redirect(stored, 303)
+        const result = await fetchImage({ client, queryRef, storageId })
         if ('error' in result) return NextResponse.json({ error: result.error }, { status: result.status })
         const { buffer, contentType } = result,
           pipeline = applyTransforms({
@@ -128,11 +160,19 @@ const IMAGE_TYPES = new Set(['image/gif', 'image/jpeg', 'image/png', 'image/svg+
         return NextResponse.json({ error: error instanceof Error ? error.message : 'Processing failed' }, { status: 500 })
       }
     },
-  makeImageRoute = async ({ convexUrl, fileInfoQuery = 'file:info' }: ImageRouteConfig) => {
+  makeImageRoute = async ({
+    convexUrl,
+    fileInfoQuery = 'file:info',
+    fileVariantQuery = 'file:variant'
+  }: ImageRouteConfig) => {
     const getClient = () => new ConvexHttpClient(convexUrl),
-      opts = { getClient, queryRef: fileInfoQuery }
+      opts = { getClient, queryRef: fileInfoQuery, variantRef: fileVariantQuery }
     return { GET: makeGet(opts), POST: makePost(opts) }
   }
 
-/** Creates a Next.js route handler for image processing with GET and POST methods. */
+/**
+ * Creates a Next.js route handler for image processing with GET and POST methods. A `variant` name
+ * (`?variant=thumb`, or `variant` in the POST body) redirects to the stored `cvFile({ variants })` derivative
+ * when `generateVariants` has made it, and falls back to processing the original with sharp otherwise.
+ */
 export { makeImageRoute }
@@ -19,21 +19,25 @@ import {
   cvFileKindOf,
   defaultValues as dv,
   elementOf,
+  fileRulesOf,
   isArrayType,
   isBooleanType,
   isDateType,
   isNumberType,
   isStringType,
+  pickValues,
   unwrapZod
 } from '../zod'
 import { defaultOnError } from './use-mutate'
 
 /** Discriminated kind of a form field derived from the Zod schema type. */
 type FieldKind = 'boolean' | 'date' | 'file' | 'files' | 'number' | 'string' | 'stringArray' | 'unknown'
-/** Metadata about a single form field including its kind and optional max constraint. */
+/** Metadata about a single form field: its kind, max items, and for file fields the `cvFile` accept and size limits. */
 interface FieldMeta {
+  accept?: string[]
   kind: FieldKind
   max?: number
+  maxSize?: number
 }
 /** Map of field names to their metadata, built from a Zod object schema. */
 type FieldMetaMap = Record<string, FieldMeta>
@@ -44,12 +48,12 @@ const getMax = (schema: undefined | ZodSchema): number | undefined => {
       for (const c of checks)
         if (c?._zod.def.check === 'max_length' && c._zod.def.maximum !== undefined) return c._zod.def.maximum
   },
-  /** Returns the field metadata (kind, max) for a single Zod schema property. */
+  /** Returns the field metadata (kind, max, file accept and size limits) for a single Zod schema property. */
   getMeta = (s: unknown): FieldMeta => {
     const { schema: base, type } = unwrapZod(s),
       fk = cvFileKindOf(s)
-    if (fk === 'file') return { kind: 'file' }
-    if (fk === 'files') return { kind: 'files', max: getMax(base) }
+    if (fk === 'file') return { kind: 'file', ...fileRulesOf(s) }
+    if (fk === 'files') return { kind: 'files', max: getMax(base), ...fileRulesOf(s) }
     if (isArrayType(type)) {
       const el = unwrapZod(elementOf(base))
       return { kind: isStringType(el.type) ? 'stringArray' : 'unknown', max: getMax(base) }
@@ -84,13 +88,23 @@ type Api<T extends Record<string, unknown>> = ReactFormExtendedApi<
   unknown
 >
 
-/** Data returned when a mutation conflict (CONFLICT error code) is detected during form submission. */
+/**
+ * Data returned when a mutation conflict (CONFLICT error code) is detected during form submission. `fields` lists the
+ * fields both sides changed to different values; every other edit has already been merged.
+ */
 interface ConflictData {
   code: string
   current?: unknown
+  fields?: string[]
   incoming?: unknown
 }
 
+/** How to settle a conflict: drop it, take the stored values, force yours, or apply per-field `picks`. */
+type ConflictAction = 'cancel' | 'merge' | 'overwrite' | 'reload'
+
+/** Per-field choice in a conflict: keep the stored value (`current`) or your own (`incoming`). */
+type ConflictPicks = Record<string, 'current' | 'incoming'>
+
 /** Return type of useForm, providing the form instance, state, conflict handling, and field watching. */
 interface FormReturn<T extends Record<string, unknown>, S extends ZodObject<ZodRawShape>> {
   conflict: ConflictData | null
@@ -102,12 +116,13 @@ interface FormReturn<T extends Record<string, unknown>, S extends ZodObject<ZodR
   lastSaved: null | number
   meta: FieldMetaMap
   reset: (values?: T) => void
-  resolveConflict: (action: 'cancel' | 'overwrite' | 'reload') => void
+  resolveConflict: (action: ConflictAction, picks?: ConflictPicks) => void
   schema: S
   watch: <K extends keyof T>(name: K) => T[K]
 }
 
 const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause: e }),
+  same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b),
   handleConflict = (error: unknown): ConflictData | null => {
     if (getErrorCode(error) !== 'CONFLICT') return null
     const { data } = error as { data?: { current?: unknown; incoming?: unknown } }
@@ -117,8 +132,25 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
       incoming: data?.incoming
     }
   },
+  /**
+   * Three-way merges a form edit against a concurrent one. Fields only one side changed since `base` take that side;
+   * fields both sides changed to different values are reported in `conflicts` and keep `mine` in `merged`.
+   * @param values - The values the edit started from, the stored values now, and the edited values
+   * @returns The merged values and the colliding field names
+   */
+  mergeFields = <T extends Record<string, unknown>>({ base, current, mine }: { base: T; current: T; mine: T }) => {
+    const merged: Record<string, unknown> = { ...mine },
+      conflicts: string[] = []
+    for (const k of Object.keys(mine))
+      if (!(same(mine[k], current[k]) || same(current[k], base[k])))
+        if (same(mine[k], base[k])) merged[k] = current[k]
+        else conflicts.push(k)
+    return { conflicts, merged: merged as T }
+  },
   /**
    * Hook that creates a Zod-validated form with conflict detection, auto-save, and field watching.
+   * Edits are three-way merged with changes to `values` (or a CONFLICT's stored doc) made since editing began, so
+   * only fields changed on both sides reach `onConflict`.
    * @param schema Zod object schema for validation
    * @param values Optional initial/current values (defaults to schema defaults)
    * @example
@@ -143,7 +175,11 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
     autoSave?: { debounceMs: number; enabled: boolean }
     onConflict?: (data: ConflictData) => void
     onError?: ((e: unknown) => void) | false
-    onSubmit: (d: output<S>, force?: boolean) => output<S> | Promise<output<S> | undefined> | undefined
+    onSubmit: (
+      d: output<S>,
+      force?: boolean,
+      expectedUpdatedAt?: number
+    ) => output<S> | Promise<output<S> | undefined> | undefined
     onSuccess?: () => void
     resetOnSuccess?: boolean
     schema: S
@@ -153,48 +189,85 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
       [conflict, setConflict] = useState<ConflictData | null>(null),
       [er, setEr] = useState<Error | null>(null),
       [fieldErrors, setFieldErrors] = useState<Record<string, string>>({}),
-      [forceSubmit, setForceSubmit] = useState(false),
       [lastSaved, setLastSaved] = useState<null | number>(null),
       vRef = useRef(resolved),
+      baseRef = useRef(resolved),
+      theirsRef = useRef(resolved),
+      seenRef = useRef(resolved),
+      forceRef = useRef(false),
       autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null)
 
     vRef.current = resolved
     if (Object.keys(resolved).some(k => !(k in schema.shape))) throw new Error('Form values include keys not in schema')
     const meta = useMemo(() => buildMeta(schema), [schema]),
+      raiseConflict = (data: ConflictData) => {
+        forceRef.current = false
+        setConflict(data)
+        onConflict?.(data)
+      },
+      save = async (value: output<S>, force: boolean, expectedUpdatedAt?: number) => {
+        const coerced = coerceOptionals(schema, value),
+          result = await Promise.resolve(onSubmit(coerced, force, expectedUpdatedAt)),
+          returned = isRecord(result) ? result : coerced,
+          newValues = resetOnSuccess ? returned : value
+        instance.reset(newValues)
+        if (resetOnSuccess && isRecord(returned)) vRef.current = returned
+        baseRef.current = newValues
+        theirsRef.current = newValues
+        forceRef.current = false
+        setLastSaved(Date.now())
+        onSuccess?.()
+      },
       instance = useTanStackForm({
         defaultValues: resolved,
 
         onSubmit: async ({ value }) => {
           setEr(null)
           setFieldErrors({})
-          try {
-            const coerced = coerceOptionals(schema, value),
-              result = await Promise.resolve(onSubmit(coerced, forceSubmit)),
-              returned = isRecord(result) ? result : coerced,
-              newValues = resetOnSuccess ? returned : value
-            instance.reset(newValues)
-            if (resetOnSuccess && isRecord(returned)) vRef.current = returned
-            setForceSubmit(false)
-            setLastSaved(Date.now())
-            onSuccess?.()
-          } catch (error) {
-            const conflictData = handleConflict(error)
-            if (conflictData) {
-              setConflict(conflictData)
-              onConflict?.(conflictData)
-              return
+          const force = forceRef.current
+          let mine = value,
+            theirs = theirsRef.current,
+            expectedUpdatedAt: number | undefined
+          for (const retry of [false, true]) {
+            const { conflicts, merged } = mergeFields({ base: baseRef.current, current: theirs, mine })
+            if (conflicts.length > 0 && !force)
+              return raiseConflict({ code: 'CONFLICT', current: theirs, fields: conflicts, incoming: mine })
+            try {
+              /** biome-ignore lint/performance/noAwaitInLoops: the retry only runs after the first save fails */
+              // oxlint-disable-next-line no-await-in-loop
+              return await save(merged, force, expectedUpdatedAt)
+            } catch (error) {
+              const conflictData = handleConflict(error)
+              if (conflictData) {
+                if (!isRecord(conflictData.current)) return raiseConflict(conflictData)
+                const { updatedAt } = conflictData.current
+                theirs = pickValues(schema, conflictData.current)
+                theirsRef.current = theirs
+                if (force || retry || typeof updatedAt !== 'number')
+                  return raiseConflict({ ...conflictData, current: theirs, incoming: merged })
+                mine = merged
+                expectedUpdatedAt = updatedAt
+              } else {
+                const errData = extractErrorData(error)
+                if (errData?.fieldErrors) setFieldErrors(errData.fieldErrors)
+                const submitErr = submitError(error)
+                setEr(submitErr)
+                if (onError !== false) (onError ?? defaultOnError)(submitErr)
+                return
+              }
             }
-            const errData = extractErrorData(error)
-            if (errData?.fieldErrors) setFieldErrors(errData.fieldErrors)
-            const submitErr = submitError(error)
-            setEr(submitErr)
-            if (onError !== false) (onError ?? defaultOnError)(submitErr)
           }
         },
         validators: { onSubmit: schema as unknown as StandardSchemaV1<output<S>, unknown> }
       }) as unknown as Api<output<S>>,
       { isDirty, isSubmitting } = useStore(instance.store, s => ({ isDirty: s.isDirty, isSubmitting: s.isSubmitting }))
 
+    if (!same(seenRef.current, resolved)) {
+      seenRef.current = resolved
+      theirsRef.current = resolved
+      if (!isDirty) baseRef.current = resolved
+    }
+
     useEffect(() => {
       if (!(autoSave?.enabled && isDirty)) return
       if (autoSaveTimerRef.current) clearTimeout(autoSaveTimerRef.current)
@@ -222,15 +295,22 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
         setFieldErrors({})
         setLastSaved(null)
       },
-      resolveConflict: (action: 'cancel' | 'overwrite' | 'reload') => {
+      resolveConflict: (action: ConflictAction, picks?: ConflictPicks) => {
+        const current = isRecord(conflict?.current) ? (conflict.current as output<S>) : theirsRef.current
+        setConflict(null)
         if (action === 'overwrite') {
-          setConflict(null)
-          setForceSubmit(true)
+          forceRef.current = true
           instance.handleSubmit()
         } else if (action === 'reload') {
-          setConflict(null)
-          instance.reset(vRef.current)
-        } else setConflict(null)
+          baseRef.current = current
+          instance.reset(current)
+        } else if (action === 'merge') {
+          const next: Record<string, unknown> = { ...instance.state.values }
+          for (const k of conflict?.fields ?? []) if (picks?.[k] === 'current') next[k] = current[k]
+          baseRef.current = current
+          instance.reset(next as output<S>, { keepDefaultValues: true })
+          instance.handleSubmit()
+        }
       },
       schema,
       watch: <K extends keyof output<S>>(name: K) =>
@@ -264,9 +344,15 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
       autoSave,
       onConflict,
       onError,
-      onSubmit: async (d: output<S>) => {
-        const args = transform ? transform(d) : d
-        await mutate(args)
+      onSubmit: async (d: output<S>, force?: boolean, expectedUpdatedAt?: number) => {
+        const args: Record<string, unknown> = transform ? transform(d) : d
+        await mutate(
+          force
+            ? Object.fromEntries(Object.entries(args).filter(([k]) => k !== 'expectedUpdatedAt'))
+            : expectedUpdatedAt === undefined
+              ? args
+              : { ...args, expectedUpdatedAt }
+        )
         return d
       },
       onSuccess,
@@ -276,5 +362,5 @@ const submitError = (e: unknown): Error => new Error(getErrorMessage(e), { cause
     })
   }
 
-export type { Api, ConflictData, FieldKind, FieldMeta, FieldMetaMap, FormReturn }
-export { buildMeta, getMeta, useForm, useFormMutation }
+export type { Api, ConflictAction, ConflictData, ConflictPicks, FieldKind, FieldMeta, FieldMetaMap, FormReturn }
+export { buildMeta, getMeta, mergeFields, useForm, useFormMutation }
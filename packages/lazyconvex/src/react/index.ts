@@ -18,10 +18,20 @@ export { default as LazyConvexDevtools } from './devtools-panel'
 export type { DevtoolsProps } from './devtools-panel'
 export type { ErrorToastOptions, ToastFn } from './error-toast'
 export { makeErrorHandler, useErrorToast } from './error-toast'
-export { buildMeta, getMeta, useForm, useFormMutation } from './form'
+export { buildMeta, getMeta, mergeFields, useForm, useFormMutation } from './form'
+export type {
+  OfflineQueue,
+  OfflineQueueOptions,
+  QueuedMutation,
+  QueueError,
+  QueueStorage,
+  ReplayResult
+} from './offline-queue'
+export { createOfflineQueue, idbStorage, memoryStorage, useOfflineQueue } from './offline-queue'
+export type { OptimisticProviderProps } from './optimistic-provider'
 export { default as OptimisticProvider } from './optimistic-provider'
-export type { MutationType, PendingMutation } from './optimistic-store'
-export { usePendingMutations } from './optimistic-store'
+export type { MutationType, PendingMutation, TempId } from './optimistic-store'
+export { resolveMutationMeta, useMutationMeta, usePendingMutations } from './optimistic-store'
 export {
   canEditResource,
   createOrgHooks,
@@ -39,13 +49,20 @@ export type { BulkMutateToast, BulkProgress, BulkResult, UseBulkMutateOptions }
 export { useBulkMutate } from './use-bulk-mutate'
 export { useBulkSelection } from './use-bulk-selection'
 export { useCacheEntry } from './use-cache'
+export type { ChunkedUploadOptions, ChunkedUploadRefs, ChunkedUploadResult } from './use-chunked-upload'
+export { chunkChecksum, useChunkedUpload } from './use-chunked-upload'
+export type { CollabRefs, CollabTarget, UseCollabTextOptions, UseCollabTextResult } from './use-collab-text'
+export { useCollabText } from './use-collab-text'
 export { useInfiniteList } from './use-infinite-list'
-export { useList, useOwnRows } from './use-list'
+export { overlayOptimistic, useList, useOwnRows } from './use-list'
+export type { MutateResult } from './use-mutate'
 export { defaultOnError, useMutate } from './use-mutate'
 export { default as useOnlineStatus } from './use-online-status'
 export { useOptimisticMutation } from './use-optimistic'
 export type { PresenceRefs, PresenceUser, UsePresenceOptions, UsePresenceResult } from './use-presence'
 export { usePresence } from './use-presence'
+export type { ReadResult } from './use-read'
+export { applyOptimisticDoc, useOptimisticDoc, useRead } from './use-read'
 export { useSearch } from './use-search'
 export { useSoftDelete } from './use-soft-delete'
 export { default as useUpload } from './use-upload'
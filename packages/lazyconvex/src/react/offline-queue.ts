@@ -0,0 +1,306 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: replay runs queued mutations strictly in order */
+'use client'
+
+import { createContext, use, useRef, useSyncExternalStore } from 'react'
+
+import type { ConvexErrorData } from '../server/helpers'
+import type { OptimisticStore, PendingMutation } from './optimistic-store'
+
+import { extractErrorData, getErrorMessage, isRecord } from '../server/helpers'
+import { createOptimisticStore } from './optimistic-store'
+
+/** Why a queued mutation failed on replay: the server error code and data, or just the message for validator errors. */
+interface QueueError {
+  code?: string
+  data?: ConvexErrorData
+  message: string
+}
+
+/** A mutation saved while offline, replayed by function name once the connection returns. */
+interface QueuedMutation extends PendingMutation {
+  error?: QueueError
+  name: string
+  status: 'failed' | 'queued'
+}
+
+/** Where the queue keeps its entries between reloads. */
+interface QueueStorage {
+  load: () => Promise<QueuedMutation[]>
+  save: (entries: QueuedMutation[]) => Promise<void>
+}
+
+/** Runs one queued mutation, e.g. `(name, args) => convex.mutation(makeFunctionReference(name), args)`. */
+type ReplayRunner = (name: string, args: Record<string, unknown>) => Promise<unknown>
+
+/** Counts from one replay pass. */
+interface ReplayResult {
+  failed: number
+  replayed: number
+}
+
+/** Optimistic store that also persists offline mutations and replays them in order. */
+interface OfflineQueue extends OptimisticStore {
+  discard: (tempId: string) => void
+  enqueue: (entry: Omit<QueuedMutation, 'error' | 'status'>, onFail?: (error: unknown) => void) => void
+  getQueue: () => QueuedMutation[]
+  hydrate: () => Promise<void>
+  replay: () => Promise<ReplayResult>
+  resolveIds: <T>(value: T) => T
+  retry: (tempId: string) => void
+}
+
+/** Options for createOfflineQueue: how to run a replayed mutation and where to persist the queue. */
+interface OfflineQueueOptions {
+  run: ReplayRunner
+  storage?: QueueStorage
+}
+
+const DB_STORE = 'queue',
+  DB_KEY = 'entries',
+  DEFAULT_DB_NAME = 'lazyconvex:offline',
+  DEPENDENCY_FAILED = 'Depends on a queued change that failed',
+  EMPTY: QueuedMutation[] = [],
+  noop = () => {
+    /* No-op */
+  },
+  swapIds = (value: unknown, ids: Map<string, string>): unknown => {
+    if (typeof value === 'string') return ids.get(value) ?? value
+    if (Array.isArray(value)) return value.map(v => swapIds(v, ids))
+    if (!isRecord(value)) return value
+    const out: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value)) out[k] = swapIds(v, ids)
+    return out
+  },
+  mentions = (value: unknown, tempIds: Set<string>): boolean => {
+    if (typeof value === 'string') return tempIds.has(value)
+    if (Array.isArray(value)) return value.some(v => mentions(v, tempIds))
+    return isRecord(value) && Object.values(value).some(v => mentions(v, tempIds))
+  },
+  isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false,
+  /**
+   * Keeps the queue in memory only — for tests, SSR, and browsers without IndexedDB.
+   * @param initial - Entries `load` returns before the first save
+   */
+  memoryStorage = (initial: QueuedMutation[] = []): QueueStorage => {
+    let saved = initial
+    return {
+      load: () => Promise.resolve(saved),
+      save: entries => {
+        saved = entries
+        return Promise.resolve()
+      }
+    }
+  },
+  openDb = async (name: string) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(name, 1)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(DB_STORE)
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error ?? new Error('IndexedDB unavailable'))
+    }),
+  /**
+   * Persists the queue to IndexedDB as a single record, falling back to memory when IndexedDB is missing.
+   * @param name - Database name, one per app
+   */
+  idbStorage = (name = DEFAULT_DB_NAME): QueueStorage => {
+    if (typeof indexedDB === 'undefined') return memoryStorage()
+    let db: Promise<IDBDatabase> | undefined
+    const request = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+      db ??= openDb(name)
+      const conn = await db
+      return new Promise<T>((resolve, reject) => {
+        const req = fn(conn.transaction(DB_STORE, mode).objectStore(DB_STORE))
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error ?? new Error('IndexedDB request failed'))
+      })
+    }
+    return {
+      load: async () => ((await request('readonly', s => s.get(DB_KEY))) as QueuedMutation[] | undefined) ?? [],
+      save: async entries => {
+        await request('readwrite', s => s.put(entries, DB_KEY))
+      }
+    }
+  },
+  /**
+   * Creates an optimistic store whose queued entries survive reloads. `enqueue` records a mutation made offline,
+   * `replay` sends queued entries one at a time in the order they were made, and a create's real id replaces its
+   * `tempId` in every later entry. A failed entry stays in the queue with its error, along with anything that
+   * references its temp id, until it is retried or discarded. `onFail`, passed to `enqueue`, hears about the
+   * entry's first failed replay in this session; it is not persisted.
+   * @param options - The replay runner and the storage to persist to (defaults to IndexedDB)
+   * @example
+   * ```ts
+   * const queue = createOfflineQueue({ run: (name, args) => convex.mutation(makeFunctionReference(name), args) })
+   * await queue.hydrate()
+   * await queue.replay()
+   * ```
+   */
+  createOfflineQueue = ({ run, storage = idbStorage() }: OfflineQueueOptions): OfflineQueue => {
+    const live = createOptimisticStore(),
+      listeners = new Set<() => void>(),
+      ids = new Map<string, string>(),
+      watchers = new Map<string, (error: unknown) => void>()
+    let queued: QueuedMutation[] = [],
+      snapshot: PendingMutation[] = [],
+      replaying: Promise<ReplayResult> | undefined
+    const notify = () => {
+        snapshot = [...queued.filter(q => q.status === 'queued'), ...live.getSnapshot()]
+        for (const fn of listeners) fn()
+      },
+      persist = async () => {
+        try {
+          await storage.save(queued)
+        } catch {
+          /* oxlint-disable-next-line no-empty */
+        }
+      },
+      commit = (next: QueuedMutation[]) => {
+        queued = next
+        notify()
+        // biome-ignore lint/nursery/noFloatingPromises: persistence never rejects
+        persist()
+      },
+      withDependents = (tempId: string) => {
+        const chain = new Set([tempId])
+        for (const q of queued) if (mentions(q.args, chain) || chain.has(q.id)) chain.add(q.tempId)
+        return chain
+      },
+      fail = (tempId: string, error: QueueError, cause: unknown) => {
+        commit(queued.map(q => (q.tempId === tempId ? { ...q, error, status: 'failed' } : q)))
+        const onFail = watchers.get(tempId)
+        watchers.delete(tempId)
+        onFail?.(cause)
+      },
+      replayOnce = async (): Promise<ReplayResult> => {
+        const result: ReplayResult = { failed: 0, replayed: 0 }
+        for (;;) {
+          if (isOffline()) return result
+          const failedIds = new Set(queued.filter(q => q.status === 'failed').map(q => q.tempId)),
+            next = queued.find(q => q.status === 'queued')
+          if (!next) return result
+          if (mentions(next.args, failedIds) || failedIds.has(next.id)) {
+            fail(next.tempId, { message: DEPENDENCY_FAILED }, new Error(DEPENDENCY_FAILED))
+            result.failed += 1
+          } else
+            try {
+              const created = await run(next.name, next.args)
+              watchers.delete(next.tempId)
+              if (next.type === 'create' && typeof created === 'string') ids.set(next.tempId, created)
+              commit(
+                queued
+                  .filter(q => q.tempId !== next.tempId)
+                  .map(q => ({
+                    ...q,
+                    args: swapIds(q.args, ids) as Record<string, unknown>,
+                    id: ids.get(q.id) ?? q.id
+                  }))
+              )
+              result.replayed += 1
+            } catch (error) {
+              const data = extractErrorData(error)
+              fail(next.tempId, { code: data?.code, data, message: getErrorMessage(error) }, error)
+              result.failed += 1
+            }
+        }
+      }
+    live.subscribe(notify)
+    return {
+      add: live.add,
+      discard: tempId => {
+        const chain = withDependents(tempId)
+        for (const t of chain) watchers.delete(t)
+        commit(queued.filter(q => !chain.has(q.tempId)))
+      },
+      enqueue: (entry, onFail) => {
+        const target = queued.find(q => q.type === 'create' && q.tempId === entry.id)
+        if (entry.type === 'delete' && target) {
+          const chain = withDependents(target.tempId)
+          for (const t of chain) watchers.delete(t)
+          commit(queued.filter(q => !chain.has(q.tempId)))
+          return
+        }
+        if (onFail) watchers.set(entry.tempId, onFail)
+        commit([...queued, { ...entry, args: swapIds(entry.args, ids) as Record<string, unknown>, status: 'queued' }])
+      },
+      getQueue: () => queued,
+      getSnapshot: () => snapshot,
+      hydrate: async () => {
+        let saved: QueuedMutation[] = []
+        try {
+          saved = await storage.load()
+        } catch {
+          /* oxlint-disable-next-line no-empty */
+        }
+        const known = new Set(queued.map(q => q.tempId))
+        queued = [...saved.filter(q => !known.has(q.tempId)), ...queued]
+        notify()
+      },
+      remove: live.remove,
+      replay: async () => {
+        replaying ??= (async () => {
+          try {
+            return await replayOnce()
+          } finally {
+            replaying = undefined
+          }
+        })()
+        return replaying
+      },
+      resolveIds: <T>(value: T) => swapIds(value, ids) as T,
+      retry: tempId => {
+        const chain = withDependents(tempId)
+        commit(queued.map(q => (chain.has(q.tempId) ? { ...q, error: undefined, status: 'queued' } : q)))
+      },
+      subscribe: (listener: () => void) => {
+        listeners.add(listener)
+        return () => {
+          listeners.delete(listener)
+        }
+      }
+    }
+  },
+  /** React context that holds the offline queue, set by `OptimisticProvider` when `offline` is on. */
+  OfflineQueueContext = createContext<null | OfflineQueue>(null),
+  useOfflineStore = (): null | OfflineQueue => use(OfflineQueueContext),
+  /**
+   * Reads the offline queue: entries waiting to replay, entries that failed with their errors, and actions to
+   * retry or discard them. Returns empty lists when no `OptimisticProvider offline` is mounted.
+   * @example
+   * ```tsx
+   * const { failed, retry, discard } = useOfflineQueue()
+   * failed.map(f => <Row key={f.tempId} error={f.error?.message} onRetry={() => retry(f.tempId)} />)
+   * ```
+   */
+  useOfflineQueue = () => {
+    const queue = useOfflineStore(),
+      emptyRef = useRef(EMPTY),
+      entries = useSyncExternalStore(
+        queue ? queue.subscribe : () => noop,
+        queue ? queue.getQueue : () => emptyRef.current,
+        queue ? queue.getQueue : () => emptyRef.current
+      )
+    return {
+      discard: (tempId: string) => queue?.discard(tempId),
+      failed: entries.filter(q => q.status === 'failed'),
+      queued: entries.filter(q => q.status === 'queued'),
+      replay: async () => (queue ? queue.replay() : { failed: 0, replayed: 0 }),
+      retry: async (tempId: string) => {
+        if (!queue) return { failed: 0, replayed: 0 }
+        queue.retry(tempId)
+        return queue.replay()
+      }
+    }
+  }
+
+export type { OfflineQueue, OfflineQueueOptions, QueuedMutation, QueueError, QueueStorage, ReplayResult, ReplayRunner }
+export {
+  createOfflineQueue,
+  idbStorage,
+  isOffline,
+  memoryStorage,
+  OfflineQueueContext,
+  useOfflineQueue,
+  useOfflineStore
+}
@@ -1,13 +1,65 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useConvex } from 'convex/react'
+import { makeFunctionReference } from 'convex/server'
+import { useEffect, useState } from 'react'
 
-import { createOptimisticStore, OptimisticContext } from './optimistic-store'
+import type { MutationManifest } from '../server/types'
+import type { OfflineQueue, QueueStorage } from './offline-queue'
+import type { OptimisticStore } from './optimistic-store'
 
-/** Provides the optimistic mutation store to the component tree via React context. */
-const OptimisticProvider = ({ children }: { children: React.ReactNode }) => {
-  const store = useMemo(() => createOptimisticStore(), [])
-  return <OptimisticContext value={store}>{children}</OptimisticContext>
+import { createOfflineQueue, idbStorage, isOffline, OfflineQueueContext } from './offline-queue'
+import { createOptimisticStore, MutationMetaContext, OptimisticContext } from './optimistic-store'
+
+interface OptimisticProviderProps {
+  children: React.ReactNode
+  meta?: MutationManifest
+  offline?: boolean | QueueStorage
+}
+
+const EMPTY_META: MutationManifest = {}
+
+/**
+ * Provides the optimistic mutation store to the component tree via React context.
+ * Pass `meta` — the manifest from `lazyconvex codegen-meta` — so mutation hooks know what each mutation does.
+ * Pass `offline` to queue mutations made without a connection — persisted to IndexedDB, or to the given
+ * storage — and replay them in order on mount and whenever the browser comes back online.
+ */
+const OptimisticProvider = ({ children, meta = EMPTY_META, offline }: OptimisticProviderProps) => {
+  const convex = useConvex(),
+    [store] = useState<OfflineQueue | OptimisticStore>(() =>
+      offline
+        ? createOfflineQueue({
+            run: async (name, args) => convex.mutation(makeFunctionReference<'mutation'>(name), args),
+            storage: offline === true ? idbStorage() : offline
+          })
+        : createOptimisticStore()
+    ),
+    queue = 'replay' in store ? store : null
+
+  useEffect(() => {
+    if (!queue) return
+    const replay = async () => {
+        if (!isOffline()) await queue.replay()
+      },
+      start = async () => {
+        await queue.hydrate()
+        await replay()
+      }
+    // biome-ignore lint/nursery/noFloatingPromises: queue errors are stored on the entries
+    start()
+    globalThis.addEventListener('online', replay)
+    return () => globalThis.removeEventListener('online', replay)
+  }, [queue])
+
+  return (
+    <MutationMetaContext value={meta}>
+      <OptimisticContext value={store}>
+        <OfflineQueueContext value={queue}>{children}</OfflineQueueContext>
+      </OptimisticContext>
+    </MutationMetaContext>
+  )
 }
 
+export type { OptimisticProviderProps }
 export default OptimisticProvider
@@ -1,9 +1,17 @@
 'use client'
 
+import type { FunctionReference } from 'convex/server'
+
+import { getFunctionName } from 'convex/server'
 import { createContext, use, useRef, useSyncExternalStore } from 'react'
 
-/** The kind of mutation: create, update, or delete. */
-type MutationType = 'create' | 'delete' | 'update'
+import type { MutationKind, MutationManifest, MutationMeta } from '../server/types'
+
+/** The kind of mutation: create, update, delete, or `other` for mutations lists should ignore. */
+type MutationType = MutationKind
+
+/** Placeholder id an optimistic or queued create holds until the server returns the real one. */
+type TempId = `__optimistic_${number}_${number}`
 
 interface OptimisticStore {
   add: (entry: PendingMutation) => void
@@ -16,6 +24,7 @@ interface OptimisticStore {
 interface PendingMutation {
   args: Record<string, unknown>
   id: string
+  table?: string
   tempId: string
   timestamp: number
   type: MutationType
@@ -26,10 +35,53 @@ const noop = () => {
 }
 let counter = 0
 
-const makeTempId = () => {
+const makeTempId = (): TempId => {
     counter += 1
     return `__optimistic_${counter}_${Date.now()}`
   },
+  /** Returns the Convex function name of a reference, e.g. `blog:update`, or `unknown` for anything else. */
+  functionNameOf = (ref: FunctionReference<'action' | 'mutation' | 'query'> | string): string => {
+    try {
+      return typeof ref === 'string' ? ref : getFunctionName(ref)
+    } catch {
+      return 'unknown'
+    }
+  },
+  /**
+   * Returns the table an endpoint works on: its module name, which lazyconvex factories share with their table.
+   * @example tableOf(api.blog.update) // 'blog'
+   */
+  tableOf = (ref: FunctionReference<'action' | 'mutation' | 'query'> | string): string | undefined => {
+    const name = functionNameOf(ref)
+    return name === 'unknown' ? undefined : name.split(':')[0]?.split('/').at(-1)
+  },
+  /** React context that holds the mutation manifest written by `lazyconvex codegen-meta`. */
+  MutationMetaContext = createContext<MutationManifest>({}),
+  /**
+   * Resolves a mutation's kind, table, and id arg: what the caller declared first, then the manifest, then `other`
+   * on the endpoint's own table. Nothing is guessed from the function name.
+   * @param ref - The mutation reference
+   * @param manifest - Metadata from `lazyconvex codegen-meta`
+   * @param declared - Overrides for custom endpoints missing from the manifest
+   */
+  resolveMutationMeta = (
+    ref: FunctionReference<'mutation'> | string,
+    manifest: MutationManifest,
+    declared?: Partial<MutationMeta>
+  ): Required<MutationMeta> => {
+    const found = manifest[functionNameOf(ref)]
+    return {
+      idArg: declared?.idArg ?? found?.idArg ?? 'id',
+      kind: declared?.kind ?? found?.kind ?? 'other',
+      table: declared?.table ?? found?.table ?? tableOf(ref) ?? ''
+    }
+  },
+  /** Returns the resolved metadata for a mutation from the nearest `OptimisticProvider`'s manifest. */
+  useMutationMeta = (ref: FunctionReference<'mutation'>, declared?: Partial<MutationMeta>): Required<MutationMeta> =>
+    resolveMutationMeta(ref, use(MutationMetaContext), declared),
+  /** Keeps the pending mutations for one table, plus untagged ones added by hand. */
+  forTable = (pending: PendingMutation[], table: string | undefined): PendingMutation[] =>
+    table ? pending.filter(p => p.table === undefined || p.table === table) : pending,
   createOptimisticStore = (): OptimisticStore => {
     let entries: PendingMutation[] = []
     const listeners = new Set<() => void>(),
@@ -68,5 +120,17 @@ const makeTempId = () => {
     )
   }
 
-export type { MutationType, OptimisticStore, PendingMutation }
-export { createOptimisticStore, makeTempId, OptimisticContext, useOptimisticStore, usePendingMutations }
+export type { MutationType, OptimisticStore, PendingMutation, TempId }
+export {
+  createOptimisticStore,
+  forTable,
+  functionNameOf,
+  makeTempId,
+  MutationMetaContext,
+  OptimisticContext,
+  resolveMutationMeta,
+  tableOf,
+  useMutationMeta,
+  useOptimisticStore,
+  usePendingMutations
+}
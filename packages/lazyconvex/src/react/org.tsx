@@ -7,14 +7,16 @@ import type { ReactNode } from 'react'
 import { useMutation, useQuery } from 'convex/react'
 import { createContext, use, useCallback, useMemo, useState } from 'react'
 
-import type { OrgRole } from '../server/types'
+import type { OrgRole, OrgRoles } from '../server/types'
 
 import { ACTIVE_ORG_COOKIE, ACTIVE_ORG_SLUG_COOKIE, ONE_YEAR_SECONDS } from '../constants'
+import { BUILTIN_ORG_ROLES, hasOrgPermission, isAdminRole } from '../server/org-roles'
 
 type InferOrg<F> = F extends { _returnType: infer R } ? (NonNullable<R> extends OrgDoc ? NonNullable<R> : OrgDoc) : OrgDoc
 
 /** Context value exposing the current org, membership, role, and permission flags. */
 interface OrgContextValue<O extends OrgDoc = OrgDoc, M = unknown> {
+  can: (permission: string) => boolean
   canDeleteOrg: boolean
   canManageAdmins: boolean
   canManageMembers: boolean
@@ -25,6 +27,7 @@ interface OrgContextValue<O extends OrgDoc = OrgDoc, M = unknown> {
   org: O
   orgId: string
   role: OrgRole
+  roleLabel: string
 }
 
 /** Base shape for an org document, requiring _id and slug. */
@@ -42,26 +45,39 @@ interface OrgProviderProps<O extends OrgDoc, M> {
   membership: M | null
   org: O
   role: OrgRole
+  roles?: OrgRoles
 }
 
-/** Provides org context (role, permissions, membership) to the component tree. */
-const OrgProvider = <O extends OrgDoc, M>({ children, membership, org, role }: OrgProviderProps<O, M>) => {
+/**
+ * Provides org context (role, permissions, membership) to the component tree.
+ * Pass the same `roles` registry given to `setup({ orgRoles })` so custom roles resolve like they do on the server.
+ */
+const OrgProvider = <O extends OrgDoc, M>({
+    children,
+    membership,
+    org,
+    role,
+    roles = BUILTIN_ORG_ROLES
+  }: OrgProviderProps<O, M>) => {
     const value = useMemo<OrgContextValue<O, M>>(() => {
       const isOwner = role === 'owner',
-        isAdmin = role === 'owner' || role === 'admin'
+        isAdmin = isAdminRole(role, roles),
+        can = (permission: string) => hasOrgPermission(role, permission, roles)
       return {
+        can,
         canDeleteOrg: isOwner,
         canManageAdmins: isOwner,
-        canManageMembers: isAdmin,
+        canManageMembers: can('members.invite'),
         isAdmin,
         isMember: true,
         isOwner,
         membership,
         org,
         orgId: org._id,
-        role
+        role,
+        roleLabel: roles[role]?.label ?? role
       }
-    }, [membership, org, role])
+    }, [membership, org, role, roles])
 
     return <OrgContext value={value as OrgContextValue}>{children}</OrgContext>
   },
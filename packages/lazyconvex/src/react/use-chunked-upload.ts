@@ -0,0 +1,192 @@
+// oxlint-disable promise/prefer-await-to-then
+
+/** biome-ignore-all lint/performance/noAwaitInLoops: per-chunk retry and worker queues */
+'use client'
+
+import type { FunctionReference } from 'convex/server'
+
+import { useAction, useConvex, useMutation } from 'convex/react'
+import { ConvexError } from 'convex/values'
+import { useRef, useState } from 'react'
+
+import { CHUNK_SIZE, sleep } from '../constants'
+
+/** Convex function references required by useChunkedUpload — the module that exports `makeFileUpload`. */
+interface ChunkedUploadRefs {
+  assembleChunks: FunctionReference<'action'>
+  cancelChunkedUpload: FunctionReference<'mutation'>
+  confirmChunk: FunctionReference<'mutation'>
+  getUploadProgress: FunctionReference<'query'>
+  startChunkedUpload: FunctionReference<'mutation'>
+  uploadChunk: FunctionReference<'mutation'>
+}
+
+/** Options for useChunkedUpload: chunks in flight at once, attempts per chunk, and delay between attempts. */
+interface ChunkedUploadOptions {
+  concurrency?: number
+  retries?: number
+  retryDelay?: number
+}
+
+/** Result of a chunked upload — the assembled file's storageId, or why it stopped. */
+type ChunkedUploadResult =
+  | { code: 'ABORTED'; ok: false }
+  | { code: 'NETWORK' | 'SERVER'; error: unknown; ok: false }
+  | { ok: true; storageId: string }
+
+interface UploadProgress {
+  finalStorageId?: string
+  status: string
+  totalSize: number
+  uploadedChunks: number[]
+}
+
+const DEFAULT_CONCURRENCY = 3,
+  DEFAULT_RETRIES = 3,
+  DEFAULT_RETRY_DELAY = 1000,
+  RESUME_PREFIX = 'lazyconvex:upload:',
+  /**
+   * Computes the base64 SHA-256 of a chunk, the encoding Convex uses for `_storage.sha256`.
+   * @param blob - Chunk bytes
+   * @returns Base64 digest sent to `confirmChunk`
+   */
+  chunkChecksum = async (blob: Blob): Promise<string> => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()))
+    let bin = ''
+    for (const b of digest) bin += String.fromCodePoint(b)
+    return btoa(bin)
+  },
+  resumeKey = (file: File) => `${RESUME_PREFIX}${file.name}:${file.size}:${file.lastModified}`,
+  readResume = (key: string) => (typeof localStorage === 'undefined' ? null : localStorage.getItem(key)),
+  writeResume = (key: string, uploadId: null | string) => {
+    if (typeof localStorage === 'undefined') return
+    if (uploadId) localStorage.setItem(key, uploadId)
+    else localStorage.removeItem(key)
+  },
+  /**
+   * Uploads large files in `CHUNK_SIZE` pieces, several at a time, with a SHA-256 checksum per chunk that the
+   * server checks before assembly. The upload id is kept in localStorage, so picking the same file again after
+   * a reload sends only the chunks `getUploadProgress` does not list yet.
+   * @param refs - The `makeFileUpload` endpoints, e.g. `api.file`
+   * @param options - Concurrency and per-chunk retry settings
+   * @example
+   * ```tsx
+   * const { upload, progress } = useChunkedUpload(api.file)
+   * const res = await upload(file)
+   * if (res.ok) save({ attachment: res.storageId })
+   * ```
+   */
+  useChunkedUpload = (refs: ChunkedUploadRefs, options?: ChunkedUploadOptions) => {
+    const {
+        concurrency = DEFAULT_CONCURRENCY,
+        retries = DEFAULT_RETRIES,
+        retryDelay = DEFAULT_RETRY_DELAY
+      } = options ?? {},
+      convex = useConvex(),
+      start = useMutation(refs.startChunkedUpload),
+      chunkUrl = useMutation(refs.uploadChunk),
+      confirm = useMutation(refs.confirmChunk),
+      cancelUpload = useMutation(refs.cancelChunkedUpload),
+      assemble = useAction(refs.assembleChunks),
+      [progress, setProgress] = useState(0),
+      [uploading, setUploading] = useState(false),
+      abortRef = useRef<AbortController | null>(null),
+      sessionRef = useRef<null | { key: string; uploadId: string }>(null),
+      reset = () => {
+        setUploading(false)
+        setProgress(0)
+      },
+      sendChunk = async (file: File, uploadId: string, chunkIndex: number, signal: AbortSignal) => {
+        const blob = file.slice(chunkIndex * CHUNK_SIZE, (chunkIndex + 1) * CHUNK_SIZE),
+          checksum = await chunkChecksum(blob)
+        for (let attempt = 1; ; attempt += 1)
+          try {
+            const url = (await chunkUrl({ chunkIndex, uploadId })) as string,
+              res = await fetch(url, {
+                body: blob,
+                headers: { 'Content-Type': file.type || 'application/octet-stream' },
+                method: 'POST',
+                signal
+              })
+            if (!res.ok) throw new Error(`HTTP ${res.status}`)
+            const { storageId } = (await res.json()) as { storageId: string }
+            await confirm({ checksum, chunkIndex, storageId, uploadId })
+            return
+          } catch (error) {
+            if (signal.aborted || attempt >= retries) throw error
+            await sleep(retryDelay * attempt)
+          }
+      },
+      resume = async (key: string, size: number) => {
+        const uploadId = readResume(key)
+        if (!uploadId) return null
+        const p = (await convex.query(refs.getUploadProgress, { uploadId }).catch(() => null)) as null | UploadProgress
+        if (p?.status === 'completed' && p.finalStorageId)
+          return { done: new Set<number>(), storageId: p.finalStorageId, uploadId }
+        if (p?.status === 'pending' && p.totalSize === size) return { done: new Set(p.uploadedChunks), uploadId }
+        writeResume(key, null)
+        return null
+      },
+      upload = async (file: File): Promise<ChunkedUploadResult> => {
+        const abort = new AbortController(),
+          key = resumeKey(file),
+          totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE))
+        abortRef.current = abort
+        setUploading(true)
+        setProgress(0)
+        try {
+          const resumed = await resume(key, file.size)
+          if (resumed?.storageId) {
+            writeResume(key, null)
+            setProgress(100)
+            return { ok: true, storageId: resumed.storageId }
+          }
+          const uploadId =
+              resumed?.uploadId ??
+              (
+                (await start({
+                  contentType: file.type || 'application/octet-stream',
+                  fileName: file.name,
+                  totalChunks,
+                  totalSize: file.size
+                })) as { uploadId: string }
+              ).uploadId,
+            done = resumed?.done ?? new Set<number>(),
+            queue = Array.from({ length: totalChunks }, (_, i) => i).filter(i => !done.has(i)),
+            worker = async () => {
+              for (let i = queue.shift(); i !== undefined; i = queue.shift()) {
+                await sendChunk(file, uploadId, i, abort.signal)
+                done.add(i)
+                setProgress(Math.round((done.size / totalChunks) * 100))
+              }
+            }
+          writeResume(key, uploadId)
+          sessionRef.current = { key, uploadId }
+          setProgress(Math.round((done.size / totalChunks) * 100))
+          await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+          const { storageId } = (await assemble({ uploadId })) as { storageId: string }
+          writeResume(key, null)
+          sessionRef.current = null
+          return { ok: true, storageId }
+        } catch (error) {
+          if (abort.signal.aborted) return { code: 'ABORTED', ok: false }
+          return { code: error instanceof ConvexError ? 'SERVER' : 'NETWORK', error, ok: false }
+        } finally {
+          setUploading(false)
+        }
+      },
+      cancel = () => {
+        abortRef.current?.abort()
+        const session = sessionRef.current
+        sessionRef.current = null
+        if (session) {
+          writeResume(session.key, null)
+          cancelUpload({ uploadId: session.uploadId }).catch(() => undefined)
+        }
+        reset()
+      }
+    return { cancel, isUploading: uploading, progress, reset, upload }
+  }
+
+export type { ChunkedUploadOptions, ChunkedUploadRefs, ChunkedUploadResult }
+export { chunkChecksum, useChunkedUpload }
@@ -0,0 +1,178 @@
+'use client'
+
+import type { FunctionReference } from 'convex/server'
+
+import { useMutation, useQuery } from 'convex/react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import type { CollabOp, CollabRead, TextOp } from '../text-op'
+
+import { applyTextOp, composeTextOps, diffText, transformTextOp } from '../text-op'
+import { defaultOnError } from './use-mutate'
+
+/** Convex function references required by useCollabText: the `apply` mutation and `read` query from makeCollab. */
+interface CollabRefs {
+  apply: FunctionReference<'mutation'>
+  read: FunctionReference<'query'>
+}
+/** The field being edited: table, doc id, and `collabText()` field name. */
+interface CollabTarget {
+  field: string
+  id: string
+  table: string
+}
+/**
+ * Client side of the op log: the confirmed revision, the text shown, the op waiting on the server, and edits made
+ * since it was sent.
+ */
+interface CollabState {
+  buffer: null | TextOp
+  outstanding: null | TextOp
+  rev: number
+  text: string
+}
+/** Options for useCollabText: an enabled flag, and a callback for remote ops so the caller can move the selection. */
+interface UseCollabTextOptions {
+  enabled?: boolean
+  onRemoteOp?: (op: TextOp) => void
+}
+/** Return value of useCollabText: the live text, its revision, and a setter for local edits. */
+interface UseCollabTextResult {
+  isReady: boolean
+  rev: number | undefined
+  setText: (next: string) => void
+  text: string
+}
+
+const initCollab = (content: string, rev: number): CollabState => ({
+    buffer: null,
+    outstanding: null,
+    rev,
+    text: content
+  }),
+  /** Records a local edit: the diff from the shown text joins the unsent buffer. */
+  localEdit = (state: CollabState, next: string): CollabState => {
+    const op = diffText(state.text, next)
+    if (op.length === 0) return state
+    return { ...state, buffer: state.buffer ? composeTextOps(state.buffer, op) : op, text: next }
+  },
+  /** Moves the buffer to `outstanding` when nothing is in flight, returning the op to send. */
+  takeOutgoing = (state: CollabState): undefined | { op: TextOp; state: CollabState } =>
+    state.outstanding || !state.buffer
+      ? undefined
+      : { op: state.buffer, state: { ...state, buffer: null, outstanding: state.buffer } },
+  /**
+   * Folds server ops into the client state: our own op acknowledges `outstanding`, others are rebased over the
+   * pending edits and applied to the text.
+   * @returns The new state and the remote ops as applied locally, or `undefined` when ops are missing and the text
+   * must be reloaded
+   */
+  receiveOps = (
+    state: CollabState,
+    ops: CollabOp[],
+    clientId: string
+  ): undefined | { applied: TextOp[]; state: CollabState } => {
+    let next = state
+    const applied: TextOp[] = []
+    for (const row of ops)
+      if (row.rev > next.rev) {
+        if (row.rev !== next.rev + 1) return
+        if (row.clientId === clientId && next.outstanding) next = { ...next, outstanding: null, rev: row.rev }
+        else {
+          let remote = row.op,
+            { buffer, outstanding } = next
+          if (outstanding) {
+            const sent = outstanding
+            outstanding = transformTextOp(sent, remote, 'right')
+            remote = transformTextOp(remote, sent, 'left')
+          }
+          if (buffer) {
+            const unsent = buffer
+            buffer = transformTextOp(unsent, remote, 'right')
+            remote = transformTextOp(remote, unsent, 'left')
+          }
+          next = { buffer, outstanding, rev: row.rev, text: applyTextOp(next.text, remote) }
+          applied.push(remote)
+        }
+      }
+    return { applied, state: next }
+  },
+  makeClientId = () => crypto.randomUUID(),
+  /**
+   * Edits a `collabText()` field together with everyone else who has it open. Local edits show at once and are sent
+   * one batch at a time; remote edits are merged in as they arrive. When the server can't rebase an edit, the text
+   * reloads and unsent edits are dropped. Give the component a `key` per target so switching docs starts fresh.
+   * @param refs Convex function references for apply and read
+   * @param target Table, doc id, and field to edit
+   * @example
+   * ```tsx
+   * const { setText, text } = useCollabText(collabRefs, { field: 'content', id: wikiId, table: 'wiki' })
+   * ```
+   */
+  useCollabText = (refs: CollabRefs, target: CollabTarget, options?: UseCollabTextOptions): UseCollabTextResult => {
+    const enabled = options?.enabled !== false,
+      [clientId] = useState(makeClientId),
+      [state, setState] = useState<CollabState | null>(null),
+      stateRef = useRef(state),
+      onRemoteRef = useRef(options?.onRemoteOp),
+      applyMut = useMutation(refs.apply),
+      { field, id, table } = target,
+      data = useQuery(refs.read, enabled ? { field, id, since: state?.rev, table } : 'skip') as CollabRead | undefined
+
+    useEffect(() => {
+      onRemoteRef.current = options?.onRemoteOp
+    })
+
+    const commit = useCallback(
+      (next: CollabState | null) => {
+        const out = next ? takeOutgoing(next) : undefined,
+          shown = out?.state ?? next
+        stateRef.current = shown
+        setState(shown)
+        if (!out) return
+        const send = async () => {
+          try {
+            await applyMut({ base: out.state.rev, clientId, field, id, op: out.op, table })
+          } catch (error) {
+            defaultOnError(error)
+            stateRef.current = null
+            setState(null)
+          }
+        }
+        // biome-ignore lint/nursery/noFloatingPromises: the ack arrives through `read`; failures reload the text
+        send()
+      },
+      [applyMut, clientId, field, id, table]
+    )
+
+    useEffect(() => {
+      if (!data) return
+      const cur = stateRef.current
+      if (data.content !== undefined) {
+        if (cur?.rev !== data.rev) commit(initCollab(data.content, data.rev))
+        return
+      }
+      if (!cur) return
+      const result = receiveOps(cur, data.ops, clientId)
+      if (!result) {
+        commit(null)
+        return
+      }
+      if (result.state === cur) return
+      for (const op of result.applied) onRemoteRef.current?.(op)
+      commit(result.state)
+    }, [clientId, commit, data])
+
+    const setText = useCallback(
+      (next: string) => {
+        const cur = stateRef.current
+        if (cur) commit(localEdit(cur, next))
+      },
+      [commit]
+    )
+
+    return { isReady: state !== null, rev: state?.rev, setText, text: state?.text ?? '' }
+  }
+
+export type { CollabRefs, CollabState, CollabTarget, UseCollabTextOptions, UseCollabTextResult }
+export { initCollab, localEdit, receiveOps, takeOutgoing, useCollabText }
@@ -10,7 +10,7 @@ import { useEffect, useMemo, useRef } from 'react'
 import type { PendingMutation } from './optimistic-store'
 
 import { trackSubscription, untrackSubscription, updateSubscription, updateSubscriptionData } from './devtools'
-import { usePendingMutations } from './optimistic-store'
+import { forTable, functionNameOf, tableOf, usePendingMutations } from './optimistic-store'
 
 type ListItems<F extends PaginatedQueryReference> = FunctionReturnType<F>['page']
 
@@ -34,7 +34,7 @@ const classifyPending = (pending: PendingMutation[]) => {
       else if (p.type === 'update') {
         const prev = updates.get(p.id)
         updates.set(p.id, prev ? { ...prev, ...p.args } : p.args)
-      } else
+      } else if (p.type === 'create')
         creates.push({
           ...p.args,
           __optimistic: true,
@@ -47,10 +47,7 @@ const classifyPending = (pending: PendingMutation[]) => {
   },
   isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production',
   DEFAULT_PAGE_SIZE = 50,
-  /** Applies pending optimistic creates, updates, and deletes to a list of items. */
-  applyOptimistic = <T extends Rec>(items: T[], pending: PendingMutation[]): T[] => {
-    if (pending.length === 0) return items
-    const { creates, deleteIds, updates } = classifyPending(pending)
+  overlay = <T extends Rec>(items: T[], { deleteIds, updates }: ReturnType<typeof classifyPending>): T[] => {
     let result = items
     if (deleteIds.size > 0) result = result.filter(i => !deleteIds.has((i as Rec)._id as string))
     if (updates.size > 0)
@@ -58,9 +55,18 @@ const classifyPending = (pending: PendingMutation[]) => {
         const patch = updates.get((i as Rec)._id as string)
         return patch ? ({ ...i, ...patch, _id: (i as Rec)._id } as T) : i
       })
-    if (creates.length > 0) result = [...(creates.toReversed() as T[]), ...result]
     return result
   },
+  /** Applies pending optimistic creates, updates, and deletes to a list of items and to the pending creates. */
+  applyOptimistic = <T extends Rec>(items: T[], pending: PendingMutation[]): T[] => {
+    if (pending.length === 0) return items
+    const classified = classifyPending(pending),
+      { creates } = classified
+    return overlay(creates.length > 0 ? [...(creates.toReversed() as T[]), ...items] : items, classified)
+  },
+  /** Applies pending optimistic updates and deletes to items the server already returned, without adding creates. */
+  overlayOptimistic = <T extends Rec>(items: T[], pending: PendingMutation[]): T[] =>
+    pending.length === 0 ? items : overlay(items, classifyPending(pending)),
   /**
    * Paginated list hook with optimistic update support and devtools integration.
    * @param query A paginated Convex query reference
@@ -75,13 +81,13 @@ const classifyPending = (pending: PendingMutation[]) => {
       isOptimistic = rest[1]?.optimistic !== false,
       { loadMore, results, status } = usePaginatedQuery(query, queryArgs, { initialNumItems: pageSize }),
       pending = usePendingMutations(),
+      table = tableOf(query),
       subIdRef = useRef<number>(0)
 
     // biome-ignore lint/correctness/useExhaustiveDependencies: subscribe lifecycle is intentionally one-time
     useEffect(() => {
       if (!isDev) return
-      const queryName = typeof query === 'string' ? query : ((query as { _name?: string })._name ?? 'unknown')
-      subIdRef.current = trackSubscription(queryName, queryArgs as Record<string, unknown>)
+      subIdRef.current = trackSubscription(functionNameOf(query), queryArgs as Record<string, unknown>)
       const id = subIdRef.current
       return () => untrackSubscription(id)
       // oxlint-disable-next-line react-hooks/exhaustive-deps
@@ -106,8 +112,8 @@ const classifyPending = (pending: PendingMutation[]) => {
     }, [results])
 
     const items = useMemo(
-      () => (isOptimistic ? applyOptimistic(results as Rec[], pending) : results),
-      [isOptimistic, pending, results]
+      () => (isOptimistic ? applyOptimistic(results as Rec[], forTable(pending, table)) : results),
+      [isOptimistic, pending, results, table]
     )
 
     return {
@@ -128,4 +134,4 @@ const classifyPending = (pending: PendingMutation[]) => {
     }, [rows, isOwn])
 
 export type { UseListOptions }
-export { applyOptimistic, DEFAULT_PAGE_SIZE, useList, useOwnRows }
+export { applyOptimistic, DEFAULT_PAGE_SIZE, overlayOptimistic, useList, useOwnRows }
@@ -2,29 +2,40 @@
 'use client'
 
 import type { FunctionReference, FunctionReturnType, OptionalRestArgs } from 'convex/server'
+import type { GenericId } from 'convex/values'
 
 import { useMutation } from 'convex/react'
 import { useCallback } from 'react'
 import { toast } from 'sonner'
 
-import type { MutationType } from './optimistic-store'
+import type { MutationType, TempId } from './optimistic-store'
 
 import { extractErrorData, getErrorMessage, handleConvexError } from '../server/helpers'
 import { completeMutation, pushError, trackMutation } from './devtools'
-import { makeTempId, useOptimisticStore } from './optimistic-store'
+import { isOffline, useOfflineStore } from './offline-queue'
+import { functionNameOf, makeTempId, useMutationMeta, useOptimisticStore } from './optimistic-store'
 
-/** Options for useMutate: whether to use optimistic updates, the mutation type, and error handling. */
+/**
+ * Options for useMutate: whether to use optimistic updates, error handling, and the kind, table, and id arg of
+ * custom endpoints missing from the mutation manifest.
+ */
 interface MutateOptions {
+  idArg?: string
   onError?: ((error: unknown) => void) | false
   optimistic?: boolean
+  table?: string
   type?: MutationType
 }
 
 type MutationRef = FunctionReference<'mutation'>
 
+/**
+ * What a `useMutate` call resolves to. Under `<OptimisticProvider offline>` a queued call resolves before it runs:
+ * a create to its `TempId`, anything else to `null`.
+ */
+type MutateResult<R> = R extends GenericId<string> ? R | TempId : null | R
+
 const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production',
-  getMutationName = (ref: MutationRef): string =>
-    typeof ref === 'string' ? ref : ((ref as { _name?: string })._name ?? 'unknown'),
   defaultOnError = (error: unknown) => {
     handleConvexError(error, {
       default: () => {
@@ -43,44 +54,78 @@ const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'produc
       }
     })
   },
-  detectMutationType = (ref: MutationRef): MutationType => {
-    const name = getMutationName(ref)
-    if (name.endsWith(':rm') || name.endsWith('.rm') || name.includes('delete') || name.includes('remove')) return 'delete'
-    if (name.endsWith(':update') || name.endsWith('.update') || name.includes('patch')) return 'update'
-    return 'create'
-  },
   /**
    * Wraps a Convex mutation with optimistic store tracking, devtools integration, and default error toasting.
    *
    * By default, errors are shown as toast notifications with smart routing for auth and rate-limit errors.
    * Pass `onError: false` to disable, or `onError: (e) => {...}` for custom handling.
    *
+   * The optimistic entry's kind, table, and id come from the manifest passed to `<OptimisticProvider meta>`, or from
+   * `type`/`table`/`idArg`. Mutations with neither are `other` and leave lists alone.
+   *
+   * Under `<OptimisticProvider offline>`, calls made offline — or while earlier ones are still queued — go to the
+   * offline queue and resolve right away: a create resolves to its temp id, others to `null`, as `MutateResult`
+   * types it. Temp ids in the args are swapped for real ids once their create has replayed. A queued call that
+   * fails on replay goes to the same error handler as a direct one.
+   *
    * @example
    * ```tsx
    * const update = useMutate(api.blog.update)
    * const remove = useMutate(api.blog.rm, { onError: false })
+   * const archive = useMutate(api.blog.archive, { idArg: 'blogId', type: 'delete' })
    * ```
    */
   useMutate = <T extends MutationRef>(
     ref: T,
     options?: MutateOptions
-  ): ((args: OptionalRestArgs<T>[0]) => Promise<FunctionReturnType<T>>) => {
+  ): ((args: OptionalRestArgs<T>[0]) => Promise<MutateResult<FunctionReturnType<T>>>) => {
     const mutate = useMutation(ref),
       store = useOptimisticStore(),
-      isOptimistic = options?.optimistic !== false,
+      queue = useOfflineStore(),
+      {
+        idArg,
+        kind: type,
+        table
+      } = useMutationMeta(ref, {
+        idArg: options?.idArg,
+        kind: options?.type,
+        table: options?.table
+      }),
+      isOptimistic = options?.optimistic !== false && type !== 'other',
       errorHandler = options?.onError === false ? undefined : (options?.onError ?? defaultOnError)
 
     return useCallback(
-      async (args: OptionalRestArgs<T>[0]): Promise<FunctionReturnType<T>> => {
-        const type = options?.type ?? detectMutationType(ref),
-          name = getMutationName(ref),
+      async (input: OptionalRestArgs<T>[0]): Promise<MutateResult<FunctionReturnType<T>>> => {
+        const args = queue ? queue.resolveIds(input) : input,
+          id = (args as Record<string, unknown>)[idArg] as string | undefined
+
+        if (queue && (isOffline() || queue.getQueue().some(q => q.status === 'queued'))) {
+          const tempId = makeTempId()
+          queue.enqueue(
+            {
+              args: args as Record<string, unknown>,
+              id: id ?? tempId,
+              name: functionNameOf(ref),
+              table,
+              tempId,
+              timestamp: Date.now(),
+              type
+            },
+            errorHandler
+          )
+          // biome-ignore lint/nursery/noFloatingPromises: replay errors are stored on the queued entries
+          if (!isOffline()) queue.replay()
+          return (type === 'create' ? tempId : null) as MutateResult<FunctionReturnType<T>>
+        }
+
+        const name = functionNameOf(ref),
           devId = isDev ? trackMutation(name, args as Record<string, unknown>) : 0
 
         if (!(store && isOptimistic))
           try {
             const result = await (mutate as (a: OptionalRestArgs<T>[0]) => Promise<FunctionReturnType<T>>)(args)
             if (isDev && devId) completeMutation(devId, 'success')
-            return result
+            return result as MutateResult<FunctionReturnType<T>>
           } catch (error) {
             if (isDev) {
               if (devId) completeMutation(devId, 'error')
@@ -90,11 +135,11 @@ const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'produc
             throw error
           }
 
-        const tempId = makeTempId(),
-          id = (args as Record<string, unknown>).id as string | undefined
+        const tempId = makeTempId()
         store.add({
           args: args as Record<string, unknown>,
           id: id ?? tempId,
+          table,
           tempId,
           timestamp: Date.now(),
           type
@@ -103,7 +148,7 @@ const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'produc
         try {
           const result = await (mutate as (a: OptionalRestArgs<T>[0]) => Promise<FunctionReturnType<T>>)(args)
           if (isDev && devId) completeMutation(devId, 'success')
-          return result
+          return result as MutateResult<FunctionReturnType<T>>
         } catch (error) {
           if (isDev) {
             if (devId) completeMutation(devId, 'error')
@@ -115,9 +160,9 @@ const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'produc
           store.remove(tempId)
         }
       },
-      [errorHandler, isOptimistic, mutate, options?.type, ref, store]
+      [errorHandler, idArg, isOptimistic, mutate, queue, ref, store, table, type]
     )
   }
 
-export type { MutateOptions }
+export type { MutateOptions, MutateResult }
 export { defaultOnError, useMutate }
@@ -5,24 +5,44 @@ import type { FunctionReference, FunctionReturnType, OptionalRestArgs } from 'co
 import { useMutation } from 'convex/react'
 import { useCallback, useRef, useState } from 'react'
 
+import type { MutationType } from './optimistic-store'
+
+import { makeTempId, useMutationMeta, useOptimisticStore } from './optimistic-store'
+
 type Args<T extends MutationFn> = OptionalRestArgs<T>[0]
 type MutationFn = FunctionReference<'mutation'>
 
 interface OptimisticOptions<T extends MutationFn, R = FunctionReturnType<T>> {
+  idArg?: string
   mutation: T
   onOptimistic?: (args: Args<T>) => void
   onRollback?: (args: Args<T>, catchError: Error) => void
   onSuccess?: (result: R, args: Args<T>) => void
+  table?: string
+  type?: MutationType
 }
 
-/** Wraps a Convex mutation with optimistic callback, automatic rollback on error, and pending state. */
+/**
+ * Wraps a Convex mutation with optimistic callback, automatic rollback on error, and pending state.
+ * Mutations the manifest (or `type`/`table`/`idArg`) describes as a create, update, or delete are also
+ * shown in `useList` and `useRead` until the server answers.
+ */
 const useOptimisticMutation = <T extends MutationFn>({
+  idArg: declaredIdArg,
   mutation,
   onOptimistic,
   onRollback,
-  onSuccess
+  onSuccess,
+  table: declaredTable,
+  type: declaredType
 }: OptimisticOptions<T>) => {
   const mutate = useMutation(mutation),
+    store = useOptimisticStore(),
+    { idArg, kind, table } = useMutationMeta(mutation, {
+      idArg: declaredIdArg,
+      kind: declaredType,
+      table: declaredTable
+    }),
     [isPending, setIsPending] = useState(false),
     [mutationError, setMutationError] = useState<Error | null>(null),
     pendingCountRef = useRef(0),
@@ -32,6 +52,17 @@ const useOptimisticMutation = <T extends MutationFn>({
         setIsPending(true)
         setMutationError(null)
         onOptimistic?.(args)
+        const tempId = makeTempId(),
+          tracked = store && kind !== 'other'
+        if (tracked)
+          store.add({
+            args: (args ?? {}) as Record<string, unknown>,
+            id: ((args as Record<string, unknown> | undefined)?.[idArg] as string | undefined) ?? tempId,
+            table,
+            tempId,
+            timestamp: Date.now(),
+            type: kind
+          })
         try {
           const result = await (mutate as (a: Args<T>) => Promise<FunctionReturnType<T>>)(args)
           onSuccess?.(result, args)
@@ -42,11 +73,12 @@ const useOptimisticMutation = <T extends MutationFn>({
           onRollback?.(args, err)
           return null
         } finally {
+          if (tracked) store.remove(tempId)
           pendingCountRef.current -= 1
           if (pendingCountRef.current === 0) setIsPending(false)
         }
       },
-      [mutate, onOptimistic, onRollback, onSuccess]
+      [idArg, kind, mutate, onOptimistic, onRollback, onSuccess, store, table]
     )
   return { error: mutationError, execute, isPending }
 }
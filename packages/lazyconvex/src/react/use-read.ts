@@ -0,0 +1,62 @@
+'use client'
+
+import type { FunctionReference, FunctionReturnType, OptionalRestArgs } from 'convex/server'
+
+import { useQuery } from 'convex/react'
+import { useMemo } from 'react'
+
+import type { PendingMutation } from './optimistic-store'
+
+import { forTable, tableOf, usePendingMutations } from './optimistic-store'
+import { overlayOptimistic } from './use-list'
+
+/** A single doc with pending optimistic changes applied, and whether any are still waiting on the server. */
+interface ReadResult<T> {
+  data: null | T | undefined
+  isPending: boolean
+}
+
+type Rec = Record<string, unknown>
+
+/**
+ * Applies pending updates for a doc's `_id` and returns `null` when a delete is pending. `undefined` (loading) and
+ * `null` (not found) pass through untouched.
+ * @param doc - The doc as the server last returned it
+ * @param pending - Pending mutations, already narrowed to the doc's table
+ */
+const applyOptimisticDoc = <T extends Rec>(doc: null | T | undefined, pending: PendingMutation[]): ReadResult<T> => {
+    if (!doc) return { data: doc, isPending: false }
+    const mine = pending.filter(p => p.id === doc._id && p.type !== 'other')
+    if (mine.length === 0) return { data: doc, isPending: false }
+    return { data: overlayOptimistic([doc], mine)[0] ?? null, isPending: true }
+  },
+  /**
+   * Overlays pending optimistic mutations on a doc read some other way, e.g. from `usePreloadedQuery`.
+   * @param doc - The server doc
+   * @param table - Table the doc belongs to, so pending entries for other tables never match
+   */
+  useOptimisticDoc = <T extends Rec>(doc: null | T | undefined, table: string | undefined): ReadResult<T> => {
+    const pending = usePendingMutations()
+    return useMemo(() => applyOptimisticDoc(doc, forTable(pending, table)), [doc, pending, table])
+  },
+  /**
+   * Reads a single doc and reflects pending `update`/`rm` calls made through `useMutate` before the server confirms.
+   * @param query - A read query such as `api.blog.read`
+   * @param args - Query args, or `'skip'`
+   * @example
+   * ```tsx
+   * const { data: post, isPending } = useRead(api.blog.read, { id })
+   * ```
+   */
+  useRead = <F extends FunctionReference<'query'>>(
+    query: F,
+    args: 'skip' | OptionalRestArgs<F>[0]
+  ): ReadResult<NonNullable<FunctionReturnType<F>>> => {
+    const doc = useQuery(query, args as OptionalRestArgs<F>[0]) as FunctionReturnType<F> | undefined
+    return useOptimisticDoc(doc as null | Rec | undefined, tableOf(query)) as ReadResult<
+      NonNullable<FunctionReturnType<F>>
+    >
+  }
+
+export type { ReadResult }
+export { applyOptimisticDoc, useOptimisticDoc, useRead }
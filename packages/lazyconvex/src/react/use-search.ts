@@ -3,7 +3,10 @@
 import type { FunctionReference, FunctionReturnType, OptionalRestArgs } from 'convex/server'
 
 import { useQuery } from 'convex/react'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { forTable, tableOf, usePendingMutations } from './optimistic-store'
+import { overlayOptimistic } from './use-list'
 
 type SearchFn = FunctionReference<'query'>
 
@@ -21,7 +24,10 @@ interface UseSearchResult<T> {
 
 const DEFAULT_DEBOUNCE_MS = 300,
   DEFAULT_MIN_LENGTH = 1,
-  /** Debounced search hook that queries a Convex search endpoint with configurable delay and minimum length. */
+  /**
+   * Debounced search hook that queries a Convex search endpoint with configurable delay and minimum length.
+   * Results reflect pending optimistic updates and deletes for the endpoint's table.
+   */
   useSearch = <F extends SearchFn>(
     searchRef: F,
     argsBuilder: (query: string) => OptionalRestArgs<F>[0],
@@ -50,7 +56,16 @@ const DEFAULT_DEBOUNCE_MS = 300,
 
     const shouldSearch = debouncedQuery.length >= minLength,
       args = shouldSearch ? argsBuilder(debouncedQuery) : 'skip',
-      results = useQuery(searchRef, args as OptionalRestArgs<F>[0]),
+      raw = useQuery(searchRef, args as OptionalRestArgs<F>[0]),
+      pending = usePendingMutations(),
+      table = tableOf(searchRef),
+      results = useMemo(
+        () =>
+          Array.isArray(raw)
+            ? (overlayOptimistic(raw as Record<string, unknown>[], forTable(pending, table)) as FunctionReturnType<F>)
+            : raw,
+        [pending, raw, table]
+      ),
       isSearching = query !== debouncedQuery || (shouldSearch && results === undefined)
 
     return {
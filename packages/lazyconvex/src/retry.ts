@@ -46,4 +46,5 @@ const DEFAULT_OPTIONS: Required<RetryOptions> = {
     }, retry)
   }
 
+export type { RetryOptions }
 export { fetchWithRetry, withRetry }
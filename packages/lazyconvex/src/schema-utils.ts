@@ -38,8 +38,10 @@ const wrapperFactories = ['makeOwned', 'makeOrgScoped', 'makeSingleton', 'makeBa
   CRUD_PUB = ['pub.list', 'pub.read'],
   ORG_CRUD_BASE = ['list', 'read', 'create', 'update', 'rm', 'bulkCreate', 'bulkRm', 'bulkUpdate'],
   ORG_ACL = ['addEditor', 'removeEditor', 'setEditors', 'editors'],
+  ORG_VERSIONED = ['versions', 'readVersion', 'revert'],
   CHILD_BASE = ['list', 'create', 'update', 'rm', 'bulkCreate', 'bulkRm', 'bulkUpdate'],
   CACHE_BASE = ['get', 'all', 'list', 'create', 'update', 'rm', 'invalidate', 'purge', 'load', 'refresh'],
+  CACHE_WRITES = ['create', 'update', 'rm', 'invalidate', 'purge'],
   SINGLETON_BASE = ['get', 'upsert'],
   hasOption = (opts: string, key: string): boolean => opts.includes(key),
   parseObjectFields = (content: string, startPos: number): SchemaField[] => {
@@ -127,6 +129,7 @@ const wrapperFactories = ['makeOwned', 'makeOrgScoped', 'makeSingleton', 'makeBa
       const eps = [...ORG_CRUD_BASE]
       if (hasOption(opts, 'acl')) eps.push(...ORG_ACL)
       if (hasOption(opts, 'softDelete')) eps.push('restore')
+      if (hasOption(opts, 'versioned')) eps.push(...ORG_VERSIONED)
       if (hasOption(opts, 'search')) eps.push('search')
       return eps
     }
@@ -138,6 +141,7 @@ const wrapperFactories = ['makeOwned', 'makeOrgScoped', 'makeSingleton', 'makeBa
 
 export {
   CACHE_BASE,
+  CACHE_WRITES,
   CHILD_BASE,
   CRUD_BASE,
   CRUD_PUB,
@@ -146,6 +150,7 @@ export {
   hasOption,
   ORG_ACL,
   ORG_CRUD_BASE,
+  ORG_VERSIONED,
   parseObjectFields,
   SINGLETON_BASE,
   wrapperFactories
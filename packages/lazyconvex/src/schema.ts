@@ -3,14 +3,29 @@ import type { ZodObject, ZodRawShape } from 'zod/v4'
 import { zid } from 'convex-helpers/server/zod4'
 import { array, object, string } from 'zod/v4'
 
+import type { FileOptions, FileRules } from './file-type'
 import type { BaseSchema, OrgSchema, OwnedSchema, SchemaBrand, SingletonSchema } from './server/types'
 
 import { typed } from './server/bridge'
+import { defineOrgRoles } from './server/org-roles'
 
-/** Zod schema for a Convex storage file reference. */
-const cvFile = () => zid('_storage').meta({ cv: 'file' as const }),
-  /** Zod schema for an array of Convex storage file references. */
-  cvFiles = () => array(cvFile()).meta({ cv: 'files' as const }),
+/** Default cap on a `collabText()` field, in characters; `makeCollab` rejects ops that would grow the text past it. */
+const COLLAB_MAX_LENGTH = 100_000,
+  /**
+   * Zod schema for long-form text edited collaboratively: `makeCollab` merges concurrent edits to it and
+   * `fields.CollabText` edits it live. It stays a plain string in the table, at most `maxLength` characters.
+   */
+  collabText = (maxLength = COLLAB_MAX_LENGTH) =>
+    string()
+      .max(maxLength)
+      .meta({ cv: 'collab' as const }),
+  /**
+   * Zod schema for a Convex storage file reference, optionally limited to `accept` types and `maxSize` bytes,
+   * with image `variants` generated after upload.
+   */
+  cvFile = (options?: FileOptions) => zid('_storage').meta({ ...options, cv: 'file' as const }),
+  /** Zod schema for an array of Convex storage file references; `rules` apply to every file. */
+  cvFiles = (rules?: FileRules) => array(cvFile(rules)).meta({ ...rules, cv: 'files' as const }),
   /** Defines a child table with a foreign key relationship to a parent table. */
   child = <
     const P extends string,
@@ -66,4 +81,17 @@ const cvFile = () => zid('_storage').meta({ cv: 'file' as const }),
       [K in keyof T]: SingletonSchema<T[K] extends ZodObject<infer S> ? S : ZodRawShape> & T[K]
     }
 
-export { child, cvFile, cvFiles, makeBase, makeOrgScoped, makeOwned, makeSingleton, orgSchema }
+export type { FileOptions, FileRules }
+export {
+  child,
+  COLLAB_MAX_LENGTH,
+  collabText,
+  cvFile,
+  cvFiles,
+  defineOrgRoles,
+  makeBase,
+  makeOrgScoped,
+  makeOwned,
+  makeSingleton,
+  orgSchema
+}
@@ -0,0 +1,224 @@
+import { err } from './helpers'
+
+interface ArchiveEntry {
+  data: Uint8Array
+  name: string
+}
+
+const LOCAL_SIG = 0x04_03_4b_50,
+  CENTRAL_SIG = 0x02_01_4b_50,
+  END_SIG = 0x06_05_4b_50,
+  LOCAL_HEADER = 30,
+  CENTRAL_HEADER = 46,
+  END_RECORD = 22,
+  UTF8_FLAG = 0x08_00,
+  DESCRIPTOR_FLAG = 0x00_08,
+  ZIP_VERSION = 20,
+  CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xed_b8_83_20 ^ (c >>> 1) : c >>> 1
+    return c >>> 0
+  }),
+  /**
+   * Computes the CRC-32 that zip stores for each entry.
+   * @param bytes - Entry contents
+   * @returns Unsigned 32-bit checksum
+   */
+  crc32 = (bytes: Uint8Array) => {
+    let c = 0xff_ff_ff_ff
+    for (const b of bytes) c = (CRC_TABLE[(c ^ b) & 0xff] ?? 0) ^ (c >>> 8)
+    return (c ^ 0xff_ff_ff_ff) >>> 0
+  },
+  /**
+   * Encodes one entry as a local file header followed by its contents.
+   * @param entry - File name and contents
+   * @returns The local record, and what the central directory needs to point at it
+   */
+  localRecord = (entry: ArchiveEntry) => {
+    const name = new TextEncoder().encode(entry.name),
+      crc = crc32(entry.data),
+      out = new Uint8Array(LOCAL_HEADER + name.length + entry.data.length),
+      view = new DataView(out.buffer)
+    view.setUint32(0, LOCAL_SIG, true)
+    view.setUint16(4, ZIP_VERSION, true)
+    view.setUint16(6, UTF8_FLAG, true)
+    view.setUint32(14, crc, true)
+    view.setUint32(18, entry.data.length, true)
+    view.setUint32(22, entry.data.length, true)
+    view.setUint16(26, name.length, true)
+    out.set(name, LOCAL_HEADER)
+    out.set(entry.data, LOCAL_HEADER + name.length)
+    return { bytes: out, file: { crc, name, size: entry.data.length } }
+  },
+  /**
+   * Encodes the central directory and end record that close a zip.
+   * @param files - Every entry's checksum, encoded name, size, and local record offset, in archive order
+   * @param localSize - Total bytes of the local records before the directory
+   * @returns The closing bytes
+   */
+  centralDirectory = (files: { crc: number; name: Uint8Array; offset: number; size: number }[], localSize: number) => {
+    const centralSize = files.reduce((n, f) => n + CENTRAL_HEADER + f.name.length, 0),
+      out = new Uint8Array(centralSize + END_RECORD),
+      view = new DataView(out.buffer)
+    let at = 0
+    for (const f of files) {
+      view.setUint32(at, CENTRAL_SIG, true)
+      view.setUint16(at + 4, ZIP_VERSION, true)
+      view.setUint16(at + 6, ZIP_VERSION, true)
+      view.setUint16(at + 8, UTF8_FLAG, true)
+      view.setUint32(at + 16, f.crc, true)
+      view.setUint32(at + 20, f.size, true)
+      view.setUint32(at + 24, f.size, true)
+      view.setUint16(at + 28, f.name.length, true)
+      view.setUint32(at + 42, f.offset, true)
+      out.set(f.name, at + CENTRAL_HEADER)
+      at += CENTRAL_HEADER + f.name.length
+    }
+    view.setUint32(at, END_SIG, true)
+    view.setUint16(at + 8, files.length, true)
+    view.setUint16(at + 10, files.length, true)
+    view.setUint32(at + 12, centralSize, true)
+    view.setUint32(at + 16, localSize, true)
+    return out
+  },
+  /**
+   * Packs entries into an uncompressed zip, so exports open with any archive tool and need no compression library.
+   * @param entries - File names and contents, in archive order
+   * @returns The zip bytes
+   */
+  zipArchive = (entries: ArchiveEntry[]): Uint8Array<ArrayBuffer> => {
+    const records = entries.map(localRecord),
+      files: { crc: number; name: Uint8Array; offset: number; size: number }[] = []
+    let at = 0
+    for (const r of records) {
+      files.push({ ...r.file, offset: at })
+      at += r.bytes.length
+    }
+    const tail = centralDirectory(files, at),
+      out = new Uint8Array(at + tail.length)
+    at = 0
+    for (const r of records) {
+      out.set(r.bytes, at)
+      at += r.bytes.length
+    }
+    out.set(tail, at)
+    return out
+  },
+  /**
+   * Streams the same zip as `zipArchive`, asking for the next entry only when the reader wants more bytes, so
+   * only one entry is held at a time.
+   * @param next - Returns the next entry, or null when there are no more
+   * @returns Stream of the zip bytes
+   */
+  zipStream = (next: () => Promise<ArchiveEntry | null>) => {
+    const files: { crc: number; name: Uint8Array; offset: number; size: number }[] = []
+    let at = 0
+    return new ReadableStream<Uint8Array>({
+      pull: async ctl => {
+        const entry = await next()
+        if (!entry) {
+          ctl.enqueue(centralDirectory(files, at))
+          ctl.close()
+          return
+        }
+        const r = localRecord(entry)
+        files.push({ ...r.file, offset: at })
+        at += r.bytes.length
+        ctl.enqueue(r.bytes)
+      }
+    })
+  },
+  /**
+   * Reads an uncompressed zip written by `zipArchive`, checking every entry's CRC-32.
+   * @param bytes - The zip bytes
+   * @returns Entries keyed by name, or null when the bytes are not such a zip or an entry is corrupt
+   */
+  readArchive = (bytes: Uint8Array): Map<string, Uint8Array> | null => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+      dec = new TextDecoder()
+    let end = bytes.length - END_RECORD
+    while (end >= 0 && view.getUint32(end, true) !== END_SIG) end -= 1
+    if (end < 0) return null
+    const count = view.getUint16(end + 10, true),
+      entries = new Map<string, Uint8Array>()
+    let at = view.getUint32(end + 16, true)
+    for (let i = 0; i < count; i += 1) {
+      if (at + CENTRAL_HEADER > end || view.getUint32(at, true) !== CENTRAL_SIG) return null
+      const method = view.getUint16(at + 10, true),
+        crc = view.getUint32(at + 16, true),
+        size = view.getUint32(at + 20, true),
+        nameLen = view.getUint16(at + 28, true),
+        skip = nameLen + view.getUint16(at + 30, true) + view.getUint16(at + 32, true),
+        local = view.getUint32(at + 42, true),
+        name = dec.decode(bytes.subarray(at + CENTRAL_HEADER, at + CENTRAL_HEADER + nameLen))
+      if (method !== 0 || local + LOCAL_HEADER > end || view.getUint32(local, true) !== LOCAL_SIG) return null
+      const start = local + LOCAL_HEADER + view.getUint16(local + 26, true) + view.getUint16(local + 28, true),
+        data = bytes.subarray(start, start + size)
+      if (data.length !== size || crc32(data) !== crc) return null
+      entries.set(name, data)
+      at += CENTRAL_HEADER + skip
+    }
+    return entries
+  },
+  /**
+   * Reads a zip written by `zipStream` entry by entry from its local records, pulling bytes from the stream only as
+   * the next entry needs them, so only one entry is held at a time. Every entry's CRC-32 is checked.
+   * @param stream - The zip bytes
+   * @returns Function that resolves to the next entry, or null once the central directory is reached
+   * @throws INVALID_ARCHIVE when the bytes are not such a zip or an entry is corrupt
+   */
+  unzipStream = (stream: ReadableStream<Uint8Array>) => {
+    const reader = stream.getReader(),
+      dec = new TextDecoder()
+    let buf: Uint8Array = new Uint8Array(0),
+      ended = false
+    const fill = async (n: number) => {
+        const parts = [buf]
+        let have = buf.length
+        while (have < n && !ended) {
+          const r = await reader.read()
+          if (r.done) ended = true
+          else {
+            parts.push(r.value)
+            have += r.value.length
+          }
+        }
+        if (parts.length > 1) {
+          buf = new Uint8Array(have)
+          let at = 0
+          for (const p of parts) {
+            buf.set(p, at)
+            at += p.length
+          }
+        }
+        return have >= n
+      },
+      take = (n: number) => {
+        const out = buf.subarray(0, n)
+        buf = buf.subarray(n)
+        return out
+      }
+    return async (): Promise<ArchiveEntry | null> => {
+      if (!(await fill(4))) return err('INVALID_ARCHIVE')
+      const sig = new DataView(buf.buffer, buf.byteOffset, 4).getUint32(0, true)
+      if (sig === CENTRAL_SIG || sig === END_SIG) {
+        await reader.cancel()
+        return null
+      }
+      if (sig !== LOCAL_SIG || !(await fill(LOCAL_HEADER))) return err('INVALID_ARCHIVE')
+      const view = new DataView(buf.buffer, buf.byteOffset, LOCAL_HEADER),
+        crc = view.getUint32(14, true),
+        size = view.getUint32(18, true),
+        nameLen = view.getUint16(26, true),
+        skip = nameLen + view.getUint16(28, true)
+      if (view.getUint16(6, true) & DESCRIPTOR_FLAG || view.getUint16(8, true) !== 0) return err('INVALID_ARCHIVE')
+      if (!(await fill(LOCAL_HEADER + skip + size))) return err('INVALID_ARCHIVE')
+      const head = take(LOCAL_HEADER + skip),
+        data = take(size)
+      if (crc32(data) !== crc) return err('INVALID_ARCHIVE')
+      return { data, name: dec.decode(head.subarray(LOCAL_HEADER, LOCAL_HEADER + nameLen)) }
+    }
+  }
+
+export type { ArchiveEntry }
+export { crc32, readArchive, unzipStream, zipArchive, zipStream }
@@ -0,0 +1,208 @@
+import { defineTable } from 'convex/server'
+import { v } from 'convex/values'
+import { zid } from 'convex-helpers/server/zod4'
+import { object, string } from 'zod/v4'
+
+import type {
+  AuditChange,
+  AuditOp,
+  AuditTable,
+  DbLike,
+  Middleware,
+  MiddlewareCtx,
+  OrgRoles,
+  Qb,
+  Rec,
+  UserCtx
+} from './types'
+
+import { idx, indexFields, typed } from './bridge'
+import { stripFields } from './field-access'
+import { err, pgOpts } from './helpers'
+import { requireOrgRole } from './org-crud'
+
+/** Fields never recorded in audit diffs because they change on every write. */
+const AUDIT_IGNORED_FIELDS = new Set(['_creationTime', '_id', 'updatedAt']),
+  /**
+   * Returns a Convex table definition for the audit trail with doc, org, and table indexes.
+   * @returns Object with an `audit` table definition
+   */
+  auditTables = () => ({
+    audit: defineTable({
+      actorId: v.optional(v.string()),
+      at: v.optional(v.number()),
+      changes: v.optional(
+        v.array(
+          v.object({
+            field: v.string(),
+            from: v.optional(v.any()),
+            to: v.optional(v.any())
+          })
+        )
+      ),
+      docId: v.string(),
+      op: v.union(v.literal('create'), v.literal('update'), v.literal('delete')),
+      orgId: v.optional(v.id('org')),
+      table: v.string()
+    })
+      .index('by_doc', indexFields('docId'))
+      .index('by_org', indexFields('orgId'))
+      .index('by_table', indexFields('table'))
+  }),
+  sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b),
+  /**
+   * Computes a field-level diff between the previous document and an applied patch.
+   * @param prev - Document before the update
+   * @param patch - Fields written by the update
+   * @returns One entry per changed field with its before and after values
+   */
+  diffFields = (prev: Rec, patch: Rec): AuditChange[] => {
+    const changes: AuditChange[] = []
+    for (const field of Object.keys(patch).toSorted())
+      if (!(AUDIT_IGNORED_FIELDS.has(field) || sameValue(prev[field], patch[field])))
+        changes.push({ field, from: prev[field], to: patch[field] })
+    return changes
+  },
+  snapshotFields = (doc: Rec, key: 'from' | 'to'): AuditChange[] => {
+    const changes: AuditChange[] = []
+    for (const field of Object.keys(doc).toSorted())
+      if (!AUDIT_IGNORED_FIELDS.has(field) && doc[field] !== undefined) changes.push({ field, [key]: doc[field] })
+    return changes
+  },
+  record = async (
+    ctx: MiddlewareCtx,
+    entry: { at?: unknown; changes?: AuditChange[]; docId: string; op: AuditOp; orgId?: unknown }
+  ) => {
+    const row: Rec = { docId: entry.docId, op: entry.op, table: ctx.table }
+    if (ctx.userId) row.actorId = ctx.userId
+    if (typeof entry.at === 'number') row.at = entry.at
+    if (typeof entry.orgId === 'string') row.orgId = entry.orgId
+    if (entry.changes) row.changes = entry.changes
+    await ctx.db.insert('audit', row)
+  },
+  /**
+   * Middleware that persists every create, update, and delete into the `audit` table with a per-field diff.
+   * Creates and updates also record the doc's new `updatedAt` as `at`, so a stale save can tell which fields changed
+   * since. Requires `auditTables()` in the schema.
+   * @param opts - Optional `tables` allow-list and `snapshot` flag to store full values on create/delete
+   * @returns Middleware recording the actor, table, doc id, orgId, and changed fields
+   */
+  auditTrail = (opts?: { snapshot?: boolean; tables?: string[] }): Middleware => {
+    const only = opts?.tables ? new Set(opts.tables) : undefined,
+      snapshot = opts?.snapshot ?? true,
+      tracked = (ctx: MiddlewareCtx) => ctx.table !== 'audit' && (!only || only.has(ctx.table))
+    return {
+      afterCreate: async (ctx, { data, id }) => {
+        if (!tracked(ctx)) return
+        const doc = await ctx.db.get(id)
+        await record(ctx, {
+          at: doc?.updatedAt,
+          changes: snapshot ? snapshotFields(doc ?? data, 'to') : undefined,
+          docId: id,
+          op: 'create',
+          orgId: doc?.orgId
+        })
+      },
+      afterDelete: async (ctx, { doc, id }) => {
+        if (!tracked(ctx)) return
+        await record(ctx, {
+          changes: snapshot ? snapshotFields(doc, 'from') : undefined,
+          docId: id,
+          op: 'delete',
+          orgId: doc.orgId
+        })
+      },
+      afterUpdate: async (ctx, { id, patch, prev }) => {
+        if (!tracked(ctx)) return
+        const changes = diffFields(prev, patch)
+        if (changes.length === 0) return
+        const doc = await ctx.db.get(id)
+        await record(ctx, { at: doc?.updatedAt, changes, docId: id, op: 'update', orgId: prev.orgId })
+      },
+      name: 'auditTrail'
+    }
+  },
+  auditOf = (db: DbLike, docId: string) =>
+    db.query('audit').withIndex(
+      'by_doc',
+      idx(ib => ib.eq('docId', docId))
+    ),
+  /**
+   * Finds the doc and table an audit history belongs to, rebuilding the doc from its delete entry once the row is gone.
+   * @param db - Database reader
+   * @param docId - Audited doc id
+   * @returns The doc and its table, or undefined when nothing was recorded
+   */
+  historyDoc = async (db: DbLike, docId: string): Promise<undefined | { doc: Rec; table: string }> => {
+    const first = await auditOf(db, docId).first()
+    if (!first) return
+    const live = await db.get(docId)
+    if (live) return { doc: live, table: first.table as string }
+    const last = await auditOf(db, docId).order('desc').first(),
+      doc: Rec = { orgId: first.orgId, userId: first.op === 'create' ? first.actorId : undefined }
+    if (last?.op === 'delete')
+      for (const { field, from } of (last.changes as AuditChange[] | undefined) ?? []) doc[field] = from
+    return { doc, table: first.table as string }
+  },
+  /**
+   * Drops the changes to fields the viewer may not read under the table's field policies.
+   * @param entry - Audit entry
+   * @param fields - Field policies of the audited table
+   * @param viewer - Whether the reader owns the doc and/or administers its org
+   * @returns The entry with hidden changes removed
+   */
+  visibleEntry = (entry: Rec, fields: AuditTable['fields'], viewer: { admin?: boolean; owner?: boolean }): Rec => {
+    const changes = entry.changes as AuditChange[] | undefined
+    if (!changes) return entry
+    const shown = stripFields(Object.fromEntries(changes.map(ch => [ch.field, true])), fields, viewer)
+    return { ...entry, changes: changes.filter(ch => ch.field in shown) }
+  },
+  /**
+   * Creates paginated audit queries: per-document `history` and org-scoped `orgActivity`.
+   * `history` takes the audited table's read check from its factory `audit` value, and both queries drop changes to
+   * fields the reader may not see. Tables missing from `tables` have no readable history.
+   * @param builders - Authenticated query builder (q), the org role registry (roles), and the factory `audit` per table
+   * @returns Object with history and orgActivity endpoints
+   * @example
+   * ```ts
+   * export const { history, orgActivity } = makeAudit({ q, roles, tables: { blog: blogAudit, wiki: wikiAudit } })
+   * ```
+   */
+  makeAudit = ({ q, roles, tables }: { q: Qb; roles?: OrgRoles; tables: Record<string, AuditTable> }) => {
+    const history = q({
+        args: object({ id: string(), paginationOpts: pgOpts }),
+        handler: typed(
+          async (ctx: UserCtx, { id, paginationOpts }: { id: string; paginationOpts: Rec }) => {
+            const found = await historyDoc(ctx.db, id),
+              t = found ? tables[found.table] : undefined
+            if (found && !t) return err('FORBIDDEN', 'audit:history')
+            const viewer = found && t ? await t.viewer(ctx, found.doc) : {},
+              { page, ...rest } = await auditOf(ctx.db, id).order('desc').paginate(paginationOpts)
+            return { ...rest, page: page.map((e: Rec) => visibleEntry(e, t?.fields, viewer)) }
+          }
+        )
+      }),
+      orgActivity = q({
+        args: object({ orgId: zid('org'), paginationOpts: pgOpts }),
+        handler: typed(
+          async (ctx: UserCtx, { orgId, paginationOpts }: { orgId: string; paginationOpts: Rec }) => {
+            await requireOrgRole({ db: ctx.db, minRole: 'admin', orgId, roles, userId: ctx.user._id as string })
+            const { page, ...rest } = await ctx.db
+              .query('audit')
+              .withIndex(
+                'by_org',
+                idx(ib => ib.eq('orgId', orgId))
+              )
+              .order('desc')
+              .paginate(paginationOpts)
+            return {
+              ...rest,
+              page: page.map((e: Rec) => visibleEntry(e, tables[e.table as string]?.fields, { admin: true }))
+            }
+          }
+        )
+      })
+    return { history, orgActivity }
+  }
+
+export { AUDIT_IGNORED_FIELDS, auditTables, auditTrail, diffFields, makeAudit }
@@ -7,7 +7,19 @@ import { anyApi } from 'convex/server'
 import { v } from 'convex/values'
 import { boolean, number } from 'zod/v4'
 
-import type { ActionCtxLike, CacheBuilders, CacheCrudResult, CacheHooks, DbCtx, RateLimitConfig, Rec } from './types'
+import type {
+  ActionCtxLike,
+  CacheAccess,
+  CacheBuilders,
+  CacheCrudResult,
+  CacheHookCtx,
+  CacheHooks,
+  DbCtx,
+  DbLike,
+  RateLimitConfig,
+  Rec,
+  SchedulerLike
+} from './types'
 
 import { BULK_MAX } from '../constants'
 import { flt, idx as idxBridge, typed } from './bridge'
@@ -24,32 +36,73 @@ import {
   SEVEN_DAYS_MS,
   time
 } from './helpers'
+import { describeMutations } from './mutation-meta'
 
-const chk = (c: DbCtx) => ({ db: c.db }),
+/** How long a scheduled background refresh holds its key before another stale read may schedule one. */
+const REVALIDATE_LEASE_MS = 60 * 1000,
+  chk = (c: DbCtx & { scheduler?: SchedulerLike }): CacheHookCtx => ({ db: c.db, scheduler: c.scheduler }),
+  /**
+   * Builds the check run by public cache write endpoints. Without a `write` rule every caller passes.
+   * @param access - Write policy from factory options
+   * @param authId - Resolves the caller's user id from a Convex context
+   * @param table - Table name for error context
+   * @returns Async guard that throws NOT_AUTHORIZED for callers the policy rejects
+   */
+  writeGuard =
+    (access: CacheAccess | undefined, authId: (c: unknown) => Promise<null | string>, table: string) =>
+    async (c: DbCtx, op: string) => {
+      const rule = access?.write
+      if (rule === undefined) return
+      if (rule !== 'admin') {
+        const userId = await authId(c)
+        if (rule === 'authenticated' ? userId !== null : await rule({ db: c.db, userId })) return
+      }
+      err('NOT_AUTHORIZED', `${table}:${op}`)
+    },
   makeCacheCrud = <S extends ZodRawShape, K extends string, DM extends GenericDataModel = GenericDataModel>({
+    access,
+    authId = async () => null,
+    batchFetcher,
     builders: b,
     fetcher,
     hooks,
+    indexes = [],
     key,
+    negativeTtl,
     rateLimit: rl,
     schema,
+    staleTtl,
     staleWhileRevalidate: swr,
     table,
     ttl = SEVEN_DAYS_MS
   }: {
+    access?: CacheAccess
+    authId?: (c: unknown) => Promise<null | string>
+    batchFetcher?: (c: unknown, keys: unknown[]) => Promise<unknown[]>
     builders: CacheBuilders<DM>
     fetcher?: (c: unknown, key: unknown) => Promise<unknown>
     hooks?: CacheHooks
+    indexes?: { fields: string[]; name: string }[]
     key: K
+    negativeTtl?: number
     rateLimit?: RateLimitConfig
     schema: ZodObject<S>
+    staleTtl?: number
     staleWhileRevalidate?: boolean
     table: string
     ttl?: number
   }): CacheCrudResult<S> => {
+    if ((fetcher ?? batchFetcher) && !b.internalAction)
+      throw new Error(`cacheCrud('${table}') with a fetcher needs internalAction in setup`)
     const keys = Object.keys(schema.shape),
       pick = (d: Rec) => pickFields(d, keys),
-      valid = (d: Rec) => ((d.updatedAt as number | undefined) ?? (d._creationTime as number)) + ttl > Date.now(),
+      age = (d: Rec) => Date.now() - ((d.updatedAt as number | undefined) ?? (d._creationTime as number)),
+      valid = (d: Rec) => age(d) < ttl,
+      keepFor = ttl + (staleTtl ?? (swr ? ttl : 0)),
+      servable = (d: Rec) => Boolean(swr) && age(d) < keepFor,
+      byUpdated = indexes.some(i => i.name === 'by_updatedAt'),
+      canFetch = Boolean(fetcher ?? batchFetcher),
+      missKey = (kv: unknown) => JSON.stringify(kv),
       partial = schema.partial(),
       indexName = `by_${key}` as const,
       kArgs = z2c(typed({ [key]: schema.shape[key] })) as Rec,
@@ -58,7 +111,22 @@ const chk = (c: DbCtx) => ({ db: c.db }),
       listArgs = { includeExpired: boolean().optional(), paginationOpts: pgOpts },
       retFields = z2c(schema.extend({ cacheHit: boolean() }).shape) as Rec,
       kVal = kArgs[key] ?? err('INVALID_WHERE'),
+      guard = writeGuard(access, authId, table),
+      guarded =
+        <A>(op: string, run: (c: DbCtx, a: A) => Promise<unknown>) =>
+        async (c: DbCtx, a: A) => {
+          await guard(c, op)
+          return run(c, a)
+        },
       byK = (x: unknown) => idxBridge(i => i.eq(key, x)),
+      findMiss = async (db: DbLike, kv: unknown) =>
+        db
+          .query('cacheMiss')
+          .withIndex(
+            'by_table_key',
+            idxBridge(i => i.eq('table', table).eq('key', missKey(kv)))
+          )
+          .first(),
       getInt = b.internalQuery({
         args: typed(kArgs),
         handler: typed(async (c: DbCtx, a: Rec) => c.db.query(table).withIndex(indexName, byK(a[key])).first())
@@ -69,7 +137,7 @@ const chk = (c: DbCtx) => ({ db: c.db }),
           const d = await Promise.resolve(c.db.query(table).withIndex(indexName, byK(a[key])).first())
           if (!d) return null
           if (valid(d)) return { ...d, cacheHit: true, stale: false }
-          return swr ? { ...d, cacheHit: true, stale: true } : null
+          return servable(d) ? { ...d, cacheHit: true, stale: true } : null
         })
       }),
       read = b.cq({ args: idArgs, handler: typed(async (c: DbCtx, { id }: { id: string }) => c.db.get(id)) }),
@@ -103,23 +171,57 @@ const chk = (c: DbCtx) => ({ db: c.db }),
         }
         return dbInsert(c.db, table, wt)
       },
+      store = async (c: DbCtx, data: Rec[], missing: unknown[]) => {
+        for (const d of data) {
+          // biome-ignore lint/performance/noAwaitInLoops: ordered upsert
+          await upsert(c, { ...pick(d), revalidatingAt: undefined })
+          const miss = negativeTtl ? await findMiss(c.db, d[key]) : null
+          if (miss) await dbDelete(c.db, miss._id as string)
+        }
+        for (const kv of missing) {
+          const ex = await Promise.resolve(c.db.query(table).withIndex(indexName, byK(kv)).first())
+          if (ex) await dbDelete(c.db, ex._id as string)
+          if (negativeTtl) {
+            const miss = await findMiss(c.db, kv)
+            if (miss) await dbPatch(c.db, miss._id as string, { updatedAt: Date.now() })
+            else await dbInsert(c.db, 'cacheMiss', { key: missKey(kv), table, updatedAt: Date.now() })
+          }
+        }
+      },
       set = b.internalMutation({
         args: { data: v.object(typed(z2c(schema.shape))) },
-        handler: typed(async (c: DbCtx, { data }: { data: Rec }) => {
-          await upsert(c, pick(data))
-        })
+        handler: typed(async (c: DbCtx, { data }: { data: Rec }) => store(c, [data], []))
       }),
-      create = b.cm({
-        args: schema.shape,
-        handler: typed(async (c: DbCtx, d: Rec) => {
-          if (rl && !isTestMode()) await checkRateLimit(c.db, { config: rl, key: `global:${table}`, table })
-          let data = d
-          if (hooks?.beforeCreate) data = await hooks.beforeCreate(chk(c), { data })
-          const id = await upsert(c, data)
-          if (hooks?.afterCreate) await hooks.afterCreate(chk(c), { data, id: id as string })
-          return id
-        })
+      setMany = b.internalMutation({
+        args: { data: v.array(v.object(typed(z2c(schema.shape)))), missing: v.array(typed(kVal)) },
+        handler: typed(async (c: DbCtx, { data, missing }: { data: Rec[]; missing: unknown[] }) =>
+          store(c, data, missing)
+        )
       }),
+      lookup = b.internalQuery({
+        args: { keys: v.array(typed(kVal)) },
+        handler: typed(async (c: DbCtx, { keys: kvs }: { keys: unknown[] }) =>
+          Promise.all(
+            kvs.map(async kv => {
+              const miss = negativeTtl ? await findMiss(c.db, kv) : null
+              return {
+                doc: await Promise.resolve(c.db.query(table).withIndex(indexName, byK(kv)).first()),
+                missed: miss ? (miss.updatedAt as number) + (negativeTtl ?? 0) > Date.now() : false
+              }
+            })
+          )
+        )
+      }),
+      doCreate = async (c: DbCtx, d: Rec) => {
+        if (rl && !isTestMode()) await checkRateLimit(c.db, { config: rl, key: `global:${table}`, table })
+        let data = d
+        if (hooks?.beforeCreate) data = await hooks.beforeCreate(chk(c), { data })
+        const id = await upsert(c, data)
+        if (hooks?.afterCreate) await hooks.afterCreate(chk(c), { data, id: id as string })
+        return id
+      },
+      create = b.cm({ args: schema.shape, handler: typed(guarded('create', doCreate)) }),
+      createInternal = b.internalMutation({ args: typed(z2c(schema.shape)), handler: typed(doCreate) }),
       checkRL = rl
         ? b.internalMutation({
             args: {},
@@ -128,104 +230,242 @@ const chk = (c: DbCtx) => ({ db: c.db }),
             })
           })
         : undefined,
-      update = b.cm({
-        args: { ...idArgs, ...partial.shape },
-        handler: typed(async (c: DbCtx, a: Rec) => {
-          const { id, ...d } = a as Rec & { id: string },
-            ex = await c.db.get(id),
-            t = time()
-          if (!ex) return err('NOT_FOUND')
-          let patch = d as Rec
-          if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(chk(c), { id, patch, prev: ex })
-          await dbPatch(c.db, id, { ...patch, ...t })
-          const result = { ...ex, ...patch, ...t }
-          if (hooks?.afterUpdate) await hooks.afterUpdate(chk(c), { id, patch, prev: ex })
-          return result
-        })
-      }),
-      rm = b.cm({
-        args: idArgs,
-        handler: typed(async (c: DbCtx, { id }: { id: string }) => {
-          const d = await c.db.get(id)
-          if (d) {
-            if (hooks?.beforeDelete) await hooks.beforeDelete(chk(c), { doc: d, id })
-            await c.db.delete(id)
-            if (hooks?.afterDelete) await hooks.afterDelete(chk(c), { doc: d, id })
-          }
-          return d
-        })
-      }),
-      invalidate = b.mutation({
-        args: typed(kArgs),
-        handler: typed(async (c: DbCtx, a: Rec) => {
-          const d = await Promise.resolve(c.db.query(table).withIndex(indexName, byK(a[key])).first())
-          if (d) await dbDelete(c.db, d._id as string)
-          return d
-        })
+      doUpdate = async (c: DbCtx, a: Rec) => {
+        const { id, ...d } = a as Rec & { id: string },
+          ex = await c.db.get(id),
+          t = time()
+        if (!ex) return err('NOT_FOUND')
+        let patch = d as Rec
+        if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(chk(c), { id, patch, prev: ex })
+        await dbPatch(c.db, id, { ...patch, ...t })
+        const result = { ...ex, ...patch, ...t }
+        if (hooks?.afterUpdate) await hooks.afterUpdate(chk(c), { id, patch, prev: ex })
+        return result
+      },
+      update = b.cm({ args: { ...idArgs, ...partial.shape }, handler: typed(guarded('update', doUpdate)) }),
+      updateInternal = b.internalMutation({
+        args: typed(z2c({ ...idArgs, ...partial.shape })),
+        handler: typed(doUpdate)
       }),
+      doRm = async (c: DbCtx, { id }: { id: string }) => {
+        const d = await c.db.get(id)
+        if (d) {
+          if (hooks?.beforeDelete) await hooks.beforeDelete(chk(c), { doc: d, id })
+          await c.db.delete(id)
+          if (hooks?.afterDelete) await hooks.afterDelete(chk(c), { doc: d, id })
+        }
+        return d
+      },
+      rm = b.cm({ args: idArgs, handler: typed(guarded('rm', doRm)) }),
+      rmInternal = b.internalMutation({ args: typed(z2c(idArgs)), handler: typed(doRm) }),
+      doInvalidate = async (c: DbCtx, a: Rec) => {
+        const d = await Promise.resolve(c.db.query(table).withIndex(indexName, byK(a[key])).first())
+        if (d) await dbDelete(c.db, d._id as string)
+        return d
+      },
+      invalidate = b.mutation({ args: typed(kArgs), handler: typed(guarded('invalidate', doInvalidate)) }),
+      invalidateInternal = b.internalMutation({ args: typed(kArgs), handler: typed(doInvalidate) }),
+      /** Deletes one batch of entries past the stale window and one of expired misses; `full` means more remain. */
+      purgeBatch = async (c: DbCtx, { batchSize }: { batchSize?: number }) => {
+        const now = Date.now(),
+          limit = Math.min(batchSize ?? BULK_MAX, BULK_MAX),
+          exp = await (
+            byUpdated
+              ? c.db.query(table).withIndex(
+                  'by_updatedAt',
+                  idxBridge(i => i.lt('updatedAt', now - keepFor))
+                )
+              : c.db.query(table).filter(flt(qr => qr.lt(qr.field('updatedAt'), now - keepFor)))
+          ).take(limit),
+          misses = negativeTtl
+            ? await c.db
+                .query('cacheMiss')
+                .withIndex(
+                  'by_table_updated',
+                  idxBridge(i => i.eq('table', table).lt('updatedAt', now - negativeTtl))
+                )
+                .take(limit)
+            : []
+        // biome-ignore lint/performance/noAwaitInLoops: x
+        for (const d of [...exp, ...misses]) await dbDelete(c.db, d._id as string)
+        return { full: exp.length >= limit || misses.length >= limit, n: exp.length + misses.length }
+      },
       purge = b.cm({
         args: { batchSize: number().optional() },
-        handler: typed(async (c: DbCtx, { batchSize }: { batchSize?: number }) => {
-          const cut = Date.now() - ttl,
-            limit = Math.min(batchSize ?? BULK_MAX, BULK_MAX),
-            exp = await c.db
-              .query(table)
-              .filter(flt(qr => qr.lt(qr.field('_creationTime'), cut)))
-              .take(limit)
-          // biome-ignore lint/performance/noAwaitInLoops: x
-          for (const d of exp) await dbDelete(c.db, d._id as string)
-          return exp.length
+        handler: typed(guarded('purge', async (c, a: { batchSize?: number }) => (await purgeBatch(c, a)).n))
+      }),
+      purgeInternal = b.internalMutation({
+        args: { batchSize: v.optional(v.number()) },
+        handler: typed(async (c: DbCtx & { scheduler: SchedulerLike }, a: { batchSize?: number }) => {
+          const { full, n } = await purgeBatch(c, a)
+          if (full) await c.scheduler.runAfter(0, tPath.purgeInternal, a)
+          return n
         })
       }),
       tPath = (anyApi as Rec)[table] as Rec,
+      scheduleRevalidate = canFetch
+        ? b.internalMutation({
+            args: typed(kArgs),
+            handler: typed(async (c: DbCtx & { scheduler: SchedulerLike }, a: Rec) => {
+              const d = await Promise.resolve(c.db.query(table).withIndex(indexName, byK(a[key])).first()),
+                now = Date.now()
+              if (!d || valid(d) || ((d.revalidatingAt as number | undefined) ?? 0) > now - REVALIDATE_LEASE_MS)
+                return false
+              await dbPatch(c.db, d._id as string, { revalidatingAt: now })
+              await c.scheduler.runAfter(0, tPath.revalidate, { [key]: a[key] })
+              return true
+            })
+          })
+        : undefined,
+      staleRows = async (db: DbLike, now: number, limit: number) => {
+        const from = now - keepFor,
+          to = now - ttl
+        return (
+          byUpdated
+            ? db.query(table).withIndex(
+                'by_updatedAt',
+                idxBridge(i => i.gte('updatedAt', from).lt('updatedAt', to))
+              )
+            : db
+                .query(table)
+                .filter(flt(qr => qr.and(qr.gte(qr.field('updatedAt'), from), qr.lt(qr.field('updatedAt'), to))))
+        )
+          .filter(
+            flt(qr =>
+              qr.or(
+                qr.eq(qr.field('revalidatingAt'), undefined),
+                qr.lte(qr.field('revalidatingAt'), now - REVALIDATE_LEASE_MS)
+              )
+            )
+          )
+          .take(limit)
+      },
+      doRevalidateStale = async (c: DbCtx & { scheduler: SchedulerLike }, a: { batchSize?: number }) => {
+        const now = Date.now(),
+          limit = Math.min(a.batchSize ?? BULK_MAX, BULK_MAX),
+          due = await staleRows(c.db, now, limit)
+        for (const d of due) {
+          // biome-ignore lint/performance/noAwaitInLoops: x
+          await dbPatch(c.db, d._id as string, { revalidatingAt: now })
+          await c.scheduler.runAfter(0, tPath.revalidate, { [key]: d[key] })
+        }
+        if (due.length >= limit) await c.scheduler.runAfter(0, tPath.revalidateStale, a)
+        return due.length
+      },
+      revalidateStale = b.internalMutation({
+        args: { batchSize: v.optional(v.number()) },
+        handler: typed(canFetch && swr ? doRevalidateStale : async () => 0)
+      }),
       tKArgs = { [key]: kVal } as Rec,
-      doFetch = async (c: ActionCtxLike, kv: unknown) => {
-        let d = pick((await fetcher?.(c, kv)) as Rec)
-        if (hooks?.onFetch) d = await hooks.onFetch(d)
-        await c.runMutation(tPath.set as string, { data: d })
-        return { ...d, cacheHit: false }
+      retVal = v.union(v.object(typed(retFields)), v.null()),
+      fetchKeys = async (c: ActionCtxLike, kvs: unknown[]): Promise<(null | Rec)[]> => {
+        let raw: unknown[]
+        if (batchFetcher) {
+          const found = new Map((await batchFetcher(c, kvs)).filter(Boolean).map(d => [missKey((d as Rec)[key]), d]))
+          raw = kvs.map(kv => found.get(missKey(kv)))
+        } else raw = await Promise.all(kvs.map(async kv => fetcher?.(c, kv)))
+        return Promise.all(
+          raw.map(async d => {
+            if (!d) return null
+            const picked = pick(d as Rec)
+            return hooks?.onFetch ? hooks.onFetch(picked) : picked
+          })
+        )
+      },
+      fetchAndStore = async (c: ActionCtxLike, kvs: unknown[]) => {
+        const docs = await fetchKeys(c, kvs)
+        await c.runMutation(tPath.setMany as string, {
+          data: docs.filter(Boolean),
+          missing: kvs.filter((_, i) => !docs[i])
+        })
+        return docs.map(d => (d ? { ...d, cacheHit: false } : null))
       },
-      load = fetcher
+      resolveKeys = async (c: ActionCtxLike, requested: unknown[]) => {
+        const kvs = [...new Map(requested.map(kv => [missKey(kv), kv])).values()],
+          found = (await c.runQuery(tPath.lookup as string, { keys: kvs })) as { doc: null | Rec; missed: boolean }[],
+          out = new Map<string, null | Rec>(),
+          stale: unknown[] = [],
+          todo: unknown[] = []
+        for (const [i, { doc, missed }] of found.entries()) {
+          const kv = kvs[i]
+          if (doc && (valid(doc) || servable(doc))) {
+            out.set(missKey(kv), { ...pick(doc), cacheHit: true })
+            if (!valid(doc)) stale.push(kv)
+          } else if (missed) out.set(missKey(kv), null)
+          else todo.push(kv)
+        }
+        await Promise.all(stale.map(async kv => c.runMutation(tPath.scheduleRevalidate as string, { [key]: kv })))
+        if (todo.length > 0) {
+          if (checkRL && !isTestMode()) await c.runMutation(tPath.checkRL as string, {})
+          const fetched = await fetchAndStore(c, todo)
+          for (const [i, kv] of todo.entries()) out.set(missKey(kv), fetched[i] ?? null)
+        }
+        return requested.map(kv => out.get(missKey(kv)) ?? null)
+      },
+      load = canFetch
         ? b.action({
             args: typed(tKArgs),
-            handler: typed(async (c: ActionCtxLike, a: Rec) => {
-              const kv = a[key],
-                d = await c.runQuery(tPath.getInternal as string, { [key]: kv })
-              if (d && valid(d as Rec)) return { ...pick(d as Rec), cacheHit: true }
-              if (checkRL && !isTestMode()) await c.runMutation(tPath.checkRL as string, {})
-              return doFetch(c, kv)
+            handler: typed(async (c: ActionCtxLike, a: Rec) => (await resolveKeys(c, [a[key]]))[0] ?? null),
+            returns: retVal
+          })
+        : b.action(typed(noFetcher)),
+      loadMany = canFetch
+        ? b.action({
+            args: { keys: v.array(typed(kVal)) },
+            handler: typed(async (c: ActionCtxLike, { keys: kvs }: { keys: unknown[] }) => {
+              if (kvs.length > BULK_MAX) return err('LIMIT_EXCEEDED', `${table}:loadMany`)
+              return resolveKeys(c, kvs)
             }),
-            returns: v.object(typed(retFields))
+            returns: v.array(retVal)
           })
         : b.action(typed(noFetcher)),
-      refresh = fetcher
+      revalidate = canFetch
+        ? (b.internalAction as NonNullable<typeof b.internalAction>)({
+            args: typed(tKArgs),
+            handler: typed(async (c: ActionCtxLike, a: Rec) => {
+              if (checkRL && !isTestMode()) await c.runMutation(tPath.checkRL as string, {})
+              await fetchAndStore(c, [a[key]])
+            })
+          })
+        : undefined,
+      refresh = canFetch
         ? b.action({
             args: typed(tKArgs),
             handler: typed(async (c: ActionCtxLike, a: Rec) => {
               if (checkRL && !isTestMode()) await c.runMutation(tPath.checkRL as string, {})
-              const kv = a[key]
-              await c.runMutation(tPath.invalidate as string, { [key]: kv })
-              return doFetch(c, kv)
+              const [d] = await fetchAndStore(c, [a[key]])
+              return d ?? null
             }),
-            returns: v.object(typed(retFields))
+            returns: retVal
           })
         : b.action(typed(noFetcher))
-    return {
+    return describeMutations(table, {
       all,
       checkRL,
       create,
+      createInternal,
       get,
       getInternal: getInt,
       invalidate,
+      invalidateInternal,
       list,
       load,
+      loadMany,
+      lookup,
       purge,
+      purgeInternal,
       read,
       refresh,
+      revalidate,
+      revalidateStale,
       rm,
+      rmInternal,
+      scheduleRevalidate,
       set,
-      update
-    } as unknown as CacheCrudResult<S>
+      setMany,
+      update,
+      updateInternal
+    }) as unknown as CacheCrudResult<S>
   }
 
 export { makeCacheCrud }
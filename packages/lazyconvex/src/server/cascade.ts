@@ -0,0 +1,223 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: depth-first walk */
+import type { ZodRawShape } from 'zod/v4'
+
+import { anyApi } from 'convex/server'
+
+import type { VariantConfig } from './image-variants'
+import type { CascadeOption, ChildConfig, DbLike, Rec, SchedulerLike, StorageLike } from './types'
+
+import { collabFieldsOf } from '../zod'
+import { flt, idx } from './bridge'
+import { cleanFiles, dbDelete, dbPatch, detectFiles, dropCollab, log } from './helpers'
+import { tableIndexes } from './query-plan'
+
+/** What a cascade does to the descendants of a document. */
+type CascadeMode = 'delete' | 'restore' | 'soft'
+
+/** Cascade edges keyed by parent table, with child indexes already resolved. */
+type CascadeGraph = Record<string, CascadeOption[]>
+
+interface CascadeStep {
+  /** Edges below `table` from `cascadeGraph`; built from the setup graph when missing, and carried by continuations. */
+  graph?: CascadeGraph
+  id: string
+  mode: CascadeMode
+  stamp?: number
+  table: string
+  /** Variant config from `setup`, so a continuation still deletes the stored variants of removed files. */
+  variants?: VariantConfig
+}
+
+interface CascadeCtx {
+  db: DbLike
+  scheduler?: SchedulerLike
+  storage?: StorageLike
+}
+
+/** Documents one mutation touches before the rest of a cascade is scheduled as a continuation. */
+const CASCADE_BATCH = 500,
+  installed = {
+    disabled: new Set<string>(),
+    edges: new Map<string, CascadeOption[]>(),
+    namespace: 'jobs',
+    schema: undefined as undefined | { tables: Record<string, unknown> },
+    unindexed: new Set<string>()
+  },
+  /**
+   * Builds a cascade edge from a child table's schema, recording its file fields, whether it holds collab text,
+   * and whether it can be soft-deleted.
+   * @param shape - The child table's Zod shape
+   * @param config - Foreign key, child table, and optional index
+   * @returns Cascade edge
+   */
+  cascadeEdge = (
+    shape: ZodRawShape,
+    config: { foreignKey: string; index?: string; table: string }
+  ): CascadeOption => ({
+    ...config,
+    collab: collabFieldsOf(shape).length > 0,
+    fileFields: detectFiles(shape),
+    softDelete: 'deletedAt' in shape
+  }),
+  /**
+   * Merges edges into a list, replacing an edge for the same child table and foreign key.
+   * @param list - Edges so far
+   * @param edges - Edges to add
+   * @returns The merged list
+   */
+  mergeEdges = (list: CascadeOption[], edges: CascadeOption | CascadeOption[]) => {
+    const out = [...list]
+    for (const e of Array.isArray(edges) ? edges : [edges]) {
+      const at = out.findIndex(x => x.table === e.table && x.foreignKey === e.foreignKey)
+      if (at === -1) out.push(e)
+      else out[at] = { ...out[at], ...e }
+    }
+    return out
+  },
+  /**
+   * Builds the cascade graph from `setup` config: every `child()` link plus the `cascades` edges, keyed by parent
+   * table. Every module calls `setup`, so each function bundle sees the whole graph whatever it imports.
+   * @param config - Child table metadata, extra edges or `false` keyed by parent table, the jobs namespace, and the
+   * Convex schema for index lookup
+   */
+  installCascades = ({
+    cascades,
+    children,
+    namespace,
+    schema
+  }: {
+    cascades?: Record<string, CascadeOption | CascadeOption[] | false>
+    children?: Record<string, ChildConfig>
+    namespace?: string
+    schema?: { tables: Record<string, unknown> }
+  }) => {
+    installed.disabled.clear()
+    installed.edges.clear()
+    installed.unindexed.clear()
+    installed.namespace = namespace ?? 'jobs'
+    installed.schema = schema
+    for (const [table, c] of Object.entries(children ?? {}))
+      installed.edges.set(
+        c.parent,
+        mergeEdges(
+          installed.edges.get(c.parent) ?? [],
+          cascadeEdge(c.schema.shape, { foreignKey: c.foreignKey, index: c.index, table })
+        )
+      )
+    for (const [table, edges] of Object.entries(cascades ?? {}))
+      if (edges === false) installed.disabled.add(table)
+      else installed.edges.set(table, mergeEdges(installed.edges.get(table) ?? [], edges))
+  },
+  childIndex = (e: CascadeOption) =>
+    e.index ?? tableIndexes(installed.schema, e.table).find(i => i.fields[0] === e.foreignKey)?.name,
+  /**
+   * Collects the edges reachable from a table, resolving each child index once. `own` is the factory's `cascade`
+   * option: its edges join the table's own, and `false` leaves the table with none.
+   * @param table - Table the cascade starts from
+   * @param own - Edges declared on the table's factory, or false
+   * @returns The subgraph below `table`, safe to pass as scheduled function args
+   */
+  cascadeGraph = (table: string, own?: CascadeOption | CascadeOption[] | false): CascadeGraph => {
+    const graph: CascadeGraph = {},
+      queue = [table],
+      edgesOf = (t: string) => {
+        if (installed.disabled.has(t) || (t === table && own === false)) return []
+        const edges = installed.edges.get(t) ?? []
+        return t === table && own ? mergeEdges(edges, own) : edges
+      }
+    for (let t = queue.shift(); t !== undefined; t = queue.shift()) {
+      if (t in graph) continue
+      const edges = edgesOf(t).map(e => {
+        const index = childIndex(e)
+        return index ? { ...e, index } : e
+      })
+      graph[t] = edges
+      for (const e of edges) queue.push(e.table)
+    }
+    return graph
+  },
+  /**
+   * Checks whether a soft-deletable table sits anywhere below a table, so `soft` and `restore` know which
+   * non-soft tables to walk through.
+   * @param graph - Cascade graph
+   * @param table - Table to look below
+   * @param seen - Tables already visited
+   * @returns True when a descendant table has `deletedAt`
+   */
+  reachesSoft = (graph: CascadeGraph, table: string, seen = new Set<string>()): boolean => {
+    seen.add(table)
+    return (graph[table] ?? []).some(e => e.softDelete || (!seen.has(e.table) && reachesSoft(graph, e.table, seen)))
+  },
+  // eslint-disable-next-line @typescript-eslint/max-params
+  children = (db: DbLike, e: CascadeOption, parentId: string, mode: CascadeMode, stamp?: number) => {
+    const { index } = e,
+      base = index
+        ? db.query(e.table).withIndex(
+            index,
+            idx(o => o.eq(e.foreignKey, parentId))
+          )
+        : db.query(e.table).filter(flt(f => f.eq(f.field(e.foreignKey), parentId)))
+    if (!(index || installed.unindexed.has(e.table))) {
+      installed.unindexed.add(e.table)
+      log('warn', 'cascade:no_index', { foreignKey: e.foreignKey, table: e.table })
+    }
+    if (mode === 'delete' || !e.softDelete) return base
+    if (mode === 'soft') return base.filter(flt(f => f.eq(f.field('deletedAt'), undefined)))
+    return base.filter(flt(f => f.eq(f.field('deletedAt'), stamp)))
+  },
+  apply = async (c: CascadeCtx, e: CascadeOption, kid: Rec, { mode, stamp, variants }: CascadeStep) => {
+    const id = kid._id as string
+    if (mode === 'soft') return dbPatch(c.db, id, { deletedAt: stamp })
+    if (mode === 'restore') return dbPatch(c.db, id, { deletedAt: undefined })
+    await dbDelete(c.db, id)
+    if (e.collab) await dropCollab(c.db, id)
+    if (c.storage && e.fileFields?.length)
+      await cleanFiles({ db: c.db, doc: kid, fileFields: e.fileFields, storage: c.storage, variants })
+  },
+  // eslint-disable-next-line @typescript-eslint/max-params
+  sweep = async (c: CascadeCtx, graph: CascadeGraph, step: CascadeStep, budget: { left: number }): Promise<boolean> => {
+    for (const e of graph[step.table] ?? []) {
+      if (step.mode !== 'delete' && !e.softDelete) {
+        if (reachesSoft(graph, e.table))
+          for (const kid of await children(c.db, e, step.id, step.mode).collect())
+            if (!(await sweep(c, graph, { ...step, id: kid._id as string, table: e.table }, budget))) return false
+        continue
+      }
+      for (;;) {
+        const kids = await children(c.db, e, step.id, step.mode, step.stamp).take(Math.max(budget.left, 1))
+        for (const kid of kids) {
+          if (!(await sweep(c, graph, { ...step, id: kid._id as string, table: e.table }, budget))) return false
+          await apply(c, e, kid, step)
+          budget.left -= 1
+          if (budget.left <= 0) return false
+        }
+        if (kids.length === 0) break
+      }
+    }
+    return true
+  },
+  /**
+   * Walks the cascade graph below a document, depth first through each child table's index.
+   * `delete` removes descendants and their files, `soft` stamps `deletedAt` on descendants whose table has
+   * that field, and `restore` clears it on descendants carrying the same stamp; both walk through tables without
+   * `deletedAt` to reach soft-deletable tables below them. After `CASCADE_BATCH` documents the rest is scheduled
+   * as `cascadeStep` in the jobs module, so huge subtrees finish over several transactions. The continuation
+   * carries the graph in its args, so factory `cascade` options reach it too.
+   * @param ctx - Mutation context with `db`, and `scheduler`/`storage` when available
+   * @param step - Parent table and id, mode, the parent's `deletedAt` for `soft`/`restore`, and the graph of a continuation
+   * @returns True when the whole subtree was handled in this transaction
+   */
+  cascade = async (ctx: { db: unknown; scheduler?: unknown; storage?: unknown }, step: CascadeStep) => {
+    if (step.mode !== 'delete' && step.stamp === undefined) return true
+    const c = ctx as CascadeCtx,
+      graph = step.graph ?? cascadeGraph(step.table),
+      done = await sweep(c, graph, step, { left: c.scheduler ? CASCADE_BATCH : Number.POSITIVE_INFINITY })
+    if (!done) {
+      log('info', 'cascade:continue', { id: step.id, mode: step.mode, table: step.table })
+      await c.scheduler?.runAfter(0, ((anyApi as Rec)[installed.namespace] as Rec).cascadeStep, { ...step, graph })
+    }
+    return done
+  }
+
+export type { CascadeGraph, CascadeMode, CascadeStep }
+export { cascade, CASCADE_BATCH, cascadeEdge, cascadeGraph, installCascades }
@@ -5,23 +5,45 @@ import type { ZodObject, ZodRawShape } from 'zod/v4'
 import { zid } from 'convex-helpers/server/zod4'
 import { array, number } from 'zod/v4'
 
+import type { VariantConfig } from './image-variants'
 import type {
   BaseBuilders,
   ChildCrudResult,
   CrudHooks,
   DbReadLike,
+  Effect,
+  FieldPolicies,
   GlobalHooks,
   HookCtx,
   MutCtx,
   Rec,
+  SchedulerLike,
   UserCtx
 } from './types'
 
 import { BULK_MAX } from '../constants'
 import { idx, typed } from './bridge'
-import { cleanFiles, dbDelete, dbInsert, dbPatch, detectFiles, err, pickFields, time } from './helpers'
+import { cascade } from './cascade'
+import { assertWritable, stripFields } from './field-access'
+import {
+  checkFiles,
+  cleanFiles,
+  dbDelete,
+  dbInsert,
+  dbPatch,
+  detectFileRules,
+  detectFiles,
+  err,
+  pickFields,
+  time
+} from './helpers'
+import { detectVariants, queueVariants } from './image-variants'
+import { withEffects } from './jobs'
+import { describeMutations } from './mutation-meta'
 
 interface ChildCrudOptions<PS extends ZodRawShape = ZodRawShape> {
+  effects?: Effect[]
+  fields?: FieldPolicies
   hooks?: CrudHooks
   pub?: { parentField: keyof PS & string }
 }
@@ -36,6 +58,7 @@ interface ChildMeta<S extends ZodRawShape = ZodRawShape, PS extends ZodRawShape
 
 const chk = (ctx: UserCtx): HookCtx => ({
     db: ctx.db,
+    scheduler: (ctx as unknown as { scheduler?: SchedulerLike }).scheduler,
     storage: (ctx as unknown as { storage: unknown }).storage as HookCtx['storage'],
     userId: ctx.user._id as string
   }),
@@ -87,23 +110,29 @@ const chk = (ctx: UserCtx): HookCtx => ({
     globalHooks: gh,
     meta,
     options,
-    table
+    table,
+    variants
   }: {
     builders: BaseBuilders
     globalHooks?: GlobalHooks
     meta: ChildMeta<S, PS>
     options?: ChildCrudOptions<PS>
     table: string
+    variants?: VariantConfig
   }): ChildCrudResult<S> => {
     const { m, pq, q } = builders,
-      hooks = mergeChildHooks(gh, options?.hooks, table),
+      hooks = withEffects(mergeChildHooks(gh, options?.hooks, table), options?.effects, table),
       { foreignKey, index, parent, schema } = meta,
       getFK = (doc: Rec): string => doc[foreignKey] as string,
       schemaKeys = Object.keys(schema.shape),
       partial = schema.partial(),
       fileFs = detectFiles(schema.shape),
+      fileRules = detectFileRules(schema.shape),
+      variantSpecs = detectVariants(schema.shape, variants),
       idArgs = { id: zid(table) },
       bulkIdsSchema = array(zid(table)).max(BULK_MAX),
+      policies = options?.fields,
+      strip = (doc: Rec) => stripFields(doc, policies, { owner: true }),
       // oxlint-disable-next-line unicorn/consistent-function-scoping
       verifyParentOwnership = async (ctx: UserCtx, parentId: string) => {
         const p = await ctx.db.get(parentId)
@@ -116,8 +145,11 @@ const chk = (ctx: UserCtx): HookCtx => ({
             parentId = args[foreignKey] as string
           let data = schema.parse(pickFields(args, schemaKeys)) as Rec
           if (!(await verifyParentOwnership(ctx, parentId))) return err('NOT_FOUND', `${table}:create`)
+          assertWritable(policies, data, { owner: true }, `${table}:create`)
           if (hooks?.beforeCreate) data = await hooks.beforeCreate(chk(ctx), { data })
+          await checkFiles({ data, db: ctx.db, op: `${table}:create`, rules: fileRules })
           const id = await dbInsert(ctx.db, table, { ...data, [foreignKey]: parentId, ...time() })
+          await queueVariants({ config: variants, data, scheduler: chk(ctx).scheduler, specs: variantSpecs })
           if (hooks?.afterCreate) await hooks.afterCreate(chk(ctx), { data, id })
           return id
         })
@@ -130,12 +162,21 @@ const chk = (ctx: UserCtx): HookCtx => ({
           if (!doc) return err('NOT_FOUND', `${table}:update`)
           if (!(await verifyParentOwnership(ctx, getFK(doc)))) return err('NOT_FOUND', `${table}:update`)
           let patch = partial.parse(pickFields(rest, schemaKeys)) as Rec
+          assertWritable(policies, patch, { owner: true }, `${table}:update`, doc)
           if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(chk(ctx), { id, patch, prev: doc })
+          await checkFiles({ data: patch, db: ctx.db, op: `${table}:update`, prev: doc, rules: fileRules })
           const now = time()
-          await cleanFiles({ doc, fileFields: fileFs, next: patch, storage: ctx.storage })
+          await cleanFiles({ db: ctx.db, doc, fileFields: fileFs, next: patch, storage: ctx.storage, variants })
           await dbPatch(ctx.db, id, { ...patch, ...now })
+          await queueVariants({
+            config: variants,
+            data: patch,
+            prev: doc,
+            scheduler: ctx.scheduler,
+            specs: variantSpecs
+          })
           if (hooks?.afterUpdate) await hooks.afterUpdate(chk(ctx), { id, patch, prev: doc })
-          return { ...doc, ...patch, ...now }
+          return strip({ ...doc, ...patch, ...now })
         })
       }),
       rm = m({
@@ -146,10 +187,11 @@ const chk = (ctx: UserCtx): HookCtx => ({
           const parentId = getFK(doc)
           if (!(await verifyParentOwnership(ctx, parentId))) return err('NOT_FOUND', `${table}:rm`)
           if (hooks?.beforeDelete) await hooks.beforeDelete(chk(ctx), { doc, id })
+          await cascade(ctx, { id, mode: 'delete', table, variants })
           await dbDelete(ctx.db, id)
-          await cleanFiles({ doc, fileFields: fileFs, storage: ctx.storage })
+          await cleanFiles({ db: ctx.db, doc, fileFields: fileFs, storage: ctx.storage, variants })
           if (hooks?.afterDelete) await hooks.afterDelete(chk(ctx), { doc, id })
-          return doc
+          return strip(doc)
         })
       }),
       bulkCreate = m({
@@ -162,8 +204,11 @@ const chk = (ctx: UserCtx): HookCtx => ({
           const ids: string[] = []
           for (const item of items) {
             let data = schema.parse(pickFields(item, schemaKeys)) as Rec
+            assertWritable(policies, data, { owner: true }, `${table}:bulkCreate`)
             if (hooks?.beforeCreate) data = await hooks.beforeCreate(chk(ctx), { data })
+            await checkFiles({ data, db: ctx.db, op: `${table}:bulkCreate`, rules: fileRules })
             const id = await dbInsert(ctx.db, table, { ...data, [foreignKey]: parentId, ...time() })
+            await queueVariants({ config: variants, data, scheduler: chk(ctx).scheduler, specs: variantSpecs })
             if (hooks?.afterCreate) await hooks.afterCreate(chk(ctx), { data, id })
             ids.push(id)
           }
@@ -180,8 +225,9 @@ const chk = (ctx: UserCtx): HookCtx => ({
             const doc = await ctx.db.get(id)
             if (doc && (await verifyParentOwnership(ctx, getFK(doc)))) {
               if (hooks?.beforeDelete) await hooks.beforeDelete(chk(ctx), { doc, id })
+              await cascade(ctx, { id, mode: 'delete', table, variants })
               await dbDelete(ctx.db, id)
-              await cleanFiles({ doc, fileFields: fileFs, storage: ctx.storage })
+              await cleanFiles({ db: ctx.db, doc, fileFields: fileFs, storage: ctx.storage, variants })
               if (hooks?.afterDelete) await hooks.afterDelete(chk(ctx), { doc, id })
               deleted += 1
             }
@@ -194,17 +240,26 @@ const chk = (ctx: UserCtx): HookCtx => ({
         handler: typed(async (ctx: MutCtx, a: Rec) => {
           const { data, ids } = a as { data: Rec; ids: string[] }
           if (ids.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkUpdate`)
+          assertWritable(policies, data, { owner: true }, `${table}:bulkUpdate`)
           const results: Rec[] = []
           for (const id of ids) {
             const doc = await ctx.db.get(id)
             if (doc && (await verifyParentOwnership(ctx, getFK(doc)))) {
               let patch = partial.parse(pickFields(data, schemaKeys)) as Rec
               if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(chk(ctx), { id, patch, prev: doc })
+              await checkFiles({ data: patch, db: ctx.db, op: `${table}:bulkUpdate`, prev: doc, rules: fileRules })
               const now = time()
-              await cleanFiles({ doc, fileFields: fileFs, next: patch, storage: ctx.storage })
+              await cleanFiles({ db: ctx.db, doc, fileFields: fileFs, next: patch, storage: ctx.storage, variants })
               await dbPatch(ctx.db, id, { ...patch, ...now })
+              await queueVariants({
+                config: variants,
+                data: patch,
+                prev: doc,
+                scheduler: ctx.scheduler,
+                specs: variantSpecs
+              })
               if (hooks?.afterUpdate) await hooks.afterUpdate(chk(ctx), { id, patch, prev: doc })
-              results.push({ ...doc, ...patch, ...now })
+              results.push(strip({ ...doc, ...patch, ...now }))
             }
           }
           return results
@@ -217,13 +272,14 @@ const chk = (ctx: UserCtx): HookCtx => ({
             parentId = args[foreignKey] as string
           if (!(await verifyParentOwnership(ctx, parentId))) return err('NOT_AUTHORIZED', `${table}:list`)
           const qry = ctx.db
-            .query(table)
-            .withIndex(
-              index,
-              idx(i => i.eq(foreignKey, parentId))
-            )
-            .order('asc')
-          return args.limit ? qry.take(args.limit as number) : qry.collect()
+              .query(table)
+              .withIndex(
+                index,
+                idx(i => i.eq(foreignKey, parentId))
+              )
+              .order('asc'),
+            docs = args.limit ? await qry.take(args.limit as number) : await qry.collect()
+          return docs.map(strip)
         })
       }),
       get = q({
@@ -233,7 +289,7 @@ const chk = (ctx: UserCtx): HookCtx => ({
           if (!doc) return null
           const parentId = getFK(doc)
           if (!(await verifyParentOwnership(ctx, parentId))) return err('NOT_AUTHORIZED', `${table}:get`)
-          return doc
+          return strip(doc)
         })
       }),
       pubField = options?.pub?.parentField,
@@ -246,7 +302,7 @@ const chk = (ctx: UserCtx): HookCtx => ({
                   const doc = await ctx.db.get(id)
                   if (!doc) return null
                   if (!(await checkParentField(ctx.db, getFK(doc), pubField))) return err('NOT_FOUND', `${table}:pub.get`)
-                  return doc
+                  return stripFields(doc, policies, {})
                 })
               }),
               list: pq({
@@ -255,18 +311,19 @@ const chk = (ctx: UserCtx): HookCtx => ({
                   const parentId = a[foreignKey] as string
                   if (!(await checkParentField(ctx.db, parentId, pubField))) return err('NOT_FOUND', `${table}:pub.list`)
                   const qry = ctx.db
-                    .query(table)
-                    .withIndex(
-                      index,
-                      idx(i => i.eq(foreignKey, parentId))
-                    )
-                    .order('asc')
-                  return a.limit ? qry.take(a.limit as number) : qry.collect()
+                      .query(table)
+                      .withIndex(
+                        index,
+                        idx(i => i.eq(foreignKey, parentId))
+                      )
+                      .order('asc'),
+                    docs = a.limit ? await qry.take(a.limit as number) : await qry.collect()
+                  return docs.map(d => stripFields(d, policies, {}))
                 })
               })
             }
           : undefined
-    return {
+    return describeMutations(table, {
       bulkCreate,
       bulkRm,
       bulkUpdate,
@@ -276,7 +333,7 @@ const chk = (ctx: UserCtx): HookCtx => ({
       ...(pub ? { pub } : {}),
       rm,
       update
-    } as unknown as ChildCrudResult<S>
+    }) as unknown as ChildCrudResult<S>
   }
 
 export { makeChildCrud }
@@ -0,0 +1,210 @@
+import { defineTable } from 'convex/server'
+import { v } from 'convex/values'
+import { array, number, object, string, union } from 'zod/v4'
+
+import type { CollabOp, CollabRead, TextOp } from '../text-op'
+import type { CollabTable, DbLike, Mb, MutCtx, Qb, Rec, UserCtx } from './types'
+
+import { applyTextOp, baseLength, diffText, normalizeTextOp, transformTextOp } from '../text-op'
+import { collabFieldsOf } from '../zod'
+import { idx, indexFields, typed } from './bridge'
+import { isTestMode } from './env'
+import { checkRateLimit, dbPatch, err, errValidation, time } from './helpers'
+import { requireOrgMember } from './org-crud'
+
+/**
+ * Options for makeCollab: the `collab` of each factory whose `collabText()` fields can be edited, and an extra check
+ * on who may edit a doc, run after the table's own.
+ */
+interface CollabOptions {
+  canEdit?: (ctx: MutCtx, doc: Rec, table: string) => boolean | Promise<boolean>
+  m: Mb
+  q: Qb
+  tables: Record<string, CollabTable>
+}
+
+interface Head {
+  content: string
+  /** Op turning the last collab text into what the doc holds now, when something else wrote the field. */
+  drift?: TextOp
+  /** Text as of the last save through the table's update path. */
+  flushed?: string
+  rev: number
+  snapshotId?: string
+}
+
+/** Ops between two saves through the table's update path (versions, audit, effects). */
+const COLLAB_FLUSH_EVERY = 50,
+  /** Ops older than this many revisions are dropped; clients further behind reload the text. */
+  COLLAB_HISTORY = 200,
+  textComponent = union([number().int().positive(), string(), object({ d: number().int().positive() })]),
+  /**
+   * Returns Convex table definitions for the collab op log and the per-field snapshot.
+   * @returns Object with `collabOp` and `collabSnapshot` table definitions
+   */
+  collabTables = () => ({
+    collabOp: defineTable({
+      clientId: v.string(),
+      docId: v.string(),
+      field: v.string(),
+      op: v.any(),
+      rev: v.number(),
+      userId: v.optional(v.id('users'))
+    }).index('by_doc_field', indexFields('docId', 'field', 'rev')),
+    collabSnapshot: defineTable({
+      content: v.string(),
+      docId: v.string(),
+      field: v.string(),
+      flushed: v.optional(v.string()),
+      rev: v.number()
+    }).index('by_doc_field', indexFields('docId', 'field'))
+  }),
+  opsAfter = (db: DbLike, docId: string, field: string, rev: number) =>
+    db
+      .query('collabOp')
+      .withIndex(
+        'by_doc_field',
+        idx(ib => ib.eq('docId', docId).eq('field', field).gt('rev', rev))
+      )
+      .collect(),
+  readHead = async (db: DbLike, docId: string, field: string, doc: Rec): Promise<Head> => {
+    const snapshot = await db
+        .query('collabSnapshot')
+        .withIndex(
+          'by_doc_field',
+          idx(ib => ib.eq('docId', docId).eq('field', field))
+        )
+        .unique(),
+      current = (doc[field] as string | undefined) ?? ''
+    if (!snapshot) return { content: current, rev: 0 }
+    const content = snapshot.content as string,
+      head: Head = {
+        content,
+        flushed: snapshot.flushed as string | undefined,
+        rev: snapshot.rev as number,
+        snapshotId: snapshot._id as string
+      }
+    if (content !== current) head.drift = diffText(content, current)
+    return head
+  },
+  /**
+   * Creates collaborative text endpoints for every `collabText()` field in `tables`: `read` streams ops after a
+   * revision, `apply` rebases a client op onto the latest text, logs it, and folds the result back into the doc with
+   * a new `updatedAt`. Every `COLLAB_FLUSH_EVERY` revisions the text is saved through the table's update path, so
+   * hooks, audit and versions see one change per batch instead of one per keystroke. Edits made outside `apply`
+   * (a plain `update`) are picked up as ops too. Editing takes the same role, ACL and field checks as `update`, and
+   * each save through the update path counts against the table's `rateLimit`.
+   * @param options - Mutation and query builders, the factory `collab` per table, and an optional `canEdit` check
+   * @returns Object with `apply` and `read` endpoints
+   * @example
+   * ```ts
+   * export const { apply, read } = makeCollab({ m, q, tables: { blog: blogCollab, wiki: wikiCollab } })
+   * ```
+   */
+  makeCollab = ({ canEdit: canEditDoc, m, q, tables }: CollabOptions) => {
+    const fieldsByTable = new Map(Object.entries(tables).map(([table, t]) => [table, collabFieldsOf(t.schema.shape)])),
+      partials = new Map(Object.entries(tables).map(([table, t]) => [table, t.schema.partial()])),
+      target = { field: string(), id: string(), table: string() },
+      mayRead = async (c: UserCtx, doc: Rec) => {
+        const userId = c.user._id as string
+        if (typeof doc.orgId !== 'string') return doc.userId === userId
+        await requireOrgMember({ db: c.db, orgId: doc.orgId, userId })
+        return true
+      },
+      loadDoc = async (c: UserCtx, { field, id, table }: { field: string; id: string; table: string }, op: string) => {
+        if (!fieldsByTable.get(table)?.includes(field)) return err('VALIDATION_FAILED', `collab:${op}`)
+        const doc = await c.db
+          .query(table)
+          .withIndex(
+            'by_id',
+            idx(ib => ib.eq('_id', id))
+          )
+          .unique()
+        if (!doc || doc.deletedAt !== undefined) return err('NOT_FOUND', `collab:${op}`)
+        return doc
+      },
+      read = q({
+        args: object({ ...target, since: number().optional() }),
+        handler: typed(
+          async (c: UserCtx, a: { field: string; id: string; since?: number; table: string }): Promise<CollabRead> => {
+            const doc = await loadDoc(c, a, 'read')
+            if (!(await mayRead(c, doc))) return err('FORBIDDEN', 'collab:read')
+            const head = await readHead(c.db, a.id, a.field, doc),
+              rev = head.rev + (head.drift ? 1 : 0),
+              current = (doc[a.field] as string | undefined) ?? ''
+            if (a.since === undefined || a.since > rev) return { content: current, ops: [], rev }
+            const ops: CollabOp[] = (await opsAfter(c.db, a.id, a.field, a.since)).map(o => ({
+              clientId: o.clientId as string,
+              op: o.op as TextOp,
+              rev: o.rev as number
+            }))
+            if (head.drift) ops.push({ clientId: '', op: head.drift, rev })
+            if (ops.length !== rev - a.since) return { content: current, ops: [], rev }
+            return { ops, rev }
+          }
+        )
+      }),
+      apply = m({
+        args: object({ ...target, base: number().int().nonnegative(), clientId: string(), op: array(textComponent) }),
+        handler: typed(
+          async (
+            c: MutCtx,
+            a: { base: number; clientId: string; field: string; id: string; op: TextOp; table: string }
+          ) => {
+            const doc = await loadDoc(c, a, 'apply'),
+              t = tables[a.table] as CollabTable
+            await t.authorize(c, doc, a.field)
+            if (canEditDoc && !(await canEditDoc(c, doc, a.table))) return err('FORBIDDEN', 'collab:apply')
+            const head = await readHead(c.db, a.id, a.field, doc),
+              log = async (clientId: string, op: TextOp, rev: number) => {
+                await c.db.insert('collabOp', { clientId, docId: a.id, field: a.field, op, rev, userId: c.user._id })
+                const old = await c.db
+                  .query('collabOp')
+                  .withIndex(
+                    'by_doc_field',
+                    idx(ib =>
+                      ib
+                        .eq('docId', a.id)
+                        .eq('field', a.field)
+                        .eq('rev', rev - COLLAB_HISTORY)
+                    )
+                  )
+                  .unique()
+                if (old) await c.db.delete(old._id as string)
+              }
+            let { content, rev } = head
+            if (head.drift) {
+              rev += 1
+              content = applyTextOp(content, head.drift)
+              await log('', head.drift, rev)
+            }
+            if (a.base > rev) return err('VALIDATION_FAILED', 'collab:apply')
+            const missed = await opsAfter(c.db, a.id, a.field, a.base)
+            if (missed.length !== rev - a.base) return err('CONFLICT', 'collab:apply')
+            let op = normalizeTextOp(a.op)
+            for (const o of missed) op = transformTextOp(op, o.op as TextOp, 'right')
+            if (baseLength(op) > content.length) return err('VALIDATION_FAILED', 'collab:apply')
+            content = applyTextOp(content, op)
+            const checked = partials.get(a.table)?.safeParse({ [a.field]: content })
+            if (checked && !checked.success) return errValidation('VALIDATION_FAILED', checked.error)
+            rev += 1
+            await log(a.clientId, op, rev)
+            const current = (doc[a.field] as string | undefined) ?? '',
+              base = head.drift ? current : (head.flushed ?? current),
+              flush = rev % COLLAB_FLUSH_EVERY === 0,
+              flushed = flush ? content : base
+            if (flush && t.rateLimit && !isTestMode())
+              await checkRateLimit(c.db, { config: t.rateLimit, key: c.user._id as string, table: a.table })
+            if (head.snapshotId) await c.db.patch(head.snapshotId, { content, flushed, rev })
+            else await c.db.insert('collabSnapshot', { content, docId: a.id, field: a.field, flushed, rev })
+            if (flush) await t.write(c, { ...doc, [a.field]: base }, { [a.field]: content })
+            else await dbPatch(c.db, a.id, { [a.field]: content, ...time() })
+            return { rev }
+          }
+        )
+      })
+    return { apply, read }
+  }
+
+export type { CollabOptions }
+export { COLLAB_FLUSH_EVERY, COLLAB_HISTORY, collabTables, makeCollab }
@@ -3,36 +3,49 @@
 /* eslint-disable @eslint-react/no-unused-props, max-depth */
 // biome-ignore-all lint/suspicious/useAwait: x
 // biome-ignore-all lint/performance/noAwaitInLoops: x
-import type { ZodObject, ZodRawShape } from 'zod/v4'
+import type { ZodObject, ZodRawShape, ZodType } from 'zod/v4'
 
+import { filter } from 'convex-helpers/server/filter'
 import { zid } from 'convex-helpers/server/zod4'
-import { array, boolean, number, string } from 'zod/v4'
+import { array, boolean, number, object, strictObject, string, tuple, union, unknown, enum as zenum } from 'zod/v4'
 
+import type { VariantConfig } from './image-variants'
 import type {
+  CascadeOption,
   CrudBuilders,
   CrudOptions,
   CrudResult,
   DbLike,
   EnrichedDoc,
+  FieldPolicies,
   FilterLike,
   HookCtx,
+  IndexDef,
   MutCtx,
+  OrderBy,
   Qb,
   ReadCtx,
   Rec,
-  StorageLike
+  SchedulerLike,
+  StorageLike,
+  UserCtx
 } from './types'
 
 import { BULK_MAX } from '../constants'
+import { collabFieldsOf, elementOf, isArrayType, isStringType, unwrapZod } from '../zod'
 import { idx, sch, typed } from './bridge'
+import { cascade, cascadeEdge, cascadeGraph } from './cascade'
 import { isTestMode } from './env'
+import { assertReadable, assertWritable, stripFields } from './field-access'
 import {
   addUrls,
+  checkFiles,
   checkRateLimit,
   cleanFiles,
-  dbDelete,
   dbPatch,
+  detectFileRules,
   detectFiles,
+  dropCollab,
   err,
   errValidation,
   groupList,
@@ -40,34 +53,72 @@ import {
   log,
   matchW,
   pgOpts,
+  PREFIX_END,
   warnLargeFilterSet
 } from './helpers'
+import { detectVariants, queueVariants } from './image-variants'
+import { describeMutations } from './mutation-meta'
+import { applyPlan, eqOnly, orderIndex, planIndex } from './query-plan'
 
 interface CrudMCtx extends MutCtx {
   create: (t: string, d: Rec) => Promise<string>
   delete: (id: string) => Promise<unknown>
   get: (id: string) => Promise<Rec>
-  patch: (id: string, data: Rec, expectedUpdatedAt?: number) => Promise<Rec>
+  patch: (id: string, data: Rec, expectedUpdatedAt?: number, fields?: FieldPolicies) => Promise<Rec>
 }
 
-const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.user._id as string }),
+const hk = (c: CrudMCtx): HookCtx => ({
+    db: c.db,
+    scheduler: c.scheduler,
+    storage: c.storage,
+    userId: c.user._id as string
+  }),
+  /**
+   * Builds the where schema for one field: a plain value, or an operator object typed by the field.
+   * `$startsWith` is only accepted on strings and `$contains` only on arrays.
+   * @param fs - Zod schema of the field
+   * @returns Union of the field schema and its operator object
+   */
+  whereField = (fs: ZodType) => {
+    const { schema: base, type } = unwrapZod(fs),
+      el = base ?? fs,
+      ops: Record<string, ZodType> = {
+        $between: tuple([el, el]),
+        $exists: boolean(),
+        $gt: el,
+        $gte: el,
+        $in: array(el),
+        $lt: el,
+        $lte: el,
+        $ne: el
+      }
+    if (isStringType(type)) ops.$startsWith = string()
+    if (isArrayType(type)) ops.$contains = (elementOf(base) as undefined | ZodType) ?? unknown()
+    return union([fs, strictObject(ops).partial()])
+  },
   makeCrud = <S extends ZodRawShape>({
     builders,
+    indexes = [],
     options: opt,
     schema,
     strictFilter,
-    table
+    table,
+    variants
   }: {
     builders: CrudBuilders
+    indexes?: IndexDef[]
     options?: CrudOptions<S>
     schema: ZodObject<S>
     strictFilter?: boolean
     table: string
+    variants?: VariantConfig
   }) => {
     type WG = Rec & { own?: boolean }
     type W = WG & { or?: WG[] }
     const { m, pq, q } = builders,
       hooks = opt?.hooks,
+      graph = cascadeGraph(table, opt?.cascade),
+      policies = opt?.fields as FieldPolicies | undefined,
       searchCfg =
         opt?.search === true
           ? { field: 'text', index: 'search_field' }
@@ -78,22 +129,46 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
               : null,
       partial = schema.partial(),
       bulkIdsSchema = array(zid(table)).max(BULK_MAX),
+      collabFs = collabFieldsOf(schema.shape),
       fileFs = detectFiles(schema.shape),
-      wgSchema = partial.extend({ own: boolean().optional() }),
+      fileRules = detectFileRules(schema.shape),
+      variantSpecs = detectVariants(schema.shape, variants),
+      wgSchema = object(
+        Object.fromEntries(Object.entries(schema.shape).map(([k, fs]) => [k, whereField(fs as ZodType).optional()]))
+      ).extend({ own: boolean().optional() }),
       wSchema = wgSchema.extend({ or: array(wgSchema).optional() }),
       wArgs = { where: wSchema.optional() },
+      orderArgs = {
+        orderBy: object({
+          dir: zenum(['asc', 'desc']).optional(),
+          field: zenum(Object.keys(schema.shape) as [string, ...string[]])
+        }).optional()
+      },
       ownArg = { own: boolean().optional() },
       idArgs = { id: zid(table) },
+      strip = (doc: Rec) => stripFields(doc, policies, { owner: true }),
       parseW = (i: unknown, fb?: W): undefined | W => {
         if (i === undefined) return fb
         const r = wSchema.safeParse(i)
-        return r.success ? (r.data as W) : errValidation('INVALID_WHERE', r.error)
+        if (!r.success) return errValidation('INVALID_WHERE', r.error)
+        for (const g of groupList(r.data as W))
+          assertReadable(
+            policies,
+            Object.keys(g).filter(k => k !== 'own' && g[k] !== undefined),
+            { owner: g.own === true },
+            `${table}:where`
+          )
+        return r.data as W
       },
       defaults = { auth: parseW(opt?.auth?.where), pub: parseW(opt?.pub?.where) },
       enrich = async (c: ReadCtx, docs: Rec[]) =>
         Promise.all(
           (await c.withAuthor(docs as { userId: string }[])).map(async d =>
-            addUrls({ doc: d, fileFields: fileFs, storage: c.storage })
+            stripFields(
+              await addUrls({ db: c.db, doc: d, fileFields: fileFs, storage: c.storage, variants: variantSpecs }),
+              policies,
+              { owner: c.viewerId !== null && d.userId === c.viewerId }
+            )
           )
         ) as Promise<EnrichedDoc<S>[]>,
       buildExpr = (fb: FilterLike, w: WG, vid: null | string) => {
@@ -116,6 +191,18 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
                   and(fb.gte(field, fv.$between[0]))
                   and(fb.lte(field, fv.$between[1]))
                 }
+                if (fv.$ne !== undefined) and(fb.neq(field, fv.$ne))
+                if (fv.$in !== undefined) {
+                  let anyOf: unknown = null
+                  for (const x of fv.$in) anyOf = anyOf ? fb.or(anyOf, fb.eq(field, x)) : fb.eq(field, x)
+                  and(anyOf ?? fb.eq(true, false))
+                }
+                if (fv.$startsWith !== undefined) {
+                  and(fb.gte(field, fv.$startsWith))
+                  and(fb.lt(field, `${fv.$startsWith}${PREFIX_END}`))
+                }
+                // oxlint-disable-next-line unicorn/no-useless-undefined
+                if (fv.$exists !== undefined) and(fv.$exists ? fb.neq(field, undefined) : fb.eq(field, undefined))
               } else and(fb.eq(field, fv))
             }
           }
@@ -123,24 +210,54 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
         if (w.own) and(vid ? fb.eq(fb.field('userId'), vid) : fb.eq(true, false))
         return e
       },
+      needsJsFilter = (g: WG) => Object.values(g).some(fv => isComparisonOp(fv) && fv.$contains !== undefined),
       canUseOwnIndex = (w: undefined | W): boolean => {
         if (!w || (w.or?.length ?? 0) > 0) return false
         const gs = groupList(w)
         return gs.length === 1 && gs[0]?.own === true
       },
-      startQ = (c: ReadCtx, w: undefined | W) =>
-        canUseOwnIndex(w) && c.viewerId
-          ? c.db.query(table).withIndex(
-              'by_user',
-              idx(o => o.eq('userId', c.viewerId))
-            )
-          : c.db.query(table),
+      planW = (w: undefined | W, vid: null | string, orderBy?: OrderBy) => {
+        if (!w || (w.or?.length ?? 0) > 0) return
+        const gs = groupList(w),
+          [g] = gs
+        if (gs.length !== 1 || !g) return
+        if (!orderBy) return eqOnly(planIndex(indexes, g, vid), g)
+        const sortIndex = orderIndex(indexes, orderBy.field)
+        return planIndex(
+          indexes.filter(i => i.name === sortIndex),
+          g,
+          vid
+        )
+      },
+      startQ = (c: ReadCtx, w: undefined | W, orderBy?: OrderBy) => {
+        const plan = planW(w, c.viewerId, orderBy)
+        if (!plan && orderBy) return { qr: c.db.query(table).withIndex(orderIndex(indexes, orderBy.field)), w }
+        if (plan)
+          return {
+            qr: c.db.query(table).withIndex(
+              plan.index,
+              idx(ib => applyPlan(ib, plan))
+            ),
+            w: plan.rest as W
+          }
+        return {
+          qr:
+            canUseOwnIndex(w) && c.viewerId
+              ? c.db.query(table).withIndex(
+                  'by_user',
+                  idx(o => o.eq('userId', c.viewerId))
+                )
+              : c.db.query(table),
+          w
+        }
+      },
       applyW = (qr: ReturnType<ReadCtx['db']['query']>, w: undefined | W, vid: null | string) => {
         let qry = qr
         // oxlint-disable-next-line unicorn/no-useless-undefined
         if (opt?.softDelete) qry = qry.filter((fb: FilterLike) => fb.eq(fb.field('deletedAt'), undefined))
         const gs = groupList(w)
         if (gs.length === 0) return qry
+        if (gs.some(needsJsFilter)) return typed(filter(typed(qry), d => matchW(d as Rec, w, vid)))
         return qry.filter((f: FilterLike) => {
           let e: unknown = null
           for (const g of gs) {
@@ -155,16 +272,19 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
         async (
           c: ReadCtx,
           {
+            orderBy,
             paginationOpts: op,
             where
           }: {
+            orderBy?: OrderBy
             paginationOpts: unknown
             where?: unknown
           }
         ) => {
-          const w = parseW(where, fb),
-            { page, ...rest } = await applyW(startQ(c, w), w, c.viewerId)
-              .order('desc')
+          if (orderBy) assertReadable(policies, [orderBy.field], {}, `${table}:list`)
+          const { qr, w } = startQ(c, parseW(where, fb), orderBy),
+            { page, ...rest } = await applyW(qr, w, c.viewerId)
+              .order(orderBy?.dir ?? 'desc')
               .paginate(op as Rec)
           return { ...rest, page: await enrich(c, page) }
         },
@@ -227,7 +347,7 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
           return searchIndexed(c, qry, w)
         },
       readApi = (wrap: Qb, fb?: W) => ({
-        list: wrap({ args: { paginationOpts: pgOpts, ...wArgs }, handler: typed(listH(fb)) }),
+        list: wrap({ args: { paginationOpts: pgOpts, ...orderArgs, ...wArgs }, handler: typed(listH(fb)) }),
         read: wrap({ args: { ...idArgs, ...ownArg, ...wArgs }, handler: typed(readH(fb)) }),
         ...(searchCfg
           ? {
@@ -268,10 +388,23 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
           warnLargeFilterSet(docs.length, table, 'indexed', strictFilter)
           return enrich(c, docs)
         },
+      // eslint-disable-next-line @typescript-eslint/max-params
+      applyUpdate = async (c: CrudMCtx, id: string, prev: Rec, raw: Rec, expectedUpdatedAt?: number) => {
+        let patch = raw
+        if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(hk(c), { id, patch, prev })
+        await checkFiles({ data: patch, db: c.db, op: `${table}:update`, prev, rules: fileRules })
+        const ret = await c.patch(id, patch, expectedUpdatedAt, policies)
+        await cleanFiles({ db: c.db, doc: prev, fileFields: fileFs, next: patch, storage: c.storage, variants })
+        await queueVariants({ config: variants, data: patch, prev, scheduler: c.scheduler, specs: variantSpecs })
+        if (hooks?.afterUpdate) await hooks.afterUpdate(hk(c), { id, patch, prev })
+        log('info', 'crud:update', { id, table })
+        return ret
+      },
       rmHandler = async (
         c: {
           db: DbLike
           delete: (id: string) => Promise<unknown>
+          scheduler?: SchedulerLike
           storage: StorageLike
           user?: Rec
         },
@@ -284,34 +417,47 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
             return err('NOT_FOUND', `${table}:rm`)
           }
           if (hooks?.beforeDelete)
-            await hooks.beforeDelete({ db: c.db, storage: c.storage, userId: (c.user?._id ?? '') as string }, { doc, id })
-          await dbPatch(c.db, id, { deletedAt: Date.now() })
+            await hooks.beforeDelete(
+              { db: c.db, scheduler: c.scheduler, storage: c.storage, userId: (c.user?._id ?? '') as string },
+              { doc, id }
+            )
+          const deletedAt = Date.now()
+          await dbPatch(c.db, id, { deletedAt })
+          await cascade(c, { graph, id, mode: 'soft', stamp: deletedAt, table })
           if (hooks?.afterDelete)
-            await hooks.afterDelete({ db: c.db, storage: c.storage, userId: (c.user?._id ?? '') as string }, { doc, id })
+            await hooks.afterDelete(
+              { db: c.db, scheduler: c.scheduler, storage: c.storage, userId: (c.user?._id ?? '') as string },
+              { doc, id }
+            )
           log('info', 'crud:delete', { id, soft: true, table })
           return doc
         }
         const doc = await c.db.get(id)
         if (hooks?.beforeDelete && doc)
-          await hooks.beforeDelete({ db: c.db, storage: c.storage, userId: (c.user?._id ?? '') as string }, { doc, id })
-        if (opt?.cascade)
-          for (const { foreignKey: fk, table: tbl } of opt.cascade)
-            for (const r of await c.db
-              .query(tbl)
-              .filter((f: FilterLike) => f.eq(f.field(fk), id))
-              .collect())
-              await dbDelete(c.db, r._id as string)
+          await hooks.beforeDelete(
+            { db: c.db, scheduler: c.scheduler, storage: c.storage, userId: (c.user?._id ?? '') as string },
+            { doc, id }
+          )
+        await cascade(c, { graph, id, mode: 'delete', table, variants })
         const d = await c.delete(id)
-        await cleanFiles({ doc: d as Rec, fileFields: fileFs, storage: c.storage })
+        if (collabFs.length > 0) await dropCollab(c.db, id)
+        await cleanFiles({ db: c.db, doc: d as Rec, fileFields: fileFs, storage: c.storage, variants })
         if (hooks?.afterDelete)
           await hooks.afterDelete(
-            { db: c.db, storage: c.storage, userId: (c.user?._id ?? '') as string },
+            { db: c.db, scheduler: c.scheduler, storage: c.storage, userId: (c.user?._id ?? '') as string },
             { doc: d as Rec, id }
           )
         log('info', 'crud:delete', { id, table })
         return d
       }
-    return {
+    return describeMutations(table, {
+      audit: {
+        fields: policies,
+        viewer: async (c: UserCtx, doc: Rec) => {
+          if (doc.userId !== c.user._id) return err('FORBIDDEN', 'audit:history')
+          return { owner: true }
+        }
+      },
       auth: readApi(q, defaults.auth),
       authIndexed: q({
         args: { index: string(), key: string(), value: string(), ...wArgs },
@@ -324,9 +470,12 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
           if (items.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkCreate`)
           const ids: string[] = []
           for (const item of items) {
+            assertWritable(policies, item, { owner: true }, `${table}:bulkCreate`)
             let data = item
             if (hooks?.beforeCreate) data = await hooks.beforeCreate(hk(c), { data })
+            await checkFiles({ data, db: c.db, op: `${table}:bulkCreate`, rules: fileRules })
             const id = await c.create(table, data)
+            await queueVariants({ config: variants, data, scheduler: c.scheduler, specs: variantSpecs })
             if (hooks?.afterCreate) await hooks.afterCreate(hk(c), { data, id })
             ids.push(id)
           }
@@ -350,24 +499,35 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
         handler: typed(async (c: CrudMCtx, args: Rec) => {
           const { data, ids } = args as { data: Rec; ids: string[] }
           if (ids.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkUpdate`)
+          assertWritable(policies, data, { owner: true }, `${table}:bulkUpdate`)
           const results: unknown[] = []
           for (const id of ids) {
-            const prev = await c.get(id),
-              ret = await c.patch(id, data)
-            await cleanFiles({ doc: prev, fileFields: fileFs, next: data, storage: c.storage })
-            results.push(ret)
+            const prev = await c.get(id)
+            results.push(strip(await applyUpdate(c, id, prev, data)))
           }
           return results
         })
       }),
+      collab: {
+        authorize: (c: MutCtx, doc: Rec, field: string) => {
+          if (doc.userId !== c.user._id) return err('FORBIDDEN', `${table}:update`)
+          assertWritable(policies, { [field]: true }, { owner: true }, `${table}:update`)
+        },
+        rateLimit: opt?.rateLimit,
+        schema,
+        write: async (c: MutCtx, doc: Rec, patch: Rec) => applyUpdate(typed(c), doc._id as string, doc, patch)
+      },
       create: m({
         args: schema.shape,
         handler: typed(async (c: CrudMCtx, a: Rec) => {
           if (opt?.rateLimit && !isTestMode())
             await checkRateLimit(c.db, { config: opt.rateLimit, key: c.user._id as string, table })
+          assertWritable(policies, a, { owner: true }, `${table}:create`)
           let data = a
           if (hooks?.beforeCreate) data = await hooks.beforeCreate(hk(c), { data })
+          await checkFiles({ data, db: c.db, op: `${table}:create`, rules: fileRules })
           const id = await c.create(table, data)
+          await queueVariants({ config: variants, data, scheduler: c.scheduler, specs: variantSpecs })
           if (hooks?.afterCreate) await hooks.afterCreate(hk(c), { data, id })
           log('info', 'crud:create', { table, userId: c.user._id })
           return id
@@ -384,13 +544,14 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
             handler: typed(async (c: CrudMCtx, { id }: { id: string }) => {
               const doc = await c.get(id)
               await dbPatch(c.db, id, { deletedAt: undefined })
-              return { ...doc, deletedAt: undefined }
+              await cascade(c, { graph, id, mode: 'restore', stamp: doc.deletedAt as number | undefined, table })
+              return strip({ ...doc, deletedAt: undefined })
             })
           })
         : undefined,
       rm: m({
         args: idArgs,
-        handler: typed(async (c: CrudMCtx, { id }: { id: string }) => rmHandler(typed(c), { id }))
+        handler: typed(async (c: CrudMCtx, { id }: { id: string }) => strip((await rmHandler(typed(c), { id })) as Rec))
       }),
       update: m({
         args: { ...idArgs, ...partial.shape, expectedUpdatedAt: number().optional() },
@@ -400,26 +561,21 @@ const hk = (c: CrudMCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.
               id: string
             },
             prev = await c.get(id)
-          let patch = rest as Rec
-          if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(hk(c), { id, patch, prev })
-          const ret = await c.patch(id, patch, expectedUpdatedAt)
-          await cleanFiles({ doc: prev, fileFields: fileFs, next: patch, storage: c.storage })
-          if (hooks?.afterUpdate) await hooks.afterUpdate(hk(c), { id, patch, prev })
-          log('info', 'crud:update', { id, table })
-          return ret
+          assertWritable(policies, rest, { owner: true }, `${table}:update`, prev)
+          return strip(await applyUpdate(c, id, prev, rest as Rec, expectedUpdatedAt))
         })
       })
-    } as unknown as CrudResult<S>
+    }) as unknown as CrudResult<S>
   },
   /**
    * Creates a cascade configuration for owned child tables, used with crud's cascade option.
-   * @param _schema - The child table's Zod schema (used for type inference only)
-   * @param config - Object with foreignKey and table name
-   * @returns Cascade config object with foreignKey and table
+   * @param schema - The child table's Zod schema, read for file fields and `deletedAt`
+   * @param config - Object with foreignKey, table name, and optional index (defaults to the first index on foreignKey)
+   * @returns Cascade config object
    */
   ownedCascade = <S extends ZodRawShape>(
-    _schema: ZodObject<S>,
-    config: { foreignKey: keyof S & string; table: string }
-  ): { foreignKey: string; table: string } => config
+    schema: ZodObject<S>,
+    config: { foreignKey: keyof S & string; index?: string; table: string }
+  ): CascadeOption => cascadeEdge(schema.shape, config)
 
 export { makeCrud, ownedCascade }
@@ -1,5 +1,7 @@
 /** biome-ignore-all lint/style/noProcessEnv: env detection */
 /** Returns true when running in convex-test mode (CONVEX_TEST_MODE=true). */
-const isTestMode = () => process.env.CONVEX_TEST_MODE === 'true'
+const isTestMode = () => process.env.CONVEX_TEST_MODE === 'true',
+  /** Returns true when running a production build (NODE_ENV=production). */
+  isProduction = () => process.env.NODE_ENV === 'production'
 
-export { isTestMode }
+export { isProduction, isTestMode }
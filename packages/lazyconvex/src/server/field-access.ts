@@ -0,0 +1,80 @@
+import type { FieldPolicies, FieldRule, Rec } from './types'
+
+import { err } from './helpers'
+
+interface FieldViewer {
+  admin?: boolean
+  owner?: boolean
+}
+
+/**
+ * Checks whether a viewer satisfies a field rule. `owner` is also satisfied by org admins; `none` never is.
+ * @param rule - Field rule, or undefined for unrestricted
+ * @param viewer - Whether the viewer owns the document and/or administers its org
+ * @returns True when access is allowed
+ */
+const canAccess = (rule: FieldRule | undefined, viewer: FieldViewer): boolean =>
+    rule === undefined || (rule === 'owner' ? Boolean(viewer.owner || viewer.admin) : rule === 'admin' && Boolean(viewer.admin)),
+  // eslint-disable-next-line @typescript-eslint/max-params
+  deniedFields = (policies: FieldPolicies | undefined, keys: string[], mode: 'read' | 'write', viewer: FieldViewer) =>
+    policies ? keys.filter(k => !canAccess(policies[k]?.[mode], viewer)).toSorted() : [],
+  failFields = (fields: string[], debug: string, mode: 'read' | 'write'): never => {
+    const sep = debug.indexOf(':')
+    return err('FORBIDDEN', {
+      debug,
+      fields,
+      message: `Cannot ${mode}: ${fields.join(', ')}`,
+      op: debug.slice(sep + 1),
+      table: debug.slice(0, sep)
+    })
+  },
+  /**
+   * Removes fields the viewer may not read, including their generated `Url`/`Urls` companions.
+   * @param doc - Document to strip
+   * @param policies - Field policies from factory options
+   * @param viewer - Whether the viewer owns the document and/or administers its org
+   * @returns The document without hidden fields
+   */
+  stripFields = <D extends Rec>(doc: D, policies: FieldPolicies | undefined, viewer: FieldViewer): D => {
+    const hidden = deniedFields(policies, Object.keys(policies ?? {}), 'read', viewer)
+    if (hidden.length === 0) return doc
+    const drop = new Set(hidden.flatMap(k => [k, `${k}Url`, `${k}Urls`]))
+    return Object.fromEntries(Object.entries(doc).filter(([k]) => !drop.has(k))) as D
+  },
+  /**
+   * Throws FORBIDDEN listing every field in the patch the viewer may not write.
+   * With `prev`, only fields whose value actually changes are checked, so full-form saves pass untouched fields.
+   * @param policies - Field policies from factory options
+   * @param patch - Fields being written
+   * @param viewer - Whether the viewer owns the document and/or administers its org
+   * @param debug - `table:op` label attached to the error
+   * @param prev - Current document, for updates
+   */
+  // eslint-disable-next-line @typescript-eslint/max-params
+  assertWritable = (policies: FieldPolicies | undefined, patch: Rec, viewer: FieldViewer, debug: string, prev?: Rec) => {
+    const fields = deniedFields(
+      policies,
+      Object.keys(patch).filter(k =>
+        prev ? JSON.stringify(patch[k]) !== JSON.stringify(prev[k]) : patch[k] !== undefined
+      ),
+      'write',
+      viewer
+    )
+    if (fields.length > 0) failFields(fields, debug, 'write')
+  },
+  /**
+   * Throws FORBIDDEN when a where clause or sort references fields the viewer may not read,
+   * so hidden values cannot be inferred through filtering.
+   * @param policies - Field policies from factory options
+   * @param keys - Field names used by the query
+   * @param viewer - Whether the viewer owns the matched documents and/or administers their org
+   * @param debug - `table:op` label attached to the error
+   */
+  // eslint-disable-next-line @typescript-eslint/max-params
+  assertReadable = (policies: FieldPolicies | undefined, keys: string[], viewer: FieldViewer, debug: string) => {
+    const fields = deniedFields(policies, keys, 'read', viewer)
+    if (fields.length > 0) failFields(fields, debug, 'read')
+  }
+
+export type { FieldViewer }
+export { assertReadable, assertWritable, canAccess, stripFields }
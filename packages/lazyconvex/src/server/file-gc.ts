@@ -0,0 +1,211 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: pages are read one after another */
+import type { ActionBuilder, GenericDataModel, MutationBuilder, QueryBuilder } from 'convex/server'
+
+import { anyApi } from 'convex/server'
+import { v } from 'convex/values'
+
+import type { DbLike, Rec, SchedulerLike, StorageLike, ValueShape } from './types'
+
+import { idx } from './bridge'
+import { log } from './helpers'
+
+interface FileGcConfig<DM extends GenericDataModel = GenericDataModel> {
+  graceMs?: number
+  internalAction: ActionBuilder<DM, 'internal'>
+  internalMutation: MutationBuilder<DM, 'internal'>
+  internalQuery: QueryBuilder<DM, 'internal'>
+  namespace?: string
+  references?: Record<string, string[]>
+  schema: { tables: Record<string, unknown> }
+}
+
+/** Outcome of one run over all of storage; `orphans` lists at most `FILE_GC_SAMPLE` ids. */
+interface FileGcReport {
+  bytes: number
+  deleted: number
+  orphans: string[]
+  scanned: number
+  total: number
+}
+
+interface SweepArgs {
+  batchSize?: number
+  before?: number
+}
+
+interface GcActionCtx {
+  runQuery: (ref: unknown, args: Rec) => Promise<unknown>
+  scheduler: SchedulerLike
+}
+
+interface Page<T> {
+  continueCursor: string
+  isDone: boolean
+  page: T[]
+}
+
+/** How old an unreferenced blob must be before `fileGc` deletes it, so uploads still being attached are left alone. */
+const FILE_GC_GRACE_MS = 24 * 60 * 60 * 1000,
+  FILE_GC_SAMPLE = 20,
+  GC_BATCH = 100,
+  DOC_PAGE = 100,
+  STORAGE_PAGE = 500,
+  /**
+   * Checks whether a Convex validator can hold a storage id: a `v.id('_storage')`, a `v.any()` such as a version
+   * snapshot or audit change, or either of those inside an array, object, record, or union member.
+   * @param shape - Validator of one field
+   * @returns True when a storage id can appear in the field's value
+   */
+  holdsFiles = (shape: undefined | ValueShape): boolean => {
+    if (!shape) return false
+    if (shape.kind === 'id') return shape.tableName === '_storage'
+    if (shape.kind === 'any') return true
+    if (shape.kind === 'array') return holdsFiles(shape.element)
+    if (shape.kind === 'object') return Object.values(shape.fields ?? {}).some(holdsFiles)
+    if (shape.kind === 'record') return holdsFiles(shape.value)
+    if (shape.kind === 'union') return (shape.members ?? []).some(holdsFiles)
+    return false
+  },
+  /**
+   * Lists the fields of every table in a Convex schema that can hold storage ids, read from the table validators, so
+   * `cvFile` fields, lazyconvex's own tables, version snapshots, and the audit trail are all covered.
+   * @param schema - Convex schema from `defineSchema`
+   * @returns Field names keyed by table, for tables that have any
+   */
+  storageFieldsOf = (schema: { tables: Record<string, unknown> }) => {
+    const out: Record<string, string[]> = {}
+    for (const [table, def] of Object.entries(schema.tables)) {
+      const fields = (def as { validator?: ValueShape }).validator?.fields ?? {},
+        names = Object.keys(fields).filter(k => holdsFiles(fields[k]))
+      if (names.length > 0) out[table] = names
+    }
+    return out
+  },
+  collectStrings = (value: unknown, out: Set<string>) => {
+    if (typeof value === 'string') out.add(value)
+    else if (Array.isArray(value)) for (const x of value) collectStrings(x, out)
+    else if (value && typeof value === 'object') for (const x of Object.values(value)) collectStrings(x, out)
+  },
+  /**
+   * Creates the orphaned storage collector. `collect` reads every table of `schema` that can hold a storage id (plus
+   * `references`) once, then walks storage page by page and deletes, in scheduled batches, every blob older than
+   * `graceMs` that nothing references. Org export archives are kept through their `orgExport` row. `report` runs the
+   * same scan without deleting. Export every returned function from the module named by `namespace`.
+   * @param config - Internal builders, the Convex schema, extra reference fields, grace period, and namespace
+   * @returns Object with `collect`, `report`, `deleteBlobs`, `referencedPage`, and `storagePage`
+   */
+  makeFileGc = <DM extends GenericDataModel>(config: FileGcConfig<DM>) => {
+    const {
+        graceMs = FILE_GC_GRACE_MS,
+        internalAction,
+        internalMutation,
+        internalQuery,
+        namespace = 'fileGc',
+        references,
+        schema
+      } = config,
+      tPath = (anyApi as Rec)[namespace] as Rec,
+      tables = storageFieldsOf(schema)
+    for (const [table, fields] of Object.entries(references ?? {}))
+      tables[table] = [...new Set([...(tables[table] ?? []), ...fields])]
+    const storagePage = internalQuery({
+        args: { before: v.number(), cursor: v.union(v.string(), v.null()), numItems: v.number() },
+        handler: async (
+          c: { db: DbLike },
+          { before, cursor, numItems }: { before: number; cursor: null | string; numItems: number }
+        ) => {
+          const res = await c.db.system
+            .query('_storage')
+            .withIndex(
+              'by_creation_time',
+              idx(q => q.lt('_creationTime', before))
+            )
+            .paginate({ cursor, numItems })
+          return { ...res, page: res.page.map(b => ({ _id: b._id as string, size: b.size as number })) }
+        }
+      } as never),
+      referencedPage = internalQuery({
+        args: { cursor: v.union(v.string(), v.null()), fields: v.array(v.string()), table: v.string() },
+        handler: async (
+          c: { db: DbLike },
+          { cursor, fields, table }: { cursor: null | string; fields: string[]; table: string }
+        ) => {
+          const res = await c.db.query(table).paginate({ cursor, numItems: DOC_PAGE }),
+            ids = new Set<string>()
+          for (const doc of res.page) for (const f of fields) collectStrings(doc[f], ids)
+          return { continueCursor: res.continueCursor, ids: [...ids], isDone: res.isDone }
+        }
+      } as never),
+      deleteBlobs = internalMutation({
+        args: { ids: v.array(v.id('_storage')) },
+        handler: async (c: { storage: StorageLike }, { ids }: { ids: string[] }) => {
+          const sr = await Promise.allSettled(ids.map(async id => c.storage.delete(id)))
+          for (const r of sr)
+            if (r.status === 'rejected') log('warn', 'fileGc:delete_failed', { reason: String(r.reason) })
+          return sr.filter(r => r.status === 'fulfilled').length
+        }
+      } as never),
+      sweep = async (c: GcActionCtx, dryRun: boolean, args: SweepArgs): Promise<FileGcReport> => {
+        const before = args.before ?? Date.now() - graceMs,
+          numItems = Math.min(args.batchSize ?? STORAGE_PAGE, STORAGE_PAGE),
+          referenced = new Set<string>(),
+          orphans: string[] = []
+        for (const [table, fields] of Object.entries(tables)) {
+          let cursor: null | string = null,
+            isDone = false
+          while (!isDone) {
+            const res = (await c.runQuery(tPath.referencedPage, { cursor, fields, table })) as Page<never> & {
+              ids: string[]
+            }
+            for (const id of res.ids) referenced.add(id)
+            cursor = res.continueCursor
+            isDone = res.isDone
+          }
+        }
+        let cursor: null | string = null,
+          isDone = false,
+          bytes = 0,
+          scanned = 0
+        while (!isDone) {
+          const blobs = (await c.runQuery(tPath.storagePage, { before, cursor, numItems })) as Page<{
+            _id: string
+            size: number
+          }>
+          scanned += blobs.page.length
+          for (const b of blobs.page)
+            if (!referenced.has(b._id)) {
+              orphans.push(b._id)
+              bytes += b.size
+            }
+          cursor = blobs.continueCursor
+          isDone = blobs.isDone
+        }
+        if (!dryRun)
+          for (let i = 0; i < orphans.length; i += GC_BATCH)
+            await c.scheduler.runAfter(0, tPath.deleteBlobs, { ids: orphans.slice(i, i + GC_BATCH) })
+        log('info', dryRun ? 'fileGc:report' : 'fileGc:collect', { bytes, orphans: orphans.length, scanned })
+        return {
+          bytes,
+          deleted: dryRun ? 0 : orphans.length,
+          orphans: orphans.slice(0, FILE_GC_SAMPLE),
+          scanned,
+          total: orphans.length
+        }
+      },
+      sweepArgs = {
+        batchSize: v.optional(v.number()),
+        before: v.optional(v.number())
+      },
+      collect = internalAction({
+        args: sweepArgs,
+        handler: async (c: GcActionCtx, args: SweepArgs) => sweep(c, false, args)
+      } as never),
+      report = internalAction({
+        args: sweepArgs,
+        handler: async (c: GcActionCtx, args: SweepArgs) => sweep(c, true, args)
+      } as never)
+    return { collect, deleteBlobs, referencedPage, report, storagePage }
+  }
+
+export type { FileGcConfig, FileGcReport }
+export { FILE_GC_GRACE_MS, makeFileGc, storageFieldsOf }
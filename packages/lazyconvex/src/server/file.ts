@@ -3,12 +3,14 @@ import type { ActionBuilder, GenericDataModel, MutationBuilder, QueryBuilder } f
 import { anyApi } from 'convex/server'
 import { ConvexError, v } from 'convex/values'
 
-import type { DbLike, ErrorCode, FilterLike, Rec } from './types'
+import type { DbLike, ErrorCode, FilterLike, Rec, SchedulerLike } from './types'
 
-import { BYTES_PER_MB } from '../constants'
+import { BYTES_PER_MB, CHUNK_SIZE } from '../constants'
+import { SNIFF_BYTES, sniffContentType } from '../file-type'
 import { idx } from './bridge'
 import { isTestMode } from './env'
 import { log } from './helpers'
+import { variantRows } from './image-variants'
 
 interface FileActionCtx {
   runMutation: (...a: unknown[]) => Promise<unknown>
@@ -18,6 +20,7 @@ interface FileActionCtx {
 
 interface FileCtx {
   db: DbLike
+  scheduler?: SchedulerLike
   storage: FileStor
 }
 interface FileStor {
@@ -38,6 +41,7 @@ interface FileUploadConfig<DM extends GenericDataModel = GenericDataModel> {
   mutation: MutationBuilder<DM, 'public'>
   namespace: string
   query: QueryBuilder<DM, 'public'>
+  sessionTtl?: number
 }
 
 const DEFAULT_ALLOWED_TYPES = new Set([
@@ -56,14 +60,71 @@ const DEFAULT_ALLOWED_TYPES = new Set([
     'text/plain'
   ]),
   DEFAULT_MAX_FILE_SIZE = 10 * BYTES_PER_MB,
-  CHUNK_SIZE = 5 * BYTES_PER_MB,
   RATE_LIMIT_WINDOW = 60 * 1000,
   MAX_UPLOADS_PER_WINDOW = 10,
+  /** How long a chunked upload session is kept before `expireUploads` removes it and any chunks left over. */
+  UPLOAD_SESSION_TTL = 24 * 60 * 60 * 1000,
+  EXPIRE_BATCH = 50,
+  SESSION_STATUSES = ['pending', 'assembling', 'failed', 'completed'] as const,
   cvErr = (code: ErrorCode, message?: string) => new ConvexError(message ? { code, message } : { code }),
+  findSession = async (db: DbLike, uploadId: string) =>
+    db
+      .query('uploadSession')
+      .withIndex(
+        'by_upload_id',
+        idx(q => q.eq('uploadId', uploadId))
+      )
+      .unique(),
+  sessionChunks = async (db: DbLike, uploadId: string) =>
+    db
+      .query('uploadChunk')
+      .withIndex(
+        'by_upload',
+        idx(q => q.eq('uploadId', uploadId))
+      )
+      .collect(),
+  /**
+   * Returns the byte size a chunk must have: `CHUNK_SIZE` for every chunk but the last, which holds the remainder.
+   * @param session - Upload session with `totalChunks` and `totalSize`
+   * @param chunkIndex - Zero-based chunk index
+   * @returns Expected size in bytes
+   */
+  expectedChunkSize = (session: Rec, chunkIndex: number) =>
+    chunkIndex < (session.totalChunks as number) - 1
+      ? CHUNK_SIZE
+      : (session.totalSize as number) - CHUNK_SIZE * ((session.totalChunks as number) - 1),
+  /**
+   * Streams chunk blobs in order, downloading the next one only when the reader asks for it.
+   * @param storage - Action storage to read chunks from
+   * @param chunks - Chunks in assembly order with their expected sizes
+   * @returns Stream of the joined file's bytes
+   */
+  chunkStream = (storage: FileStor, chunks: { size: number; storageId: string }[]) => {
+    let next = 0
+    return new ReadableStream<Uint8Array>({
+      pull: async ctl => {
+        const chunk = chunks[next]
+        next += 1
+        if (!chunk) {
+          ctl.close()
+          return
+        }
+        const blob = await storage.get(chunk.storageId)
+        if (blob?.size !== chunk.size) throw cvErr('CHUNK_NOT_FOUND')
+        ctl.enqueue(new Uint8Array(await blob.arrayBuffer()))
+      }
+    })
+  },
   /**
    * Creates a complete file upload system with single-file upload, validation, chunked upload, and progress tracking.
-   * @param config - Upload configuration including builders, auth, allowed types, max size, and namespace
-   * @returns Object with upload, validate, info, chunked upload endpoints, and CHUNK_SIZE constant
+   * Chunks are checked against their SHA-256 on confirm and again before assembly, assembly streams them into storage
+   * one at a time, and `expireUploads` removes sessions older than `sessionTtl`, finished or not. `inspect` detects a
+   * blob's type from its magic bytes and records it for the `cvFile({ accept })` checks that crud factories run on
+   * write. The first caller to inspect a fresh blob claims it, and an assembled file belongs to its session's user;
+   * anyone else gets `UNAUTHORIZED`. A failed check is reported, never deleted, and records expire with sessions.
+   * `saveVariants` stores what `generateVariants` renders, and `variant` resolves one of them to a URL.
+   * @param config - Upload configuration including builders, auth, allowed types, max size, session TTL, and namespace
+   * @returns Object with upload, validate, inspect, info, variant, chunked upload endpoints, and CHUNK_SIZE constant
    */
   makeFileUpload = <DM extends GenericDataModel>(config: FileUploadConfig<DM>) => {
     const {
@@ -75,7 +136,8 @@ const DEFAULT_ALLOWED_TYPES = new Set([
         maxFileSize = DEFAULT_MAX_FILE_SIZE,
         mutation,
         namespace,
-        query
+        query,
+        sessionTtl = UPLOAD_SESSION_TTL
       } = config,
       tPath = (anyApi as Rec)[namespace] as Rec,
       authUserId = async (ctx: unknown) => getAuthUserId(ctx),
@@ -138,6 +200,65 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           return { contentType: meta.contentType, size: meta.size, valid: true }
         }
       } as never),
+      recordCheck = internalMutation({
+        args: { contentType: v.string(), id: v.id('_storage'), userId: v.id('users') },
+        handler: async (
+          c: FileCtx,
+          { contentType, id, userId }: { contentType: string; id: string; userId: string }
+        ) => {
+          const meta = await c.db.system.get(id)
+          if (!meta) return { code: 'FILE_NOT_FOUND' as const }
+          const [session, existing] = await Promise.all([
+              c.db
+                .query('uploadSession')
+                .withIndex(
+                  'by_final_storage',
+                  idx(q => q.eq('finalStorageId', id))
+                )
+                .first(),
+              c.db
+                .query('uploadCheck')
+                .withIndex(
+                  'by_storage',
+                  idx(q => q.eq('storageId', id))
+                )
+                .first()
+            ]),
+            owner = session?.userId ?? existing?.userId
+          if (owner ? owner !== userId : (meta._creationTime as number) < Date.now() - sessionTtl)
+            return { code: 'UNAUTHORIZED' as const }
+          const size = meta.size as number,
+            code = allowedTypes.has(contentType) ? (size > maxFileSize ? 'FILE_TOO_LARGE' : null) : 'INVALID_FILE_TYPE'
+          if (code) return { code, contentType, size }
+          if (existing) await c.db.patch(existing._id as string, { contentType, size })
+          else await c.db.insert('uploadCheck', { contentType, size, storageId: id, userId })
+          return { code: null, contentType, size }
+        }
+      } as never),
+      inspect = action({
+        args: { id: v.id('_storage') },
+        handler: async (c: FileActionCtx, { id }: { id: string }) => {
+          const userId = await authUserId(c)
+          if (!userId) throw cvErr('NOT_AUTHENTICATED')
+          const blob = await c.storage.get(id)
+          if (!blob) throw cvErr('FILE_NOT_FOUND')
+          const head = new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer()),
+            res = (await c.runMutation(tPath.recordCheck, {
+              contentType: sniffContentType(head, blob.type),
+              id,
+              userId
+            })) as {
+              code: ErrorCode | null
+              contentType: string
+              size: number
+            }
+          if (res.code === 'INVALID_FILE_TYPE') throw cvErr(res.code, `File type ${res.contentType} not allowed`)
+          if (res.code === 'FILE_TOO_LARGE') throw cvErr(res.code, `File size ${res.size} exceeds ${maxFileSize} bytes`)
+          if (res.code === 'UNAUTHORIZED') throw cvErr(res.code, 'Only the uploader can inspect a file')
+          if (res.code) throw cvErr(res.code)
+          return { contentType: res.contentType, size: res.size }
+        }
+      } as never),
       info = query({
         args: { id: v.id('_storage') },
         handler: async (c: FileCtx, { id }: { id: string }) => {
@@ -147,6 +268,40 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           return meta ? { ...meta, url } : null
         }
       } as never),
+      saveVariants = internalMutation({
+        args: {
+          source: v.id('_storage'),
+          variants: v.array(v.object({ name: v.string(), storageId: v.id('_storage') }))
+        },
+        handler: async (
+          c: FileCtx,
+          { source, variants }: { source: string; variants: { name: string; storageId: string }[] }
+        ) => {
+          if (!(await c.db.system.get(source))) {
+            await Promise.all(variants.map(async x => c.storage.delete(x.storageId)))
+            return 0
+          }
+          const rows = await variantRows(c.db, source)
+          for (const x of variants) {
+            const old = rows.find(r => r.name === x.name)
+            if (old) {
+              // biome-ignore lint/performance/noAwaitInLoops: one variant replaced at a time
+              await c.storage.delete(old.storageId as string)
+              await c.db.patch(old._id as string, { storageId: x.storageId })
+            } else await c.db.insert('fileVariant', { name: x.name, source, storageId: x.storageId })
+          }
+          return variants.length
+        }
+      } as never),
+      variant = query({
+        args: { id: v.id('_storage'), name: v.string() },
+        handler: async (c: FileCtx, { id, name }: { id: string; name: string }) => {
+          const userId = await authUserId(c)
+          if (!userId) throw cvErr('NOT_AUTHENTICATED')
+          const row = (await variantRows(c.db, id)).find(r => r.name === name)
+          return row ? c.storage.getUrl(row.storageId as string) : null
+        }
+      } as never),
       startChunkedUpload = mutation({
         args: {
           contentType: v.string(),
@@ -168,6 +323,11 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           if (!isTestMode()) await checkRateLimit(c.db, userId)
           if (!allowedTypes.has(contentType)) throw cvErr('INVALID_FILE_TYPE', `File type ${contentType} not allowed`)
           if (totalSize > maxFileSize) throw cvErr('FILE_TOO_LARGE', `File size ${totalSize} exceeds ${maxFileSize} bytes`)
+          if (totalChunks !== Math.max(1, Math.ceil(totalSize / CHUNK_SIZE)))
+            throw cvErr(
+              'INVALID_CHUNK',
+              `${totalSize} bytes need ${Math.ceil(totalSize / CHUNK_SIZE)} chunks of ${CHUNK_SIZE}`
+            )
           const uploadId = `${userId}_${Date.now()}_${Math.random().toString(36).slice(2)}`
           await c.db.insert('uploadSession', {
             completedChunks: 0,
@@ -214,46 +374,54 @@ const DEFAULT_ALLOWED_TYPES = new Set([
       } as never),
       confirmChunk = mutation({
         args: {
+          checksum: v.string(),
           chunkIndex: v.number(),
           storageId: v.id('_storage'),
           uploadId: v.string()
         },
         handler: async (
           c: FileCtx,
-          { chunkIndex, storageId, uploadId }: { chunkIndex: number; storageId: string; uploadId: string }
+          {
+            checksum,
+            chunkIndex,
+            storageId,
+            uploadId
+          }: { checksum: string; chunkIndex: number; storageId: string; uploadId: string }
         ) => {
           const userId = await authUserId(c)
           if (!userId) throw cvErr('NOT_AUTHENTICATED')
-          const session = await c.db
-            .query('uploadSession')
-            .withIndex(
-              'by_upload_id',
-              idx(q => q.eq('uploadId', uploadId))
-            )
-            .unique()
+          const session = await findSession(c.db, uploadId)
           if (!session) throw cvErr('SESSION_NOT_FOUND')
           if (session.userId !== userId) throw cvErr('UNAUTHORIZED')
-          await c.db.insert('uploadChunk', {
-            chunkIndex,
-            storageId,
-            totalChunks: session.totalChunks,
-            uploadId,
-            userId
-          })
-          const chunks = await c.db
-            .query('uploadChunk')
-            .withIndex(
-              'by_upload',
-              idx(q => q.eq('uploadId', uploadId))
-            )
-            .collect()
-          await c.db.patch(session._id as string, {
-            completedChunks: chunks.length
-          })
-          const allUploaded = chunks.length === session.totalChunks
+          if (session.status !== 'pending') throw cvErr('INVALID_SESSION_STATE')
+          const meta = await c.db.system.get(storageId)
+          if (!meta) throw cvErr('FILE_NOT_FOUND')
+          if ((meta._creationTime as number) < (session._creationTime as number))
+            throw cvErr('INVALID_CHUNK', 'Chunk was stored before its upload session started')
+          const size = expectedChunkSize(session, chunkIndex)
+          if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= (session.totalChunks as number))
+            throw cvErr('INVALID_CHUNK', `Chunk ${chunkIndex} is out of range`)
+          if (meta.size !== size)
+            throw cvErr('INVALID_CHUNK', `Chunk ${chunkIndex} is ${String(meta.size)} bytes, expected ${size}`)
+          if (meta.sha256 !== checksum) throw cvErr('CHECKSUM_MISMATCH', `Chunk ${chunkIndex}`)
+          const chunks = await sessionChunks(c.db, uploadId),
+            existing = chunks.find(ch => ch.chunkIndex === chunkIndex)
+          if (existing && existing.storageId !== storageId) throw cvErr('CHUNK_ALREADY_UPLOADED', `Chunk ${chunkIndex}`)
+          if (!existing)
+            await c.db.insert('uploadChunk', {
+              checksum,
+              chunkIndex,
+              size,
+              storageId,
+              totalChunks: session.totalChunks,
+              uploadId,
+              userId
+            })
+          const completedChunks = chunks.length + (existing ? 0 : 1)
+          await c.db.patch(session._id as string, { completedChunks })
           return {
-            allUploaded,
-            completedChunks: chunks.length,
+            allUploaded: completedChunks === session.totalChunks,
+            completedChunks,
             totalChunks: session.totalChunks
           }
         }
@@ -280,6 +448,38 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           return { ...session, chunks }
         }
       } as never),
+      beginAssembly = internalMutation({
+        args: { uploadId: v.string() },
+        handler: async (c: FileCtx, { uploadId }: { uploadId: string }) => {
+          const session = await findSession(c.db, uploadId)
+          if (!session) throw cvErr('SESSION_NOT_FOUND')
+          if (session.status !== 'pending') throw cvErr('INVALID_SESSION_STATE')
+          const chunks = (await sessionChunks(c.db, uploadId)).toSorted(
+            (a, b) => (a.chunkIndex as number) - (b.chunkIndex as number)
+          )
+          if (chunks.length !== session.totalChunks) throw cvErr('INCOMPLETE_UPLOAD')
+          for (const chunk of chunks) {
+            // biome-ignore lint/performance/noAwaitInLoops: stops at the first bad chunk
+            const meta = await c.db.system.get(chunk.storageId as string)
+            if (!meta) throw cvErr('CHUNK_NOT_FOUND', `Chunk ${String(chunk.chunkIndex)}`)
+            if (!chunk.checksum || meta.sha256 !== chunk.checksum)
+              throw cvErr('CHECKSUM_MISMATCH', `Chunk ${String(chunk.chunkIndex)}`)
+          }
+          await c.db.patch(session._id as string, { status: 'assembling' })
+          return {
+            chunks: chunks.map(ch => ({ size: ch.size as number, storageId: ch.storageId as string })),
+            contentType: session.contentType as string,
+            totalSize: session.totalSize as number
+          }
+        }
+      } as never),
+      releaseAssembly = internalMutation({
+        args: { uploadId: v.string() },
+        handler: async (c: FileCtx, { uploadId }: { uploadId: string }) => {
+          const session = await findSession(c.db, uploadId)
+          if (session?.status === 'assembling') await c.db.patch(session._id as string, { status: 'pending' })
+        }
+      } as never),
       finalizeAssembly = internalMutation({
         args: {
           chunkStorageIds: v.array(v.id('_storage')),
@@ -302,6 +502,11 @@ const DEFAULT_ALLOWED_TYPES = new Set([
             )
             .unique()
           if (!session) throw cvErr('SESSION_NOT_FOUND')
+          const meta = await c.db.system.get(finalStorageId)
+          if (meta?.size !== session.totalSize) {
+            await c.storage.delete(finalStorageId)
+            return false
+          }
           await c.db.patch(session._id as string, { finalStorageId, status: 'completed' })
           const chunks = await c.db
               .query('uploadChunk')
@@ -314,6 +519,7 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           for (const r of sr)
             if (r.status === 'rejected') log('warn', 'file:chunk_cleanup_failed', { reason: String(r.reason) })
           await Promise.all(chunks.map(async (chunk: Rec) => c.db.delete(chunk._id as string)))
+          return true
         }
       } as never),
       assembleChunks = action({
@@ -322,30 +528,30 @@ const DEFAULT_ALLOWED_TYPES = new Set([
           c: FileActionCtx,
           { uploadId }: { uploadId: string }
         ): Promise<{ contentType: string; size: number; storageId: string }> => {
-          const session = (await c.runQuery(tPath.getSessionForAssembly, { uploadId })) as null | Rec
-          if (!session) throw cvErr('SESSION_NOT_FOUND')
-          if (session.status !== 'pending') throw cvErr('INVALID_SESSION_STATE')
-          const sortedChunks = (session.chunks as Rec[]).toSorted(
-              (a: Rec, b: Rec) => (a.chunkIndex as number) - (b.chunkIndex as number)
-            ),
-            chunkBlobs = await Promise.all(
-              sortedChunks.map(async (chunk: Rec) => {
-                const blob = await c.storage.get(chunk.storageId as string)
-                if (!blob) throw cvErr('CHUNK_NOT_FOUND')
-                return blob
+          const plan = (await c.runMutation(tPath.beginAssembly, { uploadId })) as {
+            chunks: { size: number; storageId: string }[]
+            contentType: string
+            totalSize: number
+          }
+          try {
+            const res = await fetch(await c.storage.generateUploadUrl(), {
+              body: chunkStream(c.storage, plan.chunks),
+              duplex: 'half',
+              headers: { 'Content-Type': plan.contentType },
+              method: 'POST'
+            } as RequestInit)
+            if (!res.ok) throw cvErr('INCOMPLETE_UPLOAD', `Storage upload failed with ${res.status}`)
+            const { storageId: finalStorageId } = (await res.json()) as { storageId: string },
+              finalized = await c.runMutation(tPath.finalizeAssembly, {
+                chunkStorageIds: plan.chunks.map(ch => ch.storageId),
+                finalStorageId,
+                uploadId
               })
-            ),
-            combinedBlob = new Blob(chunkBlobs, { type: session.contentType as string }),
-            finalStorageId = await c.storage.store(combinedBlob)
-          await c.runMutation(tPath.finalizeAssembly, {
-            chunkStorageIds: sortedChunks.map((ch: Rec) => ch.storageId),
-            finalStorageId,
-            uploadId
-          })
-          return {
-            contentType: session.contentType as string,
-            size: session.totalSize as number,
-            storageId: finalStorageId
+            if (!finalized) throw cvErr('INCOMPLETE_UPLOAD')
+            return { contentType: plan.contentType, size: plan.totalSize, storageId: finalStorageId }
+          } catch (error) {
+            await c.runMutation(tPath.releaseAssembly, { uploadId })
+            throw error
           }
         }
       } as never),
@@ -393,29 +599,81 @@ const DEFAULT_ALLOWED_TYPES = new Set([
             .unique()
           if (!session) return null
           if (session.userId !== userId) throw cvErr('UNAUTHORIZED')
+          const chunks = await sessionChunks(c.db, uploadId)
           return {
             completedChunks: session.completedChunks,
+            contentType: session.contentType,
+            fileName: session.fileName,
             finalStorageId: session.finalStorageId,
             progress: Math.round(((session.completedChunks as number) / (session.totalChunks as number)) * 100),
             status: session.status,
-            totalChunks: session.totalChunks
+            totalChunks: session.totalChunks,
+            totalSize: session.totalSize,
+            uploadedChunks: chunks.map(ch => ch.chunkIndex as number).toSorted((a, b) => a - b)
           }
         }
+      } as never),
+      expireUploads = internalMutation({
+        args: { batchSize: v.optional(v.number()) },
+        handler: async (c: FileCtx, { batchSize }: { batchSize?: number }) => {
+          const cut = Date.now() - sessionTtl,
+            limit = Math.min(batchSize ?? EXPIRE_BATCH, EXPIRE_BATCH),
+            expired: Rec[] = []
+          for (const status of SESSION_STATUSES)
+            if (expired.length < limit)
+              expired.push(
+                // biome-ignore lint/performance/noAwaitInLoops: fills one batch across statuses
+                ...(await c.db
+                  .query('uploadSession')
+                  .withIndex(
+                    'by_status',
+                    idx(q => q.eq('status', status).lt('_creationTime', cut))
+                  )
+                  .take(limit - expired.length))
+              )
+          for (const session of expired) {
+            // biome-ignore lint/performance/noAwaitInLoops: bounded by the batch size
+            const chunks = await sessionChunks(c.db, session.uploadId as string),
+              sr = await Promise.allSettled(chunks.map(async ch => c.storage.delete(ch.storageId as string)))
+            for (const r of sr)
+              if (r.status === 'rejected') log('warn', 'file:chunk_cleanup_failed', { reason: String(r.reason) })
+            await Promise.all(chunks.map(async ch => c.db.delete(ch._id as string)))
+            await c.db.delete(session._id as string)
+          }
+          const checks = await c.db
+            .query('uploadCheck')
+            .withIndex(
+              'by_creation_time',
+              idx(q => q.lt('_creationTime', cut))
+            )
+            .take(limit)
+          await Promise.all(checks.map(async ch => c.db.delete(ch._id as string)))
+          if (expired.length >= limit || checks.length >= limit)
+            await c.scheduler?.runAfter(0, tPath.expireUploads, { batchSize })
+          return expired.length
+        }
       } as never)
     return {
       assembleChunks,
+      beginAssembly,
       cancelChunkedUpload,
       CHUNK_SIZE,
       confirmChunk,
+      expireUploads,
       finalizeAssembly,
       getSessionForAssembly,
       getUploadProgress,
       info,
+      inspect,
+      recordCheck,
+      releaseAssembly,
+      saveVariants,
       startChunkedUpload,
       upload,
       uploadChunk,
-      validate
+      validate,
+      variant
     }
   }
 
-export { makeFileUpload }
+export { makeFileUpload, UPLOAD_SESSION_TTL }
@@ -22,8 +22,13 @@ import type {
   WithUrls
 } from './types'
 
-import { cvFileKindOf } from '../zod'
+import type { FileRules } from '../file-type'
+import type { VariantConfig, VariantSpecs } from './image-variants'
+
+import { matchesAccept } from '../file-type'
+import { cvFileKindOf, fileRulesOf } from '../zod'
 import { flt, idx, typed } from './bridge'
+import { addedIds, dropVariants, variantUrls } from './image-variants'
 import { ERROR_MESSAGES } from './types'
 
 const TOKEN_BYTES = 24,
@@ -38,6 +43,20 @@ const TOKEN_BYTES = 24,
     return token.slice(0, TOKEN_LENGTH)
   },
   RUNTIME_FILTER_WARN_THRESHOLD = 1000,
+  WHERE_OPS: ReadonlySet<string> = new Set([
+    '$between',
+    '$contains',
+    '$exists',
+    '$gt',
+    '$gte',
+    '$in',
+    '$lt',
+    '$lte',
+    '$ne',
+    '$startsWith'
+  ]),
+  /** Upper bound appended to a `$startsWith` prefix to express it as a string range. */
+  PREFIX_END = '\u{10FFFF}',
   log = (level: 'debug' | 'error' | 'info' | 'warn', msg: string, data?: Record<string, unknown>) => {
     // eslint-disable-next-line no-console
     console[level](JSON.stringify({ level, msg, ts: Date.now(), ...data }))
@@ -62,9 +81,7 @@ const TOKEN_BYTES = 24,
    */
   isRecord = (v: unknown): v is Record<string, unknown> => Boolean(v) && typeof v === 'object',
   isComparisonOp = (val: unknown): val is ComparisonOp<unknown> =>
-    typeof val === 'object' &&
-    val !== null &&
-    ('$gt' in val || '$gte' in val || '$lt' in val || '$lte' in val || '$between' in val),
+    isRecord(val) && !Array.isArray(val) && Object.keys(val).some(k => WHERE_OPS.has(k)),
   pgOpts = object({
     cursor: nullable(string()),
     endCursor: nullable(string()).optional(),
@@ -74,6 +91,23 @@ const TOKEN_BYTES = 24,
     numItems: number()
   } satisfies PaginationOptsShape),
   detectFiles = <S extends ZodRawShape>(s: S) => (Object.keys(s) as (keyof S & string)[]).filter(k => cvFileKindOf(s[k])),
+  /**
+   * Collects the `cvFile({ accept, maxSize })` constraints of a schema's file fields.
+   * @param s - Table Zod shape
+   * @returns Constraints keyed by field, only for fields that declare any
+   */
+  detectFileRules = (s: ZodRawShape) => {
+    const rules: Record<string, FileRules> = {}
+    for (const k of Object.keys(s)) {
+      const r = fileRulesOf(s[k])
+      if (r) rules[k] = r
+    }
+    return rules
+  },
+  opContext = (debug: string) => {
+    const sep = debug.indexOf(':')
+    return sep > 0 ? { debug, op: debug.slice(sep + 1), table: debug.slice(0, sep) } : { debug }
+  },
   /**
    * Throws a ConvexError with the given error code and optional message or debug context.
    * @param code - The error code to throw
@@ -83,10 +117,63 @@ const TOKEN_BYTES = 24,
   err = (code: ErrorCode, opts?: Record<string, unknown> | string | { message: string }): never => {
     if (!opts) throw new ConvexError({ code })
     if (typeof opts !== 'string') throw new ConvexError({ code, ...opts })
-    const sep = opts.indexOf(':')
-    throw sep > 0
-      ? new ConvexError({ code, debug: opts, op: opts.slice(sep + 1), table: opts.slice(0, sep) })
-      : new ConvexError({ code, debug: opts })
+    throw new ConvexError({ code, ...opContext(opts) })
+  },
+  /**
+   * Throws CONFLICT carrying what a client needs to merge its edit instead of discarding it: the stored doc and, when
+   * the doc as it stood at `expectedUpdatedAt` is known, the fields changed since then.
+   * @param conflict - The stored doc and the doc at `expectedUpdatedAt`, both as the caller is allowed to read them,
+   * and an optional `table:op` context
+   * @returns Never — always throws
+   */
+  conflictErr = ({
+    base,
+    current,
+    op
+  }: {
+    base?: Record<string, unknown>
+    current: Record<string, unknown>
+    op?: string
+  }): never =>
+    err('CONFLICT', {
+      ...(base
+        ? {
+            changed: [...new Set([...Object.keys(base), ...Object.keys(current)])].filter(
+              k => k !== 'updatedAt' && JSON.stringify(base[k]) !== JSON.stringify(current[k])
+            )
+          }
+        : {}),
+      current,
+      ...(op ? opContext(op) : {})
+    }),
+  /**
+   * Rebuilds a doc as it stood at `updatedAt` by undoing the changes the audit trail recorded since.
+   * Looks back at most 100 entries.
+   * @param db - Database reader with `auditTables()` in the schema
+   * @param doc - The stored doc
+   * @param updatedAt - The `updatedAt` the caller last read
+   * @returns The doc at that time, or undefined when the trail does not reach back to it
+   */
+  auditedDocAt = async (
+    db: DbLike,
+    doc: Record<string, unknown>,
+    updatedAt: number
+  ): Promise<Record<string, unknown> | undefined> => {
+    const entries = await db
+        .query('audit')
+        .withIndex(
+          'by_doc',
+          idx(o => o.eq('docId', doc._id as string))
+        )
+        .order('desc')
+        .take(100),
+      base: Record<string, unknown> = { ...doc }
+    for (const e of entries) {
+      if (e.at === updatedAt) return { ...base, updatedAt }
+      if (e.op !== 'update' || typeof e.at !== 'number' || e.at < updatedAt) return
+      for (const { field, from } of (e.changes as { field: string; from?: unknown }[] | undefined) ?? [])
+        base[field] = from
+    }
   },
   noFetcher = (): never => err('NO_FETCHER'),
   /**
@@ -126,13 +213,55 @@ const TOKEN_BYTES = 24,
     }
   }),
   toId = (x: unknown): FID | null => (typeof x === 'string' ? (x as FID) : null),
+  /**
+   * Enforces per-field file constraints on the storage ids a write introduces. Size comes from `_storage`, and the
+   * type from the `uploadCheck` row that `inspect` wrote after reading the blob's magic bytes, never from the
+   * upload header. Ids already on `prev` are not checked again.
+   * @param opts - Database, constraints from `detectFileRules`, the written fields, the previous document, and the op
+   */
+  checkFiles = async (opts: {
+    data: Record<string, unknown>
+    db: DbLike
+    op: string
+    prev?: Record<string, unknown>
+    rules: Record<string, FileRules>
+  }) => {
+    const { data, db, op, prev, rules } = opts
+    for (const [f, r] of Object.entries(rules)) {
+      for (const id of addedIds(data[f], prev?.[f])) {
+        const meta = await db.system.get(id)
+        if (!meta) return err('FILE_NOT_FOUND', `${op}:${f}`)
+        if (r.maxSize !== undefined && (meta.size as number) > r.maxSize)
+          return err('FILE_TOO_LARGE', { message: `${f} must be at most ${r.maxSize} bytes`, op })
+        if (r.accept?.length) {
+          const check = await db
+            .query('uploadCheck')
+            .withIndex(
+              'by_storage',
+              idx(q => q.eq('storageId', id))
+            )
+            .first()
+          if (!(check && matchesAccept(check.contentType as string, r.accept)))
+            return err('INVALID_FILE_TYPE', { message: `${f} must be ${r.accept.join(', ')}`, op })
+        }
+      }
+    }
+  },
+  /**
+   * Deletes the blobs a write or delete drops from file fields, along with their stored image variants when `db`
+   * is given and the variant config is enabled.
+   * @param opts - The document before the write, its file fields, the written fields (none for a delete), storage,
+   * the database, and the variant config from `setup`
+   */
   cleanFiles = async (opts: {
+    db?: DbLike
     doc: Record<string, unknown>
     fileFields: string[]
     next?: Record<string, unknown>
     storage: StorageLike
+    variants?: VariantConfig
   }) => {
-    const { doc, fileFields, next, storage } = opts
+    const { db, doc, fileFields, next, storage, variants } = opts
     if (fileFields.length === 0) return
     const del = new Set<FID>()
     for (const f of fileFields) {
@@ -159,16 +288,43 @@ const TOKEN_BYTES = 24,
       const results = await Promise.allSettled([...del].map(async id => storage.delete(id)))
       for (const r of results)
         if (r.status === 'rejected') log('warn', 'file:cleanup_failed', { reason: String(r.reason) })
+      if (db && variants?.enabled) await dropVariants(db, storage, del)
     }
   },
+  /**
+   * Deletes the collab op log and snapshots of a doc that is gone, so no collab rows outlive it.
+   * @param db - Database writer
+   * @param docId - Id of the deleted doc
+   */
+  dropCollab = async (db: DbLike, docId: string) => {
+    for (const table of ['collabOp', 'collabSnapshot'])
+      for (const r of await db
+        .query(table)
+        .withIndex(
+          'by_doc_field',
+          idx(o => o.eq('docId', docId))
+        )
+        .collect())
+        await db.delete(r._id as string)
+  },
+  /**
+   * Adds `${field}Url` for single files and `${field}Urls` for file arrays. Single-file fields listed in `variants`
+   * get `${field}Urls` keyed by variant name instead, once `generateVariants` has stored them.
+   * @param opts - The document, its file fields, storage, and optionally the database and `detectVariants` specs
+   * @returns The document with URL fields
+   */
   addUrls = async <D extends Record<string, unknown>>({
+    db,
     doc,
     fileFields,
-    storage
+    storage,
+    variants
   }: {
+    db?: DbLike
     doc: D
     fileFields: string[]
     storage: StorageLike
+    variants?: VariantSpecs
   }): Promise<WithUrls<D>> => {
     if (fileFields.length === 0) return doc as WithUrls<D>
     const o = { ...doc } as Record<string, unknown>,
@@ -182,12 +338,15 @@ const TOKEN_BYTES = 24,
         o[Array.isArray(fv) ? `${f}Urls` : `${f}Url`] = Array.isArray(fv)
           ? await Promise.all(fv.map(getUrl))
           : await getUrl(fv)
+      const id = toId(fv)
+      if (db && id && variants?.[f]) o[`${f}Urls`] = await variantUrls(db, storage, id)
     }
     return o as WithUrls<D>
   },
   matchField = (docVal: unknown, filterVal: unknown): boolean => {
     if (isComparisonOp(filterVal)) {
-      const dv = docVal as number
+      const dv = docVal as number,
+        { $contains, $exists, $in, $ne, $startsWith } = filterVal
       if (filterVal.$gt !== undefined && !(dv > (filterVal.$gt as number))) return false
       if (filterVal.$gte !== undefined && !(dv >= (filterVal.$gte as number))) return false
       if (filterVal.$lt !== undefined && !(dv < (filterVal.$lt as number))) return false
@@ -196,6 +355,11 @@ const TOKEN_BYTES = 24,
         const [min, max] = filterVal.$between as [number, number]
         if (!(dv >= min && dv <= max)) return false
       }
+      if ($ne !== undefined && Object.is(docVal, $ne)) return false
+      if ($in !== undefined && !$in.some(x => Object.is(docVal, x))) return false
+      if ($contains !== undefined && !(Array.isArray(docVal) && docVal.some(x => Object.is(x, $contains)))) return false
+      if ($startsWith !== undefined && !(typeof docVal === 'string' && docVal.startsWith($startsWith))) return false
+      if ($exists !== undefined && (docVal !== undefined) !== $exists) return false
       return true
     }
     return Object.is(docVal, filterVal)
@@ -293,7 +457,9 @@ const TOKEN_BYTES = 24,
 
 /** Structured error data extracted from a ConvexError, containing the error code and optional context. */
 interface ConvexErrorData {
+  changed?: string[]
   code: ErrorCode
+  current?: Record<string, unknown>
   debug?: string
   fieldErrors?: Record<string, string>
   fields?: string[]
@@ -336,7 +502,9 @@ const extractErrorData = (e: unknown): ConvexErrorData | undefined => {
     const { code } = data
     if (typeof code !== 'string' || !(code in ERROR_MESSAGES)) return
     return {
+      changed: Array.isArray(data.changed) ? (data.changed as string[]) : undefined,
       code: code as ErrorCode,
+      current: isRecord(data.current) ? data.current : undefined,
       debug: typeof data.debug === 'string' ? data.debug : undefined,
       fieldErrors: isRecord(data.fieldErrors) ? (data.fieldErrors as Record<string, string>) : undefined,
       fields: Array.isArray(data.fields) ? (data.fields as string[]) : undefined,
@@ -488,12 +656,17 @@ const extractErrorData = (e: unknown): ConvexErrorData | undefined => {
 export type { ConvexErrorData, ErrorHandler, MutationFail, MutationOk, MutationResult }
 export {
   addUrls,
+  auditedDocAt,
+  checkFiles,
   checkRateLimit,
   cleanFiles,
+  conflictErr,
   dbDelete,
   dbInsert,
   dbPatch,
+  detectFileRules,
   detectFiles,
+  dropCollab,
   err,
   errValidation,
   extractErrorData,
@@ -518,6 +691,7 @@ export {
   ownGet,
   pgOpts,
   pickFields,
+  PREFIX_END,
   readCtx,
   RUNTIME_FILTER_WARN_THRESHOLD,
   SEVEN_DAYS_MS,
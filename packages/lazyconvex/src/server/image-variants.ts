@@ -0,0 +1,201 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: variants are encoded and stored one at a time */
+import type { ActionBuilder, GenericDataModel } from 'convex/server'
+import type { ZodRawShape } from 'zod/v4'
+
+import { anyApi, defineTable } from 'convex/server'
+import { v } from 'convex/values'
+
+import type { ImageVariant } from '../file-type'
+import type { DbLike, Rec, SchedulerLike, StorageLike } from './types'
+
+import { fileVariantsOf } from '../zod'
+import { idx, indexFields } from './bridge'
+
+interface ImageVariantsConfig<DM extends GenericDataModel = GenericDataModel> {
+  fileNamespace?: string
+  internalAction: ActionBuilder<DM, 'internal'>
+}
+
+interface VariantActionCtx {
+  runMutation: (ref: unknown, args: Rec) => Promise<unknown>
+  storage: { get: (id: string) => Promise<Blob | null>; store: (blob: Blob) => Promise<string> }
+}
+
+/** Whether the schema has the `fileVariant` table, and the module that exports `generateVariants`. */
+interface VariantConfig {
+  enabled: boolean
+  namespace: string
+}
+
+type VariantSpecs = Record<string, Record<string, ImageVariant>>
+
+const DEFAULT_QUALITY = 80,
+  OUTPUT_FORMATS = new Set(['avif', 'gif', 'jpeg', 'png', 'webp']),
+  /**
+   * Returns a Convex table definition for stored image variants, indexed by original and variant name.
+   * @returns Object with a `fileVariant` table definition
+   */
+  fileVariantTable = () => ({
+    fileVariant: defineTable({
+      name: v.string(),
+      source: v.id('_storage'),
+      storageId: v.id('_storage')
+    }).index('by_source', indexFields('source', 'name'))
+  }),
+  /**
+   * Builds the variant config `setup` hands to every factory. Variants are only generated, resolved, and cleaned
+   * up when the schema has the `fileVariant` table.
+   * @param opts - Convex module name, defaulting to `imageVariants`, and the app schema
+   * @returns Variant config
+   */
+  variantConfig = ({
+    namespace,
+    schema
+  }: {
+    namespace?: string
+    schema?: { tables: Record<string, unknown> }
+  }): VariantConfig => ({ enabled: Boolean(schema?.tables.fileVariant), namespace: namespace ?? 'imageVariants' }),
+  /**
+   * Collects the `cvFile({ variants })` declarations of a schema.
+   * @param shape - Table Zod shape
+   * @param config - Variant config from `setup`; none, or one without the `fileVariant` table, yields no specs
+   * @returns Variants keyed by field, only for fields that declare any
+   */
+  detectVariants = (shape: ZodRawShape, config?: VariantConfig): VariantSpecs => {
+    const specs: VariantSpecs = {}
+    if (!config?.enabled) return specs
+    for (const k of Object.keys(shape)) {
+      const s = fileVariantsOf(shape[k])
+      if (s) specs[k] = s
+    }
+    return specs
+  },
+  /**
+   * Lists the storage ids a write puts in a file field that the previous document did not have.
+   * @param value - The written field value
+   * @param prev - The field value before the write
+   * @returns New storage ids
+   */
+  addedIds = (value: unknown, prev?: unknown) => {
+    const had = new Set(Array.isArray(prev) ? prev : [prev])
+    return (Array.isArray(value) ? value : [value]).filter((x): x is string => typeof x === 'string' && !had.has(x))
+  },
+  /**
+   * Schedules `generateVariants` for every new image a write puts in a field with variants.
+   * @param opts - Variant config, scheduler, the written fields, the previous document, and specs from
+   * `detectVariants`
+   */
+  queueVariants = async (opts: {
+    config?: VariantConfig
+    data: Rec
+    prev?: Rec
+    scheduler?: SchedulerLike
+    specs: VariantSpecs
+  }) => {
+    const { config, data, prev, scheduler, specs } = opts
+    if (!config) return
+    for (const [f, variants] of Object.entries(specs))
+      if (Object.hasOwn(data, f))
+        for (const source of addedIds(data[f], prev?.[f]))
+          await scheduler?.runAfter(0, ((anyApi as Rec)[config.namespace] as Rec).generateVariants, {
+            source,
+            variants
+          })
+  },
+  /**
+   * Reads the `fileVariant` rows of one original image.
+   * @param db - Database reader
+   * @param source - Storage id of the original image
+   * @returns One row per stored variant
+   */
+  variantRows = async (db: DbLike, source: string) =>
+    db
+      .query('fileVariant')
+      .withIndex(
+        'by_source',
+        idx(q => q.eq('source', source))
+      )
+      .collect(),
+  /**
+   * Resolves the URLs of an image's stored variants.
+   * @param db - Database reader
+   * @param storage - Storage with `getUrl`
+   * @param source - Storage id of the original image
+   * @returns URLs keyed by variant name; empty until `generateVariants` has run
+   */
+  variantUrls = async (db: DbLike, storage: StorageLike, source: string) => {
+    const rows = await variantRows(db, source),
+      urls = await Promise.all(rows.map(async r => storage.getUrl(r.storageId as string)))
+    return Object.fromEntries(rows.map((r, i) => [r.name as string, urls[i] ?? null])) as Record<string, null | string>
+  },
+  /**
+   * Deletes the stored variants of images that are being removed, blobs and rows. Only call it when the schema
+   * has the `fileVariant` table.
+   * @param db - Database writer
+   * @param storage - Storage with `delete`
+   * @param sources - Storage ids of the removed originals
+   */
+  dropVariants = async (db: DbLike, storage: StorageLike, sources: Iterable<string>) => {
+    for (const source of sources)
+      for (const r of await variantRows(db, source)) {
+        await storage.delete(r.storageId as string)
+        await db.delete(r._id as string)
+      }
+  },
+  /**
+   * Creates the action that renders image variants with sharp. Export it from a `'use node'` module named by
+   * `setup({ variantsNamespace })`; the `saveVariants` mutation it calls comes from `makeFileUpload`.
+   * Files sharp cannot read are skipped, so non-images in a variant field are left alone.
+   * @param config - Internal action builder and the `makeFileUpload` module name
+   * @returns Object with `generateVariants`
+   */
+  makeImageVariants = <DM extends GenericDataModel>({
+    fileNamespace = 'file',
+    internalAction
+  }: ImageVariantsConfig<DM>) => {
+    const filePath = (anyApi as Rec)[fileNamespace] as Rec,
+      generateVariants = internalAction({
+        args: { source: v.id('_storage'), variants: v.any() },
+        handler: async (
+          c: VariantActionCtx,
+          { source, variants }: { source: string; variants: Record<string, ImageVariant> }
+        ) => {
+          const blob = await c.storage.get(source)
+          if (!blob) return 0
+          const { default: sharp } = await import('sharp'),
+            input = Buffer.from(await blob.arrayBuffer()),
+            meta = await sharp(input)
+              .metadata()
+              .catch(() => null)
+          if (!meta?.format) return 0
+          const made: { name: string; storageId: string }[] = []
+          for (const [name, spec] of Object.entries(variants)) {
+            const format = spec.format ?? (OUTPUT_FORMATS.has(meta.format) ? meta.format : 'png'),
+              { data, info } = await sharp(input)
+                .rotate()
+                .resize({ fit: 'inside', height: spec.h, width: spec.w, withoutEnlargement: true })
+                .toFormat(format as 'png', { quality: spec.quality ?? DEFAULT_QUALITY })
+                .toBuffer({ resolveWithObject: true })
+            made.push({
+              name,
+              storageId: await c.storage.store(new Blob([new Uint8Array(data)], { type: `image/${info.format}` }))
+            })
+          }
+          return c.runMutation(filePath.saveVariants, { source, variants: made })
+        }
+      } as never)
+    return { generateVariants }
+  }
+
+export type { ImageVariantsConfig, VariantConfig, VariantSpecs }
+export {
+  addedIds,
+  detectVariants,
+  dropVariants,
+  fileVariantTable,
+  makeImageVariants,
+  queueVariants,
+  variantConfig,
+  variantRows,
+  variantUrls
+}
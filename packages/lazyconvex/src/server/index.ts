@@ -1,5 +1,14 @@
+export { AUDIT_IGNORED_FIELDS, auditTables, auditTrail, diffFields, makeAudit } from './audit'
+export type { CollabOp, CollabRead, TextOp } from '../text-op'
+export { applyTextOp, composeTextOps, diffText, transformPosition, transformTextOp } from '../text-op'
+export type { CollabOptions } from './collab'
+export { COLLAB_FLUSH_EVERY, COLLAB_HISTORY, collabTables, makeCollab } from './collab'
 export { ownedCascade } from './crud'
-export { makeFileUpload } from './file'
+export { canAccess, stripFields } from './field-access'
+export { matchesAccept, SNIFF_BYTES, sniffContentType } from '../file-type'
+export { makeFileUpload, UPLOAD_SESSION_TTL } from './file'
+export type { FileGcConfig, FileGcReport } from './file-gc'
+export { FILE_GC_GRACE_MS, makeFileGc } from './file-gc'
 export type { ConvexErrorData, ErrorHandler, MutationFail, MutationOk, MutationResult } from './helpers'
 export {
   checkRateLimit,
@@ -17,13 +26,57 @@ export {
   ok,
   time
 } from './helpers'
+export type { ImageVariantsConfig } from './image-variants'
+export { fileVariantTable, makeImageVariants } from './image-variants'
+export type { InviteEmail, InviteMailer, LocalInviteEmail } from './invite-mailer'
+export { localMailer } from './invite-mailer'
+export type { JobsConfig } from './jobs'
+export { enqueueJob, jobsTable, makeJobs } from './jobs'
 export { auditLog, composeMiddleware, inputSanitize, slowQueryWarn } from './middleware'
+export { collectMutationMeta, describeMutations, getMutationMeta, withMeta } from './mutation-meta'
 export { makeOrg } from './org'
-export type { InviteDocLike, JoinRequestItem, OrgDocLike, OrgMemberItem, OrgUserLike } from './org'
-export { canEdit, getOrgMember, getOrgRole, orgCascade, requireOrgMember, requireOrgRole } from './org-crud'
+export { parseInviteCsv } from './org-invites'
+export { JOIN_POLICIES } from './org-join'
+export type {
+  BulkInviteResult,
+  InviteDocLike,
+  InviteLinkDocLike,
+  JoinOutcome,
+  JoinPolicy,
+  JoinRequestItem,
+  JoinResult,
+  OrgDocLike,
+  OrgMemberItem,
+  OrgUserLike,
+  OrgWebhookItem,
+  WebhookDeliveryItem
+} from './org'
+export {
+  canEdit,
+  getOrgMember,
+  getOrgRole,
+  orgCascade,
+  requireOrgMember,
+  requireOrgPermission,
+  requireOrgRole
+} from './org-crud'
+export {
+  ADMIN_LEVEL,
+  backfillOrgRoles,
+  BUILTIN_ORG_ROLES,
+  defineOrgRoles,
+  hasOrgPermission,
+  isAdminRole,
+  roleLevel
+} from './org-roles'
+export type { OrgArchive } from './org-export'
+export { orgDataTables } from './org-export'
+export { matchesEvent } from './org-webhooks'
 export { HEARTBEAT_INTERVAL_MS, makePresence, PRESENCE_TTL_MS, presenceTable } from './presence'
+export { applyPlan, eqOnly, orderIndex, planIndex, tableIndexes } from './query-plan'
 export {
   baseTable,
+  cacheMissTable,
   checkSchema,
   childTable,
   orgChildTable,
@@ -32,6 +85,8 @@ export {
   ownedTable,
   rateLimitTable,
   singletonTable,
-  uploadTables
+  uploadTables,
+  versionTable
 } from './schema-helpers'
 export { setup } from './setup'
+export { signWebhook, verifyWebhook, WEBHOOK_TOLERANCE_MS } from './webhook'
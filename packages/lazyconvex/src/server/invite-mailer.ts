@@ -0,0 +1,67 @@
+import { isProduction } from './env'
+import { log } from './helpers'
+
+/** What an invite mailer receives for each invite it should deliver. */
+interface InviteEmail {
+  email: string
+  expiresAt: number
+  inviteId: string
+  invitedBy?: string
+  orgId: string
+  orgName: string
+  role: string
+  token: string
+}
+
+/**
+ * Delivers invite emails. `send` runs in a Convex action after the invite commits, so it may call any email API;
+ * a thrown error is retried with backoff.
+ */
+interface InviteMailer {
+  /** Set by `localMailer`; a local mailer is never wired when NODE_ENV is production. */
+  local?: boolean
+  send: (email: InviteEmail) => Promise<void>
+}
+
+/** An invite email as `localMailer` records it, with the accept link filled in. */
+interface LocalInviteEmail extends InviteEmail {
+  url: string
+}
+
+/**
+ * Creates a mailer that records invites instead of sending them, for development and tests. Every email is kept in
+ * `sent`, logged to the console, and appended as a JSON line to `file` when one is given (Node runtime only).
+ * @param opts - Base URL of the accept-invite page, and an optional file to append to
+ * @returns The mailer, with the emails it has recorded in `sent`
+ */
+const localMailer = ({ baseUrl = 'http://localhost:3000/invite', file }: { baseUrl?: string; file?: string } = {}) => {
+  const sent: LocalInviteEmail[] = []
+  return {
+    local: true,
+    send: async (email: InviteEmail) => {
+      const entry = { ...email, url: `${baseUrl.replace(/\/$/u, '')}/${email.token}` }
+      sent.push(entry)
+      log('info', 'org:invite_email', { email: entry.email, orgId: entry.orgId, url: entry.url })
+      if (file) {
+        const { appendFile } = await import('node:fs/promises')
+        await appendFile(file, `${JSON.stringify(entry)}\n`)
+      }
+    },
+    sent
+  }
+}
+
+/**
+ * Picks the mailer `setup` wires up. A `localMailer` would log invite tokens, so it is dropped in production and
+ * invites stay tokens, with a warning logged.
+ * @param mailer - The configured mailer, if any
+ * @returns The mailer to deliver invites with, or undefined
+ */
+const activeMailer = (mailer?: InviteMailer) => {
+  const dropped = mailer?.local === true && isProduction()
+  if (dropped) log('warn', 'org:local_mailer_in_production')
+  return dropped ? undefined : mailer
+}
+
+export type { InviteEmail, InviteMailer, LocalInviteEmail }
+export { activeMailer, localMailer }
@@ -0,0 +1,413 @@
+import type { ActionBuilder, GenericActionCtx, GenericDataModel, MutationBuilder, QueryBuilder } from 'convex/server'
+
+import { anyApi, defineTable, paginationOptsValidator } from 'convex/server'
+import { v } from 'convex/values'
+import { literal, object, string, union } from 'zod/v4'
+
+import type { RetryOptions } from '../retry'
+import type { CascadeStep } from './cascade'
+import type { DbLike, Effect, EffectEvent, OrgRoles, Qb, Rec, SchedulerLike, UserCtx } from './types'
+
+import { withRetry } from '../retry'
+import { idx, indexFields, typed } from './bridge'
+import { cascade } from './cascade'
+import { err, pgOpts } from './helpers'
+import { requireOrgRole } from './org-crud'
+import { deliverWebhook, WEBHOOK_JOB } from './webhook'
+
+interface AfterHooks {
+  afterCreate?: (ctx: JobCtx, args: { data: Rec; id: string }) => Promise<void> | void
+  afterDelete?: (ctx: JobCtx, args: { doc: Rec; id: string }) => Promise<void> | void
+  afterUpdate?: (ctx: JobCtx, args: { id: string; patch: Rec; prev: Rec }) => Promise<void> | void
+}
+
+interface JobCtx {
+  db: DbLike
+  scheduler?: SchedulerLike
+}
+
+interface JobsConfig<DM extends GenericDataModel = GenericDataModel> {
+  /**
+   * Who may read a document's jobs through `docJobs`, given the `userId` and `orgId` stored on its latest job (or the
+   * live document for jobs enqueued without them); defaults to the owner or an org admin.
+   */
+  canInspect?: (ctx: UserCtx, owner: Rec) => boolean | Promise<boolean>
+  handlers: Record<string, (ctx: GenericActionCtx<DM>, payload: Rec) => Promise<unknown>>
+  internalAction: ActionBuilder<DM, 'internal'>
+  internalMutation: MutationBuilder<DM, 'internal'>
+  internalQuery: QueryBuilder<DM, 'internal'>
+  /** How long a claimed run may take before `reclaimJobs` treats it as lost. */
+  leaseMs?: number
+  namespace?: string
+  /** Authenticated query builder from `setup`; enables the public `docJobs` endpoint. */
+  q?: Qb
+  retry?: RetryOptions
+  roles?: OrgRoles
+}
+
+const LEASE_MS = 15 * 60 * 1000,
+  RECLAIM_BATCH = 100,
+  registry = { namespace: 'jobs' },
+  /**
+   * Returns a Convex table definition for the job outbox with status and document indexes.
+   * @returns Object with a `jobs` table definition
+   */
+  jobsTable = () => ({
+    jobs: defineTable({
+      attempts: v.number(),
+      docId: v.optional(v.string()),
+      error: v.optional(v.string()),
+      finishedAt: v.optional(v.number()),
+      leaseUntil: v.optional(v.number()),
+      name: v.string(),
+      orgId: v.optional(v.string()),
+      payload: v.any(),
+      status: v.union(v.literal('pending'), v.literal('running'), v.literal('done'), v.literal('failed')),
+      table: v.optional(v.string()),
+      userId: v.optional(v.string())
+    })
+      .index('by_status', indexFields('status'))
+      .index('by_lease', indexFields('status', 'leaseUntil'))
+      .index('by_doc', indexFields('docId', 'status'))
+  }),
+  /**
+   * Sets the module that exports the `makeJobs` endpoints. Called by `setup`.
+   * @param namespace - Convex module name, defaulting to `jobs`
+   */
+  installJobs = (namespace: string | undefined) => {
+    registry.namespace = namespace ?? 'jobs'
+  },
+  /**
+   * Inserts a pending job and schedules it to run once the current mutation commits.
+   * If the mutation throws, neither the row nor the scheduled run is kept.
+   * @param ctx - Mutation context with `db` and `scheduler`
+   * @param job - Handler name, payload, optional delay, the document it concerns, and that document's owner and org,
+   * which `docJobs` checks even after the document is gone
+   * @returns The job id
+   */
+  enqueueJob = async (
+    ctx: { db: unknown; scheduler?: unknown },
+    job: {
+      delayMs?: number
+      docId?: string
+      name: string
+      orgId?: string
+      payload?: Rec
+      table?: string
+      userId?: string
+    }
+  ): Promise<string> => {
+    const { db, scheduler } = ctx as JobCtx
+    if (!scheduler) throw new Error(`Job "${job.name}" must be enqueued from a mutation`)
+    const row: Rec = { attempts: 0, name: job.name, payload: job.payload ?? {}, status: 'pending' }
+    for (const k of ['docId', 'orgId', 'table', 'userId'] as const) if (job[k] !== undefined) row[k] = job[k]
+    const jobId = await db.insert('jobs', row)
+    await scheduler.runAfter(job.delayMs ?? 0, ((anyApi as Rec)[registry.namespace] as Rec).runJob, { jobId })
+    return jobId
+  },
+  defaultPayload = ({ doc, id, op, prev, table }: EffectEvent): Rec =>
+    prev === undefined ? { doc, id, op, table } : { doc, id, op, prev, table },
+  /**
+   * Enqueues a job for every effect that listens to the event's operation and passes its `when` guard.
+   * @param ctx - Mutation context with `db` and `scheduler`
+   * @param effects - Effects from factory options
+   * @param event - The committed write
+   */
+  runEffects = async (ctx: JobCtx, effects: Effect[] | undefined, event: EffectEvent) => {
+    for (const e of effects ?? [])
+      if ((Array.isArray(e.on) ? e.on.includes(event.op) : e.on === event.op) && (e.when?.(event) ?? true))
+        // biome-ignore lint/performance/noAwaitInLoops: ordered enqueue
+        await enqueueJob(ctx, {
+          delayMs: e.delayMs,
+          docId: event.id,
+          name: e.job,
+          orgId: typeof event.doc.orgId === 'string' ? event.doc.orgId : undefined,
+          payload: (e.payload ?? defaultPayload)(event),
+          table: event.table,
+          userId: typeof event.doc.userId === 'string' ? event.doc.userId : undefined
+        })
+  },
+  /**
+   * Wraps a factory's after-write hooks so `fire` runs with the committed write after the originals.
+   * @param hooks - Existing hooks, already merged with global hooks and middleware
+   * @param table - Table the hooks belong to
+   * @param fire - Called with the mutation context and the write as an `EffectEvent`
+   * @returns Hooks that run the originals and then `fire`
+   */
+  onCommit = <H extends object>(
+    hooks: H | undefined,
+    table: string,
+    fire: (ctx: JobCtx, event: EffectEvent) => Promise<void>
+  ): H => {
+    const inner = hooks as AfterHooks | undefined,
+      next: AfterHooks = {
+        afterCreate: async (ctx, args) => {
+          await inner?.afterCreate?.(ctx, args)
+          const doc = (await ctx.db.get(args.id)) ?? args.data
+          await fire(ctx, { doc, id: args.id, op: 'create', table })
+        },
+        afterDelete: async (ctx, args) => {
+          await inner?.afterDelete?.(ctx, args)
+          await fire(ctx, { doc: args.doc, id: args.id, op: 'delete', table })
+        },
+        afterUpdate: async (ctx, args) => {
+          await inner?.afterUpdate?.(ctx, args)
+          await fire(ctx, { doc: { ...args.prev, ...args.patch }, id: args.id, op: 'update', prev: args.prev, table })
+        }
+      }
+    return { ...inner, ...next } as H
+  },
+  /**
+   * Appends effect dispatch to a factory's after-write hooks, so effects fire wherever those hooks do.
+   * @param hooks - Existing hooks, already merged with global hooks and middleware
+   * @param effects - Effects from factory options
+   * @param table - Table the hooks belong to
+   * @returns Hooks that run the originals and then enqueue matching jobs
+   */
+  withEffects = <H extends object>(hooks: H | undefined, effects: Effect[] | undefined, table: string): H | undefined =>
+    effects?.length ? onCommit(hooks, table, async (ctx, event) => runEffects(ctx, effects, event)) : hooks,
+  errorText = (error: unknown) => (error instanceof Error ? error.message : String(error)),
+  /**
+   * Creates the job runner and inspection endpoints for effects and `enqueueJob`.
+   * Export every returned function from the module named by `namespace` (and `setup({ jobsNamespace })`).
+   * Each run retries its handler with `withRetry`; jobs that exhaust their attempts stay in the table as `failed`.
+   * A claimed run holds a lease of `leaseMs`; `reclaimJobs` (run it from a cron) requeues runs whose lease ran out,
+   * counting the lost run as an attempt, and fails them once `retry.maxAttempts` is spent.
+   * Org webhook deliveries are handled built in, signed when sent with the secret `webhookTarget` reads; a handler of
+   * the same name replaces it.
+   * `cascadeStep` continues cascades that touch more documents than one mutation should, walking the graph in its args.
+   * With `q`, `docJobs` lets the document's owner (or an org admin) page through its jobs and their errors, checked
+   * against the owner stored on the jobs so they stay readable after the document is deleted.
+   * @param config - Internal builders, handlers keyed by job name, optional retry options, lease, and namespace
+   * @returns Object with `runJob`, `claimJob`, `finishJob`, `reclaimJobs`, `getJob`, `failedJobs`, `retryJob`,
+   * `cascadeStep`, `webhookTarget`, and `docJobs` when `q` is given
+   */
+  makeJobs = <DM extends GenericDataModel>(config: JobsConfig<DM>) => {
+    const {
+        canInspect,
+        internalAction,
+        internalMutation,
+        internalQuery,
+        leaseMs = LEASE_MS,
+        namespace = 'jobs',
+        q,
+        retry,
+        roles
+      } = config,
+      maxAttempts = retry?.maxAttempts ?? 3,
+      tPath = (anyApi as Rec)[namespace] as Rec,
+      handlers: JobsConfig<DM>['handlers'] = {
+        [WEBHOOK_JOB]: async (c, payload) => {
+          const hook = await c.runQuery(tPath.webhookTarget as never, { webhookId: payload.webhookId } as never)
+          if (hook) await deliverWebhook(payload, hook as { secret: string; url: string })
+        },
+        ...config.handlers
+      },
+      claimJob = internalMutation({
+        args: { jobId: v.id('jobs') },
+        handler: async (c: { db: DbLike }, { jobId }: { jobId: string }) => {
+          const job = await c.db.get(jobId)
+          if (job?.status !== 'pending') return null
+          const leaseUntil = Date.now() + leaseMs
+          await c.db.patch(jobId, { leaseUntil, status: 'running' })
+          return { ...job, leaseUntil }
+        }
+      } as never),
+      finishJob = internalMutation({
+        args: {
+          attempts: v.number(),
+          error: v.optional(v.string()),
+          jobId: v.id('jobs'),
+          leaseUntil: v.number(),
+          status: v.union(v.literal('done'), v.literal('failed'))
+        },
+        handler: async (
+          c: { db: DbLike },
+          {
+            attempts,
+            error,
+            jobId,
+            leaseUntil,
+            status
+          }: { attempts: number; error?: string; jobId: string; leaseUntil: number; status: string }
+        ) => {
+          const job = await c.db.get(jobId)
+          if (job?.status !== 'running' || job.leaseUntil !== leaseUntil) return
+          await c.db.patch(jobId, {
+            attempts: (job.attempts as number) + attempts,
+            error,
+            finishedAt: Date.now(),
+            leaseUntil: undefined,
+            status
+          })
+        }
+      } as never),
+      runJob = internalAction({
+        args: { jobId: v.id('jobs') },
+        handler: async (c: GenericActionCtx<DM>, { jobId }: { jobId: string }) => {
+          const job = (await c.runMutation(tPath.claimJob as never, { jobId } as never)) as null | Rec
+          if (!job) return
+          const run = handlers[job.name as string],
+            { leaseUntil } = job
+          let attempts = 0
+          try {
+            if (!run) throw new Error(`No handler registered for job "${String(job.name)}"`)
+            await withRetry(async () => {
+              attempts += 1
+              return run(c, job.payload as Rec)
+            }, retry)
+            await c.runMutation(tPath.finishJob as never, { attempts, jobId, leaseUntil, status: 'done' } as never)
+          } catch (error) {
+            await c.runMutation(
+              tPath.finishJob as never,
+              { attempts, error: errorText(error), jobId, leaseUntil, status: 'failed' } as never
+            )
+          }
+        }
+      } as never),
+      reclaimJobs = internalMutation({
+        args: {},
+        handler: async (c: JobCtx) => {
+          const now = Date.now(),
+            stuck = await c.db
+              .query('jobs')
+              .withIndex(
+                'by_lease',
+                idx(ib => ib.eq('status', 'running').lt('leaseUntil', now))
+              )
+              .take(RECLAIM_BATCH)
+          for (const job of stuck) {
+            const attempts = (job.attempts as number) + 1,
+              id = job._id as string
+            if (attempts >= maxAttempts)
+              await c.db.patch(id, {
+                attempts,
+                error: 'Job lease expired',
+                finishedAt: now,
+                leaseUntil: undefined,
+                status: 'failed'
+              })
+            else {
+              await c.db.patch(id, { attempts, leaseUntil: undefined, status: 'pending' })
+              await c.scheduler?.runAfter(0, tPath.runJob, { jobId: id })
+            }
+          }
+          if (stuck.length === RECLAIM_BATCH) await c.scheduler?.runAfter(0, tPath.reclaimJobs, {})
+          return stuck.length
+        }
+      } as never),
+      cascadeStep = internalMutation({
+        args: {
+          graph: v.optional(
+            v.record(
+              v.string(),
+              v.array(
+                v.object({
+                  fileFields: v.optional(v.array(v.string())),
+                  foreignKey: v.string(),
+                  index: v.optional(v.string()),
+                  softDelete: v.optional(v.boolean()),
+                  table: v.string()
+                })
+              )
+            )
+          ),
+          id: v.string(),
+          mode: v.union(v.literal('delete'), v.literal('restore'), v.literal('soft')),
+          stamp: v.optional(v.number()),
+          table: v.string(),
+          variants: v.optional(v.object({ enabled: v.boolean(), namespace: v.string() }))
+        },
+        handler: async (c: JobCtx & { storage?: unknown }, step: CascadeStep) => {
+          await cascade(c, step)
+        }
+      } as never),
+      webhookTarget = internalQuery({
+        args: { webhookId: v.id('orgWebhook') },
+        handler: async (c: { db: DbLike }, { webhookId }: { webhookId: string }) => {
+          const hook = await c.db.get(webhookId)
+          return hook ? { secret: hook.secret as string, url: hook.url as string } : null
+        }
+      } as never),
+      getJob = internalQuery({
+        args: { jobId: v.id('jobs') },
+        handler: async (c: { db: DbLike }, { jobId }: { jobId: string }) => c.db.get(jobId)
+      } as never),
+      failedJobs = internalQuery({
+        args: { paginationOpts: paginationOptsValidator },
+        handler: async (c: { db: DbLike }, { paginationOpts }: { paginationOpts: Rec }) =>
+          c.db
+            .query('jobs')
+            .withIndex(
+              'by_status',
+              idx(ib => ib.eq('status', 'failed'))
+            )
+            .order('desc')
+            .paginate(paginationOpts)
+      } as never),
+      retryJob = internalMutation({
+        args: { jobId: v.id('jobs') },
+        handler: async (c: JobCtx, { jobId }: { jobId: string }) => {
+          const job = await c.db.get(jobId)
+          if (job?.status !== 'failed') return err('NOT_FOUND', `jobs:retry:${jobId}`)
+          await c.db.patch(jobId, { error: undefined, finishedAt: undefined, status: 'pending' })
+          await c.scheduler?.runAfter(0, tPath.runJob, { jobId })
+        }
+      } as never),
+      mayInspect = async (c: UserCtx, owner: Rec) => {
+        if (canInspect) return canInspect(c, owner)
+        if (owner.userId === c.user._id) return true
+        if (typeof owner.orgId !== 'string') return false
+        await requireOrgRole({ db: c.db, minRole: 'admin', orgId: owner.orgId, roles, userId: c.user._id as string })
+        return true
+      },
+      docJobs = q?.({
+        args: object({
+          id: string(),
+          paginationOpts: pgOpts,
+          status: union([literal('pending'), literal('running'), literal('done'), literal('failed')]).optional()
+        }),
+        handler: typed(
+          async (
+            ctx: UserCtx,
+            { id, paginationOpts, status }: { id: string; paginationOpts: Rec; status?: string }
+          ) => {
+            const latest = await ctx.db
+                .query('jobs')
+                .withIndex(
+                  'by_doc',
+                  idx(ib => ib.eq('docId', id))
+                )
+                .order('desc')
+                .first(),
+              owner =
+                latest?.userId === undefined && latest?.orgId === undefined ? latest && (await ctx.db.get(id)) : latest
+            if (!(owner && (await mayInspect(ctx, owner)))) return err('NOT_FOUND', `jobs:docJobs:${id}`)
+            const { page, ...rest } = await ctx.db
+              .query('jobs')
+              .withIndex(
+                'by_doc',
+                idx(ib => (status ? ib.eq('docId', id).eq('status', status) : ib.eq('docId', id)))
+              )
+              .order('desc')
+              .paginate(paginationOpts)
+            return { ...rest, page: page.map(({ payload: _, ...job }) => job) }
+          }
+        )
+      })
+    return {
+      cascadeStep,
+      claimJob,
+      docJobs,
+      failedJobs,
+      finishJob,
+      getJob,
+      reclaimJobs,
+      retryJob,
+      runJob,
+      webhookTarget
+    }
+  }
+
+export type { JobsConfig }
+export { enqueueJob, installJobs, jobsTable, makeJobs, onCommit, runEffects, withEffects }
@@ -0,0 +1,56 @@
+import type { MutationKind, MutationManifest, MutationMeta } from './types'
+
+const META = Symbol.for('lazyconvex:meta'),
+  FACTORY_KINDS: Record<string, MutationKind> = { create: 'create', rm: 'delete', update: 'update' },
+  /**
+   * Attaches metadata to a registered mutation so `lazyconvex codegen-meta` can describe it to the client.
+   * Use it on custom endpoints that create, update, or delete a single row.
+   * @param fn - The registered mutation
+   * @param meta - Operation kind, table, and the arg holding the row id (defaults to `id`)
+   * @returns The same mutation
+   * @example
+   * ```ts
+   * const toggle = withMeta(m({ args: { id: zid('task') }, handler }), { kind: 'update', table: 'task' })
+   * ```
+   */
+  withMeta = <F>(fn: F, meta: MutationMeta): F => {
+    const value = meta.kind === 'delete' || meta.kind === 'update' ? { idArg: 'id', ...meta } : meta
+    Object.defineProperty(fn, META, { configurable: true, value })
+    return fn
+  },
+  /** Reads the metadata `withMeta` or a factory attached, if any. */
+  getMutationMeta = (fn: unknown): MutationMeta | undefined =>
+    (typeof fn === 'function' || (typeof fn === 'object' && fn !== null)) && META in fn
+      ? ((fn as Record<symbol, MutationMeta>)[META] as MutationMeta)
+      : undefined,
+  isMutation = (fn: unknown) => typeof fn === 'function' && (fn as { isMutation?: boolean }).isMutation === true,
+  isPublic = (fn: unknown) => (fn as { isPublic?: boolean }).isPublic === true,
+  /**
+   * Tags every mutation a factory returns: `create`, `update`, and `rm` by their kind with an `id` arg, and the rest
+   * (bulk ops, restore, editors) as `other`.
+   * @param table - The factory's table
+   * @param fns - The factory result
+   * @returns The same result
+   */
+  describeMutations = <R>(table: string, fns: R): R => {
+    for (const [name, fn] of Object.entries(fns as Record<string, unknown>))
+      if (isMutation(fn) && !getMutationMeta(fn)) withMeta(fn, { kind: FACTORY_KINDS[name] ?? 'other', table })
+    return fns
+  },
+  /**
+   * Builds the client manifest from loaded Convex modules: every exported public mutation carrying metadata, keyed
+   * by its function name.
+   * @param modules - Module exports keyed by path inside the convex dir, without extension (`blog`, `admin/user`)
+   * @returns Metadata keyed by `module:export`
+   */
+  collectMutationMeta = (modules: Record<string, Record<string, unknown>>): MutationManifest => {
+    const manifest: MutationManifest = {}
+    for (const [path, exports] of Object.entries(modules))
+      for (const [name, fn] of Object.entries(exports)) {
+        const meta = getMutationMeta(fn)
+        if (meta && isMutation(fn) && isPublic(fn)) manifest[name === 'default' ? path : `${path}:${name}`] = meta
+      }
+    return manifest
+  }
+
+export { collectMutationMeta, describeMutations, getMutationMeta, withMeta }
@@ -2,8 +2,9 @@
 import type { ZodObject, ZodRawShape } from 'zod/v4'
 
 import { zid } from 'convex-helpers/server/zod4'
-import { array, number } from 'zod/v4'
+import { array, number, object, enum as zenum } from 'zod/v4'
 
+import type { VariantConfig } from './image-variants'
 import type {
   BaseBuilders,
   CanEditOpts,
@@ -11,41 +12,59 @@ import type {
   CrudHooks,
   DbLike,
   DbReadLike,
+  Effect,
+  FieldPolicies,
   FilterLike,
   HookCtx,
+  IndexDef,
   MutCtx,
+  OrderBy,
   OrgCrudResult,
   OrgEnrichedDoc,
   OrgRole,
+  OrgRoles,
   RateLimitConfig,
   ReadCtx,
-  Rec
+  Rec,
+  UserCtx
 } from './types'
 
 import { BULK_MAX } from '../constants'
-import { flt, idx, typed } from './bridge'
+import { collabFieldsOf } from '../zod'
+import { idx, typed } from './bridge'
+import { cascade, cascadeEdge, cascadeGraph } from './cascade'
 import { isTestMode } from './env'
+import { assertReadable, assertWritable, stripFields } from './field-access'
 import {
   addUrls,
+  auditedDocAt,
+  checkFiles,
   checkRateLimit,
   cleanFiles,
+  conflictErr,
   dbDelete,
   dbInsert,
   dbPatch,
+  detectFileRules,
   detectFiles,
+  dropCollab,
   err,
   log,
   pgOpts,
   time
 } from './helpers'
+import { detectVariants, queueVariants } from './image-variants'
+import { describeMutations } from './mutation-meta'
+import { hasOrgPermission, isAdminRole, roleLevel, storedRole } from './org-roles'
+import { orderIndex } from './query-plan'
 
-const ROLE_LEVEL: Record<OrgRole, number> = { admin: 2, member: 1, owner: 3 },
-  /**
-   * Determines a user's role in an org based on ownership and membership.
-   * @param args - Object with org doc, member doc, and userId
-   * @returns The user's OrgRole or null if not a member
-   */
-  getOrgRole = ({
+/**
+ * Determines a user's role in an org based on ownership and membership.
+ * Members without a stored `role` fall back to `isAdmin`.
+ * @param args - Object with org doc, member doc, and userId
+ * @returns The user's OrgRole or null if not a member
+ */
+const getOrgRole = ({
     member,
     org,
     userId
@@ -56,7 +75,7 @@ const ROLE_LEVEL: Record<OrgRole, number> = { admin: 2, member: 1, owner: 3 },
   }): null | OrgRole => {
     if (org.userId === userId) return 'owner'
     if (!member) return null
-    return (member as { isAdmin?: boolean }).isAdmin ? 'admin' : 'member'
+    return storedRole(member)
   },
   /**
    * Fetches the orgMember document for a user in a specific org.
@@ -90,27 +109,53 @@ interface RequireOrgRoleArgs {
   db: unknown
   minRole: OrgRole
   orgId: string
+  roles?: OrgRoles
   userId: string
 }
 
 /**
  * Validates that a user has at least the specified minimum role in the org.
- * @param args - Object with db, minRole, orgId, and userId
+ * @param args - Object with db, minRole, orgId, userId, and the `roles` registry (built-in roles by default)
  * @returns Object with member doc, org doc, and role; throws if insufficient role
  */
-const requireOrgRole = async ({ db, minRole, orgId, userId }: RequireOrgRoleArgs) => {
+const requireOrgRole = async ({ db, minRole, orgId, roles, userId }: RequireOrgRoleArgs) => {
+    const result = await requireOrgMember({ db, orgId, userId })
+    if (roleLevel(result.role, roles) < roleLevel(minRole, roles)) return err('INSUFFICIENT_ORG_ROLE')
+    return result
+  },
+  /**
+   * Validates that a user's org role grants a named permission from the role registry.
+   * @param args - Object with db, orgId, permission, userId, and the `roles` registry (built-in roles by default)
+   * @returns Object with member doc, org doc, and role; throws INSUFFICIENT_ORG_ROLE if the permission is missing
+   */
+  requireOrgPermission = async ({
+    db,
+    orgId,
+    permission,
+    roles,
+    userId
+  }: {
+    db: unknown
+    orgId: string
+    permission: string
+    roles?: OrgRoles
+    userId: string
+  }) => {
     const result = await requireOrgMember({ db, orgId, userId })
-    if (ROLE_LEVEL[result.role] < ROLE_LEVEL[minRole]) return err('INSUFFICIENT_ORG_ROLE')
+    if (!hasOrgPermission(result.role, permission, roles))
+      return err('INSUFFICIENT_ORG_ROLE', { debug: permission, message: `Missing permission: ${permission}`, permission })
     return result
   },
   /**
    * Checks whether a user can edit a document based on their org role, ownership, and optional ACL editors list.
-   * @param args - Object with acl flag, doc, role, and userId
+   * With `table`, roles granting `<table>.edit` can edit every row, and owning a row only counts with `<table>.write`.
+   * @param args - Object with acl flag, doc, role, `roles` registry, optional table, and userId
    * @returns Whether the user has edit permission
    */
-  canEdit = ({ acl, doc, role, userId }: CanEditOpts): boolean => {
-    if (role === 'owner' || role === 'admin') return true
-    if (doc.userId === userId) return true
+  canEdit = ({ acl, doc, role, roles, table, userId }: CanEditOpts): boolean => {
+    if (isAdminRole(role, roles)) return true
+    if (table && hasOrgPermission(role, `${table}.edit`, roles)) return true
+    if (doc.userId === userId && (!table || hasOrgPermission(role, `${table}.write`, roles))) return true
     if (acl && doc.editors?.includes(userId)) return true
     return false
   }
@@ -118,10 +163,14 @@ const requireOrgRole = async ({ db, minRole, orgId, userId }: RequireOrgRoleArgs
 interface OrgCrudOptions<S extends ZodRawShape = ZodRawShape> {
   acl?: boolean
   aclFrom?: { field: keyof S & string; table: string }
-  cascade?: CascadeOption
+  cascade?: CascadeOption | CascadeOption[]
+  effects?: Effect[]
+  fields?: FieldPolicies<S>
   hooks?: CrudHooks
   rateLimit?: RateLimitConfig
   softDelete?: boolean
+  versioned?: boolean
+  webhooks?: boolean
 }
 
 const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined) ?? [],
@@ -147,80 +196,199 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
     }
     return doc as { userId: string }
   },
-  ohk = (c: MutCtx): HookCtx => ({ db: c.db, storage: c.storage, userId: c.user._id as string }),
+  ohk = (c: MutCtx): HookCtx => ({ db: c.db, scheduler: c.scheduler, storage: c.storage, userId: c.user._id as string }),
   makeOrgCrud = <S extends ZodRawShape>({
+    audited,
     builders,
+    indexes = [],
     options: opt,
+    roles,
     schema,
-    table
+    table,
+    variants
   }: {
+    audited?: boolean
     builders: BaseBuilders
+    indexes?: IndexDef[]
     options?: OrgCrudOptions<S>
+    roles?: OrgRoles
     schema: ZodObject<S>
     table: string
+    variants?: VariantConfig
   }): OrgCrudResult<S> => {
     const { m, q } = builders,
       hooks = opt?.hooks,
+      graph = cascadeGraph(table, opt?.cascade),
       partial = schema.partial(),
       bulkIdsSchema = array(zid(table)).max(BULK_MAX),
+      collabFs = collabFieldsOf(schema.shape),
       fileFs = detectFiles(schema.shape),
+      fileRules = detectFileRules(schema.shape),
+      variantSpecs = detectVariants(schema.shape, variants),
       idArgs = { id: zid(table) },
       orgIdArg = { orgId: zid('org') },
       useAcl = Boolean(opt?.acl) || Boolean(opt?.aclFrom),
       softDel = Boolean(opt?.softDelete),
-      enrich = async (c: ReadCtx, docs: Rec[]) =>
+      versioned = Boolean(opt?.versioned),
+      versionTbl = `${table}Version`,
+      versionIdArg = { versionId: zid(versionTbl) },
+      schemaKeys = Object.keys(schema.shape),
+      policies = opt?.fields as FieldPolicies | undefined,
+      viewerOf = (role: OrgRole, doc: Rec, userId: unknown) => ({
+        admin: isAdminRole(role, roles),
+        owner: doc.userId === userId
+      }),
+      strip = (doc: Rec, role: OrgRole, userId: unknown) => stripFields(doc, policies, viewerOf(role, doc, userId)),
+      requireWrite = async (c: MutCtx, orgId: string) =>
+        requireOrgPermission({ db: c.db, orgId, permission: `${table}.write`, roles, userId: c.user._id as string }),
+      enrich = async (c: MutCtx & ReadCtx, docs: Rec[], role: OrgRole) =>
         // oxlint-disable-next-line promise/prefer-await-to-then
         Promise.all(
           (await c.withAuthor(docs as { userId: string }[])).map(async d =>
-            addUrls({ doc: d, fileFields: fileFs, storage: c.storage })
+            strip(
+              await addUrls({ db: c.db, doc: d, fileFields: fileFs, storage: c.storage, variants: variantSpecs }),
+              role,
+              c.user._id
+            )
           )
         ) as Promise<OrgEnrichedDoc<S>[]>,
-      cascadeDelete = async (db: DbLike, id: string) => {
-        if (!opt?.cascade) return
-        const { foreignKey, table: tbl } = opt.cascade,
-          kids = await db
-            .query(tbl)
-            .filter(flt(f => f.eq(f.field(foreignKey), id)))
-            .collect()
-        for (const kid of kids) await dbDelete(db, kid._id as string)
+      // eslint-disable-next-line @typescript-eslint/max-params
+      stripSnapshot = (ver: Rec, doc: Rec, role: OrgRole, userId: unknown) => ({
+        ...ver,
+        snapshot: stripFields(ver.snapshot as Rec, policies, viewerOf(role, doc, userId))
+      }),
+      docVersions = (db: DbLike, docId: string) =>
+        db.query(versionTbl).withIndex(
+          'by_doc',
+          idx(o => o.eq('docId', docId))
+        ),
+      saveVersion = async (c: MutCtx, id: string, prev: Rec) => {
+        const latest = await docVersions(c.db, id).order('desc').first(),
+          snapshot: Rec = {}
+        for (const k of [...schemaKeys, 'updatedAt']) if (prev[k] !== undefined) snapshot[k] = prev[k]
+        await c.db.insert(versionTbl, {
+          docId: id,
+          orgId: prev.orgId,
+          snapshot,
+          userId: c.user._id,
+          version: ((latest?.version as number | undefined) ?? 0) + 1
+        })
+      },
+      /**
+       * Rebuilds a doc as it stood at `updatedAt` from the version saved when it was next edited, or else from the
+       * audit trail.
+       * @returns The doc at that time, or undefined when neither log reaches back to it
+       */
+      // eslint-disable-next-line @typescript-eslint/max-params
+      docAt = async (db: DbLike, id: string, doc: Rec, updatedAt: number) => {
+        const ver = versioned
+          ? await docVersions(db, id)
+              .filter(f => f.eq(f.field('snapshot.updatedAt'), updatedAt))
+              .first()
+          : null
+        if (ver) {
+          const snapshot = ver.snapshot as Rec
+          return { ...doc, ...Object.fromEntries(schemaKeys.map(k => [k, snapshot[k]])), updatedAt }
+        }
+        if (audited) return auditedDocAt(db, doc, updatedAt)
+      },
+      purgeVersions = async (c: MutCtx, id: string, doc: Rec) => {
+        const rows = await docVersions(c.db, id).collect(),
+          files: Rec = {}
+        for (const f of fileFs) {
+          const all = new Set<unknown>()
+          for (const src of [doc, ...rows.map(r => r.snapshot as Rec)]) {
+            const val = src[f]
+            for (const fid of Array.isArray(val) ? val : [val]) if (fid) all.add(fid)
+          }
+          files[f] = [...all]
+        }
+        await cleanFiles({ db: c.db, doc: files, fileFields: fileFs, storage: c.storage, variants })
+        for (const r of rows) await dbDelete(c.db, r._id as string)
+      },
+      softRemove = async (c: MutCtx, id: string) => {
+        const deletedAt = Date.now()
+        await dbPatch(c.db, id, { deletedAt })
+        await cascade(c, { graph, id, mode: 'soft', stamp: deletedAt, table })
+      },
+      removeDoc = async (c: MutCtx, id: string, doc: Rec) => {
+        await cascade(c, { graph, id, mode: 'delete', table, variants })
+        await dbDelete(c.db, id)
+        if (collabFs.length > 0) await dropCollab(c.db, id)
+        if (versioned) await purgeVersions(c, id, doc)
+        else await cleanFiles({ db: c.db, doc, fileFields: fileFs, storage: c.storage, variants })
+      },
+      deleteDoc = async (c: MutCtx, id: string, doc: Rec) => {
+        if (hooks?.beforeDelete) await hooks.beforeDelete(ohk(c), { doc, id })
+        if (softDel) await softRemove(c, id)
+        else await removeDoc(c, id, doc)
+        if (hooks?.afterDelete) await hooks.afterDelete(ohk(c), { doc, id })
+      },
+      applyUpdate = async (c: MutCtx, id: string, doc: Rec, raw: Rec) => {
+        let patch = raw
+        if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(ohk(c), { id, patch, prev: doc })
+        await checkFiles({ data: patch, db: c.db, op: `${table}:update`, prev: doc, rules: fileRules })
+        const now = time()
+        if (versioned) await saveVersion(c, id, doc)
+        else await cleanFiles({ db: c.db, doc, fileFields: fileFs, next: patch, storage: c.storage, variants })
+        await dbPatch(c.db, id, { ...patch, ...now })
+        await queueVariants({ config: variants, data: patch, prev: doc, scheduler: c.scheduler, specs: variantSpecs })
+        if (hooks?.afterUpdate) await hooks.afterUpdate(ohk(c), { id, patch, prev: doc })
+        return { ...doc, ...patch, ...now }
       },
       create = m({
         args: { ...orgIdArg, ...schema.shape },
         handler: typed(async (c: MutCtx, a: Rec) => {
-          const { orgId, ...raw } = a as Rec & { orgId: string }
-          await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string })
+          const { orgId, ...raw } = a as Rec & { orgId: string },
+            { role } = await requireWrite(c, orgId)
+          assertWritable(policies, raw, { admin: isAdminRole(role, roles), owner: true }, `${table}:create`)
           if (opt?.rateLimit && !isTestMode())
             await checkRateLimit(c.db, { config: opt.rateLimit, key: c.user._id as string, table })
           let data = raw as Rec
           if (hooks?.beforeCreate) data = await hooks.beforeCreate(ohk(c), { data })
+          await checkFiles({ data, db: c.db, op: `${table}:create`, rules: fileRules })
           const id = await dbInsert(c.db, table, { ...data, orgId, userId: c.user._id, ...time() })
+          await queueVariants({ config: variants, data, scheduler: c.scheduler, specs: variantSpecs })
           if (hooks?.afterCreate) await hooks.afterCreate(ohk(c), { data, id })
           return id
         })
       }),
       list = q({
-        args: { ...orgIdArg, paginationOpts: pgOpts },
-        handler: typed(async (c: MutCtx & ReadCtx, { orgId, paginationOpts }: { orgId: string; paginationOpts: Rec }) => {
-          await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string })
-          const qry = c.db
-              .query(table)
-              .withIndex(
-                'by_org',
-                idx(o => o.eq('orgId', orgId))
-              )
-              .order('desc'),
-            // oxlint-disable-next-line unicorn/no-useless-undefined
-            filtered = softDel ? qry.filter((f: FilterLike) => f.eq(f.field('deletedAt'), undefined)) : qry,
-            { page, ...rest } = await filtered.paginate(paginationOpts)
-          return { ...rest, page: await enrich(c, page) }
-        })
+        args: {
+          ...orgIdArg,
+          orderBy: object({
+            dir: zenum(['asc', 'desc']).optional(),
+            field: zenum(schemaKeys as [string, ...string[]])
+          }).optional(),
+          paginationOpts: pgOpts
+        },
+        handler: typed(
+          async (
+            c: MutCtx & ReadCtx,
+            { orderBy, orgId, paginationOpts }: { orderBy?: OrderBy; orgId: string; paginationOpts: Rec }
+          ) => {
+            const { role } = await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string })
+            if (orderBy) assertReadable(policies, [orderBy.field], { admin: isAdminRole(role, roles) }, `${table}:list`)
+            const qry = c.db
+                .query(table)
+                .withIndex(
+                  orderBy ? orderIndex(indexes, orderBy.field, true) : 'by_org',
+                  idx(o => o.eq('orgId', orgId))
+                )
+                .order(orderBy?.dir ?? 'desc'),
+              // oxlint-disable-next-line unicorn/no-useless-undefined
+              filtered = softDel ? qry.filter((f: FilterLike) => f.eq(f.field('deletedAt'), undefined)) : qry,
+              { page, ...rest } = await filtered.paginate(paginationOpts)
+            return { ...rest, page: await enrich(c, page, role) }
+          }
+        )
       }),
       read = q({
         args: { ...orgIdArg, ...idArgs },
         handler: typed(async (c: MutCtx & ReadCtx, { id, orgId }: { id: string; orgId: string }) => {
-          await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string })
-          const doc = requireOrgDoc(await c.db.get(id), orgId)
-          return (await enrich(c, [doc]))[0]
+          const { role } = await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string }),
+            doc = requireOrgDoc(await c.db.get(id), orgId)
+          return (await enrich(c, [doc], role))[0]
         })
       }),
       update = m({
@@ -239,19 +407,22 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
               acl: useAcl,
               doc: aclDoc as { editors?: string[]; userId: string },
               role,
+              roles,
+              table,
               userId: c.user._id as string
             })
           )
             return err('FORBIDDEN', `${table}:update`)
-          if (expectedUpdatedAt !== undefined && doc.updatedAt !== expectedUpdatedAt)
-            return err('CONFLICT', `${table}:update`)
-          let patch = raw as Rec
-          if (hooks?.beforeUpdate) patch = await hooks.beforeUpdate(ohk(c), { id, patch, prev: doc })
-          const now = time()
-          await cleanFiles({ doc, fileFields: fileFs, next: patch, storage: c.storage })
-          await dbPatch(c.db, id, { ...patch, ...now })
-          if (hooks?.afterUpdate) await hooks.afterUpdate(ohk(c), { id, patch, prev: doc })
-          return { ...doc, ...patch, ...now }
+          assertWritable(policies, raw, viewerOf(role, doc, c.user._id), `${table}:update`, doc)
+          if (expectedUpdatedAt !== undefined && doc.updatedAt !== expectedUpdatedAt) {
+            const base = await docAt(c.db, id, doc, expectedUpdatedAt)
+            return conflictErr({
+              base: base && strip(base, role, c.user._id),
+              current: strip(doc, role, c.user._id),
+              op: `${table}:update`
+            })
+          }
+          return strip(await applyUpdate(c, id, doc, raw as Rec), role, c.user._id)
         })
       }),
       rm = m({
@@ -265,22 +436,15 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
               acl: useAcl,
               doc: aclDoc as { editors?: string[]; userId: string },
               role,
+              roles,
+              table,
               userId: c.user._id as string
             })
           )
             return err('FORBIDDEN', `${table}:rm`)
-          if (hooks?.beforeDelete) await hooks.beforeDelete(ohk(c), { doc, id })
-          if (softDel) {
-            await dbPatch(c.db, id, { deletedAt: Date.now() })
-            if (hooks?.afterDelete) await hooks.afterDelete(ohk(c), { doc, id })
-            log('info', 'crud:delete', { id, soft: true, table })
-            return doc
-          }
-          await cascadeDelete(c.db, id)
-          await dbDelete(c.db, id)
-          await cleanFiles({ doc, fileFields: fileFs, storage: c.storage })
-          if (hooks?.afterDelete) await hooks.afterDelete(ohk(c), { doc, id })
-          return doc
+          await deleteDoc(c, id, doc)
+          if (softDel) log('info', 'crud:delete', { id, soft: true, table })
+          return strip(doc, role, c.user._id)
         })
       }),
       bulkCreate = m({
@@ -288,12 +452,15 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { items, orgId } = a as { items: Rec[]; orgId: string }
           if (items.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkCreate`)
-          await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string })
-          const ids: string[] = []
+          const { role } = await requireWrite(c, orgId),
+            ids: string[] = []
           for (const item of items) {
+            assertWritable(policies, item, { admin: isAdminRole(role, roles), owner: true }, `${table}:bulkCreate`)
             let data = item
             if (hooks?.beforeCreate) data = await hooks.beforeCreate(ohk(c), { data })
+            await checkFiles({ data, db: c.db, op: `${table}:bulkCreate`, rules: fileRules })
             const id = await dbInsert(c.db, table, { ...data, orgId, userId: c.user._id, ...time() })
+            await queueVariants({ config: variants, data, scheduler: c.scheduler, specs: variantSpecs })
             if (hooks?.afterCreate) await hooks.afterCreate(ohk(c), { data, id })
             ids.push(id)
           }
@@ -305,16 +472,13 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { data, ids, orgId } = a as { data: Rec; ids: string[]; orgId: string }
           if (ids.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkUpdate`)
-          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: c.user._id as string })
+          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, roles, userId: c.user._id as string })
+          assertWritable(policies, data, { admin: true }, `${table}:bulkUpdate`)
           const results: Rec[] = []
           for (const id of ids) {
             const doc = await c.db.get(id)
-            if (doc?.orgId === orgId) {
-              const now = time()
-              await cleanFiles({ doc, fileFields: fileFs, next: data, storage: c.storage })
-              await dbPatch(c.db, id, { ...data, ...now })
-              results.push({ ...doc, ...data, ...now })
-            }
+            if (doc?.orgId === orgId)
+              results.push(stripFields(await applyUpdate(c, id, doc, data), policies, { admin: true }))
           }
           return results
         })
@@ -324,17 +488,12 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { ids, orgId } = a as { ids: string[]; orgId: string }
           if (ids.length > 100) return err('LIMIT_EXCEEDED', `${table}:bulkRm`)
-          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: c.user._id as string })
+          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, roles, userId: c.user._id as string })
           let deleted = 0
           for (const id of ids) {
             const doc = await c.db.get(id)
             if (doc?.orgId === orgId) {
-              if (softDel) await dbPatch(c.db, id, { deletedAt: Date.now() })
-              else {
-                await cascadeDelete(c.db, id)
-                await dbDelete(c.db, id)
-                await cleanFiles({ doc, fileFields: fileFs, storage: c.storage })
-              }
+              await deleteDoc(c, id, doc)
               deleted += 1
             }
           }
@@ -353,16 +512,122 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
                   acl: useAcl,
                   doc: aclDoc as { editors?: string[]; userId: string },
                   role,
+                  roles,
+                  table,
                   userId: c.user._id as string
                 })
               )
                 return err('FORBIDDEN', `${table}:restore`)
               await dbPatch(c.db, id, { deletedAt: undefined, ...time() })
-              return { ...doc, deletedAt: undefined }
+              await cascade(c, { graph, id, mode: 'restore', stamp: doc.deletedAt as number | undefined, table })
+              return strip({ ...doc, deletedAt: undefined }, role, c.user._id)
+            })
+          })
+        : undefined,
+      versions = versioned
+        ? q({
+            args: { ...orgIdArg, ...idArgs, paginationOpts: pgOpts },
+            handler: typed(
+              async (c: MutCtx, { id, orgId, paginationOpts }: { id: string; orgId: string; paginationOpts: Rec }) => {
+                const { role } = await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string }),
+                  doc = requireOrgDoc(await c.db.get(id), orgId),
+                  { page, ...rest } = await docVersions(c.db, id).order('desc').paginate(paginationOpts)
+                return { ...rest, page: page.map(v => stripSnapshot(v, doc, role, c.user._id)) }
+              }
+            )
+          })
+        : undefined,
+      readVersion = versioned
+        ? q({
+            args: { ...orgIdArg, ...versionIdArg },
+            handler: typed(async (c: MutCtx, { orgId, versionId }: { orgId: string; versionId: string }) => {
+              const { role } = await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string }),
+                ver = requireOrgDoc(await c.db.get(versionId), orgId),
+                doc = (await c.db.get(ver.docId as string)) ?? {}
+              return stripSnapshot(ver, doc, role, c.user._id)
+            })
+          })
+        : undefined,
+      revert = versioned
+        ? m({
+            args: { ...orgIdArg, ...versionIdArg, expectedUpdatedAt: number().optional() },
+            handler: typed(async (c: MutCtx, a: Rec) => {
+              const { expectedUpdatedAt, orgId, versionId } = a as {
+                  expectedUpdatedAt?: number
+                  orgId: string
+                  versionId: string
+                },
+                { role } = await requireOrgMember({ db: c.db, orgId, userId: c.user._id as string }),
+                ver = requireOrgDoc(await c.db.get(versionId), orgId),
+                id = ver.docId as string,
+                doc = requireOrgDoc(await c.db.get(id), orgId),
+                aclDoc = await resolveAclDoc(c.db, doc, opt)
+              if (
+                !canEdit({
+                  acl: useAcl,
+                  doc: aclDoc as { editors?: string[]; userId: string },
+                  role,
+                  roles,
+                  table,
+                  userId: c.user._id as string
+                })
+              )
+                return err('FORBIDDEN', `${table}:revert`)
+              if (expectedUpdatedAt !== undefined && doc.updatedAt !== expectedUpdatedAt)
+                return err('CONFLICT', `${table}:revert`)
+              const snapshot = ver.snapshot as Rec,
+                patch: Rec = {}
+              for (const k of schemaKeys) patch[k] = snapshot[k]
+              assertWritable(policies, patch, viewerOf(role, doc, c.user._id), `${table}:revert`, doc)
+              return strip(await applyUpdate(c, id, doc, patch), role, c.user._id)
             })
           })
         : undefined,
-      base = { bulkCreate, bulkRm, bulkUpdate, create, list, read, restore, rm, update },
+      audit = {
+        fields: policies,
+        viewer: async (c: UserCtx, doc: Rec) => {
+          const userId = c.user._id as string,
+            { role } = await requireOrgMember({ db: c.db, orgId: doc.orgId as string, userId }),
+            aclDoc = await resolveAclDoc(c.db, doc, opt)
+          if (
+            useAcl &&
+            !canEdit({ acl: useAcl, doc: aclDoc as { editors?: string[]; userId: string }, role, roles, table, userId })
+          )
+            return err('FORBIDDEN', 'audit:history')
+          return viewerOf(role, doc, userId)
+        }
+      },
+      collab = {
+        authorize: async (c: MutCtx, doc: Rec, field: string) => {
+          const userId = c.user._id as string,
+            { role } = await requireOrgMember({ db: c.db, orgId: doc.orgId as string, userId }),
+            aclDoc = await resolveAclDoc(c.db, doc, opt)
+          if (
+            !canEdit({ acl: useAcl, doc: aclDoc as { editors?: string[]; userId: string }, role, roles, table, userId })
+          )
+            return err('FORBIDDEN', `${table}:update`)
+          assertWritable(policies, { [field]: true }, viewerOf(role, doc, userId), `${table}:update`)
+        },
+        rateLimit: opt?.rateLimit,
+        schema,
+        write: async (c: MutCtx, doc: Rec, patch: Rec) => applyUpdate(c, doc._id as string, doc, patch)
+      },
+      base = {
+        audit,
+        bulkCreate,
+        bulkRm,
+        bulkUpdate,
+        collab,
+        create,
+        list,
+        read,
+        readVersion,
+        restore,
+        revert,
+        rm,
+        update,
+        versions
+      },
       itemIdKey = `${table}Id` as const,
       itemIdArg = { [itemIdKey]: zid(table) },
       aclArgs = (a: unknown) => {
@@ -378,7 +643,7 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         args: { editorId: zid('users'), ...orgIdArg, ...itemIdArg },
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { editorId, itemId, orgId } = aclArgs(a)
-          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: c.user._id as string })
+          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, roles, userId: c.user._id as string })
           const doc = requireOrgDoc(await c.db.get(itemId), orgId),
             editorIsOwner = (await c.db.get(orgId))?.userId === editorId,
             editorMember = await getOrgMember({ db: c.db, orgId, userId: editorId })
@@ -397,7 +662,7 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         args: { editorId: zid('users'), ...orgIdArg, ...itemIdArg },
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { editorId, itemId, orgId } = aclArgs(a)
-          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: c.user._id as string })
+          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, roles, userId: c.user._id as string })
           const doc = requireOrgDoc(await c.db.get(itemId), orgId),
             eds = getEditors(doc),
             filtered = eds.filter((eid: string) => eid !== editorId),
@@ -428,7 +693,7 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
         args: { editorIds: array(zid('users')).max(BULK_MAX), ...orgIdArg, ...itemIdArg },
         handler: typed(async (c: MutCtx, a: Rec) => {
           const { editorIds, itemId, orgId } = aclArgs(a)
-          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: c.user._id as string })
+          await requireOrgRole({ db: c.db, minRole: 'admin', orgId, roles, userId: c.user._id as string })
           const doc = requireOrgDoc(await c.db.get(itemId), orgId)
           if (editorIds)
             for (const editorId of editorIds) {
@@ -442,18 +707,33 @@ const getEditors = (doc: Rec): string[] => (doc.editors as string[] | undefined)
           return { ...doc, ...patch }
         })
       })
-    return { ...base, addEditor, editors, removeEditor, setEditors } as unknown as OrgCrudResult<S>
+    return describeMutations(table, {
+      ...base,
+      addEditor,
+      editors,
+      removeEditor,
+      setEditors
+    }) as unknown as OrgCrudResult<S>
   },
   /**
    * Creates a cascade configuration for org-scoped child tables, used with orgCrud's cascade option.
-   * @param _schema - The child table's Zod schema (used for type inference only)
-   * @param config - Object with foreignKey and table name
+   * @param schema - The child table's Zod schema, read for file fields and `deletedAt`
+   * @param config - Object with foreignKey, table name, and optional index (defaults to the first index on foreignKey)
    * @returns CascadeOption config object
    */
   orgCascade = <S extends ZodRawShape>(
-    _schema: ZodObject<S>,
-    config: { foreignKey: keyof S & string; table: string }
-  ): CascadeOption => config
+    schema: ZodObject<S>,
+    config: { foreignKey: keyof S & string; index?: string; table: string }
+  ): CascadeOption => cascadeEdge(schema.shape, config)
 
 export type { OrgCrudOptions }
-export { canEdit, getOrgMember, getOrgRole, makeOrgCrud, orgCascade, requireOrgMember, requireOrgRole }
+export {
+  canEdit,
+  getOrgMember,
+  getOrgRole,
+  makeOrgCrud,
+  orgCascade,
+  requireOrgMember,
+  requireOrgPermission,
+  requireOrgRole
+}
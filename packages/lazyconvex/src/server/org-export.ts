@@ -0,0 +1,491 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: pages, files, and row batches are processed in order */
+import type { ActionBuilder, GenericDataModel, MutationBuilder, QueryBuilder } from 'convex/server'
+import type { GenericId } from 'convex/values'
+import type { ZodObject, ZodRawShape } from 'zod/v4'
+
+import { anyApi } from 'convex/server'
+import { v } from 'convex/values'
+
+import type { ArchiveEntry } from './archive'
+import type { DbLike, OrgRoles, Rec, ValueShape } from './types'
+
+import { unzipStream, zipStream } from './archive'
+import { idx } from './bridge'
+import { err, errValidation, generateToken, log, time } from './helpers'
+import { memberRoleFields, storedRole } from './org-roles'
+import { tableIndexes } from './query-plan'
+
+/**
+ * Contents of `org.json` in an export archive. Rows are stored in pages at `tables/<table>/<n>.json` and keep their
+ * original ids so references can be remapped; `tables` holds the page count of each table.
+ */
+interface OrgArchive {
+  files: { contentType: string; id: string }[]
+  format: typeof ARCHIVE_FORMAT
+  invites: { email: string; expiresAt: number; role: string }[]
+  org: { _id: string; avatarId?: string; name: string; slug: string; userId: string }
+  tables: Record<string, number>
+  version: number
+}
+
+interface OrgExportActionCtx {
+  runMutation: (ref: unknown, args: Rec) => Promise<unknown>
+  runQuery: (ref: unknown, args: Rec) => Promise<unknown>
+  storage: {
+    delete: (id: string) => Promise<void>
+    generateUploadUrl: () => Promise<string>
+    get: (id: string) => Promise<Blob | null>
+    getUrl: (id: string) => Promise<null | string>
+    store: (blob: Blob) => Promise<string>
+  }
+}
+
+interface OrgExportConfig<DM extends GenericDataModel = GenericDataModel> {
+  action: ActionBuilder<DM, 'public'>
+  getAuthUserId: (ctx: never) => Promise<null | string>
+  internalMutation: MutationBuilder<DM, 'internal'>
+  internalQuery: QueryBuilder<DM, 'internal'>
+  namespace?: string
+  orgSchema: ZodObject<ZodRawShape>
+  roles?: OrgRoles
+  schema?: { tables: Record<string, unknown> }
+}
+
+interface Page<T> {
+  continueCursor: string
+  isDone: boolean
+  page: T[]
+}
+
+const ARCHIVE_FORMAT = 'lazyconvex.org',
+  ARCHIVE_VERSION = 1,
+  EXPORT_PAGE = 200,
+  IMPORT_BATCH = 100,
+  MANIFEST = 'org.json',
+  PAGE_NAME = /^tables\/(?<table>[^/]+)\/\d+\.json$/u,
+  /**
+   * Tables from `orgTables()` and `auditTables()`. The archive carries invites itself; memberships, invite links,
+   * join requests, webhooks, earlier exports and the audit trail describe the old org and are left out.
+   */
+  SKIPPED_TABLES = new Set([
+    'audit',
+    'org',
+    'orgExport',
+    'orgInvite',
+    'orgInviteLink',
+    'orgJoinRequest',
+    'orgMember',
+    'orgWebhook',
+    'orgWebhookDelivery'
+  ]),
+  shapeOf = (schema: { tables: Record<string, unknown> } | undefined, table: string) =>
+    (schema?.tables[table] as undefined | { validator?: ValueShape })?.validator,
+  /**
+   * Rewrites the ids in a value, guided by its Convex validator. An id the lookup does not know is dropped, and
+   * INVALID_ARCHIVE is thrown when it fills a required field, so an archive cannot point rows at documents outside it.
+   * Strings under `v.any()` may be ids or plain text, so they are rewritten when the lookup knows them and kept
+   * otherwise.
+   * @param shape - Validator of the value
+   * @param value - Value to rewrite
+   * @param lookup - Returns the replacement for an id, or undefined to drop it
+   * @returns The value with ids replaced and unknown ids removed
+   * @throws INVALID_ARCHIVE when a required field holds an unknown id
+   */
+  mapIds = (
+    shape: undefined | ValueShape,
+    value: unknown,
+    lookup: (id: string, table?: string) => string | undefined
+  ): unknown => {
+    if (!shape || value === null || value === undefined) return value
+    if (shape.kind === 'id') return typeof value === 'string' ? lookup(value, shape.tableName) : value
+    if (shape.kind === 'array' && Array.isArray(value))
+      return value.map(x => mapIds(shape.element, x, lookup)).filter(x => x !== undefined)
+    if (shape.kind === 'union')
+      return (shape.members ?? []).reduce<unknown>((acc, member) => mapIds(member, acc, lookup), value)
+    if (shape.kind === 'any') {
+      if (typeof value === 'string') return lookup(value) ?? value
+      if (Array.isArray(value)) return value.map(x => mapIds(shape, x, lookup))
+      if (typeof value === 'object')
+        return Object.fromEntries(Object.entries(value).map(([k, x]) => [k, mapIds(shape, x, lookup)]))
+      return value
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) return value
+    if (shape.kind === 'record')
+      return Object.fromEntries(
+        Object.entries(value)
+          .map(([k, x]) => [k, mapIds(shape.value, x, lookup)])
+          .filter(([, x]) => x !== undefined)
+      )
+    if (shape.kind !== 'object') return value
+    const out: Rec = { ...(value as Rec) }
+    for (const [k, fieldShape] of Object.entries(shape.fields ?? {}))
+      if (k in out) {
+        const mapped = mapIds(fieldShape, out[k], lookup)
+        if (mapped !== undefined) out[k] = mapped
+        else if (fieldShape.isOptional === 'optional') delete out[k]
+        else return err('INVALID_ARCHIVE')
+      }
+    return out
+  },
+  idTables = (shape: undefined | ValueShape, out = new Set<string>()): Set<string> => {
+    if (!shape) return out
+    if (shape.kind === 'id' && shape.tableName) out.add(shape.tableName)
+    const nested = [shape.element, shape.value, ...(shape.members ?? []), ...Object.values(shape.fields ?? {})]
+    for (const child of nested) idTables(child, out)
+    return out
+  },
+  /**
+   * Lists the tables an org export covers: every table with a `by_org` index on `orgId` other than the org and audit tables,
+   * ordered so that tables come after the tables their ids point to.
+   * @param schema - The app schema passed to `setup`
+   * @returns Table names in import order
+   */
+  orgDataTables = (schema: undefined | { tables: Record<string, unknown> }) => {
+    const tables = Object.keys(schema?.tables ?? {}).filter(
+        t => !SKIPPED_TABLES.has(t) && tableIndexes(schema, t).some(i => i.name === 'by_org' && i.fields[0] === 'orgId')
+      ),
+      refs = new Map(tables.map(t => [t, new Set<string>()])),
+      ordered: string[] = []
+    for (const t of tables)
+      for (const target of idTables(shapeOf(schema, t))) if (target !== t && refs.has(target)) refs.get(t)?.add(target)
+    const visit = (t: string, path: Set<string>) => {
+      if (ordered.includes(t) || path.has(t)) return
+      path.add(t)
+      for (const dep of refs.get(t) ?? []) visit(dep, path)
+      ordered.push(t)
+    }
+    for (const t of tables) visit(t, new Set())
+    return ordered
+  },
+  readJson = (data: Uint8Array): unknown => {
+    try {
+      return JSON.parse(new TextDecoder().decode(data))
+    } catch {
+      return err('INVALID_ARCHIVE')
+    }
+  },
+  /**
+   * Streams the entries of an archive in storage, one at a time.
+   * @param storage - Action storage
+   * @param archive - Storage id of the zip
+   * @param each - Called with every entry in archive order
+   * @throws FILE_NOT_FOUND when the archive is gone, INVALID_ARCHIVE when it is not a readable zip
+   */
+  eachEntry = async (
+    storage: OrgExportActionCtx['storage'],
+    archive: string,
+    each: (entry: ArchiveEntry) => Promise<void> | void
+  ) => {
+    const blob = await storage.get(archive)
+    if (!blob) return err('FILE_NOT_FOUND')
+    const next = unzipStream(blob.stream())
+    for (let entry = await next(); entry; entry = await next()) await each(entry)
+  },
+  /**
+   * Creates the owner-only org export and the matching import. `export` streams every org-scoped row, pending
+   * invites, and every file those rows or the org avatar reference into one zip in storage, holding one page or file
+   * at a time, and records it in `orgExport` so `makeFileGc` keeps it until the org is deleted. `import` recreates the org from such a zip under a new slug, owned by the importer, with fresh ids,
+   * copied files, and new invite tokens. Memberships are not carried over, so user ids in rows become the importer;
+   * any other id that does not point into the archive is dropped, and every row is pinned to the new org. The zip is
+   * streamed one entry at a time, and `importAbort` removes the new org again if anything fails after it is created.
+   * Export every returned function from the module named by `namespace` (and `setup({ orgNamespace })`).
+   * @param config - Builders, auth, the org Zod schema, the app schema, and the module name
+   * @returns Object with `export`, `import`, and the internal functions they call
+   */
+  makeOrgExport = <DM extends GenericDataModel>(config: OrgExportConfig<DM>) => {
+    const {
+        action,
+        getAuthUserId,
+        internalMutation,
+        internalQuery,
+        namespace = 'org',
+        orgSchema,
+        roles,
+        schema
+      } = config,
+      tPath = (anyApi as Rec)[namespace] as Rec,
+      dataTables = orgDataTables(schema),
+      authUserId = async (c: unknown) => (await getAuthUserId(c as never)) ?? err('NOT_AUTHENTICATED'),
+      byOrg = (db: DbLike, table: string, orgId: string) =>
+        db.query(table).withIndex(
+          'by_org',
+          idx(o => o.eq('orgId', orgId))
+        ),
+      exportHead = internalQuery({
+        args: { orgId: v.id('org'), userId: v.id('users') },
+        handler: async (c: { db: DbLike }, { orgId, userId }: { orgId: string; userId: string }) => {
+          const orgDoc = await c.db.get(orgId)
+          if (!orgDoc) return err('NOT_FOUND')
+          if (orgDoc.userId !== userId) return err('FORBIDDEN')
+          const invites = await byOrg(c.db, 'orgInvite', orgId).collect()
+          return {
+            invites: invites.map(i => ({ email: i.email, expiresAt: i.expiresAt, role: storedRole(i) })),
+            org: { _id: orgId, avatarId: orgDoc.avatarId, name: orgDoc.name, slug: orgDoc.slug, userId: orgDoc.userId }
+          }
+        }
+      } as never),
+      exportPage = internalQuery({
+        args: { cursor: v.union(v.string(), v.null()), orgId: v.id('org'), table: v.string() },
+        handler: async (
+          c: { db: DbLike },
+          { cursor, orgId, table }: { cursor: null | string; orgId: string; table: string }
+        ) => {
+          if (!dataTables.includes(table)) return err('NOT_FOUND', `${table}:export`)
+          return byOrg(c.db, table, orgId).paginate({ cursor, numItems: EXPORT_PAGE })
+        }
+      } as never),
+      exportSaved = internalMutation({
+        args: { orgId: v.id('org'), storageId: v.id('_storage'), userId: v.id('users') },
+        handler: async (c: { db: DbLike }, a: { orgId: string; storageId: string; userId: string }) =>
+          c.db.insert('orgExport', a)
+      } as never),
+      exportOrg = action({
+        args: { orgId: v.id('org') },
+        handler: async (c: OrgExportActionCtx, { orgId }: { orgId: string }) => {
+          const userId = await authUserId(c),
+            head = (await c.runQuery(tPath.exportHead, { orgId, userId })) as Pick<OrgArchive, 'invites' | 'org'>,
+            enc = new TextEncoder(),
+            pages: Record<string, number> = {},
+            files: OrgArchive['files'] = [],
+            fileIds = new Set<string>(head.org.avatarId ? [head.org.avatarId] : []),
+            noteFile = (id: string, table?: string) => {
+              if (table === '_storage') fileIds.add(id)
+              return id
+            }
+          let tableAt = 0,
+            cursor: null | string = null,
+            rows = 0,
+            pendingFiles: IterableIterator<string> | undefined,
+            closed = false
+          const next = async (): Promise<ArchiveEntry | null> => {
+              const table = dataTables[tableAt]
+              if (table) {
+                const res = (await c.runQuery(tPath.exportPage, { cursor, orgId, table })) as Page<Rec>,
+                  n = pages[table] ?? 0
+                for (const row of res.page) mapIds(shapeOf(schema, table), row, noteFile)
+                rows += res.page.length
+                pages[table] = n + 1
+                cursor = res.isDone ? null : res.continueCursor
+                if (res.isDone) tableAt += 1
+                return { data: enc.encode(JSON.stringify(res.page)), name: `tables/${table}/${n}.json` }
+              }
+              pendingFiles ??= fileIds.values()
+              for (let id = pendingFiles.next(); !id.done; id = pendingFiles.next()) {
+                const blob = await c.storage.get(id.value)
+                if (blob) {
+                  files.push({ contentType: blob.type, id: id.value })
+                  return { data: new Uint8Array(await blob.arrayBuffer()), name: `files/${id.value}` }
+                }
+                log('warn', 'org:export_file_missing', { id: id.value, orgId })
+              }
+              if (closed) return null
+              closed = true
+              const manifest: OrgArchive = {
+                ...head,
+                files,
+                format: ARCHIVE_FORMAT,
+                tables: pages,
+                version: ARCHIVE_VERSION
+              }
+              return { data: enc.encode(JSON.stringify(manifest)), name: MANIFEST }
+            },
+            res = await fetch(await c.storage.generateUploadUrl(), {
+              body: zipStream(next),
+              duplex: 'half',
+              headers: { 'Content-Type': 'application/zip' },
+              method: 'POST'
+            } as RequestInit)
+          if (!res.ok) return err('INCOMPLETE_UPLOAD', `Storage upload failed with ${res.status}`)
+          const { storageId } = (await res.json()) as { storageId: string }
+          await c.runMutation(tPath.exportSaved, { orgId, storageId, userId })
+          log('info', 'org:export', { files: files.length, orgId, rows })
+          return { files: files.length, rows, storageId, url: await c.storage.getUrl(storageId) }
+        }
+      } as never),
+      importStart = internalMutation({
+        args: {
+          invites: v.array(v.object({ email: v.string(), expiresAt: v.number(), role: v.string() })),
+          name: v.string(),
+          slug: v.string(),
+          userId: v.id('users')
+        },
+        handler: async (
+          c: { db: DbLike },
+          a: Pick<OrgArchive, 'invites'> & { name: string; slug: string; userId: string }
+        ) => {
+          const taken = await c.db
+            .query('org')
+            .withIndex(
+              'by_slug',
+              idx(o => o.eq('slug', a.slug))
+            )
+            .unique()
+          if (taken) return err('ORG_SLUG_TAKEN')
+          const orgId = await c.db.insert('org', { name: a.name, slug: a.slug, userId: a.userId, ...time() })
+          for (const i of a.invites)
+            await c.db.insert('orgInvite', {
+              email: i.email,
+              expiresAt: i.expiresAt,
+              ...memberRoleFields(i.role, roles),
+              orgId,
+              token: generateToken(),
+              userId: a.userId
+            })
+          return orgId
+        }
+      } as never),
+      importRows = internalMutation({
+        args: { docs: v.array(v.any()), table: v.string() },
+        handler: async (c: { db: DbLike }, { docs, table }: { docs: Rec[]; table: string }) => {
+          if (!dataTables.includes(table)) return err('NOT_FOUND', `${table}:import`)
+          const ids: string[] = []
+          for (const d of docs) ids.push(await c.db.insert(table, d))
+          return ids
+        }
+      } as never),
+      importPatch = internalMutation({
+        args: { patches: v.array(v.object({ doc: v.any(), id: v.string() })) },
+        handler: async (c: { db: DbLike }, { patches }: { patches: { doc: Rec; id: string }[] }) => {
+          for (const p of patches) await c.db.patch(p.id, p.doc)
+        }
+      } as never),
+      importAbort = internalMutation({
+        args: { orgId: v.id('org') },
+        handler: async (c: { db: DbLike }, { orgId }: { orgId: string }) => {
+          for (const table of [...dataTables, 'orgInvite']) {
+            const docs = await byOrg(c.db, table, orgId).take(IMPORT_BATCH)
+            if (docs.length > 0) {
+              for (const d of docs) await c.db.delete(d._id as string)
+              return true
+            }
+          }
+          await c.db.delete(orgId)
+          return false
+        }
+      } as never),
+      importOrg = action({
+        args: { archive: v.id('_storage'), name: v.optional(v.string()), slug: v.string() },
+        handler: async (
+          c: OrgExportActionCtx,
+          { archive, name, slug }: { archive: string; name?: string; slug: string }
+        ): Promise<{ files: number; orgId: GenericId<'org'>; rows: number }> => {
+          const userId = await authUserId(c),
+            archived = new Set<string>(),
+            present = new Set<string>(),
+            pageCounts: Record<string, number> = {},
+            tableOf = (name: string) => {
+              const table = PAGE_NAME.exec(name)?.groups?.table
+              return table && dataTables.includes(table) ? table : undefined
+            },
+            pageRows = (entry: ArchiveEntry) => {
+              const parsed = readJson(entry.data)
+              return Array.isArray(parsed) ? (parsed as Rec[]) : err('INVALID_ARCHIVE')
+            }
+          let manifest: OrgArchive | undefined
+          await eachEntry(c.storage, archive, entry => {
+            const table = tableOf(entry.name)
+            if (entry.name === MANIFEST) manifest = readJson(entry.data) as OrgArchive
+            else if (entry.name.startsWith('files/')) present.add(entry.name.slice('files/'.length))
+            else if (table) {
+              pageCounts[table] = (pageCounts[table] ?? 0) + 1
+              for (const row of pageRows(entry)) archived.add(row._id as string)
+            }
+          })
+          if (
+            manifest?.format !== ARCHIVE_FORMAT ||
+            manifest.version > ARCHIVE_VERSION ||
+            dataTables.some(t => (pageCounts[t] ?? 0) !== (manifest?.tables[t] ?? 0))
+          )
+            return err('INVALID_ARCHIVE')
+          const head = manifest,
+            orgName = name ?? head.org.name,
+            check = orgSchema.partial().safeParse({ name: orgName, slug })
+          if (!check.success) return errValidation('VALIDATION_FAILED', check.error)
+          const fileTypes = new Map(head.files.filter(f => present.has(f.id)).map(f => [f.id, f.contentType]))
+          archived.add(head.org._id)
+          for (const id of fileTypes.keys()) archived.add(id)
+          const orgId = (await c.runMutation(tPath.importStart, {
+              invites: head.invites,
+              name: orgName,
+              slug,
+              userId
+            })) as GenericId<'org'>,
+            ids = new Map<string, string>([[head.org._id, orgId]]),
+            fresh = new Set<string>([orgId, userId]),
+            files: string[] = [],
+            remember = (oldId: string, newId: string) => {
+              ids.set(oldId, newId)
+              fresh.add(newId)
+            }
+          let forward = false,
+            rows = 0
+          const lookup = (id: string, table?: string) =>
+              ids.get(id) ?? (fresh.has(id) ? id : undefined) ?? (table === 'users' ? userId : undefined),
+            pendingLookup = (id: string, table?: string) => {
+              const found = lookup(id, table)
+              if (found !== undefined || !archived.has(id)) return found
+              forward = true
+              return id
+            },
+            toDoc = (table: string, row: Rec, resolve: typeof lookup) => {
+              const doc: Rec = { ...(mapIds(shapeOf(schema, table), row, resolve) as Rec), orgId }
+              if (Array.isArray(doc.editors)) doc.editors = [...new Set(doc.editors)]
+              return doc
+            },
+            pending: { id: string; row: Rec; table: string }[] = []
+          try {
+            await eachEntry(c.storage, archive, async entry => {
+              const table = tableOf(entry.name),
+                fileId = entry.name.startsWith('files/') ? entry.name.slice('files/'.length) : undefined,
+                type = fileId ? fileTypes.get(fileId) : undefined
+              if (fileId && type !== undefined) {
+                const id = await c.storage.store(new Blob([new Uint8Array(entry.data)], { type }))
+                files.push(id)
+                remember(fileId, id)
+              }
+              if (!table) return
+              const batch = pageRows(entry).map(row => {
+                  const { _creationTime, _id, ...rest } = row
+                  forward = false
+                  const doc = toDoc(table, rest, pendingLookup)
+                  return { doc, forward, oldId: _id as string, row: rest }
+                }),
+                newIds = (await c.runMutation(tPath.importRows, { docs: batch.map(b => b.doc), table })) as string[]
+              for (const [j, b] of batch.entries()) {
+                const id = newIds[j] as string
+                remember(b.oldId, id)
+                if (b.forward) pending.push({ id, row: b.row, table })
+              }
+              rows += batch.length
+            })
+            const patches = pending.map(x => ({ doc: toDoc(x.table, x.row, lookup), id: x.id })),
+              avatarId = head.org.avatarId ? ids.get(head.org.avatarId) : undefined
+            if (avatarId) patches.push({ doc: { avatarId }, id: orgId })
+            for (let i = 0; i < patches.length; i += IMPORT_BATCH)
+              await c.runMutation(tPath.importPatch, { patches: patches.slice(i, i + IMPORT_BATCH) })
+          } catch (error) {
+            let more = true
+            while (more) more = (await c.runMutation(tPath.importAbort, { orgId })) as boolean
+            await Promise.all(files.map(async id => c.storage.delete(id)))
+            log('warn', 'org:import_rolled_back', { orgId, reason: String(error) })
+            throw error
+          }
+          log('info', 'org:import', { files: files.length, orgId, rows })
+          return { files: files.length, orgId, rows }
+        }
+      } as never)
+    return {
+      export: exportOrg,
+      exportHead,
+      exportPage,
+      exportSaved,
+      import: importOrg,
+      importAbort,
+      importPatch,
+      importRows,
+      importStart
+    }
+  }
+
+export type { OrgArchive, OrgExportConfig }
+export { makeOrgExport, mapIds, orgDataTables }
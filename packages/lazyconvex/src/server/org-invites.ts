@@ -1,13 +1,21 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: bulk invites are checked and inserted in order */
+import type { ActionBuilder, GenericDataModel } from 'convex/server'
 import type { GenericId } from 'convex/values'
 
 import { zid } from 'convex-helpers/server/zod4'
+import { anyApi } from 'convex/server'
+import { v } from 'convex/values'
 import { z } from 'zod/v4'
 
-import type { DbLike, FilterLike, Mb, Qb, Rec } from './types'
+import type { InviteEmail, InviteMailer } from './invite-mailer'
+import type { DbLike, Mb, OrgRole, OrgRoles, Qb, Rec, SchedulerLike } from './types'
 
+import { withRetry } from '../retry'
 import { idx } from './bridge'
-import { err, generateToken, SEVEN_DAYS_MS, time } from './helpers'
-import { getOrgMember, requireOrgRole } from './org-crud'
+import { err, generateToken, log, SEVEN_DAYS_MS, time } from './helpers'
+import { requireOrgPermission } from './org-crud'
+import { admitMember } from './org-join'
+import { grantableRole, isAdminRole, memberRoleFields, storedRole } from './org-roles'
 
 /** Shape of an org invite document as stored in the orgInvite table. */
 interface InviteDocLike {
@@ -18,93 +26,353 @@ interface InviteDocLike {
   expiresAt: number
   isAdmin: boolean
   orgId: GenericId<'org'>
+  role?: string
   token: string
+  userId?: GenericId<'users'>
 }
 
-const makeInviteHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
-  const invite = m({
-      args: { email: z.email(), isAdmin: z.boolean(), orgId: zid('org') },
-      handler: async (c: Rec, { email, isAdmin, orgId }: { email: string; isAdmin: boolean; orgId: string }) => {
-        await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: (c.user as Rec)._id as string })
-        const token = generateToken(),
-          expiresAt = Date.now() + SEVEN_DAYS_MS,
-          inviteId = await (c.db as DbLike).insert('orgInvite', {
+/** Shape of a shareable invite link as stored in the orgInviteLink table. */
+interface InviteLinkDocLike {
+  [k: string]: unknown
+  _creationTime: number
+  _id: GenericId<'orgInviteLink'>
+  expiresAt: number
+  isAdmin: boolean
+  maxUses?: number
+  orgId: GenericId<'org'>
+  role?: string
+  token: string
+  userId: GenericId<'users'>
+  uses: number
+}
+
+/** Outcome of `bulkInvite`: the invites created and the rows left out, with why. */
+interface BulkInviteResult {
+  invited: { email: string; inviteId: GenericId<'orgInvite'>; token: string }[]
+  skipped: { email: string; reason: 'duplicate' | 'invalid_email' | 'invalid_role' | 'pending_invite' }[]
+}
+
+const BULK_INVITE_MAX = 100,
+  /** Longest an invite link stays valid; longer `expiresInMs` values are clamped to it. */
+  INVITE_LINK_MAX_TTL = 30 * 24 * 60 * 60 * 1000,
+  emailSchema = z.email(),
+  tryGrant = (granter: OrgRole, role: string | undefined, roles: OrgRoles | undefined) => {
+    try {
+      return grantableRole(granter, { role }, roles)
+    } catch {
+      return null
+    }
+  },
+  /**
+   * Splits CSV text into rows of cells per RFC 4180: quoted cells may hold commas, line breaks, and `""` for a quote.
+   * @param csv - CSV text
+   * @returns Rows of cells, in file order
+   */
+  csvRows = (csv: string) => {
+    const rows: string[][] = []
+    let row: string[] = [],
+      cell = '',
+      quoted = false
+    for (let i = 0; i < csv.length; i += 1) {
+      const ch = csv[i]
+      if (quoted && ch === '"' && csv[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (ch === '"') quoted = !quoted
+      else if (quoted) cell += ch
+      else if (ch === ',') {
+        row.push(cell)
+        cell = ''
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && csv[i + 1] === '\n') i += 1
+        rows.push([...row, cell])
+        row = []
+        cell = ''
+      } else cell += ch
+    }
+    rows.push([...row, cell])
+    return rows
+  },
+  /**
+   * Reads invite rows from CSV text: one `email[,role]` per line, with an optional header row naming the
+   * `email` and `role` columns. Cells may be quoted. Blank lines are ignored.
+   * @param csv - CSV text
+   * @returns Rows in file order
+   */
+  parseInviteCsv = (csv: string): { email: string; role?: string }[] => {
+    const rows = csvRows(csv)
+        .map(cells => cells.map(c => c.trim()))
+        .filter(cells => cells.some(Boolean)),
+      first = (rows[0] ?? []).map(c => c.toLowerCase()),
+      hasHeader = first.includes('email'),
+      emailAt = hasHeader ? first.indexOf('email') : 0,
+      roleAt = hasHeader ? first.indexOf('role') : 1
+    return (hasHeader ? rows.slice(1) : rows).map(cells => {
+      const role = roleAt >= 0 ? cells[roleAt] : undefined
+      return role ? { email: cells[emailAt] ?? '', role } : { email: cells[emailAt] ?? '' }
+    })
+  },
+  /**
+   * Creates the action that hands invites to the configured mailer. `makeOrg` builds it when `setup` gets an
+   * `inviteMailer`; export it from the org module as `deliverInvite`. Failed sends are retried, then logged.
+   * @param config - Internal action builder and the mailer
+   * @returns Object with `deliverInvite`
+   */
+  makeInviteDelivery = <DM extends GenericDataModel>({
+    internalAction,
+    mailer
+  }: {
+    internalAction: ActionBuilder<DM, 'internal'>
+    mailer: InviteMailer
+  }) => ({
+    deliverInvite: internalAction({
+      args: {
+        email: v.object({
+          email: v.string(),
+          expiresAt: v.number(),
+          inviteId: v.string(),
+          invitedBy: v.optional(v.string()),
+          orgId: v.string(),
+          orgName: v.string(),
+          role: v.string(),
+          token: v.string()
+        })
+      },
+      handler: async (_: unknown, { email }: { email: InviteEmail }) => {
+        try {
+          await withRetry(async () => mailer.send(email))
+          return true
+        } catch (error) {
+          log('error', 'org:invite_email_failed', { email: email.email, error: String(error), orgId: email.orgId })
+          return false
+        }
+      }
+    } as never)
+  }),
+  makeInviteHandlers = ({ m, mailNamespace, q, roles }: { m: Mb; mailNamespace?: string; q: Qb; roles?: OrgRoles }) => {
+    const deliver = mailNamespace ? ((anyApi as Rec)[mailNamespace] as Rec).deliverInvite : undefined,
+      requireInviter = async (c: Rec, orgId: string) =>
+        requireOrgPermission({
+          db: c.db,
+          orgId,
+          permission: 'members.invite',
+          roles,
+          userId: (c.user as Rec)._id as string
+        }),
+      sendEmail = async (c: Rec, inviteDoc: Rec) => {
+        if (!deliver) return
+        const orgDoc = await (c.db as DbLike).get(inviteDoc.orgId as string),
+          user = c.user as Rec,
+          email: InviteEmail = {
+            email: inviteDoc.email as string,
+            expiresAt: inviteDoc.expiresAt as number,
+            inviteId: inviteDoc._id as string,
+            orgId: inviteDoc.orgId as string,
+            orgName: (orgDoc?.name as string | undefined) ?? '',
+            role: storedRole(inviteDoc),
+            token: inviteDoc.token as string
+          },
+          invitedBy = (user.name ?? user.email) as string | undefined
+        if (invitedBy) email.invitedBy = invitedBy
+        await (c.scheduler as SchedulerLike).runAfter(0, deliver, { email })
+      },
+      createInvite = async (c: Rec, { email, orgId, role }: { email: string; orgId: string; role: OrgRole }) => {
+        const doc = {
             email,
-            expiresAt,
-            isAdmin,
+            expiresAt: Date.now() + SEVEN_DAYS_MS,
+            ...memberRoleFields(role, roles),
             orgId,
-            token
-          })
-        return { inviteId, token } as { inviteId: GenericId<'orgInvite'>; token: string }
-      }
-    }),
-    acceptInvite = m({
-      args: { token: z.string() },
-      handler: async (c: Rec, { token }: { token: string }) => {
-        const db = c.db as DbLike,
-          userId = (c.user as Rec)._id as string,
-          inviteDoc = await db
+            token: generateToken(),
+            userId: (c.user as Rec)._id as string
+          },
+          inviteId = await (c.db as DbLike).insert('orgInvite', doc)
+        await sendEmail(c, { ...doc, _id: inviteId })
+        return { inviteId: inviteId as GenericId<'orgInvite'>, token: doc.token }
+      },
+      invite = m({
+        args: { email: z.email(), isAdmin: z.boolean().optional(), orgId: zid('org'), role: z.string().optional() },
+        handler: async (
+          c: Rec,
+          { email, isAdmin, orgId, role }: { email: string; isAdmin?: boolean; orgId: string; role?: string }
+        ) => {
+          const { role: inviterRole } = await requireInviter(c, orgId)
+          return createInvite(c, { email, orgId, role: grantableRole(inviterRole, { isAdmin, role }, roles) })
+        }
+      }),
+      bulkInvite = m({
+        args: { csv: z.string(), orgId: zid('org'), role: z.string().optional() },
+        handler: async (
+          c: Rec,
+          { csv, orgId, role }: { csv: string; orgId: string; role?: string }
+        ): Promise<BulkInviteResult> => {
+          const { role: inviterRole } = await requireInviter(c, orgId),
+            rows = parseInviteCsv(csv)
+          if (rows.length > BULK_INVITE_MAX) return err('LIMIT_EXCEEDED', { limit: BULK_INVITE_MAX })
+          const pending = await (c.db as DbLike)
+              .query('orgInvite')
+              .withIndex(
+                'by_org',
+                idx(o => o.eq('orgId', orgId))
+              )
+              .collect(),
+            seen = new Set(pending.map(i => (i.email as string).toLowerCase())),
+            result: BulkInviteResult = { invited: [], skipped: [] }
+          for (const row of rows) {
+            const key = row.email.toLowerCase(),
+              granted = tryGrant(inviterRole, row.role ?? role, roles)
+            if (!emailSchema.safeParse(row.email).success)
+              result.skipped.push({ email: row.email, reason: 'invalid_email' })
+            else if (seen.has(key))
+              result.skipped.push({
+                email: row.email,
+                reason: pending.some(i => (i.email as string).toLowerCase() === key) ? 'pending_invite' : 'duplicate'
+              })
+            else if (granted) {
+              seen.add(key)
+              result.invited.push({
+                email: row.email,
+                ...(await createInvite(c, { email: row.email, orgId, role: granted }))
+              })
+            } else result.skipped.push({ email: row.email, reason: 'invalid_role' })
+          }
+          return result
+        }
+      }),
+      resendInvite = m({
+        args: { inviteId: zid('orgInvite') },
+        handler: async (c: Rec, { inviteId }: { inviteId: string }) => {
+          const db = c.db as DbLike,
+            inviteDoc = await db.get(inviteId)
+          if (!inviteDoc) return err('NOT_FOUND')
+          const { role } = await requireInviter(c, inviteDoc.orgId as string)
+          if (inviteDoc.userId !== (c.user as Rec)._id && !isAdminRole(role, roles)) return err('INSUFFICIENT_ORG_ROLE')
+          grantableRole(role, { role: storedRole(inviteDoc) }, roles)
+          const expiresAt = Date.now() + SEVEN_DAYS_MS
+          await db.patch(inviteId, { expiresAt })
+          await sendEmail(c, { ...inviteDoc, expiresAt })
+          return { expiresAt }
+        }
+      }),
+      acceptInvite = m({
+        args: { token: z.string() },
+        handler: async (c: Rec, { token }: { token: string }) => {
+          const db = c.db as DbLike,
+            userId = (c.user as Rec)._id as string,
+            byToken = (table: string) =>
+              db
+                .query(table)
+                .withIndex(
+                  'by_token',
+                  idx(o => o.eq('token', token))
+                )
+                .unique(),
+            inviteDoc = await byToken('orgInvite')
+          if (inviteDoc) {
+            if ((inviteDoc.expiresAt as number) < Date.now()) return err('INVITE_EXPIRED')
+            await admitMember(db, { orgId: inviteDoc.orgId as string, role: storedRole(inviteDoc), roles }, userId)
+            await db.delete(inviteDoc._id as string)
+            return { orgId: inviteDoc.orgId } as { orgId: GenericId<'org'> }
+          }
+          const link = await byToken('orgInviteLink')
+          if (!link) return err('INVALID_INVITE')
+          if ((link.expiresAt as number) < Date.now()) return err('INVITE_EXPIRED')
+          if (link.maxUses !== undefined && (link.uses as number) >= (link.maxUses as number))
+            return err('INVITE_USED_UP')
+          await admitMember(db, { orgId: link.orgId as string, role: storedRole(link), roles }, userId)
+          await db.patch(link._id as string, { uses: (link.uses as number) + 1 })
+          return { orgId: link.orgId } as { orgId: GenericId<'org'> }
+        }
+      }),
+      revokeInvite = m({
+        args: { inviteId: zid('orgInvite') },
+        handler: async (c: Rec, { inviteId }: { inviteId: string }) => {
+          const db = c.db as DbLike,
+            inviteDoc = await db.get(inviteId)
+          if (!inviteDoc) return err('NOT_FOUND')
+          await requireInviter(c, inviteDoc.orgId as string)
+          await db.delete(inviteId)
+        }
+      }),
+      pendingInvites = q({
+        args: { orgId: zid('org') },
+        handler: async (c: Rec, { orgId }: { orgId: string }): Promise<InviteDocLike[]> => {
+          await requireInviter(c, orgId)
+          return (c.db as DbLike)
             .query('orgInvite')
             .withIndex(
-              'by_token',
-              idx(o => o.eq('token', token))
+              'by_org',
+              idx(o => o.eq('orgId', orgId))
             )
-            .unique()
-        if (!inviteDoc) return err('INVALID_INVITE')
-        if ((inviteDoc.expiresAt as number) < Date.now()) return err('INVITE_EXPIRED')
-        const existingMember = await getOrgMember({ db, orgId: inviteDoc.orgId as string, userId }),
-          orgDoc = await db.get(inviteDoc.orgId as string)
-        if (!orgDoc) return err('NOT_FOUND')
-        if (existingMember || orgDoc.userId === userId) return err('ALREADY_ORG_MEMBER')
-        const pendingRequest = await db
-          .query('orgJoinRequest')
-          .withIndex(
-            'by_org_status',
-            idx(o => o.eq('orgId', inviteDoc.orgId).eq('status', 'pending'))
-          )
-          .filter((o: FilterLike) => o.eq(o.field('userId'), userId))
-          .unique()
-        if (pendingRequest) await db.patch(pendingRequest._id as string, { status: 'approved', ...time() })
-        await db.insert('orgMember', {
-          isAdmin: inviteDoc.isAdmin,
-          orgId: inviteDoc.orgId,
-          userId,
-          ...time()
-        })
-        await db.delete(inviteDoc._id as string)
-        return { orgId: inviteDoc.orgId } as { orgId: GenericId<'org'> }
-      }
-    }),
-    revokeInvite = m({
-      args: { inviteId: zid('orgInvite') },
-      handler: async (c: Rec, { inviteId }: { inviteId: string }) => {
-        const db = c.db as DbLike,
-          inviteDoc = await db.get(inviteId)
-        if (!inviteDoc) return err('NOT_FOUND')
-        await requireOrgRole({
-          db,
-          minRole: 'admin',
-          orgId: inviteDoc.orgId as string,
-          userId: (c.user as Rec)._id as string
-        })
-        await db.delete(inviteId)
-      }
-    }),
-    pendingInvites = q({
-      args: { orgId: zid('org') },
-      handler: async (c: Rec, { orgId }: { orgId: string }): Promise<InviteDocLike[]> => {
-        await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: (c.user as Rec)._id as string })
-        return (c.db as DbLike)
-          .query('orgInvite')
-          .withIndex(
-            'by_org',
-            idx(o => o.eq('orgId', orgId))
-          )
-          .collect() as Promise<InviteDocLike[]>
-      }
-    })
-  return { acceptInvite, invite, pendingInvites, revokeInvite }
-}
+            .collect() as Promise<InviteDocLike[]>
+        }
+      }),
+      createInviteLink = m({
+        args: {
+          expiresInMs: z.number().int().positive().optional(),
+          isAdmin: z.boolean().optional(),
+          maxUses: z.number().int().positive().optional(),
+          orgId: zid('org'),
+          role: z.string().optional()
+        },
+        handler: async (
+          c: Rec,
+          {
+            expiresInMs = SEVEN_DAYS_MS,
+            isAdmin,
+            maxUses,
+            orgId,
+            role
+          }: { expiresInMs?: number; isAdmin?: boolean; maxUses?: number; orgId: string; role?: string }
+        ) => {
+          const { role: inviterRole } = await requireInviter(c, orgId),
+            token = generateToken(),
+            linkId = await (c.db as DbLike).insert('orgInviteLink', {
+              expiresAt: Date.now() + Math.min(expiresInMs, INVITE_LINK_MAX_TTL),
+              ...memberRoleFields(grantableRole(inviterRole, { isAdmin, role }, roles), roles),
+              maxUses,
+              orgId,
+              token,
+              userId: (c.user as Rec)._id,
+              uses: 0
+            })
+          return { linkId, token } as { linkId: GenericId<'orgInviteLink'>; token: string }
+        }
+      }),
+      inviteLinks = q({
+        args: { orgId: zid('org') },
+        handler: async (c: Rec, { orgId }: { orgId: string }): Promise<InviteLinkDocLike[]> => {
+          await requireInviter(c, orgId)
+          return (c.db as DbLike)
+            .query('orgInviteLink')
+            .withIndex(
+              'by_org',
+              idx(o => o.eq('orgId', orgId))
+            )
+            .collect() as Promise<InviteLinkDocLike[]>
+        }
+      }),
+      revokeInviteLink = m({
+        args: { linkId: zid('orgInviteLink') },
+        handler: async (c: Rec, { linkId }: { linkId: string }) => {
+          const db = c.db as DbLike,
+            link = await db.get(linkId)
+          if (!link) return err('NOT_FOUND')
+          await requireInviter(c, link.orgId as string)
+          await db.delete(linkId)
+        }
+      })
+    return {
+      acceptInvite,
+      bulkInvite,
+      createInviteLink,
+      invite,
+      inviteLinks,
+      pendingInvites,
+      resendInvite,
+      revokeInvite,
+      revokeInviteLink
+    }
+  }
 
-export type { InviteDocLike }
-export { makeInviteHandlers }
+export type { BulkInviteResult, InviteDocLike, InviteLinkDocLike }
+export { BULK_INVITE_MAX, makeInviteDelivery, makeInviteHandlers, parseInviteCsv }
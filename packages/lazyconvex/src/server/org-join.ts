@@ -3,11 +3,21 @@ import type { GenericId } from 'convex/values'
 import { zid } from 'convex-helpers/server/zod4'
 import { z } from 'zod/v4'
 
-import type { DbLike, FilterLike, Mb, OrgUserLike, Qb, Rec } from './types'
+import type { DbLike, FilterLike, Mb, OrgRole, OrgRoles, OrgUserLike, Qb, Rec } from './types'
 
 import { idx } from './bridge'
 import { err, time } from './helpers'
-import { getOrgMember, requireOrgRole } from './org-crud'
+import { getOrgMember, requireOrgPermission } from './org-crud'
+import { grantableRole, memberRoleFields, storedRole } from './org-roles'
+
+/** How an org admits users who ask to join: refused, admin-approved, automatic, or automatic for allowed email domains. */
+type JoinPolicy = (typeof JOIN_POLICIES)[number]
+
+/** What `requestJoin` does for the calling user under the org's current policy. */
+type JoinOutcome = 'auto' | 'closed' | 'request'
+
+/** Result of `requestJoin`: the new membership when the policy admitted the user, otherwise the pending request. */
+type JoinResult = { joined: false; requestId: GenericId<'orgJoinRequest'> } | { joined: true; orgId: GenericId<'org'> }
 
 /** Shape of a join request item returned by pendingJoinRequests, including the request doc and associated user. */
 interface JoinRequestItem {
@@ -23,16 +33,81 @@ interface JoinRequestItem {
   user: null | OrgUserLike
 }
 
-const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
+const JOIN_POLICIES = ['closed', 'domain', 'open', 'request'] as const,
+  DOMAIN_PATTERN = /^(?:[a-z\d](?:[a-z\d-]*[a-z\d])?\.)+[a-z]{2,}$/u,
+  /**
+   * Normalizes admin-entered email domains to bare lowercase hosts, so `@Acme.com` and `acme.com` match alike.
+   * @param domains - Domains as entered
+   * @returns Unique normalized domains
+   */
+  normalizeDomains = (domains: string[]) => {
+    const out = [...new Set(domains.map(d => d.trim().toLowerCase().replace(/^@/u, '')))]
+    for (const d of out) if (!DOMAIN_PATTERN.test(d)) return err('INVALID_DOMAIN', { debug: d })
+    return out
+  },
+  /**
+   * Decides what a join request from this user does under the org's policy. Orgs without a policy take requests;
+   * under `domain`, users without a verified email on an allowed domain fall back to requesting.
+   * @param orgDoc - The org document
+   * @param user - The requesting user document
+   * @returns Whether the user joins automatically, must request, or cannot join
+   */
+  joinOutcome = (orgDoc: Rec, user: Rec): JoinOutcome => {
+    const policy = (orgDoc.joinPolicy as JoinPolicy | undefined) ?? 'request'
+    if (policy === 'open') return 'auto'
+    if (policy !== 'domain') return policy
+    const email = typeof user.email === 'string' ? user.email.toLowerCase() : '',
+      domain = email.slice(email.lastIndexOf('@') + 1),
+      verified = Boolean(user.emailVerificationTime)
+    return verified && email.includes('@') && ((orgDoc.joinDomains as string[] | undefined) ?? []).includes(domain)
+      ? 'auto'
+      : 'request'
+  },
+  /**
+   * Adds a user to an org, approving any pending join request of theirs. Invites, invite links, approved requests
+   * and auto-joins all admit members through here.
+   * @param db - Mutation database
+   * @param grant - The org and the role to grant
+   * @param userId - The joining user
+   */
+  admitMember = async (
+    db: DbLike,
+    { orgId, role, roles }: { orgId: string; role: OrgRole; roles?: OrgRoles },
+    userId: string
+  ) => {
+    const existingMember = await getOrgMember({ db, orgId, userId }),
+      orgDoc = await db.get(orgId)
+    if (!orgDoc) return err('NOT_FOUND')
+    if (existingMember || orgDoc.userId === userId) return err('ALREADY_ORG_MEMBER')
+    const pendingRequest = await db
+      .query('orgJoinRequest')
+      .withIndex(
+        'by_org_status',
+        idx(o => o.eq('orgId', orgId).eq('status', 'pending'))
+      )
+      .filter((o: FilterLike) => o.eq(o.field('userId'), userId))
+      .unique()
+    if (pendingRequest) await db.patch(pendingRequest._id as string, { status: 'approved' })
+    await db.insert('orgMember', { ...memberRoleFields(role, roles), orgId, userId, ...time() })
+  }
+
+const makeJoinHandlers = ({ m, q, roles }: { m: Mb; q: Qb; roles?: OrgRoles }) => {
   const requestJoin = m({
       args: { message: z.string().optional(), orgId: zid('org') },
-      handler: async (c: Rec, { message, orgId }: { message?: string; orgId: string }) => {
+      handler: async (c: Rec, { message, orgId }: { message?: string; orgId: string }): Promise<JoinResult> => {
         const db = c.db as DbLike,
-          userId = (c.user as Rec)._id as string,
+          user = c.user as Rec,
+          userId = user._id as string,
           orgDoc = await db.get(orgId)
         if (!orgDoc) return err('NOT_FOUND')
         const existingMember = await getOrgMember({ db, orgId, userId })
         if (existingMember || orgDoc.userId === userId) return err('ALREADY_ORG_MEMBER')
+        const outcome = joinOutcome(orgDoc, user)
+        if (outcome === 'closed') return err('JOIN_CLOSED')
+        if (outcome === 'auto') {
+          await admitMember(db, { orgId, role: storedRole({ role: orgDoc.joinRole }), roles }, userId)
+          return { joined: true, orgId: orgId as GenericId<'org'> }
+        }
         const existingRequest = await db
           .query('orgJoinRequest')
           .withIndex(
@@ -48,27 +123,30 @@ const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
           status: 'pending',
           userId
         })
-        return { requestId } as { requestId: GenericId<'orgJoinRequest'> }
+        return { joined: false, requestId: requestId as GenericId<'orgJoinRequest'> }
       }
     }),
     approveJoinRequest = m({
-      args: { isAdmin: z.boolean().optional(), requestId: zid('orgJoinRequest') },
-      handler: async (c: Rec, { isAdmin, requestId }: { isAdmin?: boolean; requestId: string }) => {
+      args: { isAdmin: z.boolean().optional(), requestId: zid('orgJoinRequest'), role: z.string().optional() },
+      handler: async (
+        c: Rec,
+        { isAdmin, requestId, role }: { isAdmin?: boolean; requestId: string; role?: string }
+      ) => {
         const db = c.db as DbLike,
           requestDoc = await db.get(requestId)
         if (!requestDoc) return err('NOT_FOUND')
-        await requireOrgRole({
+        const { role: approverRole } = await requireOrgPermission({
           db,
-          minRole: 'admin',
           orgId: requestDoc.orgId as string,
+          permission: 'members.approve',
+          roles,
           userId: (c.user as Rec)._id as string
         })
-        await db.insert('orgMember', {
-          isAdmin: isAdmin ?? false,
-          orgId: requestDoc.orgId,
-          userId: requestDoc.userId,
-          ...time()
-        })
+        await admitMember(
+          db,
+          { orgId: requestDoc.orgId as string, role: grantableRole(approverRole, { isAdmin, role }, roles), roles },
+          requestDoc.userId as string
+        )
         await db.patch(requestId, { status: 'approved' })
       }
     }),
@@ -78,10 +156,11 @@ const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
         const db = c.db as DbLike,
           requestDoc = await db.get(requestId)
         if (!requestDoc) return err('NOT_FOUND')
-        await requireOrgRole({
+        await requireOrgPermission({
           db,
-          minRole: 'admin',
           orgId: requestDoc.orgId as string,
+          permission: 'members.approve',
+          roles,
           userId: (c.user as Rec)._id as string
         })
         await db.patch(requestId, { status: 'rejected' })
@@ -102,7 +181,13 @@ const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
       args: { orgId: zid('org') },
       handler: async (c: Rec, { orgId }: { orgId: string }): Promise<JoinRequestItem[]> => {
         const db = c.db as DbLike
-        await requireOrgRole({ db, minRole: 'admin', orgId, userId: (c.user as Rec)._id as string })
+        await requireOrgPermission({
+          db,
+          orgId,
+          permission: 'members.approve',
+          roles,
+          userId: (c.user as Rec)._id as string
+        })
         const requests = await db
             .query('orgJoinRequest')
             .withIndex(
@@ -120,6 +205,50 @@ const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
         return result
       }
     }),
+    joinPolicy = q({
+      args: { orgId: zid('org') },
+      handler: async (
+        c: Rec,
+        { orgId }: { orgId: string }
+      ): Promise<{ domains: string[]; outcome: JoinOutcome; policy: JoinPolicy }> => {
+        const orgDoc = await (c.db as DbLike).get(orgId)
+        if (!orgDoc) return err('NOT_FOUND')
+        return {
+          domains: (orgDoc.joinDomains as string[] | undefined) ?? [],
+          outcome: joinOutcome(orgDoc, c.user as Rec),
+          policy: (orgDoc.joinPolicy as JoinPolicy | undefined) ?? 'request'
+        }
+      }
+    }),
+    setJoinPolicy = m({
+      args: {
+        domains: z.array(z.string()).optional(),
+        orgId: zid('org'),
+        policy: z.enum(JOIN_POLICIES),
+        role: z.string().optional()
+      },
+      handler: async (
+        c: Rec,
+        { domains, orgId, policy, role }: { domains?: string[]; orgId: string; policy: JoinPolicy; role?: string }
+      ) => {
+        const db = c.db as DbLike,
+          { role: adminRole } = await requireOrgPermission({
+            db,
+            orgId,
+            permission: 'org.update',
+            roles,
+            userId: (c.user as Rec)._id as string
+          }),
+          joinDomains = domains === undefined ? undefined : normalizeDomains(domains)
+        if (policy === 'domain' && !joinDomains?.length) return err('INVALID_DOMAIN', { debug: 'no domains' })
+        await db.patch(orgId, {
+          joinDomains: joinDomains?.length ? joinDomains : undefined,
+          joinPolicy: policy,
+          joinRole: role === undefined ? undefined : grantableRole(adminRole, { role }, roles),
+          ...time()
+        })
+      }
+    }),
     myJoinRequest = q({
       args: { orgId: zid('org') },
       handler: async (c: Rec, { orgId }: { orgId: string }) =>
@@ -138,8 +267,17 @@ const makeJoinHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
           userId: GenericId<'users'>
         }>
     })
-  return { approveJoinRequest, cancelJoinRequest, myJoinRequest, pendingJoinRequests, rejectJoinRequest, requestJoin }
+  return {
+    approveJoinRequest,
+    cancelJoinRequest,
+    joinPolicy,
+    myJoinRequest,
+    pendingJoinRequests,
+    rejectJoinRequest,
+    requestJoin,
+    setJoinPolicy
+  }
 }
 
-export type { JoinRequestItem }
-export { makeJoinHandlers }
+export type { JoinOutcome, JoinPolicy, JoinRequestItem, JoinResult }
+export { admitMember, JOIN_POLICIES, joinOutcome, makeJoinHandlers, normalizeDomains }
@@ -3,11 +3,12 @@ import type { GenericId } from 'convex/values'
 import { zid } from 'convex-helpers/server/zod4'
 import { z } from 'zod/v4'
 
-import type { DbLike, Mb, OrgRole, OrgUserLike, Qb, Rec } from './types'
+import type { DbLike, Mb, OrgRole, OrgRoles, OrgUserLike, Qb, Rec } from './types'
 
 import { idx } from './bridge'
 import { err, time } from './helpers'
-import { getOrgMember, getOrgRole, requireOrgMember, requireOrgRole } from './org-crud'
+import { getOrgMember, getOrgRole, requireOrgMember, requireOrgPermission } from './org-crud'
+import { isAdminRole, isAssignableRole, memberRoleFields, roleLevel, storedRole } from './org-roles'
 
 /** Shape of an org member item returned by the members endpoint, including role and user info. */
 interface OrgMemberItem {
@@ -17,7 +18,7 @@ interface OrgMemberItem {
   userId: GenericId<'users'>
 }
 
-const makeMemberHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
+const makeMemberHandlers = ({ m, q, roles }: { m: Mb; q: Qb; roles?: OrgRoles }) => {
   const membership = q({
       args: { orgId: zid('org') },
       handler: async (
@@ -63,7 +64,7 @@ const makeMemberHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
           if (memberDoc)
             result.push({
               memberId: memberDoc._id as GenericId<'orgMember'>,
-              role: memberDoc.isAdmin ? 'admin' : 'member',
+              role: storedRole(memberDoc),
               user: (userDoc as null | OrgUserLike) ?? null,
               userId: memberDoc.userId as GenericId<'users'>
             })
@@ -81,7 +82,31 @@ const makeMemberHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
         if (!orgDoc) return err('NOT_FOUND')
         if (orgDoc.userId !== (c.user as Rec)._id) return err('FORBIDDEN')
         if (memberDoc.userId === orgDoc.userId) return err('CANNOT_MODIFY_OWNER')
-        await db.patch(memberId, { isAdmin, ...time() })
+        await db.patch(memberId, { ...memberRoleFields(isAdmin ? 'admin' : 'member', roles), ...time() })
+      }
+    }),
+    setRole = m({
+      args: { memberId: zid('orgMember'), role: z.string() },
+      handler: async (c: Rec, { memberId, role }: { memberId: string; role: string }) => {
+        const db = c.db as DbLike,
+          memberDoc = await db.get(memberId)
+        if (!memberDoc) return err('NOT_FOUND')
+        const orgDoc = await db.get(memberDoc.orgId as string)
+        if (!orgDoc) return err('NOT_FOUND')
+        if (memberDoc.userId === orgDoc.userId) return err('CANNOT_MODIFY_OWNER')
+        if (!isAssignableRole(role, roles)) return err('INVALID_ROLE', { debug: role, role })
+        const { role: callerRole } = await requireOrgPermission({
+            db,
+            orgId: memberDoc.orgId as string,
+            permission: 'members.roles',
+            roles,
+            userId: (c.user as Rec)._id as string
+          }),
+          current = storedRole(memberDoc),
+          ceiling = roleLevel(callerRole, roles)
+        if (callerRole !== 'owner' && (roleLevel(current, roles) >= ceiling || roleLevel(role, roles) >= ceiling))
+          return err('CANNOT_MODIFY_ADMIN')
+        await db.patch(memberId, { ...memberRoleFields(role, roles), ...time() })
       }
     }),
     removeMember = m({
@@ -93,13 +118,15 @@ const makeMemberHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
         const orgDoc = await db.get(memberDoc.orgId as string)
         if (!orgDoc) return err('NOT_FOUND')
         if (memberDoc.userId === orgDoc.userId) return err('CANNOT_MODIFY_OWNER')
-        const { role } = await requireOrgRole({
-          db,
-          minRole: 'admin',
-          orgId: memberDoc.orgId as string,
-          userId: (c.user as Rec)._id as string
-        })
-        if (role === 'admin' && memberDoc.isAdmin) return err('CANNOT_MODIFY_ADMIN')
+        const { role } = await requireOrgPermission({
+            db,
+            orgId: memberDoc.orgId as string,
+            permission: 'members.remove',
+            roles,
+            userId: (c.user as Rec)._id as string
+          }),
+          target = storedRole(memberDoc)
+        if (role !== 'owner' && roleLevel(target, roles) >= roleLevel(role, roles)) return err('CANNOT_MODIFY_ADMIN')
         await db.delete(memberId)
       }
     }),
@@ -125,18 +152,18 @@ const makeMemberHandlers = ({ m, q }: { m: Mb; q: Qb }) => {
         if (orgDoc.userId !== (c.user as Rec)._id) return err('FORBIDDEN')
         const targetMember = await getOrgMember({ db, orgId, userId: newOwnerId })
         if (!targetMember) return err('NOT_ORG_MEMBER')
-        if (!(targetMember as Rec).isAdmin) return err('TARGET_MUST_BE_ADMIN')
+        if (!isAdminRole(storedRole(targetMember), roles)) return err('TARGET_MUST_BE_ADMIN')
         await db.patch(orgId, { userId: newOwnerId, ...time() })
         await db.delete((targetMember as Rec)._id as string)
         await db.insert('orgMember', {
-          isAdmin: true,
+          ...memberRoleFields('admin', roles),
           orgId,
           userId: (c.user as Rec)._id,
           ...time()
         })
       }
     })
-  return { leave, members, membership, removeMember, setAdmin, transferOwnership }
+  return { leave, members, membership, removeMember, setAdmin, setRole, transferOwnership }
 }
 
 export type { OrgMemberItem }
@@ -0,0 +1,135 @@
+import type { DbLike, OrgRole, OrgRoles } from './types'
+
+import { BULK_MAX } from '../constants'
+import { err } from './helpers'
+
+/** Minimum level treated as an org admin for bulk operations, field policies, and `isAdmin`. */
+const ADMIN_LEVEL = 2,
+  OWNER_LEVEL = 3,
+  /**
+   * Built-in roles. Owners and admins hold every permission; members can write (`*.write`) and otherwise rely on row
+   * ownership and ACLs.
+   */
+  BUILTIN_ORG_ROLES: OrgRoles = {
+    admin: { label: 'Admin', level: ADMIN_LEVEL, permissions: ['*'] },
+    member: { label: 'Member', level: 1, permissions: ['*.write'] },
+    owner: { label: 'Owner', level: OWNER_LEVEL, permissions: ['*'] }
+  },
+  /**
+   * Merges custom roles into the built-in registry. `admin` and `member` may be redefined; `owner` may not.
+   * @param custom - Role definitions keyed by role name
+   * @returns The full registry to pass to `setup({ orgRoles })` and `OrgProvider`
+   * @example
+   * const orgRoles = defineOrgRoles({
+   *   billing: { label: 'Billing', level: 1, permissions: ['billing.*'] },
+   *   viewer: { label: 'Viewer', level: 0 }
+   * })
+   */
+  defineOrgRoles = (custom: OrgRoles): OrgRoles => {
+    if (custom.owner) throw new Error('The owner role is built in and cannot be redefined')
+    return { ...BUILTIN_ORG_ROLES, ...custom }
+  },
+  /**
+   * Returns the numeric level of a role. Unknown roles rank below every defined role.
+   * @param role - Role name
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns The role's level, or -1 when it is not in the registry
+   */
+  roleLevel = (role: OrgRole, roles: OrgRoles = BUILTIN_ORG_ROLES): number =>
+    role === 'owner' ? OWNER_LEVEL : (roles[role]?.level ?? -1),
+  /**
+   * Checks whether a role ranks at admin level or above.
+   * @param role - Role name
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns True for owners, admins, and custom roles at or above `ADMIN_LEVEL`
+   */
+  isAdminRole = (role: OrgRole, roles: OrgRoles = BUILTIN_ORG_ROLES): boolean => roleLevel(role, roles) >= ADMIN_LEVEL,
+  /**
+   * Checks whether a role grants a named permission. `*` grants everything, `wiki.*` grants every `wiki.` permission
+   * and `*.write` grants `write` on every table.
+   * @param role - Role name
+   * @param permission - Permission such as `wiki.edit` or `members.invite`
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns True when the role holds the permission; owners always do
+   */
+  hasOrgPermission = (role: OrgRole, permission: string, roles: OrgRoles = BUILTIN_ORG_ROLES): boolean =>
+    role === 'owner' ||
+    (roles[role]?.permissions ?? []).some(
+      p =>
+        p === '*' ||
+        p === permission ||
+        (p.endsWith('.*') && permission.startsWith(p.slice(0, -1))) ||
+        (p.startsWith('*.') && permission.endsWith(p.slice(1)))
+    ),
+  /**
+   * Checks that a role can be assigned to a member: it must exist in the registry and must not be `owner`.
+   * @param role - Role name
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns True when the role is assignable
+   */
+  isAssignableRole = (role: string, roles: OrgRoles = BUILTIN_ORG_ROLES): boolean => role !== 'owner' && role in roles,
+  /**
+   * Resolves the role granted by an invite or join approval and checks the granter may hand it out.
+   * Nobody but the owner can grant a role above their own level.
+   * @param granter - Role of the member granting access
+   * @param requested - Explicit `role`, or the legacy `isAdmin` flag
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns The role to store; throws INVALID_ROLE or INSUFFICIENT_ORG_ROLE
+   */
+  grantableRole = (
+    granter: OrgRole,
+    { isAdmin, role }: { isAdmin?: boolean; role?: string },
+    roles: OrgRoles = BUILTIN_ORG_ROLES
+  ): OrgRole => {
+    const next = role ?? (isAdmin ? 'admin' : 'member')
+    if (!isAssignableRole(next, roles)) return err('INVALID_ROLE', { debug: next, role: next })
+    if (roleLevel(next, roles) > roleLevel(granter, roles))
+      return err('INSUFFICIENT_ORG_ROLE', { debug: next, role: next })
+    return next
+  },
+  /**
+   * Reads the role stored on an orgMember or orgInvite row, falling back to `isAdmin` for rows written before roles.
+   * @param doc - Member or invite document
+   * @returns The stored role
+   */
+  storedRole = (doc: { isAdmin?: unknown; role?: unknown }): OrgRole =>
+    typeof doc.role === 'string' ? doc.role : doc.isAdmin ? 'admin' : 'member',
+  /**
+   * Returns the orgMember fields for a role, keeping the legacy `isAdmin` flag in sync for older readers.
+   * @param role - Role name
+   * @param roles - Registry from `defineOrgRoles`, defaulting to the built-in roles
+   * @returns Object with `isAdmin` and `role`
+   */
+  memberRoleFields = (role: OrgRole, roles: OrgRoles = BUILTIN_ORG_ROLES) => ({
+    isAdmin: isAdminRole(role, roles),
+    role
+  }),
+  /**
+   * Migrates orgMember rows created before roles existed by writing `role` from `isAdmin`.
+   * Processes one batch per call; schedule it again until it returns 0.
+   * @param db - Mutation database
+   * @param batchSize - Maximum rows patched per call
+   * @returns Number of rows patched
+   */
+  backfillOrgRoles = async (db: DbLike, batchSize = BULK_MAX): Promise<number> => {
+    const rows = await db
+      .query('orgMember')
+      .filter(f => f.eq(f.field('role'), undefined))
+      .take(batchSize)
+    await Promise.all(rows.map(async r => db.patch(r._id as string, { role: r.isAdmin ? 'admin' : 'member' })))
+    return rows.length
+  }
+
+export {
+  ADMIN_LEVEL,
+  backfillOrgRoles,
+  BUILTIN_ORG_ROLES,
+  defineOrgRoles,
+  grantableRole,
+  hasOrgPermission,
+  isAdminRole,
+  isAssignableRole,
+  memberRoleFields,
+  roleLevel,
+  storedRole
+}
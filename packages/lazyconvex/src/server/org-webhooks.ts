@@ -0,0 +1,225 @@
+/** biome-ignore-all lint/performance/noAwaitInLoops: ordered enqueue */
+import type { GenericId } from 'convex/values'
+
+import { zid } from 'convex-helpers/server/zod4'
+import { z } from 'zod/v4'
+
+import type { DbLike, EffectEvent, JobStatus, Mb, OrgRoles, Qb, Rec } from './types'
+
+import { idx } from './bridge'
+import { err, generateToken, time } from './helpers'
+import { enqueueJob, onCommit } from './jobs'
+import { requireOrgPermission } from './org-crud'
+import { WEBHOOK_JOB } from './webhook'
+
+/** Org webhook as returned by `webhooks.list`; the signing secret is only shown once, on create. */
+interface OrgWebhookItem {
+  _creationTime: number
+  _id: GenericId<'orgWebhook'>
+  events: string[]
+  secretHint: string
+  url: string
+  userId: GenericId<'users'>
+}
+
+/** Webhook delivery log entry with the status of its job. */
+interface WebhookDeliveryItem {
+  _creationTime: number
+  _id: GenericId<'orgWebhookDelivery'>
+  attempts: number
+  docId: string
+  error?: string
+  event: string
+  finishedAt?: number
+  status: JobStatus
+  webhookId: GenericId<'orgWebhook'>
+}
+
+const DELIVERY_LOG_SIZE = 20,
+  /** Delivery rows kept per webhook; older ones are trimmed, with their finished jobs, as new ones arrive. */
+  DELIVERY_KEEP = 100,
+  DELIVERY_TRIM = 10,
+  HINT_LENGTH = 4,
+  PERMISSION = 'webhooks.manage',
+  /**
+   * Checks an event name such as `task.update` against a webhook's subscriptions.
+   * @param patterns - Subscribed events: exact names, `<table>.*`, or `*`
+   * @param event - Event name in `<table>.<op>` form
+   * @returns Whether any pattern matches
+   */
+  matchesEvent = (patterns: string[], event: string) => {
+    const [table] = event.split('.')
+    return patterns.some(p => p === '*' || p === event || p === `${table}.*`)
+  },
+  forOrg = (db: DbLike, table: string, orgId: string) =>
+    db
+      .query(table)
+      .withIndex(
+        'by_org',
+        idx(o => o.eq('orgId', orgId))
+      )
+      .collect(),
+  /**
+   * Deletes a webhook's delivery rows beyond the newest `DELIVERY_KEEP`, a few at a time, and the finished jobs
+   * behind them. Jobs still pending or running are left to finish.
+   * @param db - Database handle
+   * @param webhookId - Webhook whose log to trim
+   */
+  trimDeliveries = async (db: DbLike, webhookId: string) => {
+    const old = (
+      await db
+        .query('orgWebhookDelivery')
+        .withIndex(
+          'by_webhook',
+          idx(o => o.eq('webhookId', webhookId))
+        )
+        .order('desc')
+        .take(DELIVERY_KEEP + DELIVERY_TRIM)
+    ).slice(DELIVERY_KEEP)
+    for (const l of old) {
+      const jobs = await db
+        .query('jobs')
+        .withIndex(
+          'by_doc',
+          idx(o => o.eq('docId', l._id))
+        )
+        .collect()
+      for (const job of jobs) if (job.status === 'done' || job.status === 'failed') await db.delete(job._id as string)
+      await db.delete(l._id as string)
+    }
+  },
+  /**
+   * Appends webhook dispatch to an `orgCrud` table's after-write hooks. Every webhook in the document's
+   * org subscribed to `<table>.<op>` gets a delivery job, signed when it is sent, and a row in `orgWebhookDelivery`.
+   * Used by `orgCrud` tables created with `webhooks: true`.
+   * @param hooks - Existing hooks
+   * @param table - Table the hooks belong to
+   * @returns Hooks that run the originals and then enqueue deliveries
+   */
+  withWebhooks = <H extends object>(hooks: H | undefined, table: string): H =>
+    onCommit(hooks, table, async (ctx, { doc, id, op, prev }: EffectEvent) => {
+      const orgId = doc.orgId as string | undefined
+      if (!(orgId && ctx.scheduler)) return
+      const event = `${table}.${op}`,
+        hooked = (await forOrg(ctx.db, 'orgWebhook', orgId)).filter(w => matchesEvent(w.events as string[], event))
+      if (!hooked.length) return
+      const timestamp = Date.now(),
+        body = JSON.stringify({ data: prev === undefined ? { doc, id } : { doc, id, prev }, event, orgId, timestamp })
+      for (const w of hooked) {
+        const webhookId = w._id as string,
+          deliveryId = await ctx.db.insert('orgWebhookDelivery', { docId: id, event, orgId, webhookId })
+        await enqueueJob(ctx, {
+          docId: deliveryId,
+          name: WEBHOOK_JOB,
+          payload: { body, deliveryId, event, webhookId },
+          table: 'orgWebhookDelivery'
+        })
+        await trimDeliveries(ctx.db, webhookId)
+      }
+    }),
+  /**
+   * Deletes an org's webhooks and their delivery logs. Called when the org is removed.
+   * @param db - Database handle
+   * @param orgId - Org being removed
+   */
+  removeOrgWebhooks = async (db: DbLike, orgId: string) => {
+    const rows = [...(await forOrg(db, 'orgWebhookDelivery', orgId)), ...(await forOrg(db, 'orgWebhook', orgId))]
+    await Promise.all(rows.map(async r => db.delete(r._id as string)))
+  },
+  makeWebhookHandlers = ({ m, q, roles }: { m: Mb; q: Qb; roles?: OrgRoles }) => {
+    const requireManager = async (c: Rec, orgId: string) =>
+        requireOrgPermission({ db: c.db, orgId, permission: PERMISSION, roles, userId: (c.user as Rec)._id as string }),
+      create = m({
+        args: { events: z.array(z.string()).min(1), orgId: zid('org'), url: z.url() },
+        handler: async (c: Rec, { events, orgId, url }: { events: string[]; orgId: string; url: string }) => {
+          const userId = (c.user as Rec)._id as string
+          await requireManager(c, orgId)
+          const secret = `whsec_${generateToken()}`,
+            webhookId = await (c.db as DbLike).insert('orgWebhook', { events, orgId, secret, url, userId, ...time() })
+          return { secret, webhookId } as { secret: string; webhookId: GenericId<'orgWebhook'> }
+        }
+      }),
+      list = q({
+        args: { orgId: zid('org') },
+        handler: async (c: Rec, { orgId }: { orgId: string }): Promise<OrgWebhookItem[]> => {
+          await requireManager(c, orgId)
+          const hooks = await forOrg(c.db as DbLike, 'orgWebhook', orgId)
+          return hooks.map(w => ({
+            _creationTime: w._creationTime as number,
+            _id: w._id as GenericId<'orgWebhook'>,
+            events: w.events as string[],
+            secretHint: `…${(w.secret as string).slice(-HINT_LENGTH)}`,
+            url: w.url as string,
+            userId: w.userId as GenericId<'users'>
+          }))
+        }
+      }),
+      rm = m({
+        args: { orgId: zid('org'), webhookId: zid('orgWebhook') },
+        handler: async (c: Rec, { orgId, webhookId }: { orgId: string; webhookId: string }) => {
+          const db = c.db as DbLike
+          await requireManager(c, orgId)
+          const hook = await db.get(webhookId)
+          if (hook?.orgId !== orgId) return err('NOT_FOUND')
+          const logs = await db
+            .query('orgWebhookDelivery')
+            .withIndex(
+              'by_webhook',
+              idx(o => o.eq('webhookId', webhookId))
+            )
+            .collect()
+          await Promise.all(logs.map(async l => db.delete(l._id as string)))
+          await db.delete(webhookId)
+        }
+      }),
+      deliveries = q({
+        args: { orgId: zid('org'), webhookId: zid('orgWebhook').optional() },
+        handler: async (
+          c: Rec,
+          { orgId, webhookId }: { orgId: string; webhookId?: string }
+        ): Promise<WebhookDeliveryItem[]> => {
+          const db = c.db as DbLike
+          await requireManager(c, orgId)
+          if (webhookId && (await db.get(webhookId))?.orgId !== orgId) return err('NOT_FOUND')
+          const logs = await (
+            webhookId
+              ? db.query('orgWebhookDelivery').withIndex(
+                  'by_webhook',
+                  idx(o => o.eq('webhookId', webhookId))
+                )
+              : db.query('orgWebhookDelivery').withIndex(
+                  'by_org',
+                  idx(o => o.eq('orgId', orgId))
+                )
+          )
+            .order('desc')
+            .take(DELIVERY_LOG_SIZE)
+          return Promise.all(
+            logs.map(async l => {
+              const job = await db
+                .query('jobs')
+                .withIndex(
+                  'by_doc',
+                  idx(o => o.eq('docId', l._id))
+                )
+                .first()
+              return {
+                _creationTime: l._creationTime as number,
+                _id: l._id as GenericId<'orgWebhookDelivery'>,
+                attempts: (job?.attempts as number | undefined) ?? 0,
+                docId: l.docId as string,
+                error: job?.error as string | undefined,
+                event: l.event as string,
+                finishedAt: job?.finishedAt as number | undefined,
+                status: (job?.status as JobStatus | undefined) ?? 'pending',
+                webhookId: l.webhookId as GenericId<'orgWebhook'>
+              }
+            })
+          )
+        }
+      })
+    return { create, deliveries, list, rm }
+  }
+
+export type { OrgWebhookItem, WebhookDeliveryItem }
+export { makeWebhookHandlers, matchesEvent, removeOrgWebhooks, withWebhooks }
@@ -1,5 +1,12 @@
 /** biome-ignore-all lint/performance/noAwaitInLoops: sequential deletes */
-import type { GenericDataModel, GenericMutationCtx, GenericQueryCtx, MutationBuilder, QueryBuilder } from 'convex/server'
+import type {
+  ActionBuilder,
+  GenericDataModel,
+  GenericMutationCtx,
+  GenericQueryCtx,
+  MutationBuilder,
+  QueryBuilder
+} from 'convex/server'
 import type { GenericId } from 'convex/values'
 import type { ZodObject, ZodRawShape } from 'zod/v4'
 
@@ -7,14 +14,21 @@ import { customCtx } from 'convex-helpers/server/customFunctions'
 import { zCustomMutation, zCustomQuery, zid } from 'convex-helpers/server/zod4'
 import { z } from 'zod/v4'
 
-import type { DbLike, Mb, OrgRole, Qb, Rec, StorageLike } from './types'
+import type { VariantConfig } from './image-variants'
+import type { InviteMailer } from './invite-mailer'
+import type { JoinPolicy } from './org-join'
+import type { DbLike, Mb, OrgRole, OrgRoles, Qb, Rec, StorageLike } from './types'
 
 import { idx, typed } from './bridge'
-import { cleanFiles, err, getUser, log, time } from './helpers'
-import { requireOrgMember, requireOrgRole } from './org-crud'
-import { makeInviteHandlers } from './org-invites'
+import { cleanFiles, dropCollab, err, getUser, log, time } from './helpers'
+import { activeMailer } from './invite-mailer'
+import { requireOrgMember, requireOrgPermission } from './org-crud'
+import { makeOrgExport } from './org-export'
+import { makeInviteDelivery, makeInviteHandlers } from './org-invites'
 import { makeJoinHandlers } from './org-join'
 import { makeMemberHandlers } from './org-members'
+import { storedRole } from './org-roles'
+import { makeWebhookHandlers, removeOrgWebhooks } from './org-webhooks'
 
 interface CascadeTableEntry {
   fileFields?: string[]
@@ -27,6 +41,9 @@ interface OrgDocLike {
   _creationTime: number
   _id: GenericId<'org'>
   avatarId?: GenericId<'_storage'>
+  joinDomains?: string[]
+  joinPolicy?: JoinPolicy
+  joinRole?: string
   name: string
   slug: string
   updatedAt: number
@@ -34,23 +51,43 @@ interface OrgDocLike {
 }
 
 /**
- * Creates the full set of org management endpoints: CRUD, members, invites, and join requests.
- * @param config - Query/mutation builders, auth function, org schema, and optional cascade table config
- * @returns Object with create, update, get, getBySlug, myOrgs, remove, member/invite/join endpoints
+ * Creates the full set of org management endpoints: CRUD, members, invites, join requests, webhooks, and export/import.
+ * With an `inviteMailer`, invites are emailed by `deliverInvite`, which needs `internalAction`.
+ * @param config - Builders, auth function, org schema, app schema, optional cascade table config, mailer, and module name
+ * @returns Object with create, update, get, getBySlug, myOrgs, remove, member/invite/join/export endpoints, and `webhooks`
  */
 const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
+  action,
+  appSchema,
   cascadeTables,
   getAuthUserId,
+  internalAction,
+  internalMutation,
+  internalQuery,
+  inviteMailer,
   mutation,
+  namespace = 'org',
   query,
-  schema: orgSchema
+  roles,
+  schema: orgSchema,
+  variants
 }: {
+  action: ActionBuilder<DM, 'public'>
+  appSchema?: { tables: Record<string, unknown> }
   cascadeTables?: CascadeTableEntry[]
   getAuthUserId: (ctx: never) => Promise<null | string>
+  internalAction?: ActionBuilder<DM, 'internal'>
+  internalMutation: MutationBuilder<DM, 'internal'>
+  internalQuery: QueryBuilder<DM, 'internal'>
+  inviteMailer?: InviteMailer
   mutation: MutationBuilder<DM, 'public'>
+  namespace?: string
   query: QueryBuilder<DM, 'public'>
+  roles?: OrgRoles
   schema: ZodObject<S>
+  variants?: VariantConfig
 }) => {
+  if (inviteMailer && !internalAction) throw new Error('setup({ inviteMailer }) needs internalAction')
   const mb = typed(
       zCustomMutation(
         mutation,
@@ -101,7 +138,13 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
     update = m({
       args: { data: orgSchema.partial(), orgId: zid('org') },
       handler: async (c: Rec, { data, orgId }: { data: Rec; orgId: string }) => {
-        await requireOrgRole({ db: c.db, minRole: 'admin', orgId, userId: (c.user as Rec)._id as string })
+        await requireOrgPermission({
+          db: c.db,
+          orgId,
+          permission: 'org.update',
+          roles,
+          userId: (c.user as Rec)._id as string
+        })
         const newSlug = data.slug as string | undefined
         if (newSlug !== undefined) {
           const existing = await (c.db as DbLike)
@@ -157,7 +200,13 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
       handler: async (
         c: Rec,
         { slug }: { slug: string }
-      ): Promise<null | { _id: GenericId<'org'>; avatarId?: GenericId<'_storage'>; name: string; slug: string }> => {
+      ): Promise<null | {
+        _id: GenericId<'org'>
+        avatarId?: GenericId<'_storage'>
+        joinPolicy: JoinPolicy
+        name: string
+        slug: string
+      }> => {
         const orgDoc = await (c.db as DbLike)
           .query('org')
           .withIndex(
@@ -169,6 +218,7 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
         return {
           _id: orgDoc._id as GenericId<'org'>,
           avatarId: orgDoc.avatarId as GenericId<'_storage'> | undefined,
+          joinPolicy: (orgDoc.joinPolicy as JoinPolicy | undefined) ?? 'request',
           name: orgDoc.name as string,
           slug: orgDoc.slug as string
         }
@@ -203,7 +253,7 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
         for (const o of memberOrgs)
           if (!ownedIds.has(o._id as string)) {
             const member = memberships.find((x: Rec) => x.orgId === o._id),
-              role: OrgRole = member?.isAdmin ? 'admin' : 'member'
+              role = member ? storedRole(member) : 'member'
             result.push({ org: o as OrgDocLike, role })
           }
         return result
@@ -214,6 +264,7 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
       handler: async (c: Rec, { orgId }: { orgId: string }) => {
         const db = c.db as DbLike,
           { storage } = c as { storage?: StorageLike },
+          collab = Boolean(appSchema?.tables.collabOp),
           orgDoc = await db.get(orgId)
         if (!orgDoc) return err('NOT_FOUND')
         if (orgDoc.userId !== (c.user as Rec)._id) return err('FORBIDDEN')
@@ -227,8 +278,10 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
               )
               .collect()
             for (const d of docs) {
-              if (fileFields && fileFields.length > 0 && storage) await cleanFiles({ doc: d, fileFields, storage })
+              if (fileFields && fileFields.length > 0 && storage)
+                await cleanFiles({ db, doc: d, fileFields, storage, variants })
               await db.delete(d._id as string)
+              if (collab) await dropCollab(db, d._id as string)
             }
           }
         const joinRequests = await db
@@ -240,21 +293,45 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
           .collect()
         await Promise.all(joinRequests.map(async (r: Rec) => db.delete(r._id as string)))
         const invites = await db
-          .query('orgInvite')
+            .query('orgInvite')
+            .withIndex(
+              'by_org',
+              idx(o => o.eq('orgId', orgId))
+            )
+            .collect(),
+          links = await db
+            .query('orgInviteLink')
+            .withIndex(
+              'by_org',
+              idx(o => o.eq('orgId', orgId))
+            )
+            .collect()
+        await Promise.all([...invites, ...links].map(async (i: Rec) => db.delete(i._id as string)))
+        const orgMembers = await db
+          .query('orgMember')
           .withIndex(
             'by_org',
             idx(o => o.eq('orgId', orgId))
           )
           .collect()
-        await Promise.all(invites.map(async (i: Rec) => db.delete(i._id as string)))
-        const orgMembers = await db
-          .query('orgMember')
+        await Promise.all(orgMembers.map(async (x: Rec) => db.delete(x._id as string)))
+        await removeOrgWebhooks(db, orgId)
+        const exports = await db
+          .query('orgExport')
           .withIndex(
             'by_org',
             idx(o => o.eq('orgId', orgId))
           )
           .collect()
-        await Promise.all(orgMembers.map(async (x: Rec) => db.delete(x._id as string)))
+        for (const x of exports) {
+          if (storage)
+            try {
+              await storage.delete(x.storageId as string)
+            } catch {
+              log('warn', 'org:export_cleanup_failed', { orgId, storageId: x.storageId })
+            }
+          await db.delete(x._id as string)
+        }
         if (storage && orgDoc.avatarId)
           try {
             await storage.delete(orgDoc.avatarId as string)
@@ -277,27 +354,44 @@ const makeOrg = <DM extends GenericDataModel, S extends ZodRawShape>({
         return { available: !existing } as { available: boolean }
       }
     }),
-    memberOps = makeMemberHandlers({ m, q }),
-    inviteOps = makeInviteHandlers({ m, q }),
-    joinOps = makeJoinHandlers({ m, q })
+    memberOps = makeMemberHandlers({ m, q, roles }),
+    mailer = activeMailer(inviteMailer),
+    inviteOps = makeInviteHandlers({ m, mailNamespace: mailer ? namespace : undefined, q, roles }),
+    deliverInvite = mailer && internalAction ? makeInviteDelivery({ internalAction, mailer }).deliverInvite : undefined,
+    joinOps = makeJoinHandlers({ m, q, roles }),
+    exportOps = makeOrgExport({
+      action,
+      getAuthUserId,
+      internalMutation,
+      internalQuery,
+      namespace,
+      orgSchema,
+      roles,
+      schema: appSchema
+    }),
+    webhooks = makeWebhookHandlers({ m, q, roles })
   return {
+    ...exportOps,
     ...inviteOps,
     ...joinOps,
     ...memberOps,
     create,
+    deliverInvite,
     get,
     getBySlug,
     getPublic,
     isSlugAvailable,
     myOrgs,
     remove,
-    update
+    update,
+    webhooks
   }
 }
 
 export { makeOrg }
 export type { OrgDocLike }
-export type { InviteDocLike } from './org-invites'
-export type { JoinRequestItem } from './org-join'
+export type { BulkInviteResult, InviteDocLike, InviteLinkDocLike } from './org-invites'
+export type { JoinOutcome, JoinPolicy, JoinRequestItem, JoinResult } from './org-join'
 export type { OrgMemberItem } from './org-members'
+export type { OrgWebhookItem, WebhookDeliveryItem } from './org-webhooks'
 export type { OrgUserLike } from './types'
@@ -0,0 +1,145 @@
+import type { ComparisonOp, IndexDef, IndexLike, Rec } from './types'
+
+import { err, isComparisonOp, isRecord, PREFIX_END } from './helpers'
+
+interface QueryPlan {
+  eq: [string, unknown][]
+  index: string
+  range?: { field: string; lower?: ['gt' | 'gte', unknown]; upper?: ['lt' | 'lte', unknown] }
+  rest: Rec
+}
+
+/** A table as it appears in the definition `defineSchema` exports for deployment. */
+interface ExportedTable {
+  indexes?: { fields: string[]; indexDescriptor: string }[]
+  tableName: string
+}
+
+const EQ_WEIGHT = 2,
+  exported = new WeakMap<object, Map<string, IndexDef[]>>(),
+  /**
+   * Reads the index definitions declared on a table via `.index(...)`, from the schema definition that
+   * `defineSchema` exports for deployment. The parsed definition is cached per schema.
+   * @param schema - Schema returned by `defineSchema`
+   * @param table - Table name
+   * @returns Index names and fields, or an empty list when the table is unknown
+   */
+  tableIndexes = (schema: undefined | { tables: Record<string, unknown> }, table: string): IndexDef[] => {
+    const def = schema as undefined | { export?: () => string }
+    if (!(schema && def?.export)) return []
+    let byTable = exported.get(schema)
+    if (!byTable) {
+      const { tables } = JSON.parse(def.export()) as { tables: ExportedTable[] }
+      byTable = new Map(
+        tables.map(t => [t.tableName, (t.indexes ?? []).map(i => ({ fields: i.fields, name: i.indexDescriptor }))])
+      )
+      exported.set(schema, byTable)
+    }
+    return byTable.get(table) ?? []
+  },
+  rangeOf = (field: string, op: ComparisonOp<unknown>): QueryPlan['range'] => {
+    if (op.$contains !== undefined || op.$exists !== undefined || op.$in !== undefined || op.$ne !== undefined) return
+    const lower: ['gt' | 'gte', unknown][] = [],
+      upper: ['lt' | 'lte', unknown][] = []
+    if (op.$gt !== undefined) lower.push(['gt', op.$gt])
+    if (op.$gte !== undefined) lower.push(['gte', op.$gte])
+    if (op.$lt !== undefined) upper.push(['lt', op.$lt])
+    if (op.$lte !== undefined) upper.push(['lte', op.$lte])
+    if (op.$between !== undefined) {
+      lower.push(['gte', op.$between[0]])
+      upper.push(['lte', op.$between[1]])
+    }
+    if (op.$startsWith !== undefined) {
+      lower.push(['gte', op.$startsWith])
+      upper.push(['lt', `${op.$startsWith}${PREFIX_END}`])
+    }
+    if (lower.length > 1 || upper.length > 1 || lower.length + upper.length === 0) return
+    return { field, lower: lower[0], upper: upper[0] }
+  },
+  /**
+   * Picks the index that binds the longest equality prefix of a where group, optionally followed by one range
+   * (`$gt`, `$gte`, `$lt`, `$lte`, `$between` or `$startsWith`).
+   * `own: true` binds `userId` to the viewer. Fields the index cannot serve are returned in `rest` for `.filter()`.
+   * @param indexes - Index definitions declared on the table
+   * @param group - A single where group (no `or`)
+   * @param viewerId - Current user id, used for `own`
+   * @returns The chosen plan, or undefined when no index matches
+   */
+  planIndex = (indexes: IndexDef[], group: Rec, viewerId: null | string): QueryPlan | undefined => {
+    const bound: Rec = { ...group, own: undefined }
+    if (group.own === true && viewerId && bound.userId === undefined) bound.userId = viewerId
+    let best: QueryPlan | undefined,
+      bestScore = 0
+    for (const ix of indexes) {
+      const eq: [string, unknown][] = []
+      let range: QueryPlan['range']
+      for (const f of ix.fields) {
+        const val = bound[f]
+        if (val === undefined) break
+        if (isComparisonOp(val)) {
+          range = rangeOf(f, val)
+          break
+        }
+        if (isRecord(val) && Object.keys(val).some(k => k.startsWith('$'))) break
+        eq.push([f, val])
+      }
+      const score = eq.length * EQ_WEIGHT + (range ? 1 : 0)
+      if (score > bestScore) {
+        best = { eq, index: ix.name, range, rest: {} }
+        bestScore = score
+      }
+    }
+    if (!best) return
+    const rest: Rec = { ...group }
+    for (const [f] of best.eq)
+      if (f === 'userId' && group.userId === undefined) rest.own = undefined
+      else rest[f] = undefined
+    if (best.range) rest[best.range.field] = undefined
+    best.rest = rest
+    return best
+  },
+  /**
+   * Drops a plan's range so the index only binds equalities and rows keep their creation order; the ranged condition
+   * goes back to `rest` for `.filter()`.
+   * @param plan - Plan returned by `planIndex`
+   * @param group - The where group the plan was made for
+   * @returns The equality-only plan, or undefined when the range was all the index bound
+   */
+  eqOnly = (plan: QueryPlan | undefined, group: Rec): QueryPlan | undefined => {
+    if (!plan?.range) return plan
+    if (plan.eq.length === 0) return
+    const { field } = plan.range
+    return { ...plan, range: undefined, rest: { ...plan.rest, [field]: group[field] } }
+  },
+  /**
+   * Resolves the index a list sorted by `field` reads: `by_<field>`, or `by_org_<field>` (led by `orgId`) for org lists.
+   * Skipped when the table's indexes are unknown because `setup` got no `schema`.
+   * @param indexes - Index definitions declared on the table
+   * @param field - Field to sort by
+   * @param org - Whether the list is scoped to an org
+   * @returns The index name
+   * @throws INVALID_ORDER_BY when the table declares no index for the field
+   */
+  orderIndex = (indexes: IndexDef[], field: string, org?: boolean): string => {
+    const name = org ? `by_org_${field}` : `by_${field}`,
+      lead = org ? ['orgId', field] : [field]
+    if (indexes.length === 0) return name
+    const ix = indexes.find(i => i.name === name)
+    return ix && lead.every((f, n) => ix.fields[n] === f) ? name : err('INVALID_ORDER_BY', { field })
+  },
+  /**
+   * Applies a plan's equality prefix and range bounds to a Convex index range builder.
+   * @param ib - Index range builder passed to `withIndex`
+   * @param plan - Plan returned by `planIndex`
+   * @returns The narrowed index range
+   */
+  applyPlan = (ib: IndexLike, plan: QueryPlan): IndexLike => {
+    let r = ib
+    for (const [f, val] of plan.eq) r = r.eq(f, val)
+    if (plan.range?.lower) r = r[plan.range.lower[0]](plan.range.field, plan.range.lower[1])
+    if (plan.range?.upper) r = r[plan.range.upper[0]](plan.range.field, plan.range.upper[1])
+    return r
+  }
+
+export type { QueryPlan }
+export { applyPlan, eqOnly, orderIndex, planIndex, tableIndexes }
@@ -11,12 +11,15 @@ import { indexFields } from './bridge'
 import { isRecord } from './helpers'
 
 /**
- * Creates a Convex table definition from a base schema with an optional updatedAt field.
+ * Creates a Convex table definition from a base schema with optional updatedAt and revalidation lease fields.
  * @param s - Base-branded Zod schema
- * @returns Convex table definition
+ * @returns Convex table definition with by_updatedAt index for cache purging
  */
 const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
-    defineTable({ ...z2c(s.shape), updatedAt: v.optional(v.number()) }),
+    defineTable({ ...z2c(s.shape), revalidatingAt: v.optional(v.number()), updatedAt: v.optional(v.number()) }).index(
+      'by_updatedAt',
+      indexFields('updatedAt')
+    ),
   /**
    * Creates a Convex table definition for user-owned data with userId index.
    * @param s - Owned-branded Zod schema
@@ -79,12 +82,34 @@ const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
       updatedAt: v.number()
     }).index(indexName ?? `by_${indexField}`, indexFields(indexField)),
   /**
-   * Returns the full set of Convex table definitions for org infrastructure: org, orgInvite, orgJoinRequest, orgMember.
-   * @returns Object with org, orgInvite, orgJoinRequest, and orgMember table definitions
+   * Creates the companion `<table>Version` table used by `orgCrud(..., { versioned: true })`.
+   * @param table - Name of the versioned org table
+   * @returns Convex table definition with by_doc and by_org indexes
+   */
+  versionTable = (table: string) =>
+    defineTable({
+      docId: v.id(table),
+      orgId: v.id('org'),
+      snapshot: v.any(),
+      userId: v.id('users'),
+      version: v.number()
+    })
+      .index('by_doc', indexFields('docId', 'version'))
+      .index('by_org', indexFields('orgId')),
+  /**
+   * Returns the full set of Convex table definitions for org infrastructure: org, orgExport, orgInvite,
+   * orgInviteLink, orgJoinRequest, orgMember, orgWebhook, orgWebhookDelivery.
+   * @returns Object with org, orgExport, orgInvite, orgInviteLink, orgJoinRequest, orgMember, orgWebhook, and
+   * orgWebhookDelivery table definitions
    */
   orgTables = () => ({
     org: defineTable({
       avatarId: v.optional(v.id('_storage')),
+      joinDomains: v.optional(v.array(v.string())),
+      joinPolicy: v.optional(
+        v.union(v.literal('closed'), v.literal('domain'), v.literal('open'), v.literal('request'))
+      ),
+      joinRole: v.optional(v.string()),
       name: v.string(),
       slug: v.string(),
       updatedAt: v.number(),
@@ -92,12 +117,31 @@ const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
     })
       .index('by_slug', ['slug'])
       .index('by_user', ['userId']),
+    orgExport: defineTable({
+      orgId: v.id('org'),
+      storageId: v.id('_storage'),
+      userId: v.id('users')
+    }).index('by_org', ['orgId']),
     orgInvite: defineTable({
       email: v.string(),
       expiresAt: v.number(),
       isAdmin: v.boolean(),
       orgId: v.id('org'),
-      token: v.string()
+      role: v.optional(v.string()),
+      token: v.string(),
+      userId: v.optional(v.id('users'))
+    })
+      .index('by_org', ['orgId'])
+      .index('by_token', ['token']),
+    orgInviteLink: defineTable({
+      expiresAt: v.number(),
+      isAdmin: v.boolean(),
+      maxUses: v.optional(v.number()),
+      orgId: v.id('org'),
+      role: v.optional(v.string()),
+      token: v.string(),
+      userId: v.id('users'),
+      uses: v.number()
     })
       .index('by_org', ['orgId'])
       .index('by_token', ['token']),
@@ -113,12 +157,42 @@ const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
     orgMember: defineTable({
       isAdmin: v.boolean(),
       orgId: v.id('org'),
+      role: v.optional(v.string()),
       updatedAt: v.number(),
       userId: v.id('users')
     })
       .index('by_org', ['orgId'])
       .index('by_org_user', ['orgId', 'userId'])
-      .index('by_user', ['userId'])
+      .index('by_user', ['userId']),
+    orgWebhook: defineTable({
+      events: v.array(v.string()),
+      orgId: v.id('org'),
+      secret: v.string(),
+      updatedAt: v.number(),
+      url: v.string(),
+      userId: v.id('users')
+    }).index('by_org', ['orgId']),
+    orgWebhookDelivery: defineTable({
+      docId: v.string(),
+      event: v.string(),
+      orgId: v.id('org'),
+      webhookId: v.id('orgWebhook')
+    })
+      .index('by_org', ['orgId'])
+      .index('by_webhook', ['webhookId'])
+  }),
+  /**
+   * Returns a Convex table definition for `cacheCrud` negative caching: keys a fetcher reported as not found.
+   * @returns Object with a cacheMiss table definition
+   */
+  cacheMissTable = () => ({
+    cacheMiss: defineTable({
+      key: v.string(),
+      table: v.string(),
+      updatedAt: v.number()
+    })
+      .index('by_table_key', ['table', 'key'])
+      .index('by_table_updated', ['table', 'updatedAt'])
   }),
   /**
    * Returns a Convex table definition for the rate limiting table with a composite table+key index.
@@ -133,12 +207,20 @@ const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
     }).index('by_table_key', ['table', 'key'])
   }),
   /**
-   * Returns Convex table definitions for chunked file upload infrastructure: uploadChunk, uploadRateLimit, uploadSession.
-   * @returns Object with uploadChunk, uploadRateLimit, and uploadSession table definitions
+   * Returns Convex table definitions for file upload infrastructure: inspected types, chunks, rate limits, and sessions.
+   * @returns Object with uploadCheck, uploadChunk, uploadRateLimit, and uploadSession table definitions
    */
   uploadTables = () => ({
+    uploadCheck: defineTable({
+      contentType: v.string(),
+      size: v.number(),
+      storageId: v.id('_storage'),
+      userId: v.optional(v.id('users'))
+    }).index('by_storage', ['storageId']),
     uploadChunk: defineTable({
+      checksum: v.optional(v.string()),
       chunkIndex: v.number(),
+      size: v.optional(v.number()),
       storageId: v.id('_storage'),
       totalChunks: v.number(),
       uploadId: v.string(),
@@ -163,6 +245,8 @@ const baseTable = <T extends ZodRawShape>(s: BaseSchema<T>) =>
       userId: v.id('users')
     })
       .index('by_upload_id', ['uploadId'])
+      .index('by_final_storage', ['finalStorageId'])
+      .index('by_status', ['status'])
       .index('by_user', ['userId'])
   })
 
@@ -195,6 +279,7 @@ const unsupportedTypes = new Set(['pipe', 'transform']),
 
 export {
   baseTable,
+  cacheMissTable,
   checkSchema,
   childTable,
   orgChildTable,
@@ -203,5 +288,6 @@ export {
   ownedTable,
   rateLimitTable,
   singletonTable,
-  uploadTables
+  uploadTables,
+  versionTable
 }
@@ -8,11 +8,14 @@ import { zCustomMutation, zCustomQuery } from 'convex-helpers/server/zod4'
 import type { OrgCrudOptions } from './org-crud'
 import type {
   BaseSchema,
+  CacheAccess,
   CacheHookCtx,
   CacheHooks,
   CrudHooks,
   CrudOptions,
   DbLike,
+  Effect,
+  FieldPolicies,
   GlobalHooks,
   HookCtx,
   Mb,
@@ -27,12 +30,18 @@ import type {
 
 import { typed } from './bridge'
 import { makeCacheCrud } from './cache-crud'
+import { installCascades } from './cascade'
 import { makeChildCrud } from './child'
 import { makeCrud } from './crud'
-import { dbInsert, dbPatch, err, getUser, makeUnique, ownGet, readCtx, time } from './helpers'
+import { stripFields } from './field-access'
+import { auditedDocAt, conflictErr, dbInsert, dbPatch, getUser, makeUnique, ownGet, readCtx, time } from './helpers'
+import { variantConfig } from './image-variants'
+import { installJobs, withEffects } from './jobs'
 import { composeMiddleware } from './middleware'
 import { makeOrg } from './org'
 import { makeOrgCrud } from './org-crud'
+import { withWebhooks } from './org-webhooks'
+import { tableIndexes } from './query-plan'
 import { makeSingletonCrud } from './singleton'
 
 const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined): GlobalHooks | undefined => {
@@ -157,7 +166,7 @@ const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined
   },
   /**
    * Initializes lazyconvex by wiring Convex builders, auth, hooks, and middleware into factory functions.
-   * @param config - Convex query/mutation/action builders, getAuthUserId, optional hooks, middleware, and org config
+   * @param config - Convex query/mutation/action builders, getAuthUserId, optional hooks, middleware, org config, org role registry, and jobs namespace
    * @returns Object containing `crud`, `orgCrud`, `childCrud`, `cacheCrud`, `singletonCrud`, custom builders (`pq`, `q`, `m`), and `org` endpoints
    * @example
    * const { crud, orgCrud, pq, q, m } = setup({
@@ -170,7 +179,16 @@ const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined
   setup = <DM extends GenericDataModel>(config: SetupConfig<DM>) => {
     type QCtx = GenericQueryCtx<DM>
     type MCtx = GenericMutationCtx<DM>
+    installCascades({
+      cascades: config.cascades,
+      children: config.children,
+      namespace: config.jobsNamespace,
+      schema: config.schema
+    })
+    installJobs(config.jobsNamespace)
     const { getAuthUserId } = config,
+      variants = variantConfig({ namespace: config.variantsNamespace, schema: config.schema }),
+      audited = tableIndexes(config.schema, 'audit').some(i => i.name === 'by_doc'),
       mwHooks = config.middleware && config.middleware.length > 0 ? composeMiddleware(...config.middleware) : undefined,
       gh = mergeGlobalHooks(config.hooks, mwHooks),
       authId = async (c: unknown) => getAuthUserId(typed(c)),
@@ -212,13 +230,21 @@ const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined
               return d
             },
             get,
+            // eslint-disable-next-line @typescript-eslint/max-params
             patch: async (
               id: string,
               data: ((doc: Rec) => Partial<Rec> | Promise<Partial<Rec>>) | Partial<Rec>,
-              expectedUpdatedAt?: number
+              expectedUpdatedAt?: number,
+              fields?: FieldPolicies
             ) => {
               const doc = await get(id)
-              if (expectedUpdatedAt !== undefined && doc.updatedAt !== expectedUpdatedAt) return err('CONFLICT')
+              if (expectedUpdatedAt !== undefined && doc.updatedAt !== expectedUpdatedAt) {
+                const base = audited ? await auditedDocAt(db, doc, expectedUpdatedAt) : undefined
+                return conflictErr({
+                  base: base && stripFields(base, fields, { owner: true }),
+                  current: stripFields(doc, fields, { owner: true })
+                })
+              }
               const up = typeof data === 'function' ? await data(doc) : data
               await dbPatch(db, id, { ...up, ...now })
               return { ...doc, ...up, ...now }
@@ -239,70 +265,93 @@ const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined
         makeCrud({
           builders: { cm, cq, m: typed(m) as Mb, pq: typed(pq) as Qb, q: typed(q) as Qb },
           options: opt
-            ? { ...opt, hooks: mergeHooks(gh, opt.hooks, table) }
+            ? { ...opt, hooks: withEffects(mergeHooks(gh, opt.hooks, table), opt.effects, table) }
             : gh
               ? { hooks: mergeHooks(gh, undefined, table) }
               : undefined,
+          indexes: tableIndexes(config.schema, table),
           schema,
           strictFilter: config.strictFilter,
-          table
+          table,
+          variants
         }),
       childCrud = <S extends ZodRawShape, PS extends ZodRawShape = ZodRawShape>(
         table: keyof DM & string,
         meta: { foreignKey: string; index: string; parent: string; parentSchema?: ZodObject<PS>; schema: ZodObject<S> },
-        opt?: { pub?: { parentField: keyof PS & string } }
+        opt?: { effects?: Effect[]; fields?: FieldPolicies<S>; pub?: { parentField: keyof PS & string } }
       ) =>
         makeChildCrud({
           builders: { m: typed(m) as Mb, pq: typed(pq) as Qb, q: typed(q) as Qb },
           globalHooks: gh,
           meta,
           options: opt,
-          table
+          table,
+          variants
         }),
       orgCrud = <S extends ZodRawShape>(table: keyof DM & string, schema: OrgSchema<S>, opt?: OrgCrudOptions<S>) =>
         makeOrgCrud({
+          audited,
           builders: { m: typed(m) as Mb, q: typed(q) as Qb },
-          options: opt
-            ? { ...opt, hooks: mergeHooks(gh, opt.hooks, table) }
-            : gh
-              ? { hooks: mergeHooks(gh, undefined, table) }
-              : undefined,
+          indexes: tableIndexes(config.schema, table),
+          options: {
+            ...opt,
+            hooks: opt?.webhooks
+              ? withWebhooks(withEffects(mergeHooks(gh, opt.hooks, table), opt.effects, table), table)
+              : withEffects(mergeHooks(gh, opt?.hooks, table), opt?.effects, table)
+          },
+          roles: config.orgRoles,
           schema,
-          table
+          table,
+          variants
         }),
       cacheCrud = <S extends ZodRawShape, K extends keyof S & string>(opts: {
+        access?: CacheAccess
+        batchFetcher?: (c: unknown, keys: unknown[]) => Promise<unknown[]>
+        effects?: Effect[]
         fetcher?: (c: unknown, key: unknown) => Promise<unknown>
         hooks?: CacheHooks
         key: K
+        negativeTtl?: number
         rateLimit?: { max: number; window: number }
         schema: BaseSchema<S>
+        staleTtl?: number
+        /**
+         * Serve entries for `staleTtl` past `ttl`. Only `load`, `loadMany` and `useCacheEntry` start a refresh;
+         * `get` marks the entry `stale: true` and `read` returns it as stored, and neither schedules anything.
+         */
         staleWhileRevalidate?: boolean
         table: keyof DM & string
         ttl?: number
       }) =>
         makeCacheCrud({
           ...opts,
+          authId,
           builders: {
             action: config.action,
             cm,
             cq,
+            internalAction: config.internalAction,
             internalMutation: config.internalMutation,
             internalQuery: config.internalQuery,
             mutation: config.mutation,
             query: config.query
           },
-          hooks: mergeCacheHooks(gh, opts.hooks, opts.table)
+          hooks: withEffects(mergeCacheHooks(gh, opts.hooks, opts.table), opts.effects, opts.table),
+          indexes: tableIndexes(config.schema, opts.table)
         }),
       singletonCrud = <S extends ZodRawShape>(
         table: keyof DM & string,
         schema: SingletonSchema<S>,
-        opt?: SingletonOptions
+        opt?: SingletonOptions<S>
       ) =>
         makeSingletonCrud({
+          audited,
           builders: { m: typed(m) as Mb, q: typed(q) as Qb },
+          hooks: mergeHooks(gh, undefined, table),
           options: opt,
           schema,
-          table
+          table,
+          variants
         }),
       uniqueCheck = <S extends ZodRawShape>(
         _schema: ZodObject<S>,
@@ -313,11 +362,20 @@ const mergeGlobalHooks = (a: GlobalHooks | undefined, b: GlobalHooks | undefined
       normCascade = config.orgCascadeTables?.map(t => (typeof t === 'string' ? { table: t } : t)),
       org = config.orgSchema
         ? makeOrg({
+            action: config.action,
+            appSchema: config.schema,
             cascadeTables: normCascade,
             getAuthUserId: config.getAuthUserId,
+            internalAction: config.internalAction,
+            internalMutation: config.internalMutation,
+            internalQuery: config.internalQuery,
+            inviteMailer: config.inviteMailer,
             mutation: config.mutation,
+            namespace: config.orgNamespace,
             query: config.query,
-            schema: config.orgSchema
+            roles: config.orgRoles,
+            schema: config.orgSchema,
+            variants
           })
         : undefined,
       user = { me: q({ handler: (c: Rec) => c.user }) }
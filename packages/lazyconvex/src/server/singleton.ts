@@ -3,23 +3,69 @@ import type { ZodObject, ZodRawShape } from 'zod/v4'
 
 import { number } from 'zod/v4'
 
-import type { DbLike, Mb, MutCtx, Qb, Rec, SingletonCrudResult, SingletonOptions } from './types'
+import type { VariantConfig } from './image-variants'
+import type {
+  CrudHooks,
+  DbLike,
+  HookCtx,
+  Mb,
+  MutCtx,
+  Qb,
+  Rec,
+  SingletonCrudResult,
+  SingletonOptions,
+  StorageLike
+} from './types'
 
 import { idx, typed } from './bridge'
-import { addUrls, checkRateLimit, cleanFiles, dbInsert, dbPatch, detectFiles, err, errValidation, time } from './helpers'
+import { assertWritable, stripFields } from './field-access'
+import {
+  addUrls,
+  auditedDocAt,
+  checkFiles,
+  checkRateLimit,
+  cleanFiles,
+  conflictErr,
+  dbInsert,
+  dbPatch,
+  detectFileRules,
+  detectFiles,
+  errValidation,
+  time
+} from './helpers'
+import { detectVariants, queueVariants } from './image-variants'
+import { runEffects } from './jobs'
+import { describeMutations } from './mutation-meta'
 
 const makeSingletonCrud = <S extends ZodRawShape>({
+  audited,
   builders,
+  hooks,
   options,
   schema,
-  table
+  table,
+  variants
 }: {
+  audited?: boolean
   builders: { m: Mb; q: Qb }
-  options?: SingletonOptions
+  hooks?: CrudHooks
+  options?: SingletonOptions<S>
   schema: ZodObject<S>
   table: string
+  variants?: VariantConfig
 }): SingletonCrudResult<S> => {
   const fileFs = detectFiles(schema.shape),
+    fileRules = detectFileRules(schema.shape),
+    variantSpecs = detectVariants(schema.shape, variants),
+    withUrls = async (db: DbLike, doc: Rec, storage: StorageLike) =>
+      addUrls({ db, doc, fileFields: fileFs, storage, variants: variantSpecs }),
+    strip = (doc: Rec) => stripFields(doc, options?.fields, { owner: true }),
+    hk = (c: MutCtx): HookCtx => ({
+      db: c.db,
+      scheduler: c.scheduler,
+      storage: c.storage,
+      userId: c.user._id as string
+    }),
     byUser = async (db: DbLike, userId: string) =>
       db
         .query(table)
@@ -32,7 +78,7 @@ const makeSingletonCrud = <S extends ZodRawShape>({
       handler: typed(async (c: MutCtx) => {
         const doc = await byUser(c.db, c.user._id as string)
         if (!doc) return null
-        return addUrls({ doc, fileFields: fileFs, storage: c.storage })
+        return strip(await withUrls(c.db, doc, c.storage))
       })
     }),
     upsert = builders.m({
@@ -41,26 +87,48 @@ const makeSingletonCrud = <S extends ZodRawShape>({
         if (options?.rateLimit) await checkRateLimit(c.db, { config: options.rateLimit, key: c.user._id as string, table })
 
         const existing = await byUser(c.db, c.user._id as string)
+        assertWritable(options?.fields, data, { owner: true }, `${table}:upsert`, existing ?? undefined)
+        await checkFiles({ data, db: c.db, op: `${table}:upsert`, prev: existing ?? undefined, rules: fileRules })
 
         if (existing) {
-          if (expectedUpdatedAt !== undefined && existing.updatedAt !== expectedUpdatedAt) return err('CONFLICT')
-          await cleanFiles({ doc: existing, fileFields: fileFs, next: data, storage: c.storage })
+          const id = existing._id as string
+          if (expectedUpdatedAt !== undefined && existing.updatedAt !== expectedUpdatedAt) {
+            const base = audited ? await auditedDocAt(c.db, existing, expectedUpdatedAt) : undefined
+            return conflictErr({ base: base && strip(base), current: strip(existing), op: `${table}:upsert` })
+          }
+          const patch = hooks?.beforeUpdate
+            ? await hooks.beforeUpdate(hk(c), { id, patch: data, prev: existing })
+            : data
+          await cleanFiles({ db: c.db, doc: existing, fileFields: fileFs, next: patch, storage: c.storage, variants })
           const now = time()
-          await dbPatch(c.db, existing._id as string, { ...data, ...now })
-          const updated = { ...existing, ...data, ...now }
-          return addUrls({ doc: updated, fileFields: fileFs, storage: c.storage })
+          await dbPatch(c.db, id, { ...patch, ...now })
+          await queueVariants({
+            config: variants,
+            data: patch,
+            prev: existing,
+            scheduler: c.scheduler,
+            specs: variantSpecs
+          })
+          if (hooks?.afterUpdate) await hooks.afterUpdate(hk(c), { id, patch, prev: existing })
+          const updated = { ...existing, ...patch, ...now }
+          await runEffects(c, options?.effects, { doc: updated, id, op: 'update', prev: existing, table })
+          return strip(await withUrls(c.db, updated, c.storage))
         }
 
         const parsed = schema.safeParse(data)
         if (!parsed.success) return errValidation('VALIDATION_FAILED', parsed.error)
-        const now = time(),
-          id = await dbInsert(c.db, table, { ...parsed.data, userId: c.user._id, ...now }),
+        const created = hooks?.beforeCreate ? await hooks.beforeCreate(hk(c), { data: parsed.data }) : parsed.data,
+          now = time(),
+          id = await dbInsert(c.db, table, { ...created, userId: c.user._id, ...now }),
           doc = await c.db.get(id)
-        return addUrls({ doc: doc as Rec, fileFields: fileFs, storage: c.storage })
+        await queueVariants({ config: variants, data: created, scheduler: c.scheduler, specs: variantSpecs })
+        if (hooks?.afterCreate) await hooks.afterCreate(hk(c), { data: created, id })
+        await runEffects(c, options?.effects, { doc: doc as Rec, id, op: 'create', table })
+        return strip(await withUrls(c.db, doc as Rec, c.storage))
       })
     })
 
-  return typed({ get, upsert })
+  return typed(describeMutations(table, { get, upsert }))
 }
 
 export { makeSingletonCrud }
@@ -12,6 +12,7 @@ import type { DbLike, Rec } from './types'
 import { flt, idx } from './bridge'
 import { isTestMode } from './env'
 import { generateToken, SEVEN_DAYS_MS, time } from './helpers'
+import { removeOrgWebhooks } from './org-webhooks'
 
 /** Configuration for test authentication helpers. */
 interface TestAuthConfig<DM extends GenericDataModel = GenericDataModel> {
@@ -218,6 +219,17 @@ const TEST_EMAIL = 'test@playwright.local',
               await ctx.db.delete(i._id as string)
               count += 1
             }
+            const links = await ctx.db
+              .query('orgInviteLink')
+              .withIndex(
+                'by_org',
+                idx(q => q.eq('orgId', orgId))
+              )
+              .collect()
+            for (const l of links) {
+              await ctx.db.delete(l._id as string)
+              count += 1
+            }
             const members = await ctx.db
               .query('orgMember')
               .withIndex(
@@ -430,6 +442,7 @@ const TEST_EMAIL = 'test@playwright.local',
             )
             .collect()
           for (const m of orgMembers) await ctx.db.delete(m._id as string)
+          await removeOrgWebhooks(ctx.db, orgId)
           await ctx.db.delete(orgId)
           return { success: true }
         }
@@ -14,15 +14,25 @@ import type {
 import type { GenericId } from 'convex/values'
 import type { z as _, ZodNullable, ZodNumber, ZodObject, ZodOptional, ZodRawShape } from 'zod/v4'
 
+import type { InviteMailer } from './invite-mailer'
+
 interface BaseBuilders {
   m: Mb
   pq?: Qb
   q: Qb
 }
+interface CacheAccess {
+  write?: CacheWriteRule
+}
+interface CacheAccessCtx {
+  db: DbLike
+  userId: null | string
+}
 interface CacheBuilders<DM extends GenericDataModel = GenericDataModel> {
   action: ActionBuilder<DM, 'public'>
   cm: Mb
   cq: Qb
+  internalAction?: ActionBuilder<DM, 'internal'>
   internalMutation: MutationBuilder<DM, 'internal'>
   internalQuery: QueryBuilder<DM, 'internal'>
   mutation: MutationBuilder<DM, 'public'>
@@ -30,6 +40,7 @@ interface CacheBuilders<DM extends GenericDataModel = GenericDataModel> {
 }
 interface CacheHookCtx {
   db: DbLike
+  scheduler?: SchedulerLike
 }
 interface CacheHooks {
   afterCreate?: (ctx: CacheHookCtx, args: { data: Rec; id: string }) => Promise<void> | void
@@ -41,16 +52,26 @@ interface CacheHooks {
   onFetch?: (data: Rec) => Promise<Rec> | Rec
 }
 interface CacheOptions<S extends ZodRawShape, K extends keyof _.output<ZodObject<S>> & string> {
-  fetcher?: (c: ActionCtxLike, key: _.output<ZodObject<S>>[K]) => Promise<_.output<ZodObject<S>>>
+  access?: CacheAccess
+  batchFetcher?: (c: ActionCtxLike, keys: _.output<ZodObject<S>>[K][]) => Promise<_.output<ZodObject<S>>[]>
+  effects?: Effect[]
+  fetcher?: (c: ActionCtxLike, key: _.output<ZodObject<S>>[K]) => Promise<_.output<ZodObject<S>> | null>
   hooks?: CacheHooks
   key: K
+  negativeTtl?: number
   schema: ZodObject<S>
+  staleTtl?: number
+  /** Stale reads through `get` or `read` schedule no refresh; `load` and `useCacheEntry` do. */
   staleWhileRevalidate?: boolean
   table: string
   ttl?: number
 }
 interface CascadeOption {
+  collab?: boolean
+  fileFields?: string[]
   foreignKey: string
+  index?: string
+  softDelete?: boolean
   table: string
 }
 interface ChildConfig {
@@ -60,12 +81,23 @@ interface ChildConfig {
   parentSchema?: ZodObject<ZodRawShape>
   schema: ZodObject<ZodRawShape>
 }
+interface CollabTable {
+  authorize: (ctx: MutCtx, doc: Rec, field: string) => Promise<void> | void
+  rateLimit?: RateLimitConfig
+  schema: ZodObject<ZodRawShape>
+  write: (ctx: MutCtx, doc: Rec, patch: Rec) => Promise<unknown>
+}
 interface ComparisonOp<V> {
   $between?: [V, V]
+  $contains?: V extends readonly (infer E)[] ? E : never
+  $exists?: boolean
   $gt?: V
   $gte?: V
+  $in?: V[]
   $lt?: V
   $lte?: V
+  $ne?: V
+  $startsWith?: V extends string ? string : never
 }
 interface CrudBuilders extends BaseBuilders {
   cm: Mb
@@ -83,6 +115,8 @@ interface CrudHooks {
 interface CrudOptions<S extends ZodRawShape> {
   auth?: { where?: WhereOf<S> }
   cascade?: CascadeOption[] | false
+  effects?: Effect[]
+  fields?: FieldPolicies<S>
   hooks?: CrudHooks
   pub?: { where?: WhereOf<S> }
   rateLimit?: RateLimitConfig
@@ -94,6 +128,7 @@ interface DbCtx {
 }
 interface GlobalHookCtx {
   db: DbLike
+  scheduler?: SchedulerLike
   storage?: StorageLike
   table: string
   userId?: string
@@ -108,6 +143,7 @@ interface GlobalHooks {
 }
 interface HookCtx {
   db: DbLike
+  scheduler?: SchedulerLike
   storage: StorageLike
   userId: string
 }
@@ -124,6 +160,7 @@ interface MiddlewareCtx extends GlobalHookCtx {
   operation: 'create' | 'delete' | 'update'
 }
 interface MutCtx extends UserCtx {
+  scheduler?: SchedulerLike
   storage: StorageLike
 }
 interface RateLimitConfig {
@@ -134,10 +171,20 @@ type Rec = Record<string, unknown>
 interface UserCtx extends DbCtx {
   user: Rec
 }
+interface ValueShape {
+  element?: ValueShape
+  fields?: Record<string, ValueShape>
+  isOptional?: string
+  kind: string
+  members?: ValueShape[]
+  tableName?: string
+  value?: ValueShape
+}
 const ERROR_MESSAGES = {
   ALREADY_ORG_MEMBER: 'Already a member of this organization',
   CANNOT_MODIFY_ADMIN: 'Admins cannot modify other admins',
   CANNOT_MODIFY_OWNER: 'Cannot modify the owner',
+  CHECKSUM_MISMATCH: 'Checksum mismatch',
   CHUNK_ALREADY_UPLOADED: 'Chunk already uploaded',
   CHUNK_NOT_FOUND: 'Chunk not found',
   CONFLICT: 'Conflict detected',
@@ -147,13 +194,20 @@ const ERROR_MESSAGES = {
   FORBIDDEN: 'Forbidden',
   INCOMPLETE_UPLOAD: 'Incomplete upload',
   INSUFFICIENT_ORG_ROLE: 'Insufficient permissions',
+  INVALID_ARCHIVE: 'Invalid or corrupt archive',
+  INVALID_CHUNK: 'Invalid chunk',
+  INVALID_DOMAIN: 'Invalid email domain',
   INVALID_FILE_TYPE: 'Invalid file type',
   INVALID_INVITE: 'Invalid invite',
   INVALID_MESSAGE: 'Invalid message',
+  INVALID_ORDER_BY: 'No index to sort by this field',
+  INVALID_ROLE: 'Unknown or reserved role',
   INVALID_SESSION_STATE: 'Invalid session state',
   INVALID_TOOL_ARGS: 'Invalid tool arguments',
   INVALID_WHERE: 'Invalid filters',
   INVITE_EXPIRED: 'Invite has expired',
+  INVITE_USED_UP: 'Invite link has no uses left',
+  JOIN_CLOSED: 'This organization is not accepting new members',
   JOIN_REQUEST_EXISTS: 'Join request already exists',
   LIMIT_EXCEEDED: 'Limit exceeded',
   MESSAGE_NOT_SAVED: 'Message not saved',
@@ -185,6 +239,17 @@ interface ActionCtxLike {
   runMutation: (ref: string, args: Rec) => Promise<unknown>
   runQuery: (ref: string, args: Rec) => Promise<unknown>
 }
+interface AuditChange {
+  field: string
+  from?: unknown
+  to?: unknown
+}
+type AuditOp = 'create' | 'delete' | 'update'
+interface AuditTable {
+  fields?: FieldPolicies
+  viewer: (ctx: UserCtx, doc: Rec) => Promise<{ admin?: boolean; owner?: boolean }>
+}
+type CacheWriteRule = 'admin' | 'authenticated' | ((ctx: CacheAccessCtx) => boolean | Promise<boolean>)
 interface AuthorInfo {
   [key: string]: unknown
   email?: string
@@ -195,17 +260,28 @@ interface CacheCrudResult<S extends ZodRawShape> {
   all: RegisteredQuery<'public', Rec, DocBase<S>[]>
   checkRL?: RegisteredMutation<'internal', Rec, void>
   create: RegisteredMutation<'public', Rec, string>
+  createInternal: RegisteredMutation<'internal', Rec, string>
   get: RegisteredQuery<'public', Rec, (DocBase<S> & { cacheHit: true; stale: boolean }) | null>
   getInternal: RegisteredQuery<'internal', Rec, DocBase<S> | null>
   invalidate: RegisteredMutation<'public', Rec, DocBase<S> | null>
+  invalidateInternal: RegisteredMutation<'internal', Rec, DocBase<S> | null>
   list: RegisteredQuery<'public', Rec, PaginatedResult<DocBase<S>>>
-  load: RegisteredAction<'public', Rec, _.output<ZodObject<S>> & { cacheHit: boolean }>
+  load: RegisteredAction<'public', Rec, (_.output<ZodObject<S>> & { cacheHit: boolean }) | null>
+  loadMany: RegisteredAction<'public', Rec, ((_.output<ZodObject<S>> & { cacheHit: boolean }) | null)[]>
+  lookup: RegisteredQuery<'internal', Rec, { doc: DocBase<S> | null; missed: boolean }[]>
   purge: RegisteredMutation<'public', Rec, number>
+  purgeInternal: RegisteredMutation<'internal', Rec, number>
   read: RegisteredQuery<'public', Rec, DocBase<S> | null>
-  refresh: RegisteredAction<'public', Rec, _.output<ZodObject<S>> & { cacheHit: boolean }>
+  refresh: RegisteredAction<'public', Rec, (_.output<ZodObject<S>> & { cacheHit: boolean }) | null>
+  revalidate?: RegisteredAction<'internal', Rec, void>
+  revalidateStale: RegisteredMutation<'internal', Rec, number>
   rm: RegisteredMutation<'public', Rec, DocBase<S> | null>
+  rmInternal: RegisteredMutation<'internal', Rec, DocBase<S> | null>
+  scheduleRevalidate?: RegisteredMutation<'internal', Rec, boolean>
   set: RegisteredMutation<'internal', Rec, void>
+  setMany: RegisteredMutation<'internal', Rec, void>
   update: RegisteredMutation<'public', Rec, DocBase<S>>
+  updateInternal: RegisteredMutation<'internal', Rec, DocBase<S>>
 }
 interface CanEditOpts {
   acl: boolean
@@ -214,6 +290,8 @@ interface CanEditOpts {
     userId: string
   }
   role: OrgRole
+  roles?: OrgRoles
+  table?: string
   userId: string
 }
 interface ChildCrudResult<S extends ZodRawShape> {
@@ -231,7 +309,11 @@ interface ChildCrudResult<S extends ZodRawShape> {
   update: RegisteredMutation<'public', Rec, DocBase<S> | null>
 }
 interface CrudReadApi<S extends ZodRawShape, V extends FunctionVisibility = 'public'> {
-  list: RegisteredQuery<V, { paginationOpts: PaginationOptions; where?: WhereOf<S> }, PaginatedResult<EnrichedDoc<S>>>
+  list: RegisteredQuery<
+    V,
+    { orderBy?: OrderByOf<S>; paginationOpts: PaginationOptions; where?: WhereOf<S> },
+    PaginatedResult<EnrichedDoc<S>>
+  >
   read: RegisteredQuery<V, { id: string; own?: boolean; where?: WhereOf<S> }, EnrichedDoc<S> | null>
   search?: RegisteredQuery<V, { query: string; where?: WhereOf<S> }, EnrichedDoc<S>[]>
 }
@@ -244,7 +326,9 @@ interface CrudResult<S extends ZodRawShape> {
   >
   bulkCreate: RegisteredMutation<'public', { items: _.output<ZodObject<S>>[] }, string[]>
   bulkRm: RegisteredMutation<'public', { ids: string[] }, number>
+  audit: AuditTable
   bulkUpdate: RegisteredMutation<'public', { data: Partial<_.output<ZodObject<S>>>; ids: string[] }, unknown[]>
+  collab: CollabTable
   create: RegisteredMutation<'public', _.output<ZodObject<S>>, string>
   pub: CrudReadApi<S>
   pubIndexed: RegisteredQuery<
@@ -275,6 +359,21 @@ type DocBase<S extends ZodRawShape> = _.output<ZodObject<S>> & {
   _id: string
   updatedAt: number
 }
+interface Effect {
+  delayMs?: number
+  job: string
+  on: EffectOp | EffectOp[]
+  payload?: (event: EffectEvent) => Rec
+  when?: (event: EffectEvent) => boolean
+}
+interface EffectEvent {
+  doc: Rec
+  id: string
+  op: EffectOp
+  prev?: Rec
+  table: string
+}
+type EffectOp = 'create' | 'delete' | 'update'
 type EnrichedDoc<S extends ZodRawShape> = WithUrls<
   DocBase<S> & {
     author: AuthorInfo | null
@@ -284,6 +383,12 @@ type EnrichedDoc<S extends ZodRawShape> = WithUrls<
 >
 type ErrorCode = keyof typeof ERROR_MESSAGES
 type FID = GenericId<'_storage'>
+type FieldPolicies<S extends ZodRawShape = ZodRawShape> = { [K in keyof S]?: FieldPolicy }
+interface FieldPolicy {
+  read?: FieldRule
+  write?: FieldRule
+}
+type FieldRule = 'admin' | 'none' | 'owner'
 interface FilterLike {
   and: (a: unknown, b: unknown) => unknown
   eq: (a: unknown, b: unknown) => unknown
@@ -292,11 +397,21 @@ interface FilterLike {
   gte: (a: unknown, b: unknown) => unknown
   lt: (a: unknown, b: unknown) => unknown
   lte: (a: unknown, b: unknown) => unknown
+  neq: (a: unknown, b: unknown) => unknown
   or: (a: unknown, b: unknown) => unknown
 }
+interface IndexDef {
+  fields: string[]
+  name: string
+}
 interface IndexLike {
   eq: (field: string, value: unknown) => IndexLike
+  gt: (field: string, value: unknown) => IndexLike
+  gte: (field: string, value: unknown) => IndexLike
+  lt: (field: string, value: unknown) => IndexLike
+  lte: (field: string, value: unknown) => IndexLike
 }
+type JobStatus = 'done' | 'failed' | 'pending' | 'running'
 type Mb<V extends FunctionVisibility = 'public'> = CustomBuilder<
   'mutation',
   Record<string, never>,
@@ -311,23 +426,42 @@ interface MutationCtxLike {
   db: DbLike
   storage: StorageLike
 }
+type MutationKind = 'create' | 'delete' | 'other' | 'update'
+type MutationManifest = Record<string, MutationMeta>
+interface MutationMeta {
+  idArg?: string
+  kind: MutationKind
+  table?: string
+}
+interface OrderBy {
+  dir?: 'asc' | 'desc'
+  field: string
+}
+interface OrderByOf<S extends ZodRawShape> extends OrderBy {
+  field: keyof _.output<ZodObject<S>> & string
+}
 type OrgCascadeTableConfig<DM extends GenericDataModel = GenericDataModel> =
   | (keyof DM & string)
   | { fileFields?: string[]; table: keyof DM & string }
 interface OrgCrudResult<S extends ZodRawShape> {
   addEditor: RegisteredMutation<'public', Rec, DocBase<S> | null>
+  audit: AuditTable
   bulkCreate: RegisteredMutation<'public', Rec, string[]>
   bulkRm: RegisteredMutation<'public', Rec, number>
   bulkUpdate: RegisteredMutation<'public', Rec, DocBase<S>[]>
+  collab: CollabTable
   create: RegisteredMutation<'public', Rec, string>
   editors: RegisteredQuery<'public', Rec, { email: string; name: string; userId: string }[]>
   list: RegisteredQuery<'public', Rec, PaginatedResult<OrgEnrichedDoc<S>>>
   read: RegisteredQuery<'public', Rec, OrgEnrichedDoc<S>>
+  readVersion?: RegisteredQuery<'public', Rec, VersionDoc<S>>
   removeEditor: RegisteredMutation<'public', Rec, DocBase<S> | null>
   restore?: RegisteredMutation<'public', Rec, DocBase<S>>
+  revert?: RegisteredMutation<'public', Rec, DocBase<S>>
   rm: RegisteredMutation<'public', Rec, DocBase<S>>
   setEditors: RegisteredMutation<'public', Rec, DocBase<S> | null>
   update: RegisteredMutation<'public', Rec, DocBase<S> | null>
+  versions?: RegisteredQuery<'public', Rec, PaginatedResult<VersionDoc<S>>>
 }
 type OrgEnrichedDoc<S extends ZodRawShape> = WithUrls<
   DocBase<S> & {
@@ -337,7 +471,13 @@ type OrgEnrichedDoc<S extends ZodRawShape> = WithUrls<
     userId: string
   }
 >
-type OrgRole = 'admin' | 'member' | 'owner'
+type OrgRole = 'admin' | 'member' | 'owner' | (string & {})
+interface OrgRoleDef {
+  label?: string
+  level: number
+  permissions?: readonly string[]
+}
+type OrgRoles = Record<string, OrgRoleDef>
 interface PaginatedResult<D> {
   continueCursor: string
   isDone: boolean
@@ -382,21 +522,33 @@ interface ReadCtx {
     })[]
   >
 }
+interface SchedulerLike {
+  runAfter: (delayMs: number, fn: unknown, args: Rec) => Promise<unknown>
+}
 interface SearchLike {
   search: (field: string, query: string) => unknown
 }
 interface SetupConfig<DM extends GenericDataModel = GenericDataModel> {
   action: ActionBuilder<DM, 'public'>
+  cascades?: Record<string, CascadeOption | CascadeOption[] | false>
+  children?: Record<string, ChildConfig>
   getAuthUserId: (ctx: never) => Promise<null | string>
   hooks?: GlobalHooks
+  internalAction?: ActionBuilder<DM, 'internal'>
   internalMutation: MutationBuilder<DM, 'internal'>
   internalQuery: QueryBuilder<DM, 'internal'>
+  inviteMailer?: InviteMailer
+  jobsNamespace?: string
   middleware?: Middleware[]
   mutation: MutationBuilder<DM, 'public'>
   orgCascadeTables?: OrgCascadeTableConfig<DM>[]
+  orgNamespace?: string
+  orgRoles?: OrgRoles
   orgSchema?: ZodObject<ZodRawShape>
   query: QueryBuilder<DM, 'public'>
+  schema?: { tables: Record<string, unknown> }
   strictFilter?: boolean
+  variantsNamespace?: string
 }
 interface StorageLike {
   delete: (id: string) => Promise<void>
@@ -410,6 +562,16 @@ type UrlVal<V> =
       ? null | string
       : (null | string)[]
     : never
+type VariantUrlKey<K, V> = NonNullable<V> extends FID ? `${K & string}Urls` : never
+interface VersionDoc<S extends ZodRawShape> {
+  _creationTime: number
+  _id: string
+  docId: string
+  orgId: string
+  snapshot: Partial<_.output<ZodObject<S>>>
+  userId: string
+  version: number
+}
 type WhereFieldValue<V> = ComparisonOp<V> | V
 type WhereGroupOf<S extends ZodRawShape> = {
   [K in keyof _.output<ZodObject<S>>]?: WhereFieldValue<_.output<ZodObject<S>>[K]>
@@ -419,7 +581,9 @@ type WhereGroupOf<S extends ZodRawShape> = {
 type WhereOf<S extends ZodRawShape> = WhereGroupOf<S> & {
   or?: WhereGroupOf<S>[]
 }
-type WithUrls<D> = D & { [K in keyof D as UrlKey<K, D[K]>]: UrlVal<D[K]> }
+type WithUrls<D> = D & { [K in keyof D as UrlKey<K, D[K]>]: UrlVal<D[K]> } & {
+  [K in keyof D as VariantUrlKey<K, D[K]>]?: Record<string, null | string>
+}
 // eslint-disable-next-line @typescript-eslint/naming-convention
 declare const __brand: unique symbol
 /** Validates a schema has the expected brand, returning the schema type on success or an error message type on failure. */
@@ -468,7 +632,9 @@ interface SingletonCrudResult<S extends ZodRawShape> {
   upsert: RegisteredMutation<'public', Rec, SingletonDoc<S>>
 }
 type SingletonDoc<S extends ZodRawShape> = WithUrls<DocBase<S> & { userId: string }>
-interface SingletonOptions {
+interface SingletonOptions<S extends ZodRawShape = ZodRawShape> {
+  effects?: Effect[]
+  fields?: FieldPolicies<S>
   rateLimit?: RateLimitConfig
 }
 type SingletonSchema<T extends ZodRawShape> = SchemaBrand<'singleton'> & ZodObject<T>
@@ -479,6 +645,12 @@ export type {
   ActionCtxLike,
   /** Validates a schema has the expected brand, producing a descriptive error on mismatch. */
   AssertSchema,
+  /** Single field change recorded in an audit entry. */
+  AuditChange,
+  /** Operation recorded by the audit trail. */
+  AuditOp,
+  /** A table's field policies and read check, handed to `makeAudit` so `history` shows only what the reader may see. */
+  AuditTable,
   /** Author information containing user metadata like name, email, and image. */
   AuthorInfo,
   /** Base builders for query and mutation functions. */
@@ -487,6 +659,10 @@ export type {
   BaseSchema,
   /** Readable brand labels for error messages. */
   BrandLabelMap,
+  /** Write policy for cache CRUD endpoints. */
+  CacheAccess,
+  /** Context passed to a custom cache write policy: database and the caller's user id, if signed in. */
+  CacheAccessCtx,
   /** Builders for cache CRUD operations. */
   CacheBuilders,
   /** Result type for cache CRUD factory with all generated endpoints. */
@@ -497,14 +673,18 @@ export type {
   CacheHooks,
   /** Configuration options for cache CRUD factory. */
   CacheOptions,
+  /** Who may call cache CRUD write endpoints: `admin` (server only), `authenticated`, or a predicate. */
+  CacheWriteRule,
   /** Options for checking if a user can edit a document with ACL. */
   CanEditOpts,
-  /** Configuration for cascade delete on related tables. */
+  /** Child table edge in the cascade graph: foreign key, index, file fields, and soft-delete support. */
   CascadeOption,
   /** Configuration for child table relationships. */
   ChildConfig,
   /** Result type for child CRUD factory with all generated endpoints. */
   ChildCrudResult,
+  /** A table's schema and update path, handed to `makeCollab` to save collab text in batches like any update. */
+  CollabTable,
   /** Comparison operators for where clause filtering. */
   ComparisonOp,
   /** Builders for CRUD operations with pagination. */
@@ -527,12 +707,24 @@ export type {
   DetectBrand,
   /** Base document type with id, creation time, and update timestamp. */
   DocBase,
+  /** Durable job enqueued after a factory write commits; see `makeJobs`. */
+  Effect,
+  /** Write passed to an effect's `when` and `payload` callbacks. */
+  EffectEvent,
+  /** Write operation an effect listens to. */
+  EffectOp,
   /** Document enriched with author info, ownership flag, and file URLs. */
   EnrichedDoc,
   /** Union type of all possible error codes. */
   ErrorCode,
   /** File ID type for storage references. */
   FID,
+  /** Per-field read/write rules declared in factory `fields` options. */
+  FieldPolicies,
+  /** Read and write rules for one field. */
+  FieldPolicy,
+  /** Who may access a field: doc `owner`, org `admin`, or `none` through generated endpoints. */
+  FieldRule,
   /** Filter builder interface for query construction. */
   FilterLike,
   /** Context for global hooks with database and storage access. */
@@ -541,8 +733,12 @@ export type {
   GlobalHooks,
   /** Context for CRUD hooks with database, storage, and user info. */
   HookCtx,
+  /** Index name and fields declared on a table, used by the query planner. */
+  IndexDef,
   /** Index builder interface for query optimization. */
   IndexLike,
+  /** Lifecycle state of a row in the `jobs` table. */
+  JobStatus,
   /** Mutation builder type for public visibility. */
   Mb,
   /** Middleware for intercepting CRUD operations. */
@@ -551,16 +747,30 @@ export type {
   MiddlewareCtx,
   /** Context for mutation functions with auth and storage. */
   MutationCtxLike,
+  /** What a mutation does to its table's rows; `other` means it has no optimistic effect on lists. */
+  MutationKind,
+  /** Mutation metadata keyed by function name (`blog:update`), as written by `lazyconvex codegen-meta`. */
+  MutationManifest,
+  /** Operation kind, table, and id arg of a mutation, attached by the factories or `withMeta`. */
+  MutationMeta,
   /** Mutation context with user info and storage. */
   MutCtx,
+  /** Sort argument for list endpoints, backed by a `by_<field>` (or `by_org_<field>`) index. */
+  OrderBy,
+  /** Sort argument restricted to the fields of a schema. */
+  OrderByOf,
   /** Configuration for org cascade delete tables. */
   OrgCascadeTableConfig,
   /** Result type for org CRUD factory with all generated endpoints. */
   OrgCrudResult,
   /** Org-scoped document enriched with author info and org ID. */
   OrgEnrichedDoc,
-  /** Organization role type: admin, member, or owner. */
+  /** Organization role name: the built-in admin, member, or owner, or a custom role from the registry. */
   OrgRole,
+  /** Custom org role definition: numeric level, named permissions, and optional display label. */
+  OrgRoleDef,
+  /** Org role registry keyed by role name, passed to `setup({ orgRoles })`. */
+  OrgRoles,
   /** Schema branded as org type for org CRUD operations. */
   OrgSchema,
   /** Minimal user shape for org operations. */
@@ -583,6 +793,8 @@ export type {
   ReadCtx,
   /** Generic record type for flexible data structures. */
   Rec,
+  /** Scheduler available on mutation contexts, used to enqueue jobs after commit. */
+  SchedulerLike,
   /** Schema brand marker for type safety. */
   SchemaBrand,
   /** Search builder interface for full-text search. */
@@ -603,6 +815,10 @@ export type {
   StorageLike,
   /** User context with database and user info. */
   UserCtx,
+  /** Convex validator as read from a schema's `tables[name].validator`: kind, nested fields, and id table. */
+  ValueShape,
+  /** Snapshot of an org document stored by `orgCrud(..., { versioned: true })`. */
+  VersionDoc,
   /** Where clause group for filtering with optional OR. */
   WhereGroupOf,
   /** Where clause for filtering with comparison operators. */
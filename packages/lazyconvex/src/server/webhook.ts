@@ -0,0 +1,79 @@
+/** Job name used for org webhook deliveries; handled by every `makeJobs` runner. */
+const WEBHOOK_JOB = 'org.webhook',
+  /** Default window in which `verifyWebhook` accepts a delivery timestamp. */
+  WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000,
+  HEX = 16,
+  encoder = new TextEncoder(),
+  /**
+   * Computes the hex HMAC-SHA256 signature of `${timestamp}.${body}`.
+   * @param secret - Webhook signing secret
+   * @param timestamp - Delivery timestamp in milliseconds, sent as `x-webhook-timestamp`
+   * @param body - Raw request body
+   * @returns Hex digest, sent as `x-webhook-signature: sha256=<digest>`
+   */
+  signWebhook = async (secret: string, timestamp: number, body: string): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { hash: 'SHA-256', name: 'HMAC' }, false, [
+        'sign'
+      ]),
+      sig = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)))
+    let hex = ''
+    for (const b of sig) hex += b.toString(HEX).padStart(2, '0')
+    return hex
+  },
+  /**
+   * Checks a received webhook against its signing secret. Use it in the receiving service.
+   * @param opts - Raw body, secret, and the `x-webhook-signature` / `x-webhook-timestamp` header values
+   * @returns True when the signature matches and the timestamp is within `toleranceMs` of now
+   * @example
+   * const ok = await verifyWebhook({
+   *   body: await req.text(),
+   *   secret: process.env.WEBHOOK_SECRET,
+   *   signature: req.headers.get('x-webhook-signature'),
+   *   timestamp: req.headers.get('x-webhook-timestamp')
+   * })
+   */
+  verifyWebhook = async ({
+    body,
+    secret,
+    signature,
+    timestamp,
+    toleranceMs = WEBHOOK_TOLERANCE_MS
+  }: {
+    body: string
+    secret: string
+    signature: null | string
+    timestamp: null | string
+    toleranceMs?: number
+  }): Promise<boolean> => {
+    const ts = Number(timestamp)
+    if (!(signature && Number.isFinite(ts)) || Math.abs(Date.now() - ts) > toleranceMs) return false
+    const expected = `sha256=${await signWebhook(secret, ts, body)}`
+    if (expected.length !== signature.length) return false
+    let diff = 0
+    for (let i = 0; i < expected.length; i += 1) diff |= (expected.codePointAt(i) ?? 0) ^ (signature.codePointAt(i) ?? 0)
+    return diff === 0
+  },
+  /**
+   * POSTs a delivery, signed with the current time so retries carry a fresh timestamp. Non-2xx responses throw so
+   * `makeJobs` retries them.
+   * @param payload - Job payload written when the delivery was enqueued
+   * @param hook - The webhook's current url and signing secret
+   */
+  deliverWebhook = async (payload: Record<string, unknown>, hook: { secret: string; url: string }) => {
+    const { body, deliveryId, event } = payload as { body: string; deliveryId: string; event: string },
+      timestamp = Date.now(),
+      res = await fetch(hook.url, {
+        body,
+        headers: {
+          'content-type': 'application/json',
+          'x-webhook-event': event,
+          'x-webhook-id': deliveryId,
+          'x-webhook-signature': `sha256=${await signWebhook(hook.secret, timestamp, body)}`,
+          'x-webhook-timestamp': String(timestamp)
+        },
+        method: 'POST'
+      })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  }
+
+export { deliverWebhook, signWebhook, verifyWebhook, WEBHOOK_JOB, WEBHOOK_TOLERANCE_MS }
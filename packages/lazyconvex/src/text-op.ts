@@ -0,0 +1,151 @@
+/** One step of a text operation: keep `n` chars, insert a string, or delete `{ d }` chars. */
+type TextComponent = number | string | { d: number }
+/** A text operation over a whole string; anything past its last component is kept as is. */
+type TextOp = TextComponent[]
+/** A logged operation as clients receive it. */
+interface CollabOp {
+  clientId: string
+  op: TextOp
+  rev: number
+}
+/** Collab state of one field: the text at `rev` (only on first read or after a gap) and the ops after `since`. */
+interface CollabRead {
+  content?: string
+  ops: CollabOp[]
+  rev: number
+}
+
+const isRetain = (c: TextComponent): c is number => typeof c === 'number',
+  isInsert = (c: TextComponent): c is string => typeof c === 'string',
+  lengthOf = (c: TextComponent) => (isRetain(c) ? c : isInsert(c) ? c.length : c.d),
+  /** Reads an op one component at a time, splitting components on demand; past the end it yields retains. */
+  iterate = (op: TextOp) => {
+    let i = 0,
+      offset = 0
+    const peek = () => op[i],
+      peekLength = () => {
+        const c = peek()
+        return c === undefined ? Number.POSITIVE_INFINITY : lengthOf(c) - offset
+      },
+      next = (max = Number.POSITIVE_INFINITY): TextComponent => {
+        const c = peek()
+        if (c === undefined) return max
+        const len = Math.min(lengthOf(c) - offset, max),
+          start = offset
+        offset += len
+        if (offset === lengthOf(c)) {
+          i += 1
+          offset = 0
+        }
+        return isRetain(c) ? len : isInsert(c) ? c.slice(start, start + len) : { d: len }
+      }
+    return { hasNext: () => i < op.length, next, peek, peekLength }
+  },
+  /** Merges neighbouring components of the same kind and drops empty ones and the trailing retain. */
+  normalizeTextOp = (op: TextOp): TextOp => {
+    const out: TextOp = []
+    for (const c of op) {
+      const prev = out.at(-1)
+      if (lengthOf(c) > 0)
+        if (prev !== undefined && isRetain(prev) && isRetain(c)) out[out.length - 1] = prev + c
+        else if (prev !== undefined && isInsert(prev) && isInsert(c)) out[out.length - 1] = prev + c
+        else if (prev !== undefined && !isRetain(prev) && !isInsert(prev) && !isRetain(c) && !isInsert(c))
+          out[out.length - 1] = { d: prev.d + c.d }
+        else out.push(c)
+    }
+    const last = out.at(-1)
+    if (last !== undefined && isRetain(last)) out.pop()
+    return out
+  },
+  /** Number of chars an op reads: its retains and deletes. */
+  baseLength = (op: TextOp) => op.reduce<number>((n, c) => n + (isInsert(c) ? 0 : lengthOf(c)), 0),
+  /**
+   * Applies an op to a string.
+   * @throws When the op reads past the end of the text
+   */
+  applyTextOp = (text: string, op: TextOp): string => {
+    if (baseLength(op) > text.length) throw new Error('Text operation is longer than the text')
+    let out = '',
+      pos = 0
+    for (const c of op)
+      if (isRetain(c)) {
+        out += text.slice(pos, pos + c)
+        pos += c
+      } else if (isInsert(c)) out += c
+      else pos += c.d
+    return out + text.slice(pos)
+  },
+  /**
+   * Rewrites `op` to apply after `against`, both made on the same text. On inserts at the same spot, `side: 'left'`
+   * puts `op`'s text first.
+   */
+  transformTextOp = (op: TextOp, against: TextOp, side: 'left' | 'right'): TextOp => {
+    const a = iterate(op),
+      b = iterate(against),
+      out: TextOp = []
+    while (a.hasNext() || b.hasNext()) {
+      const ca = a.peek(),
+        cb = b.peek()
+      if (ca !== undefined && isInsert(ca) && (side === 'left' || cb === undefined || !isInsert(cb))) out.push(a.next())
+      else if (cb !== undefined && isInsert(cb)) out.push((b.next() as string).length)
+      else {
+        const len = Math.min(a.peekLength(), b.peekLength()),
+          na = a.next(len),
+          nb = b.next(len)
+        if (isRetain(nb)) out.push(na)
+      }
+    }
+    return normalizeTextOp(out)
+  },
+  /** Combines `a` then `b` into one op. */
+  composeTextOps = (a: TextOp, b: TextOp): TextOp => {
+    const ia = iterate(a),
+      ib = iterate(b),
+      out: TextOp = []
+    while (ia.hasNext() || ib.hasNext()) {
+      const ca = ia.peek(),
+        cb = ib.peek()
+      if (cb !== undefined && isInsert(cb)) out.push(ib.next())
+      else if (ca !== undefined && !isRetain(ca) && !isInsert(ca)) out.push(ia.next())
+      else {
+        const len = Math.min(ia.peekLength(), ib.peekLength()),
+          na = ia.next(len),
+          nb = ib.next(len)
+        if (isRetain(nb)) out.push(na)
+        else if (isRetain(na)) out.push({ d: len })
+      }
+    }
+    return normalizeTextOp(out)
+  },
+  /** Smallest single-edit op turning `prev` into `next`: common prefix and suffix are kept. */
+  diffText = (prev: string, next: string): TextOp => {
+    let start = 0
+    while (start < prev.length && start < next.length && prev[start] === next[start]) start += 1
+    let end = 0
+    while (
+      end < prev.length - start &&
+      end < next.length - start &&
+      prev[prev.length - 1 - end] === next[next.length - 1 - end]
+    )
+      end += 1
+    return normalizeTextOp([start, { d: prev.length - start - end }, next.slice(start, next.length - end)])
+  },
+  /** Moves a cursor position across an op; a cursor at an insert point stays before the inserted text. */
+  transformPosition = (pos: number, op: TextOp): number => {
+    let at = 0,
+      moved = pos
+    for (const c of op) {
+      if (at > pos) break
+      if (isRetain(c)) at += c
+      else if (isInsert(c)) {
+        if (at < pos) moved += c.length
+      } else {
+        moved -= Math.min(c.d, pos - at)
+        at += c.d
+      }
+    }
+    return Math.max(0, moved)
+  }
+
+export type { CollabOp, CollabRead, TextComponent, TextOp }
+export { applyTextOp, baseLength, composeTextOps, diffText, normalizeTextOp, transformPosition, transformTextOp }
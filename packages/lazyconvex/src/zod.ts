@@ -1,5 +1,7 @@
 import type { core, output, ZodObject, ZodRawShape, ZodType } from 'zod/v4'
 
+import type { FileRules, ImageVariant } from './file-type'
+
 type CvMeta = 'file' | 'files'
 type DefType = core.$ZodTypeDef['type']
 type ZodSchema = ZodType
@@ -65,6 +67,32 @@ const WRAPPERS: ReadonlySet<DefType> = new Set<DefType>([
     if (cv) return cv
     if (isArrayType(type) && cvMetaOf(elementOf(s) as undefined | ZodSchema) === 'file') return 'files'
   },
+  rulesOf = (schema: unknown): FileRules | undefined => {
+    const m = (schema as undefined | ZodSchema)?.meta?.() as undefined | { accept?: string[]; maxSize?: number }
+    if (!(m?.accept || m?.maxSize !== undefined)) return
+    const rules: FileRules = {}
+    if (m.accept) rules.accept = m.accept
+    if (m.maxSize !== undefined) rules.maxSize = m.maxSize
+    return rules
+  },
+  /** Reads the `accept` and `maxSize` constraints of a `cvFile`/`cvFiles` field, from the array or its element. */
+  fileRulesOf = (schema: unknown): FileRules | undefined => {
+    if (!cvFileKindOf(schema)) return
+    const { schema: s, type } = unwrapZod(schema)
+    return rulesOf(s) ?? (isArrayType(type) ? rulesOf(elementOf(s)) : undefined)
+  },
+  /** Reads the image variants declared with `cvFile({ variants })`; only single-file fields have them. */
+  fileVariantsOf = (schema: unknown): Record<string, ImageVariant> | undefined => {
+    if (cvFileKindOf(schema) !== 'file') return
+    const { schema: s } = unwrapZod(schema),
+      m = s?.meta() as undefined | { variants?: Record<string, ImageVariant> }
+    return m?.variants && Object.keys(m.variants).length ? m.variants : undefined
+  },
+  /** Checks if a schema is a `collabText()` field, through optional/nullable wrappers. */
+  isCollabText = (schema: unknown): boolean =>
+    (unwrapZod(schema).schema?.meta() as undefined | { cv?: unknown })?.cv === 'collab',
+  /** Lists the `collabText()` fields of an object shape. */
+  collabFieldsOf = (shape: ZodRawShape): string[] => Object.keys(shape).filter(k => isCollabText(shape[k])),
   /** Converts enum options to label-value pairs for form rendering. */
   enumToOptions = <T extends string>(
     schema: { options: readonly T[] },
@@ -138,14 +166,18 @@ const WRAPPERS: ReadonlySet<DefType> = new Set<DefType>([
 export type { CvMeta, DefType, ZodSchema }
 export {
   coerceOptionals,
+  collabFieldsOf,
   cvFileKindOf,
   cvMetaOf,
   defaultValue,
   defaultValues,
   elementOf,
   enumToOptions,
+  fileRulesOf,
+  fileVariantsOf,
   isArrayType,
   isBooleanType,
+  isCollabText,
   isDateType,
   isNumberType,
   isOptionalField,